@@ -0,0 +1,51 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = ${table} AND column_name = ${column}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding Agent IVR Menus`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. Agent.ivrMenu
+    // ============================================
+    console.log('1. Checking ivrMenu column...');
+    if (!(await columnExists('Agent', 'ivrMenu'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Agent"
+        ADD COLUMN "ivrMenu" JSONB;
+      `;
+      console.log('   ✓ Added ivrMenu column');
+    } else {
+      console.log('   ✓ ivrMenu column already exists');
+    }
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,82 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding LLM Provider Fields to Agent Table`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. Add llmBaseUrl column
+    // ============================================
+    console.log('1. Checking llmBaseUrl column...');
+    const baseUrlCheck = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+      SELECT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'Agent' AND column_name = 'llmBaseUrl'
+      ) as exists;
+    `;
+
+    if (!baseUrlCheck[0].exists) {
+      console.log('   Adding llmBaseUrl column...');
+      await prisma.$executeRaw`
+        ALTER TABLE "Agent"
+        ADD COLUMN "llmBaseUrl" TEXT;
+      `;
+      console.log('   ✓ Added llmBaseUrl column');
+    } else {
+      console.log('   ✓ llmBaseUrl column already exists');
+    }
+
+    // ============================================
+    // 2. Add llmApiKey column
+    // ============================================
+    console.log('2. Checking llmApiKey column...');
+    const apiKeyCheck = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+      SELECT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'Agent' AND column_name = 'llmApiKey'
+      ) as exists;
+    `;
+
+    if (!apiKeyCheck[0].exists) {
+      console.log('   Adding llmApiKey column...');
+      await prisma.$executeRaw`
+        ALTER TABLE "Agent"
+        ADD COLUMN "llmApiKey" TEXT;
+      `;
+      console.log('   ✓ Added llmApiKey column');
+    } else {
+      console.log('   ✓ llmApiKey column already exists');
+    }
+
+    // ============================================
+    // 3. Default llmModel to gpt-4o-mini
+    // ============================================
+    // Only new agents pick this up; stored llmModel values are left as they are
+    console.log('3. Updating llmModel default...');
+    await prisma.$executeRaw`
+      ALTER TABLE "Agent"
+      ALTER COLUMN "llmModel" SET DEFAULT 'gpt-4o-mini';
+    `;
+    console.log('   ✓ Default set to gpt-4o-mini');
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,114 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function tableExists(table: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.tables
+      WHERE table_name = ${table}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding Agent Tools and Tool Invocation Log`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. AgentTool table
+    // ============================================
+    console.log('1. Checking AgentTool table...');
+    if (!(await tableExists('AgentTool'))) {
+      await prisma.$executeRaw`
+        CREATE TABLE "AgentTool" (
+          "id" TEXT NOT NULL,
+          "name" TEXT NOT NULL,
+          "description" TEXT NOT NULL,
+          "parameters" JSONB NOT NULL,
+          "method" TEXT NOT NULL DEFAULT 'POST',
+          "url" TEXT NOT NULL,
+          "headers" TEXT,
+          "responseTemplate" TEXT,
+          "timeoutMs" INTEGER NOT NULL DEFAULT 5000,
+          "isActive" BOOLEAN NOT NULL DEFAULT true,
+          "agentId" TEXT NOT NULL,
+          "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          "updatedAt" TIMESTAMP(3) NOT NULL,
+
+          CONSTRAINT "AgentTool_pkey" PRIMARY KEY ("id")
+        );
+      `;
+
+      await prisma.$executeRaw`
+        ALTER TABLE "AgentTool" ADD CONSTRAINT "AgentTool_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "Agent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+      `;
+      console.log('   ✓ Created AgentTool table');
+    } else {
+      console.log('   ✓ AgentTool table already exists');
+    }
+
+    await prisma.$executeRaw`
+      CREATE UNIQUE INDEX IF NOT EXISTS "AgentTool_agentId_name_key"
+      ON "AgentTool"("agentId", "name");
+    `;
+    console.log('   ✓ AgentTool name index ready');
+
+    // ============================================
+    // 2. ToolInvocation table
+    // ============================================
+    console.log('2. Checking ToolInvocation table...');
+    if (!(await tableExists('ToolInvocation'))) {
+      await prisma.$executeRaw`
+        CREATE TABLE "ToolInvocation" (
+          "id" TEXT NOT NULL,
+          "toolName" TEXT NOT NULL,
+          "arguments" JSONB NOT NULL,
+          "method" TEXT NOT NULL,
+          "url" TEXT NOT NULL,
+          "status" TEXT NOT NULL,
+          "responseStatus" INTEGER,
+          "result" TEXT,
+          "error" TEXT,
+          "durationMs" INTEGER NOT NULL,
+          "callId" TEXT NOT NULL,
+          "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+          CONSTRAINT "ToolInvocation_pkey" PRIMARY KEY ("id")
+        );
+      `;
+
+      await prisma.$executeRaw`
+        ALTER TABLE "ToolInvocation" ADD CONSTRAINT "ToolInvocation_callId_fkey" FOREIGN KEY ("callId") REFERENCES "Call"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+      `;
+      console.log('   ✓ Created ToolInvocation table');
+    } else {
+      console.log('   ✓ ToolInvocation table already exists');
+    }
+
+    await prisma.$executeRaw`
+      CREATE INDEX IF NOT EXISTS "ToolInvocation_callId_idx"
+      ON "ToolInvocation"("callId");
+    `;
+    console.log('   ✓ ToolInvocation index ready');
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
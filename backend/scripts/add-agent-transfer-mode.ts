@@ -0,0 +1,47 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding transferMode to Agent Table`);
+  console.log(`========================================\n`);
+
+  try {
+    // Check if transferMode column exists
+    console.log('Checking if transferMode column exists...');
+    const columnCheck = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+      SELECT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'Agent' AND column_name = 'transferMode'
+      ) as exists;
+    `;
+
+    if (!columnCheck[0].exists) {
+      console.log('Adding transferMode column to Agent table...');
+      await prisma.$executeRaw`
+        ALTER TABLE "Agent"
+        ADD COLUMN "transferMode" TEXT NOT NULL DEFAULT 'cold';
+      `;
+      console.log('✓ Added transferMode column (default: cold)');
+    } else {
+      console.log('✓ transferMode column already exists');
+    }
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('Database update failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
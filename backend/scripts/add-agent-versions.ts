@@ -0,0 +1,156 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { snapshotAgent } from '../src/services/agent-versions.service';
+
+const prisma = new PrismaClient();
+
+async function tableExists(table: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.tables
+      WHERE table_name = ${table}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = ${table} AND column_name = ${column}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding Agent Versions`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. AgentVersion table
+    // ============================================
+    console.log('1. Checking AgentVersion table...');
+    if (!(await tableExists('AgentVersion'))) {
+      await prisma.$executeRaw`
+        CREATE TABLE "AgentVersion" (
+          "id" TEXT NOT NULL,
+          "version" INTEGER NOT NULL,
+          "config" JSONB NOT NULL,
+          "note" TEXT,
+          "agentId" TEXT NOT NULL,
+          "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+          CONSTRAINT "AgentVersion_pkey" PRIMARY KEY ("id")
+        );
+      `;
+
+      await prisma.$executeRaw`
+        ALTER TABLE "AgentVersion" ADD CONSTRAINT "AgentVersion_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "Agent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+      `;
+      console.log('   ✓ Created AgentVersion table');
+    } else {
+      console.log('   ✓ AgentVersion table already exists');
+    }
+
+    await prisma.$executeRaw`
+      CREATE UNIQUE INDEX IF NOT EXISTS "AgentVersion_agentId_version_key"
+      ON "AgentVersion"("agentId", "version");
+    `;
+    console.log('   ✓ AgentVersion index ready');
+
+    // ============================================
+    // 2. Agent.currentVersionId
+    // ============================================
+    console.log('2. Checking currentVersionId column...');
+    if (!(await columnExists('Agent', 'currentVersionId'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Agent"
+        ADD COLUMN "currentVersionId" TEXT;
+      `;
+      console.log('   ✓ Added currentVersionId column');
+    } else {
+      console.log('   ✓ currentVersionId column already exists');
+    }
+
+    // ============================================
+    // 3. Call.agentVersionId and Message.agentVersionId
+    // ============================================
+    console.log('3. Checking Call.agentVersionId column...');
+    if (!(await columnExists('Call', 'agentVersionId'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Call"
+        ADD COLUMN "agentVersionId" TEXT;
+      `;
+      await prisma.$executeRaw`
+        ALTER TABLE "Call" ADD CONSTRAINT "Call_agentVersionId_fkey" FOREIGN KEY ("agentVersionId") REFERENCES "AgentVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+      `;
+      console.log('   ✓ Added Call.agentVersionId column');
+    } else {
+      console.log('   ✓ Call.agentVersionId column already exists');
+    }
+
+    await prisma.$executeRaw`
+      CREATE INDEX IF NOT EXISTS "Call_agentVersionId_idx"
+      ON "Call"("agentVersionId");
+    `;
+    console.log('   ✓ Call.agentVersionId index ready');
+
+    console.log('   Checking Message.agentVersionId column...');
+    if (!(await columnExists('Message', 'agentVersionId'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Message"
+        ADD COLUMN "agentVersionId" TEXT;
+      `;
+      await prisma.$executeRaw`
+        ALTER TABLE "Message" ADD CONSTRAINT "Message_agentVersionId_fkey" FOREIGN KEY ("agentVersionId") REFERENCES "AgentVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+      `;
+      console.log('   ✓ Added Message.agentVersionId column');
+    } else {
+      console.log('   ✓ Message.agentVersionId column already exists');
+    }
+
+    // ============================================
+    // 4. Version 1 for existing agents
+    // ============================================
+    console.log('4. Recording a first version for existing agents...');
+    const agents = await prisma.agent.findMany({
+      where: { currentVersionId: null },
+      include: { tools: true },
+    });
+
+    for (const { tools, ...agent } of agents) {
+      const config = snapshotAgent(agent, tools);
+      const version = await prisma.agentVersion.create({
+        data: {
+          agentId: agent.id,
+          version: 1,
+          config: config as unknown as Prisma.InputJsonObject,
+        },
+      });
+      await prisma.agent.update({
+        where: { id: agent.id },
+        data: { currentVersionId: version.id },
+      });
+    }
+    console.log(`   ✓ Recorded ${agents.length} agent version(s)`);
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,126 @@
+import { PrismaClient } from '@prisma/client';
+import { encrypt, generateWebhookSecret } from '../src/utils/crypto';
+
+const prisma = new PrismaClient();
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = ${table} AND column_name = ${column}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function tableExists(table: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.tables
+      WHERE table_name = ${table}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding Agent Webhook Signing and Delivery Log`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. Agent.webhookSecret
+    // ============================================
+    console.log('1. Checking webhookSecret column...');
+    if (!(await columnExists('Agent', 'webhookSecret'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Agent"
+        ADD COLUMN "webhookSecret" TEXT;
+      `;
+      console.log('   ✓ Added webhookSecret column');
+    } else {
+      console.log('   ✓ webhookSecret column already exists');
+    }
+
+    // ============================================
+    // 2. WebhookDelivery table
+    // ============================================
+    console.log('2. Checking WebhookDelivery table...');
+    if (!(await tableExists('WebhookDelivery'))) {
+      await prisma.$executeRaw`
+        CREATE TABLE "WebhookDelivery" (
+          "id" TEXT NOT NULL,
+          "event" TEXT NOT NULL,
+          "url" TEXT NOT NULL,
+          "payload" JSONB NOT NULL,
+          "status" TEXT NOT NULL DEFAULT 'pending',
+          "attempts" INTEGER NOT NULL DEFAULT 0,
+          "responseStatus" INTEGER,
+          "responseBody" TEXT,
+          "error" TEXT,
+          "lastAttemptAt" TIMESTAMP(3),
+          "deliveredAt" TIMESTAMP(3),
+          "agentId" TEXT NOT NULL,
+          "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          "updatedAt" TIMESTAMP(3) NOT NULL,
+
+          CONSTRAINT "WebhookDelivery_pkey" PRIMARY KEY ("id")
+        );
+      `;
+
+      await prisma.$executeRaw`
+        ALTER TABLE "WebhookDelivery" ADD CONSTRAINT "WebhookDelivery_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "Agent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+      `;
+      console.log('   ✓ Created WebhookDelivery table');
+    } else {
+      console.log('   ✓ WebhookDelivery table already exists');
+    }
+
+    // ============================================
+    // 3. Indexes for the delivery log
+    // ============================================
+    console.log('3. Creating WebhookDelivery indexes...');
+    await prisma.$executeRaw`
+      CREATE INDEX IF NOT EXISTS "WebhookDelivery_agentId_createdAt_idx"
+      ON "WebhookDelivery"("agentId", "createdAt");
+    `;
+    await prisma.$executeRaw`
+      CREATE INDEX IF NOT EXISTS "WebhookDelivery_status_idx"
+      ON "WebhookDelivery"("status");
+    `;
+    console.log('   ✓ WebhookDelivery indexes ready');
+
+    // ============================================
+    // 4. Signing secrets for agents that already had a webhook URL
+    // ============================================
+    console.log('4. Backfilling webhook signing secrets...');
+    const unsigned = await prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT "id" FROM "Agent"
+      WHERE "webhookUrl" IS NOT NULL AND "webhookSecret" IS NULL;
+    `;
+    for (const agent of unsigned) {
+      await prisma.$executeRaw`
+        UPDATE "Agent" SET "webhookSecret" = ${encrypt(generateWebhookSecret())}
+        WHERE "id" = ${agent.id} AND "webhookSecret" IS NULL;
+      `;
+    }
+    console.log(`   ✓ Generated secrets for ${unsigned.length} agent(s)`);
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,89 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = ${table} AND column_name = ${column}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding Post-Call Analysis Fields to Call Table`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. Call.disposition
+    // ============================================
+    console.log('1. Checking disposition column...');
+    if (!(await columnExists('Call', 'disposition'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Call"
+        ADD COLUMN "disposition" TEXT;
+      `;
+      console.log('   ✓ Added disposition column');
+    } else {
+      console.log('   ✓ disposition column already exists');
+    }
+
+    // ============================================
+    // 2. Call.actionItems
+    // ============================================
+    console.log('2. Checking actionItems column...');
+    if (!(await columnExists('Call', 'actionItems'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Call"
+        ADD COLUMN "actionItems" JSONB;
+      `;
+      console.log('   ✓ Added actionItems column');
+    } else {
+      console.log('   ✓ actionItems column already exists');
+    }
+
+    // ============================================
+    // 3. Call.analyzedAt
+    // ============================================
+    console.log('3. Checking analyzedAt column...');
+    if (!(await columnExists('Call', 'analyzedAt'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Call"
+        ADD COLUMN "analyzedAt" TIMESTAMP(3);
+      `;
+      console.log('   ✓ Added analyzedAt column');
+    } else {
+      console.log('   ✓ analyzedAt column already exists');
+    }
+
+    // ============================================
+    // 4. Index for dashboard disposition filter
+    // ============================================
+    console.log('4. Creating disposition index...');
+    await prisma.$executeRaw`
+      CREATE INDEX IF NOT EXISTS "Call_userId_disposition_idx"
+      ON "Call"("userId", "disposition");
+    `;
+    console.log('   ✓ Call_userId_disposition_idx ready');
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,105 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = ${table} AND column_name = ${column}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function tableExists(table: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.tables
+      WHERE table_name = ${table}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding Call Latency Samples`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. Call.p95Latency
+    // ============================================
+    console.log('1. Checking p95Latency column...');
+    if (!(await columnExists('Call', 'p95Latency'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Call"
+        ADD COLUMN "p95Latency" INTEGER;
+      `;
+      console.log('   ✓ Added p95Latency column');
+    } else {
+      console.log('   ✓ p95Latency column already exists');
+    }
+
+    // ============================================
+    // 2. CallLatencySample table
+    // ============================================
+    console.log('2. Checking CallLatencySample table...');
+    if (!(await tableExists('CallLatencySample'))) {
+      await prisma.$executeRaw`
+        CREATE TABLE "CallLatencySample" (
+          "id" TEXT NOT NULL,
+          "turn" INTEGER NOT NULL,
+          "sttMs" INTEGER NOT NULL,
+          "llmMs" INTEGER NOT NULL,
+          "ttsMs" INTEGER NOT NULL,
+          "totalMs" INTEGER NOT NULL,
+          "llmModel" TEXT,
+          "voiceProvider" TEXT,
+          "callId" TEXT NOT NULL,
+          "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+          CONSTRAINT "CallLatencySample_pkey" PRIMARY KEY ("id")
+        );
+      `;
+
+      await prisma.$executeRaw`
+        ALTER TABLE "CallLatencySample" ADD CONSTRAINT "CallLatencySample_callId_fkey" FOREIGN KEY ("callId") REFERENCES "Call"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+      `;
+      console.log('   ✓ Created CallLatencySample table');
+    } else {
+      console.log('   ✓ CallLatencySample table already exists');
+    }
+
+    // ============================================
+    // 3. Indexes for per-call lookups and the analytics window
+    // ============================================
+    console.log('3. Creating CallLatencySample indexes...');
+    await prisma.$executeRaw`
+      CREATE INDEX IF NOT EXISTS "CallLatencySample_callId_idx"
+      ON "CallLatencySample"("callId");
+    `;
+    await prisma.$executeRaw`
+      CREATE INDEX IF NOT EXISTS "CallLatencySample_createdAt_idx"
+      ON "CallLatencySample"("createdAt");
+    `;
+    console.log('   ✓ CallLatencySample indexes ready');
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,65 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = ${table} AND column_name = ${column}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding Concurrent Campaign Dialing`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. Campaign.maxConcurrentCalls
+    // ============================================
+    console.log('1. Checking Campaign.maxConcurrentCalls column...');
+    if (!(await columnExists('Campaign', 'maxConcurrentCalls'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Campaign"
+        ADD COLUMN "maxConcurrentCalls" INTEGER NOT NULL DEFAULT 1;
+      `;
+      console.log('   ✓ Added Campaign.maxConcurrentCalls column');
+    } else {
+      console.log('   ✓ Campaign.maxConcurrentCalls column already exists');
+    }
+
+    // ============================================
+    // 2. User.maxConcurrentCalls
+    // ============================================
+    console.log('2. Checking User.maxConcurrentCalls column...');
+    if (!(await columnExists('User', 'maxConcurrentCalls'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "User"
+        ADD COLUMN "maxConcurrentCalls" INTEGER;
+      `;
+      console.log('   ✓ Added User.maxConcurrentCalls column');
+    } else {
+      console.log('   ✓ User.maxConcurrentCalls column already exists');
+    }
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,117 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function tableExists(table: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.tables
+      WHERE table_name = ${table}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = ${table} AND column_name = ${column}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding Campaign Phone Number Pools`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. CampaignPhoneNumber table
+    // ============================================
+    console.log('1. Checking CampaignPhoneNumber table...');
+    if (!(await tableExists('CampaignPhoneNumber'))) {
+      await prisma.$executeRaw`
+        CREATE TABLE "CampaignPhoneNumber" (
+          "id" TEXT NOT NULL,
+          "campaignId" TEXT NOT NULL,
+          "phoneNumberId" TEXT NOT NULL,
+          "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+          CONSTRAINT "CampaignPhoneNumber_pkey" PRIMARY KEY ("id")
+        );
+      `;
+
+      await prisma.$executeRaw`
+        ALTER TABLE "CampaignPhoneNumber" ADD CONSTRAINT "CampaignPhoneNumber_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+      `;
+      await prisma.$executeRaw`
+        ALTER TABLE "CampaignPhoneNumber" ADD CONSTRAINT "CampaignPhoneNumber_phoneNumberId_fkey" FOREIGN KEY ("phoneNumberId") REFERENCES "PhoneNumber"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+      `;
+      console.log('   ✓ Created CampaignPhoneNumber table');
+    } else {
+      console.log('   ✓ CampaignPhoneNumber table already exists');
+    }
+
+    await prisma.$executeRaw`CREATE UNIQUE INDEX IF NOT EXISTS "CampaignPhoneNumber_campaignId_phoneNumberId_key" ON "CampaignPhoneNumber"("campaignId", "phoneNumberId");`;
+    await prisma.$executeRaw`CREATE INDEX IF NOT EXISTS "CampaignPhoneNumber_phoneNumberId_idx" ON "CampaignPhoneNumber"("phoneNumberId");`;
+    console.log('   ✓ CampaignPhoneNumber indexes ready');
+
+    // ============================================
+    // 2. Campaign caller ID settings
+    // ============================================
+    console.log('2. Checking Campaign caller ID columns...');
+    if (!(await columnExists('Campaign', 'localPresence'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Campaign"
+        ADD COLUMN "localPresence" BOOLEAN NOT NULL DEFAULT false;
+      `;
+      console.log('   ✓ Added Campaign.localPresence column');
+    } else {
+      console.log('   ✓ Campaign.localPresence column already exists');
+    }
+
+    if (!(await columnExists('Campaign', 'callsPerNumberPerDay'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Campaign"
+        ADD COLUMN "callsPerNumberPerDay" INTEGER;
+      `;
+      console.log('   ✓ Added Campaign.callsPerNumberPerDay column');
+    } else {
+      console.log('   ✓ Campaign.callsPerNumberPerDay column already exists');
+    }
+
+    // ============================================
+    // 3. Call.phoneNumberId for past outbound calls
+    // ============================================
+    console.log('3. Linking past outbound calls to the number they were made from...');
+    await prisma.$executeRaw`CREATE INDEX IF NOT EXISTS "Call_phoneNumberId_createdAt_idx" ON "Call"("phoneNumberId", "createdAt");`;
+    const linked = await prisma.$executeRaw`
+      UPDATE "Call" c
+      SET "phoneNumberId" = p."id"
+      FROM "PhoneNumber" p
+      WHERE c."phoneNumberId" IS NULL
+        AND c."direction" = 'outbound'
+        AND c."from" = p."phoneNumber";
+    `;
+    console.log(`   ✓ Linked ${linked} call(s)`);
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,123 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function tableExists(table: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.tables
+      WHERE table_name = ${table}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = ${table} AND column_name = ${column}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding Campaign Sequences`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. CampaignStep table
+    // ============================================
+    console.log('1. Checking CampaignStep table...');
+    if (!(await tableExists('CampaignStep'))) {
+      await prisma.$executeRaw`
+        CREATE TABLE "CampaignStep" (
+          "id" TEXT NOT NULL,
+          "campaignId" TEXT NOT NULL,
+          "position" INTEGER NOT NULL,
+          "channel" TEXT NOT NULL,
+          "condition" TEXT NOT NULL DEFAULT 'always',
+          "delayMinutes" INTEGER NOT NULL DEFAULT 0,
+          "message" TEXT,
+          "assetId" TEXT,
+          "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          "updatedAt" TIMESTAMP(3) NOT NULL,
+
+          CONSTRAINT "CampaignStep_pkey" PRIMARY KEY ("id")
+        );
+      `;
+
+      await prisma.$executeRaw`
+        ALTER TABLE "CampaignStep" ADD CONSTRAINT "CampaignStep_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+      `;
+      await prisma.$executeRaw`
+        ALTER TABLE "CampaignStep" ADD CONSTRAINT "CampaignStep_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+      `;
+      console.log('   ✓ Created CampaignStep table');
+    } else {
+      console.log('   ✓ CampaignStep table already exists');
+    }
+
+    await prisma.$executeRaw`CREATE UNIQUE INDEX IF NOT EXISTS "CampaignStep_campaignId_position_key" ON "CampaignStep"("campaignId", "position");`;
+    console.log('   ✓ CampaignStep indexes ready');
+
+    // ============================================
+    // 2. Lead position in the sequence
+    // ============================================
+    console.log('2. Checking CampaignLead.sequenceStep column...');
+    if (!(await columnExists('CampaignLead', 'sequenceStep'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "CampaignLead"
+        ADD COLUMN "sequenceStep" INTEGER NOT NULL DEFAULT 0;
+      `;
+      console.log('   ✓ Added CampaignLead.sequenceStep column');
+    } else {
+      console.log('   ✓ CampaignLead.sequenceStep column already exists');
+    }
+
+    await prisma.$executeRaw`CREATE INDEX IF NOT EXISTS "CampaignLead_campaignId_sequenceStep_idx" ON "CampaignLead"("campaignId", "sequenceStep");`;
+
+    // ============================================
+    // 3. Step tracking on calls and messages
+    // ============================================
+    console.log('3. Checking campaign tracking columns on Call and Message...');
+    if (!(await columnExists('Call', 'campaignStepId'))) {
+      await prisma.$executeRaw`ALTER TABLE "Call" ADD COLUMN "campaignStepId" TEXT;`;
+      console.log('   ✓ Added Call.campaignStepId column');
+    } else {
+      console.log('   ✓ Call.campaignStepId column already exists');
+    }
+
+    for (const column of ['campaignId', 'campaignLeadId', 'campaignStepId']) {
+      if (!(await columnExists('Message', column))) {
+        await prisma.$executeRawUnsafe(`ALTER TABLE "Message" ADD COLUMN "${column}" TEXT;`);
+        console.log(`   ✓ Added Message.${column} column`);
+      } else {
+        console.log(`   ✓ Message.${column} column already exists`);
+      }
+    }
+
+    await prisma.$executeRaw`CREATE INDEX IF NOT EXISTS "Call_campaignStepId_idx" ON "Call"("campaignStepId");`;
+    await prisma.$executeRaw`CREATE INDEX IF NOT EXISTS "Message_campaignStepId_idx" ON "Message"("campaignStepId");`;
+    console.log('   ✓ Campaign step indexes ready');
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
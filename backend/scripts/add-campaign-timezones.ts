@@ -0,0 +1,103 @@
+import { PrismaClient } from '@prisma/client';
+import { resolveLeadTimeZone } from '../src/utils/timezone';
+
+const prisma = new PrismaClient();
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = ${table} AND column_name = ${column}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding Timezone-Aware Campaign Call Windows`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. Campaign.timezone
+    // ============================================
+    console.log('1. Checking Campaign.timezone column...');
+    if (!(await columnExists('Campaign', 'timezone'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Campaign"
+        ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'America/New_York';
+      `;
+      console.log('   ✓ Added Campaign.timezone column');
+    } else {
+      console.log('   ✓ Campaign.timezone column already exists');
+    }
+
+    // ============================================
+    // 2. CampaignLead.timezone
+    // ============================================
+    console.log('2. Checking CampaignLead.timezone column...');
+    if (!(await columnExists('CampaignLead', 'timezone'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "CampaignLead"
+        ADD COLUMN "timezone" TEXT;
+      `;
+      console.log('   ✓ Added CampaignLead.timezone column');
+    } else {
+      console.log('   ✓ CampaignLead.timezone column already exists');
+    }
+
+    await prisma.$executeRaw`
+      CREATE INDEX IF NOT EXISTS "CampaignLead_campaignId_timezone_idx"
+      ON "CampaignLead"("campaignId", "timezone");
+    `;
+    console.log('   ✓ Ensured CampaignLead campaignId/timezone index');
+
+    // ============================================
+    // 3. Timezones for existing leads
+    // ============================================
+    console.log('3. Inferring timezones for existing leads from CSV columns and area codes...');
+    const leads = await prisma.campaignLead.findMany({
+      where: { timezone: null },
+      select: { id: true, phoneNumber: true, metadata: true },
+    });
+
+    const leadIdsByTimezone = new Map<string, string[]>();
+    for (const lead of leads) {
+      const metadata = (lead.metadata || {}) as Record<string, unknown>;
+      const timezone = resolveLeadTimeZone(
+        lead.phoneNumber,
+        metadata.timezone || metadata.Timezone || metadata.time_zone || metadata.tz
+      );
+      if (timezone) {
+        leadIdsByTimezone.set(timezone, [...(leadIdsByTimezone.get(timezone) || []), lead.id]);
+      }
+    }
+
+    let updated = 0;
+    for (const [timezone, ids] of leadIdsByTimezone) {
+      const result = await prisma.campaignLead.updateMany({
+        where: { id: { in: ids } },
+        data: { timezone },
+      });
+      updated += result.count;
+    }
+    console.log(`   ✓ Set a timezone on ${updated} of ${leads.length} lead(s); the rest use their campaign's`);
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,65 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = ${table} AND column_name = ${column}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding Structured Data Extraction`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. Agent.extractionSchema
+    // ============================================
+    console.log('1. Checking extractionSchema column...');
+    if (!(await columnExists('Agent', 'extractionSchema'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Agent"
+        ADD COLUMN "extractionSchema" JSONB;
+      `;
+      console.log('   ✓ Added extractionSchema column');
+    } else {
+      console.log('   ✓ extractionSchema column already exists');
+    }
+
+    // ============================================
+    // 2. Call.extractedData
+    // ============================================
+    console.log('2. Checking extractedData column...');
+    if (!(await columnExists('Call', 'extractedData'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Call"
+        ADD COLUMN "extractedData" JSONB;
+      `;
+      console.log('   ✓ Added extractedData column');
+    } else {
+      console.log('   ✓ extractedData column already exists');
+    }
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,101 @@
+import { PrismaClient } from '@prisma/client';
+import { SMS_OPT_OUT_KEYWORDS, SMS_OPT_IN_KEYWORDS } from '../src/lib/constants';
+
+const prisma = new PrismaClient();
+
+async function tableExists(table: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.tables
+      WHERE table_name = ${table}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding Do Not Call List`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. DoNotCallEntry table
+    // ============================================
+    console.log('1. Checking DoNotCallEntry table...');
+    if (!(await tableExists('DoNotCallEntry'))) {
+      await prisma.$executeRaw`
+        CREATE TABLE "DoNotCallEntry" (
+          "id" TEXT NOT NULL,
+          "phoneNumber" TEXT NOT NULL,
+          "source" TEXT NOT NULL,
+          "reason" TEXT,
+          "userId" TEXT NOT NULL,
+          "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+          CONSTRAINT "DoNotCallEntry_pkey" PRIMARY KEY ("id")
+        );
+      `;
+
+      await prisma.$executeRaw`
+        ALTER TABLE "DoNotCallEntry" ADD CONSTRAINT "DoNotCallEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+      `;
+      console.log('   ✓ Created DoNotCallEntry table');
+    } else {
+      console.log('   ✓ DoNotCallEntry table already exists');
+    }
+
+    await prisma.$executeRaw`CREATE UNIQUE INDEX IF NOT EXISTS "DoNotCallEntry_userId_phoneNumber_key" ON "DoNotCallEntry"("userId", "phoneNumber");`;
+    await prisma.$executeRaw`CREATE INDEX IF NOT EXISTS "DoNotCallEntry_userId_createdAt_idx" ON "DoNotCallEntry"("userId", "createdAt");`;
+    console.log('   ✓ DoNotCallEntry indexes ready');
+
+    // ============================================
+    // 2. Past SMS opt-outs
+    // ============================================
+    // A sender is opted out when their last keyword reply was an opt-out
+    console.log('2. Adding senders who already replied STOP...');
+    const keywords = [...SMS_OPT_OUT_KEYWORDS, ...SMS_OPT_IN_KEYWORDS];
+    const replies = await prisma.message.findMany({
+      where: {
+        direction: 'INBOUND',
+        OR: keywords.map((keyword) => ({ body: { equals: keyword, mode: 'insensitive' as const } })),
+      },
+      orderBy: { createdAt: 'asc' },
+      select: { userId: true, from: true, to: true, body: true },
+    });
+
+    const lastReply = new Map<string, typeof replies[number]>();
+    for (const reply of replies) {
+      lastReply.set(`${reply.userId}:${reply.from}`, reply);
+    }
+
+    const optedOut = Array.from(lastReply.values())
+      .filter((reply) => SMS_OPT_OUT_KEYWORDS.includes((reply.body || '').trim().toUpperCase()));
+    const added = await prisma.doNotCallEntry.createMany({
+      data: optedOut.map((reply) => ({
+        userId: reply.userId,
+        phoneNumber: reply.from,
+        source: 'sms_stop',
+        reason: `Replied ${(reply.body || '').trim().toUpperCase()} to ${reply.to}`,
+      })),
+      skipDuplicates: true,
+    });
+    console.log(`   ✓ Added ${added.count} number(s)`);
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,143 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function tableExists(table: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.tables
+      WHERE table_name = ${table}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = ${table} AND column_name = ${column}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding A/B Experiments`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. Experiment table
+    // ============================================
+    console.log('1. Checking Experiment table...');
+    if (!(await tableExists('Experiment'))) {
+      await prisma.$executeRaw`
+        CREATE TABLE "Experiment" (
+          "id" TEXT NOT NULL,
+          "name" TEXT NOT NULL,
+          "status" TEXT NOT NULL DEFAULT 'running',
+          "phoneNumberId" TEXT,
+          "campaignId" TEXT,
+          "userId" TEXT NOT NULL,
+          "stoppedAt" TIMESTAMP(3),
+          "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          "updatedAt" TIMESTAMP(3) NOT NULL,
+
+          CONSTRAINT "Experiment_pkey" PRIMARY KEY ("id")
+        );
+      `;
+
+      await prisma.$executeRaw`
+        ALTER TABLE "Experiment" ADD CONSTRAINT "Experiment_phoneNumberId_fkey" FOREIGN KEY ("phoneNumberId") REFERENCES "PhoneNumber"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+      `;
+      await prisma.$executeRaw`
+        ALTER TABLE "Experiment" ADD CONSTRAINT "Experiment_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+      `;
+      await prisma.$executeRaw`
+        ALTER TABLE "Experiment" ADD CONSTRAINT "Experiment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+      `;
+      console.log('   ✓ Created Experiment table');
+    } else {
+      console.log('   ✓ Experiment table already exists');
+    }
+
+    await prisma.$executeRaw`CREATE INDEX IF NOT EXISTS "Experiment_userId_idx" ON "Experiment"("userId");`;
+    await prisma.$executeRaw`CREATE INDEX IF NOT EXISTS "Experiment_phoneNumberId_idx" ON "Experiment"("phoneNumberId");`;
+    await prisma.$executeRaw`CREATE INDEX IF NOT EXISTS "Experiment_campaignId_idx" ON "Experiment"("campaignId");`;
+    console.log('   ✓ Experiment indexes ready');
+
+    // ============================================
+    // 2. ExperimentVariant table
+    // ============================================
+    console.log('2. Checking ExperimentVariant table...');
+    if (!(await tableExists('ExperimentVariant'))) {
+      await prisma.$executeRaw`
+        CREATE TABLE "ExperimentVariant" (
+          "id" TEXT NOT NULL,
+          "name" TEXT NOT NULL,
+          "weight" INTEGER NOT NULL,
+          "experimentId" TEXT NOT NULL,
+          "agentId" TEXT NOT NULL,
+          "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+          CONSTRAINT "ExperimentVariant_pkey" PRIMARY KEY ("id")
+        );
+      `;
+
+      await prisma.$executeRaw`
+        ALTER TABLE "ExperimentVariant" ADD CONSTRAINT "ExperimentVariant_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "Experiment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+      `;
+      await prisma.$executeRaw`
+        ALTER TABLE "ExperimentVariant" ADD CONSTRAINT "ExperimentVariant_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "Agent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+      `;
+      console.log('   ✓ Created ExperimentVariant table');
+    } else {
+      console.log('   ✓ ExperimentVariant table already exists');
+    }
+
+    await prisma.$executeRaw`CREATE INDEX IF NOT EXISTS "ExperimentVariant_experimentId_idx" ON "ExperimentVariant"("experimentId");`;
+    await prisma.$executeRaw`CREATE INDEX IF NOT EXISTS "ExperimentVariant_agentId_idx" ON "ExperimentVariant"("agentId");`;
+    console.log('   ✓ ExperimentVariant indexes ready');
+
+    // ============================================
+    // 3. Call.experimentVariantId
+    // ============================================
+    console.log('3. Checking experimentVariantId column...');
+    if (!(await columnExists('Call', 'experimentVariantId'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Call"
+        ADD COLUMN "experimentVariantId" TEXT;
+      `;
+      await prisma.$executeRaw`
+        ALTER TABLE "Call" ADD CONSTRAINT "Call_experimentVariantId_fkey" FOREIGN KEY ("experimentVariantId") REFERENCES "ExperimentVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+      `;
+      console.log('   ✓ Added experimentVariantId column');
+    } else {
+      console.log('   ✓ experimentVariantId column already exists');
+    }
+
+    await prisma.$executeRaw`
+      CREATE INDEX IF NOT EXISTS "Call_experimentVariantId_idx"
+      ON "Call"("experimentVariantId");
+    `;
+    console.log('   ✓ Call.experimentVariantId index ready');
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
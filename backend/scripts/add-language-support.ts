@@ -0,0 +1,79 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = ${table} AND column_name = ${column}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding Language Support to Agent and Call Tables`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. Agent.language
+    // ============================================
+    console.log('1. Checking Agent.language column...');
+    if (!(await columnExists('Agent', 'language'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Agent"
+        ADD COLUMN "language" TEXT NOT NULL DEFAULT 'en-US';
+      `;
+      console.log('   ✓ Added language column (default: en-US)');
+    } else {
+      console.log('   ✓ language column already exists');
+    }
+
+    // ============================================
+    // 2. Agent.autoDetectLanguage
+    // ============================================
+    console.log('2. Checking Agent.autoDetectLanguage column...');
+    if (!(await columnExists('Agent', 'autoDetectLanguage'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Agent"
+        ADD COLUMN "autoDetectLanguage" BOOLEAN NOT NULL DEFAULT false;
+      `;
+      console.log('   ✓ Added autoDetectLanguage column (default: false)');
+    } else {
+      console.log('   ✓ autoDetectLanguage column already exists');
+    }
+
+    // ============================================
+    // 3. Call.detectedLanguage
+    // ============================================
+    console.log('3. Checking Call.detectedLanguage column...');
+    if (!(await columnExists('Call', 'detectedLanguage'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Call"
+        ADD COLUMN "detectedLanguage" TEXT;
+      `;
+      console.log('   ✓ Added detectedLanguage column');
+    } else {
+      console.log('   ✓ detectedLanguage column already exists');
+    }
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,107 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = ${table} AND column_name = ${column}
+    ) as exists;
+  `;
+  return result[0].exists;
+}
+
+async function updateDatabase() {
+  console.log(`\n========================================`);
+  console.log(`Adding Answering Machine Detection and Voicemail Drop`);
+  console.log(`========================================\n`);
+
+  try {
+    // ============================================
+    // 1. Agent.voicemailMessage
+    // ============================================
+    console.log('1. Checking Agent.voicemailMessage column...');
+    if (!(await columnExists('Agent', 'voicemailMessage'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Agent"
+        ADD COLUMN "voicemailMessage" TEXT;
+      `;
+      console.log('   ✓ Added Agent.voicemailMessage column');
+    } else {
+      console.log('   ✓ Agent.voicemailMessage column already exists');
+    }
+
+    // ============================================
+    // 2. Campaign.voicemailMessage
+    // ============================================
+    console.log('2. Checking Campaign.voicemailMessage column...');
+    if (!(await columnExists('Campaign', 'voicemailMessage'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Campaign"
+        ADD COLUMN "voicemailMessage" TEXT;
+      `;
+      console.log('   ✓ Added Campaign.voicemailMessage column');
+    } else {
+      console.log('   ✓ Campaign.voicemailMessage column already exists');
+    }
+
+    // ============================================
+    // 3. Call.answeredBy
+    // ============================================
+    console.log('3. Checking Call.answeredBy column...');
+    if (!(await columnExists('Call', 'answeredBy'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Call"
+        ADD COLUMN "answeredBy" TEXT;
+      `;
+      console.log('   ✓ Added Call.answeredBy column');
+    } else {
+      console.log('   ✓ Call.answeredBy column already exists');
+    }
+
+    // ============================================
+    // 4. Call.voicemailLeft
+    // ============================================
+    console.log('4. Checking Call.voicemailLeft column...');
+    if (!(await columnExists('Call', 'voicemailLeft'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "Call"
+        ADD COLUMN "voicemailLeft" BOOLEAN NOT NULL DEFAULT false;
+      `;
+      console.log('   ✓ Added Call.voicemailLeft column');
+    } else {
+      console.log('   ✓ Call.voicemailLeft column already exists');
+    }
+
+    // ============================================
+    // 5. CampaignLead.voicemailsLeft
+    // ============================================
+    console.log('5. Checking CampaignLead.voicemailsLeft column...');
+    if (!(await columnExists('CampaignLead', 'voicemailsLeft'))) {
+      await prisma.$executeRaw`
+        ALTER TABLE "CampaignLead"
+        ADD COLUMN "voicemailsLeft" INTEGER NOT NULL DEFAULT 0;
+      `;
+      console.log('   ✓ Added CampaignLead.voicemailsLeft column');
+    } else {
+      console.log('   ✓ CampaignLead.voicemailsLeft column already exists');
+    }
+
+    console.log('\n========================================');
+    console.log('Database update complete!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+updateDatabase()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
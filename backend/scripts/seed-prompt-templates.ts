@@ -0,0 +1,48 @@
+import { PrismaClient } from '@prisma/client';
+import { SYSTEM_PROMPT_TEMPLATES } from '../src/lib/prompt-templates';
+
+const prisma = new PrismaClient();
+
+async function seedTemplates() {
+  console.log(`\n========================================`);
+  console.log(`Seeding System Prompt Templates`);
+  console.log(`========================================\n`);
+
+  try {
+    // System templates have no owner and are matched by name, so re-running updates their text
+    for (const template of SYSTEM_PROMPT_TEMPLATES) {
+      const existing = await prisma.promptTemplate.findFirst({
+        where: { userId: null, name: template.name },
+      });
+
+      if (existing) {
+        await prisma.promptTemplate.update({
+          where: { id: existing.id },
+          data: { ...template, isPublic: true },
+        });
+        console.log(`   ✓ Updated ${template.name}`);
+      } else {
+        await prisma.promptTemplate.create({
+          data: { ...template, userId: null, isPublic: true },
+        });
+        console.log(`   ✓ Created ${template.name}`);
+      }
+    }
+
+    console.log('\n========================================');
+    console.log('Prompt templates seeded!');
+    console.log('========================================\n');
+
+  } catch (error) {
+    console.error('\n❌ Seeding failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+seedTemplates()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
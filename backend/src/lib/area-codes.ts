@@ -0,0 +1,97 @@
+// ============================================
+// North American area codes -> IANA timezone
+// ============================================
+// Area codes that straddle a timezone line map to the zone most of their callers are in.
+
+const AREA_CODES_BY_TIMEZONE: Record<string, number[]> = {
+  'America/New_York': [
+    // CT, DE, DC
+    203, 475, 860, 959, 302, 202, 771,
+    // FL (peninsula)
+    239, 305, 321, 324, 352, 386, 407, 561, 645, 656, 689, 727, 754, 772, 786, 813, 863, 904, 941, 954,
+    // GA
+    229, 404, 470, 478, 678, 706, 762, 770, 912, 943,
+    // IN (except the Chicago suburbs)
+    260, 317, 463, 574, 765, 812, 930,
+    // KY (east)
+    502, 606, 859,
+    // ME, MD, MA
+    207, 227, 240, 301, 410, 443, 667, 339, 351, 413, 508, 617, 774, 781, 857, 978,
+    // MI
+    231, 248, 269, 313, 517, 586, 616, 679, 734, 810, 906, 947, 989,
+    // NH, NJ
+    603, 201, 551, 609, 640, 732, 848, 856, 862, 908, 973,
+    // NY
+    212, 315, 329, 332, 347, 363, 516, 518, 585, 607, 624, 631, 646, 680, 716, 718, 838, 845, 914, 917, 929, 934,
+    // NC
+    252, 336, 472, 704, 743, 828, 910, 919, 980, 984,
+    // OH
+    216, 220, 234, 283, 326, 330, 380, 419, 436, 440, 513, 567, 614, 740, 937,
+    // PA, RI, SC
+    215, 223, 267, 272, 412, 445, 484, 570, 582, 610, 717, 724, 814, 835, 878, 401, 803, 839, 843, 854, 864,
+    // TN (east), VT, VA, WV
+    423, 865, 802, 276, 434, 540, 571, 686, 703, 757, 804, 826, 948, 304, 681,
+    // ON, QC
+    226, 249, 289, 343, 365, 382, 416, 437, 519, 548, 613, 647, 683, 705, 742, 753, 807, 905,
+    263, 354, 367, 418, 438, 450, 468, 514, 579, 581, 819, 873,
+  ],
+  'America/Chicago': [
+    // AL, AR
+    205, 251, 256, 334, 659, 938, 327, 479, 501, 870,
+    // FL (panhandle)
+    448, 850,
+    // IL
+    217, 224, 309, 312, 331, 447, 464, 618, 630, 708, 730, 773, 779, 815, 847, 861, 872,
+    // IN (Chicago suburbs), IA, KS
+    219, 319, 515, 563, 641, 712, 316, 620, 785, 913,
+    // KY (west), LA
+    270, 364, 225, 318, 337, 457, 504, 985,
+    // MN, MS
+    218, 320, 507, 612, 651, 763, 924, 952, 228, 601, 662, 769,
+    // MO, NE, ND, OK, SD
+    235, 314, 417, 557, 573, 636, 660, 816, 975, 308, 402, 531, 701, 405, 539, 572, 580, 918, 605,
+    // TN (middle and west)
+    615, 629, 731, 901, 931,
+    // TX (except El Paso)
+    210, 214, 254, 281, 325, 346, 361, 409, 430, 432, 469, 512, 682, 713, 726, 737, 806, 817, 830, 832, 903, 936, 940, 945, 956, 972, 979,
+    // WI, MB
+    262, 274, 353, 414, 534, 608, 715, 920, 204, 431, 584,
+  ],
+  'America/Denver': [
+    // CO, ID, MT, NM, UT, WY, TX (El Paso)
+    303, 719, 720, 970, 983, 208, 986, 406, 505, 575, 385, 435, 801, 307, 915,
+  ],
+  'America/Phoenix': [480, 520, 602, 623, 928],
+  'America/Los_Angeles': [
+    // CA
+    209, 213, 279, 310, 323, 341, 350, 369, 408, 415, 424, 442, 510, 530, 559, 562, 619, 626, 628, 650, 657, 661, 669,
+    707, 714, 738, 747, 760, 805, 818, 820, 831, 837, 840, 858, 909, 916, 925, 949, 951,
+    // NV, OR, WA
+    702, 725, 775, 458, 503, 541, 971, 206, 253, 360, 425, 509, 564,
+  ],
+  'America/Anchorage': [907],
+  'Pacific/Honolulu': [808],
+  'America/Puerto_Rico': [787, 939],
+  'America/Halifax': [428, 506, 782, 902],
+  'America/St_Johns': [709, 879],
+  'America/Regina': [306, 474, 639],
+  'America/Edmonton': [368, 403, 587, 780, 825],
+  'America/Vancouver': [236, 250, 257, 604, 672, 778],
+};
+
+const AREA_CODE_TIMEZONES = new Map<string, string>(
+  Object.entries(AREA_CODES_BY_TIMEZONE).flatMap(([timezone, codes]) =>
+    codes.map((code): [string, string] => [String(code), timezone])
+  )
+);
+
+/**
+ * Timezone for a +1 number's area code, or null for other countries and unknown codes
+ */
+export function timezoneForPhoneNumber(phoneNumber: string): string | null {
+  const digits = phoneNumber.replace(/\D/g, '');
+  const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  if (national.length !== 10) return null;
+
+  return AREA_CODE_TIMEZONES.get(national.slice(0, 3)) || null;
+}
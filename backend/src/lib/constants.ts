@@ -48,6 +48,33 @@ export const DEFAULT_LLM_MODELS = [
   { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', provider: 'openai' },
 ];
 
+// Languages an agent can run in. Every entry is supported by Deepgram nova-2 (fixed
+// language) and nova-3 multilingual (auto-detect), and by ElevenLabs Flash v2.5.
+export const SUPPORTED_LANGUAGES = [
+  { code: 'en-US', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'it', name: 'Italian' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ru', name: 'Russian' },
+] as const;
+
+export const SUPPORTED_LANGUAGE_CODES = SUPPORTED_LANGUAGES.map(l => l.code) as [string, ...string[]];
+
+// Base ISO 639-1 code ('en-US' -> 'en')
+export function getBaseLanguage(code: string): string {
+  return code.split('-')[0].toLowerCase();
+}
+
+export function getLanguageName(code: string): string {
+  const base = getBaseLanguage(code);
+  return SUPPORTED_LANGUAGES.find(l => getBaseLanguage(l.code) === base)?.name || code;
+}
+
 // Error codes - comprehensive list
 export const ERROR_CODES = {
   // Auth errors
@@ -85,6 +112,7 @@ export const ERROR_CODES = {
   CALL_QUOTA_EXCEEDED: 'CALL_QUOTA_EXCEEDED',
   TWILIO_ERROR: 'TWILIO_ERROR',
   INSUFFICIENT_CREDITS: 'INSUFFICIENT_CREDITS',
+  DO_NOT_CALL: 'DO_NOT_CALL',
 
   // Twilio configuration
   TWILIO_NOT_CONFIGURED: 'TWILIO_NOT_CONFIGURED',
@@ -105,6 +133,7 @@ export const ERROR_MESSAGES: Record<string, string> = {
   [ERROR_CODES.CALL_IN_PROGRESS]: 'A call is already in progress',
   [ERROR_CODES.CALL_QUOTA_EXCEEDED]: 'You have used all included minutes and credits',
   [ERROR_CODES.INSUFFICIENT_CREDITS]: 'You do not have enough credits to perform this action',
+  [ERROR_CODES.DO_NOT_CALL]: 'This number is on your Do Not Call list',
 } as const;
 
 // Call status
@@ -119,6 +148,182 @@ export const CALL_STATUS = {
   CANCELED: 'canceled',
 } as const;
 
+// Statuses of a call that is still holding a line
+export const ACTIVE_CALL_STATUSES = ['initiated', 'queued', 'ringing', 'in-progress'] as const;
+
+// Why a call ended (stored on Call.endReason)
+export const CALL_END_REASONS = {
+  CALLER_HANGUP: 'caller_hangup',
+  AGENT_HANGUP: 'agent_hangup',       // Agent used the end_call tool
+  END_CALL_PHRASE: 'end_call_phrase', // Agent said one of its endCallPhrases
+  TRANSFERRED: 'transferred',         // Agent handed the caller to a human (transfer_call tool)
+  TRANSFER_FAILED: 'transfer_failed',
+  MAX_DURATION: 'max_duration',       // Hit the agent's maxCallDuration / callTimeout
+  QUOTA_EXHAUSTED: 'quota_exhausted', // Ran out of plan minutes and credits mid-call
+  VOICEMAIL: 'voicemail',             // Answering machine picked up (message left if one is configured)
+} as const;
+
+// Post-call analysis (stored on Call.disposition / Call.sentiment, copied to CampaignLead.outcome)
+export const CALL_DISPOSITIONS = {
+  BOOKED: 'booked',
+  NOT_INTERESTED: 'not_interested',
+  DO_NOT_CALL: 'do_not_call', // Asked not to be called again; the number goes on the DNC list
+  CALLBACK_REQUESTED: 'callback_requested',
+  WRONG_NUMBER: 'wrong_number',
+  VOICEMAIL: 'voicemail',
+  OTHER: 'other', // Conversation happened but none of the above fit
+} as const;
+
+export const CALL_SENTIMENTS = ['positive', 'neutral', 'negative'] as const;
+
+// Lead outcomes where a person was actually reached ('answered' predates post-call analysis)
+export const REACHED_OUTCOMES: string[] = [
+  'answered',
+  CALL_DISPOSITIONS.BOOKED,
+  CALL_DISPOSITIONS.NOT_INTERESTED,
+  CALL_DISPOSITIONS.DO_NOT_CALL,
+  CALL_DISPOSITIONS.CALLBACK_REQUESTED,
+  CALL_DISPOSITIONS.OTHER,
+];
+
+// Campaign sequences
+export const CAMPAIGN_STEP_CHANNELS = ['call', 'sms'] as const;
+export const CAMPAIGN_STEP_LIMIT = 10;
+// Checked against the outcome of the lead's most recent call before a step runs
+export const CAMPAIGN_STEP_CONDITIONS = [
+  'always',
+  'not_reached', // No one picked up: no answer, busy, failed or voicemail
+  'no_answer',   // No answer or busy
+  'voicemail',
+  'reached',
+] as const;
+
+export type CampaignStepChannel = typeof CAMPAIGN_STEP_CHANNELS[number];
+export type CampaignStepCondition = typeof CAMPAIGN_STEP_CONDITIONS[number];
+
+// How a number got on the Do Not Call list
+export const DNC_SOURCES = {
+  MANUAL: 'manual',
+  IMPORT: 'import',
+  SMS_STOP: 'sms_stop',         // Replied STOP to one of the account's numbers
+  CALL_REQUEST: 'call_request', // Asked on a call (do_not_call disposition)
+} as const;
+
+export type DncSource = typeof DNC_SOURCES[keyof typeof DNC_SOURCES];
+
+// Carrier opt-out and opt-in keywords (the whole message, case-insensitive)
+export const SMS_OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'REVOKE', 'OPTOUT'];
+export const SMS_OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'YES'];
+
+// Events agents can deliver to their webhookUrl
+export const AGENT_WEBHOOK_EVENTS = [
+  'call.started',
+  'call.ended',
+  'message.received',
+  'appointment.booked',
+  'campaign.completed',
+] as const;
+
+export type AgentWebhookEvent = typeof AGENT_WEBHOOK_EVENTS[number];
+
+// Custom agent tools (HTTP functions the LLM can call during a call)
+export const AGENT_TOOL_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+export const AGENT_TOOL_LIMIT = 20;
+// Names of the built-in tools; custom tools can't shadow them
+export const BUILT_IN_TOOL_NAMES = [
+  'check_calendar_availability',
+  'book_appointment',
+  'end_call',
+  'transfer_call',
+  'send_dtmf',
+  'wait_on_hold',
+  'save_call_data',
+];
+
+// Structured data extraction (Agent.extractionSchema -> Call.extractedData)
+export const EXTRACTION_FIELD_TYPES = ['string', 'number', 'boolean', 'date', 'email', 'phone', 'enum'] as const;
+export type ExtractionFieldType = typeof EXTRACTION_FIELD_TYPES[number];
+// Contact columns an extracted field can be copied into
+export const EXTRACTION_CONTACT_FIELDS = ['name', 'email', 'notes'] as const;
+
+// {{variables}} available in system prompts and greetings; lead.<column> also reads any
+// uploaded CSV column, with the header snake_cased ("First Name" -> lead.first_name)
+export const PROMPT_VARIABLES = [
+  'lead.name',
+  'lead.phone',
+  'lead.email',
+  'contact.name',
+  'contact.email',
+  'business.name',
+  'business.industry',
+  'caller.phone',
+  'date',
+  'time',
+  'weekday',
+] as const;
+
+// Prompt template library (PromptTemplate.category)
+export const PROMPT_TEMPLATE_CATEGORIES = ['inbound', 'outbound', 'hybrid', 'messaging', 'other'] as const;
+export type PromptTemplateCategory = typeof PROMPT_TEMPLATE_CATEGORIES[number];
+
+// Agent fields snapshotted into AgentVersion.config on every save, along with the agent's
+// custom tools. Secrets (llmApiKey, webhookSecret), isActive and analytics aren't versioned,
+// so rollbacks leave them alone.
+export const VERSIONED_AGENT_FIELDS = [
+  'name',
+  'description',
+  'voiceProvider',
+  'voice',
+  'voiceSettings',
+  'language',
+  'autoDetectLanguage',
+  'llmProvider',
+  'llmModel',
+  'llmBaseUrl',
+  'systemPrompt',
+  'temperature',
+  'maxTokens',
+  'greeting',
+  'interruptible',
+  'interruptThreshold',
+  'maxCallDuration',
+  'endCallPhrases',
+  'transferNumber',
+  'transferMode',
+  'mode',
+  'outboundGreeting',
+  'callTimeout',
+  'retryAttempts',
+  'callWindowStart',
+  'callWindowEnd',
+  'voicemailMessage',
+  'ivrMenu',
+  'phoneTreeNavigation',
+  'callerContext',
+  'extractionSchema',
+  'personaName',
+  'callPurpose',
+  'communicationChannel',
+  'messagingGreeting',
+  'messagingSystemPrompt',
+  'imageToolEnabled',
+  'documentToolEnabled',
+  'videoToolEnabled',
+  'webhookUrl',
+  'webhookEvents',
+  'calendarEnabled',
+  'calendarIntegrationId',
+  'calendarScopes',
+  'defaultEventTypeId',
+  'defaultEventTypeName',
+  'defaultEventDuration',
+] as const;
+export type VersionedAgentField = typeof VERSIONED_AGENT_FIELDS[number];
+
+// A/B experiments (Experiment / ExperimentVariant)
+export const EXPERIMENT_MAX_VARIANTS = 5;
+export const EXPERIMENT_MIN_SAMPLE = 30; // Completed calls per variant before results are read as conclusive
+
 // Billing / usage
 
 export const VOICE_MINUTE_RATE_USD = 0.05;
@@ -147,6 +352,14 @@ export const CAMPAIGN_LIMITS: Record<Plan, number> = {
   ENTERPRISE: 100, // Effectively unlimited
 };
 
+// Campaign calls an account can have live at once (User.maxConcurrentCalls can lower it)
+export const CONCURRENT_CALL_LIMITS: Record<Plan, number> = {
+  FREE: 1,
+  STARTER: 2,
+  PROFESSIONAL: 5,
+  ENTERPRISE: 25,
+};
+
 export const STRIPE_PRICE_TO_PLAN: Record<string, Plan> = {
   // Starter monthly
   'price_1Sdq7DRxBJaRlFvtBe9fI2dc': 'STARTER',
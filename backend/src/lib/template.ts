@@ -0,0 +1,33 @@
+// ============================================
+// {{placeholder}} templates - prompts, greetings, tool requests, step messages
+// ============================================
+
+// What renderTemplate substitutes; any other braces are left as written
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// Walk a dotted path ("response.order.status", "items.0.name")
+function lookup(values: Record<string, any>, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), values);
+}
+
+/**
+ * Fill {{placeholders}} from the values; missing values render empty, objects as JSON
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, any>,
+  encode: (value: string) => string = (value) => value
+): string {
+  return template.replace(PLACEHOLDER, (_, path: string) => {
+    const value = lookup(values, path);
+    if (value === undefined || value === null) return '';
+    return encode(typeof value === 'object' ? JSON.stringify(value) : String(value));
+  });
+}
+
+/**
+ * Names of the placeholders renderTemplate would fill in
+ */
+export function findPlaceholders(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER)].map((match) => match[1]);
+}
@@ -49,11 +49,22 @@ export interface TwilioMediaStop {
   streamSid: string;
 }
 
+export interface TwilioMediaDtmf {
+  event: 'dtmf';
+  sequenceNumber: string;
+  dtmf: {
+    track: string;
+    digit: string;
+  };
+  streamSid: string;
+}
+
 export type TwilioMediaEvent = 
   | TwilioMediaStart 
   | TwilioMediaPayload 
   | TwilioMediaMark 
   | TwilioMediaStop
+  | TwilioMediaDtmf
   | { event: 'connected'; protocol: string; version: string };
 
 // WebSocket message types for dashboard
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { SUPPORTED_LANGUAGE_CODES, CALL_DISPOSITIONS, CALL_SENTIMENTS, AGENT_WEBHOOK_EVENTS, AGENT_TOOL_METHODS, BUILT_IN_TOOL_NAMES, EXTRACTION_FIELD_TYPES, EXTRACTION_CONTACT_FIELDS, PROMPT_VARIABLES, PROMPT_TEMPLATE_CATEGORIES, EXPERIMENT_MAX_VARIANTS } from './constants';
+import { findPlaceholders } from './template';
 
 // Auth schemas
 export const loginSchema = z.object({
@@ -12,6 +14,102 @@ export const registerSchema = z.object({
   name: z.string().min(1, 'Name is required').max(100),
 });
 
+// Keypad menu read to inbound callers before an agent picks up
+export const ivrMenuSchema = z.object({
+  prompt: z.string().min(1, 'Menu prompt is required').max(500),
+  options: z.array(z.object({
+    digit: z.string().regex(/^[0-9*]$/, 'Menu keys must be 0-9 or *'),
+    label: z.string().min(1).max(100),
+    agentId: z.string().min(1),
+  })).min(1).max(10)
+    .refine((options) => new Set(options.map((o) => o.digit)).size === options.length, 'Each menu key can only be used once'),
+  timeoutSeconds: z.number().int().min(2).max(15).default(5),
+});
+
+/**
+ * Patterns run against what callers say, so refuse the shapes that backtrack
+ * catastrophically: a quantified group that itself contains a quantifier or an
+ * alternation, e.g. (a+)+ or (a|aa)*, and backreferences
+ */
+export function isSafePattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+  } catch {
+    return false;
+  }
+
+  const nestedQuantifier = /\((?:[^()\\]|\\.)*(?:[+*|]|\{\d)(?:[^()\\]|\\.)*\)(?:[+*]|\{\d)/;
+  const backreference = /\\[1-9]|\\k</;
+  return !nestedQuantifier.test(pattern) && !backreference.test(pattern);
+}
+
+export const extractionFieldSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]{0,39}$/, 'Field keys must be lowercase letters, numbers and underscores'),
+  label: z.string().min(1).max(100),
+  type: z.enum(EXTRACTION_FIELD_TYPES),
+  required: z.boolean().default(false),
+  description: z.string().max(300).optional(), // Hint for the agent, e.g. "As printed on the insurance card"
+  options: z.array(z.string().min(1).max(100)).max(20).optional(), // Allowed values for enum fields
+  pattern: z.string().max(200).optional(), // Regex string values must match
+  contactField: z.enum(EXTRACTION_CONTACT_FIELDS).optional(),
+})
+  .refine((field) => field.type !== 'enum' || (field.options && field.options.length > 0), 'Choice fields need at least one option')
+  .refine((field) => !field.pattern || isSafePattern(field.pattern), 'Pattern is not a valid regular expression, or uses nested repetition or backreferences');
+
+export const extractionSchemaSchema = z.array(extractionFieldSchema).max(30)
+  .refine((fields) => new Set(fields.map((f) => f.key)).size === fields.length, 'Each field key can only be used once');
+
+const PLACEHOLDER_PATTERN = /\{\{(.*?)(\}\}|$)/gm;
+
+const isCallVariable = (name: string) =>
+  /^lead\.\w+$/.test(name) || (PROMPT_VARIABLES as readonly string[]).includes(name);
+
+/**
+ * Problems with the {{variables}} in a prompt or greeting: unclosed braces, bad names, unknown variables.
+ * templateVariables are extra names allowed in prompt templates (filled in when an agent is created).
+ */
+export function findPromptTemplateErrors(template: string, templateVariables: string[] = []): string[] {
+  const errors: string[] = [];
+
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1].trim();
+    if (!match[2]) {
+      errors.push(`"{{${match[1].slice(0, 30)}" is missing its closing }}`);
+    } else if (!/^[a-z]\w*(\.\w+)*$/i.test(name)) {
+      errors.push(`"{{${match[1]}}}" is not a valid variable name`);
+    } else if (!isCallVariable(name) && !templateVariables.includes(name)) {
+      errors.push(`Unknown variable {{${name}}}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Placeholders in a prompt template that aren't call variables, e.g. {{office_hours}};
+ * they're filled in once when an agent is created from the template
+ */
+export function findTemplateVariables(...templates: Array<string | null | undefined>): string[] {
+  const names = new Set<string>();
+  for (const template of templates) {
+    for (const match of (template || '').matchAll(PLACEHOLDER_PATTERN)) {
+      const name = match[1].trim();
+      if (match[2] && /^[a-z]\w*$/i.test(name) && !isCallVariable(name)) {
+        names.add(name);
+      }
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Placeholders that would be filled in on a call but name no variable we know.
+ * Other braces are left as written when rendering, so they aren't checked here.
+ */
+export function findUnknownVariables(template: string): string[] {
+  return [...new Set(findPlaceholders(template).filter((name) => !isCallVariable(name)))];
+}
+
 // Agent schemas
 export const createAgentSchema = z.object({
   name: z.string().min(1, 'Name is required').max(100),
@@ -20,13 +118,21 @@ export const createAgentSchema = z.object({
   voiceId: z.string().optional(),
   voiceProvider: z.enum(['elevenlabs', 'deepgram']).default('elevenlabs'),
   voiceSettings: z.record(z.any()).optional(),
-  llmModel: z.string().default('gpt-4-turbo'),
-  llmProvider: z.enum(['openai', 'anthropic']).default('openai'),
+  language: z.enum(SUPPORTED_LANGUAGE_CODES).default('en-US'),
+  autoDetectLanguage: z.boolean().default(false),
+  llmModel: z.string().min(1).max(100).default('gpt-4o-mini'),
+  llmProvider: z.enum(['openai', 'openai-compatible']).default('openai'),
+  llmBaseUrl: z.string().url().nullable().optional(),
+  llmApiKey: z.string().max(500).nullable().optional(), // Empty string or null clears the stored key
   greeting: z.string().max(500).optional(),
   maxCallDuration: z.number().min(30).max(3600).default(600),
   interruptible: z.boolean().default(true),
-  webhookUrl: z.string().url().optional(),
-  webhookEvents: z.array(z.string()).optional(),
+  interruptThreshold: z.number().int().min(0).max(3000).default(500), // ms of caller speech before barge-in
+  endCallPhrases: z.array(z.string().min(1).max(100)).max(20).optional(),
+  transferNumber: z.string().regex(/^\+[1-9]\d{6,14}$/, 'Transfer number must be in E.164 format (e.g., +15551234567)').nullable().optional(),
+  transferMode: z.enum(['cold', 'warm']).default('cold'),
+  webhookUrl: z.string().url().nullable().optional(),
+  webhookEvents: z.array(z.enum(AGENT_WEBHOOK_EVENTS)).optional(),
   isActive: z.boolean().default(true),
   // Mode-specific fields
   mode: z.enum(['INBOUND', 'OUTBOUND', 'HYBRID']).default('INBOUND'),
@@ -35,6 +141,11 @@ export const createAgentSchema = z.object({
   retryAttempts: z.number().min(0).max(5).default(0),
   callWindowStart: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format').optional(),
   callWindowEnd: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format').optional(),
+  voicemailMessage: z.string().max(1000).nullable().optional(), // Text to speak, or an audio URL to play
+  ivrMenu: ivrMenuSchema.nullable().optional(), // null removes the menu
+  extractionSchema: extractionSchemaSchema.nullable().optional(), // null or [] stops collecting data
+  phoneTreeNavigation: z.boolean().default(false), // Press keys and wait on hold on outbound calls
+  callerContext: z.boolean().default(false), // Tell the agent what we know about the caller (opt-in for privacy)
   // Calendar integration (agent-centric)
   calendarEnabled: z.boolean().default(false),
   calendarIntegrationId: z.string().optional(),
@@ -58,6 +169,59 @@ export const createAgentSchema = z.object({
 
 export const updateAgentSchema = createAgentSchema.partial();
 
+// Custom HTTP tool; url, header values and the response template take {{placeholders}}
+export const agentToolSchema = z.object({
+  name: z.string()
+    .regex(/^[a-zA-Z][a-zA-Z0-9_]{0,63}$/, 'Tool names must start with a letter and use only letters, numbers and underscores')
+    .refine((name) => !BUILT_IN_TOOL_NAMES.includes(name), 'That name is used by a built-in tool'),
+  description: z.string().min(1, 'Description is required').max(1000),
+  parameters: z.record(z.any())
+    .refine((schema) => schema.type === 'object', 'Parameters must be a JSON schema with "type": "object"')
+    .default({ type: 'object', properties: {} }),
+  method: z.enum(AGENT_TOOL_METHODS).default('POST'),
+  url: z.string().max(2000).regex(/^https?:\/\//, 'URL must start with http:// or https://'),
+  headers: z.record(z.string().max(2000)).optional(),
+  responseTemplate: z.string().max(2000).nullable().optional(),
+  timeoutMs: z.number().int().min(1000).max(15000).default(5000),
+  isActive: z.boolean().default(true),
+});
+
+export const updateAgentToolSchema = agentToolSchema.partial();
+
+// Prompt template library; {{placeholders}} that aren't call variables become template variables
+export const promptTemplateSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  description: z.string().max(500).nullable().optional(),
+  category: z.enum(PROMPT_TEMPLATE_CATEGORIES).default('other'),
+  systemPrompt: z.string().min(1, 'System prompt is required').max(10000),
+  greeting: z.string().max(500).nullable().optional(),
+});
+
+export const updatePromptTemplateSchema = promptTemplateSchema.partial();
+
+export const saveAgentAsTemplateSchema = z.object({
+  agentId: z.string().min(1),
+  name: z.string().min(1, 'Name is required').max(100),
+  description: z.string().max(500).nullable().optional(),
+  category: z.enum(PROMPT_TEMPLATE_CATEGORIES).optional(), // Defaults from the agent's mode and channel
+  systemPrompt: z.string().min(1).max(10000).optional(), // The agent's prompt with client details swapped for {{placeholders}}
+});
+
+// A/B test: traffic from one phone number or campaign split across agents by weight
+export const experimentSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  phoneNumberId: z.string().min(1).optional(),
+  campaignId: z.string().min(1).optional(),
+  variants: z.array(z.object({
+    name: z.string().min(1, 'Variant name is required').max(50),
+    agentId: z.string().min(1),
+    weight: z.number().int().min(1).max(100),
+  })).min(2, 'Add at least two variants').max(EXPERIMENT_MAX_VARIANTS),
+}).refine((data) => !!data.phoneNumberId !== !!data.campaignId, {
+  message: 'Choose either a phone number or a campaign',
+  path: ['phoneNumberId'],
+});
+
 export const makeOutboundCallSchema = z.object({
   phoneNumber: z.string().min(10, 'Invalid phone number').max(15),
 });
@@ -95,7 +259,11 @@ export const initiateCallSchema = z.object({
 
 export const callFilterSchema = z.object({
   status: z.string().optional(),
+  endReason: z.string().optional(),
+  disposition: z.enum(Object.values(CALL_DISPOSITIONS) as [string, ...string[]]).optional(),
+  sentiment: z.enum(CALL_SENTIMENTS).optional(),
   agentId: z.string().uuid().optional(),
+  agentVersionId: z.string().optional(),
   direction: z.enum(['inbound', 'outbound']).optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
@@ -112,6 +280,11 @@ export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type CreateAgentInput = z.infer<typeof createAgentSchema>;
 export type UpdateAgentInput = z.infer<typeof updateAgentSchema>;
+export type IvrMenu = z.infer<typeof ivrMenuSchema>;
+export type ExtractionField = z.infer<typeof extractionFieldSchema>;
+export type AgentToolInput = z.infer<typeof agentToolSchema>;
+export type PromptTemplateInput = z.infer<typeof promptTemplateSchema>;
+export type ExperimentInput = z.infer<typeof experimentSchema>;
 export type MakeOutboundCallInput = z.infer<typeof makeOutboundCallSchema>;
 export type SendMessageInput = z.infer<typeof sendMessageSchema>;
 export type CreateAssetInput = z.infer<typeof createAssetSchema>;
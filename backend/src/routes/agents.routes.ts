@@ -3,12 +3,23 @@
 // ============================================
 
 import { Router } from 'express';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { createError } from '../middleware/error-handler';
 import { authenticate, AuthRequest } from '../middleware/auth';
-import { createAgentSchema, updateAgentSchema, makeOutboundCallSchema, sendMessageSchema } from '../lib/validators';
-import { ERROR_CODES, DEFAULT_VOICES, DEFAULT_LLM_MODELS, SMS_SEGMENT_RATE_USD, MMS_RATE_USD, CREDITS_PER_USD, AGENT_LIMITS } from '../lib/constants';
-import { decrypt } from '../utils/crypto';
+import { createAgentSchema, updateAgentSchema, findUnknownVariables, makeOutboundCallSchema, sendMessageSchema, paginationSchema, IvrMenu, ExtractionField, agentToolSchema, updateAgentToolSchema } from '../lib/validators';
+import { ERROR_CODES, DEFAULT_VOICES, DEFAULT_LLM_MODELS, AGENT_LIMITS, AGENT_TOOL_LIMIT } from '../lib/constants';
+import { encrypt, decrypt, generateWebhookSecret } from '../utils/crypto';
+import { assertPublicUrl } from '../utils/safe-fetch';
+import { createLLMService } from '../services/llm';
+import { webhookService } from '../services/webhook.service';
+import { encryptToolHeaders, decryptToolHeaders, invokeAgentTool } from '../services/agent-tools.service';
+import { renderTemplate } from '../lib/template';
+import { buildPromptVariables } from '../services/prompt-variables.service';
+import { findUsableTemplate, applyPromptTemplate } from '../services/prompt-templates.service';
+import { recordAgentVersion, saveAgentVersion, changedAgentFields, toAgentConfigInput, restoreAgentTools } from '../services/agent-versions.service';
+import { assertNotOnDncList } from '../services/dnc.service';
+import { sendOutboundMessage } from '../services/messaging.service';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -16,6 +27,133 @@ const router = Router();
 // Apply auth to all routes
 router.use(authenticate);
 
+// Never send the stored LLM API key or webhook secret back to the client
+function toAgentResponse<T extends { llmApiKey: string | null; webhookSecret: string | null }>(agent: T) {
+  const { llmApiKey, webhookSecret, ...rest } = agent;
+  return { ...rest, llmApiKeySet: !!llmApiKey };
+}
+
+// Tool headers are stored encrypted; the owner gets them back to edit
+function toToolResponse<T extends { headers: string | null }>(tool: T) {
+  return { ...tool, headers: decryptToolHeaders(tool.headers) };
+}
+
+// Load an agent owned by the current user or 404
+async function findUserAgent(agentId: string, userId: string) {
+  const agent = await prisma.agent.findFirst({
+    where: { id: agentId, userId },
+  });
+
+  if (!agent) {
+    throw createError('Agent not found', 404, ERROR_CODES.AGENT_NOT_FOUND);
+  }
+
+  return agent;
+}
+
+// Load a tool on an agent owned by the current user or 404
+async function findUserAgentTool(agentId: string, toolId: string, userId: string) {
+  const agent = await findUserAgent(agentId, userId);
+  const tool = await prisma.agentTool.findFirst({
+    where: { id: toolId, agentId: agent.id },
+  });
+
+  if (!tool) {
+    throw createError('Tool not found', 404, 'TOOL_NOT_FOUND');
+  }
+
+  return tool;
+}
+
+// Check the model/provider combination an agent is being saved with
+async function validateLLMConfig(provider: string, model: string | undefined, baseUrl: string | null | undefined) {
+  if (provider === 'openai-compatible') {
+    if (!baseUrl) {
+      throw createError('A base URL is required for OpenAI-compatible providers', 400, ERROR_CODES.VALIDATION_ERROR);
+    }
+
+    // Completions are requested from the server, so the endpoint must be https on a public address
+    try {
+      await assertPublicUrl(baseUrl, { httpsOnly: true });
+    } catch (error) {
+      throw createError(`LLM base URL: ${(error as Error).message}`, 400, ERROR_CODES.VALIDATION_ERROR);
+    }
+    return;
+  }
+
+  if (model && !DEFAULT_LLM_MODELS.some(m => m.id === model)) {
+    throw createError(`Unsupported OpenAI model: ${model}`, 400, ERROR_CODES.VALIDATION_ERROR);
+  }
+}
+
+// Webhooks are POSTed from the server, so they must go to a public address
+async function validateWebhookUrl(url: string | null | undefined) {
+  if (!url) return;
+
+  try {
+    await assertPublicUrl(url);
+  } catch (error) {
+    throw createError(`Webhook URL: ${(error as Error).message}`, 400, ERROR_CODES.VALIDATION_ERROR);
+  }
+}
+
+const PROMPT_TEMPLATE_FIELDS = ['systemPrompt', 'greeting', 'outboundGreeting', 'messagingGreeting'] as const;
+
+type PromptTemplateFields = Partial<Record<typeof PROMPT_TEMPLATE_FIELDS[number], string | null>>;
+
+// {{variables}} in prompts and greetings must be ones we can fill in. Only newly added
+// ones are checked, so an agent saved before this check can still be edited.
+function validatePromptVariables(data: PromptTemplateFields, existing?: PromptTemplateFields) {
+  for (const field of PROMPT_TEMPLATE_FIELDS) {
+    const value = data[field];
+    if (!value) continue;
+
+    const previous = findUnknownVariables(existing?.[field] || '');
+    const unknown = findUnknownVariables(value).find((name) => !previous.includes(name));
+    if (unknown) {
+      throw createError(`Unknown variable {{${unknown}}}`, 400, ERROR_CODES.VALIDATION_ERROR);
+    }
+  }
+}
+
+// Menu options can only route to the user's own agents that take inbound calls
+async function validateIvrMenu(menu: IvrMenu | null | undefined, userId: string) {
+  if (!menu) return;
+
+  const agentIds = [...new Set(menu.options.map((o) => o.agentId))];
+  const agents = await prisma.agent.findMany({
+    where: { id: { in: agentIds }, userId },
+    select: { id: true, name: true, mode: true },
+  });
+
+  for (const agentId of agentIds) {
+    const agent = agents.find((a) => a.id === agentId);
+    if (!agent) {
+      throw createError('IVR menu option points to an agent that was not found', 400, ERROR_CODES.VALIDATION_ERROR);
+    }
+    if (agent.mode === 'OUTBOUND') {
+      throw createError(`${agent.name} is outbound-only and can't take calls from the IVR menu`, 400, ERROR_CODES.VALIDATION_ERROR);
+    }
+  }
+}
+
+// Json columns need DbNull to clear; undefined leaves the stored menu alone
+function toIvrMenuInput(menu: IvrMenu | null | undefined) {
+  return menu === null ? Prisma.DbNull : menu;
+}
+
+// Same for the extraction schema; an empty list clears it too
+function toExtractionSchemaInput(fields: ExtractionField[] | null | undefined) {
+  if (fields === undefined) return undefined;
+  return fields && fields.length > 0 ? fields : Prisma.DbNull;
+}
+
+// undefined keeps the stored key, empty string or null clears it
+function encryptLLMApiKey(apiKey: string | null | undefined): string | null | undefined {
+  if (apiKey === undefined) return undefined;
+  return apiKey ? encrypt(apiKey) : null;
+}
+
 // GET /api/agents - List all agents
 router.get('/', async (req: AuthRequest, res, next) => {
   try {
@@ -44,7 +182,7 @@ router.get('/', async (req: AuthRequest, res, next) => {
         });
 
         return {
-          ...agent,
+          ...toAgentResponse(agent),
           totalCalls: agent._count.calls,
           totalMessages: agent._count.messages,
           avgDuration: Math.round(avgDurationResult._avg.duration || 0),
@@ -95,7 +233,7 @@ router.get('/:id', async (req: AuthRequest, res, next) => {
     res.json({
       success: true,
       data: {
-        ...agent,
+        ...toAgentResponse(agent),
         totalCalls: agent._count.calls,
         totalMessages: agent._count.messages,
         avgDuration: Math.round(avgDurationResult._avg.duration || 0),
@@ -109,7 +247,11 @@ router.get('/:id', async (req: AuthRequest, res, next) => {
 // POST /api/agents - Create agent
 router.post('/', async (req: AuthRequest, res, next) => {
   try {
-    const data = createAgentSchema.parse(req.body);
+    // Creating from a library template: fill its variables in before validating
+    const promptTemplate = typeof req.body.promptTemplateId === 'string'
+      ? await findUsableTemplate(req.body.promptTemplateId, req.user!.id)
+      : null;
+    const data = createAgentSchema.parse(promptTemplate ? applyPromptTemplate(req.body, promptTemplate) : req.body);
 
     // Check agent limit based on user's plan
     const user = await prisma.user.findUnique({
@@ -134,7 +276,12 @@ router.post('/', async (req: AuthRequest, res, next) => {
     const provider = data.voiceProvider || 'elevenlabs';
     const voices = DEFAULT_VOICES[provider] || DEFAULT_VOICES['elevenlabs'];
     const voiceId = data.voiceId || (voices.length > 0 ? voices[0].id : 'rachel');
-    const llmModel = data.llmModel || 'gpt-4-turbo';
+    const llmProvider = data.llmProvider || 'openai';
+    const llmModel = data.llmModel || 'gpt-4o-mini';
+    await validateLLMConfig(llmProvider, llmModel, data.llmBaseUrl);
+    validatePromptVariables(data);
+    await validateIvrMenu(data.ivrMenu, req.user!.id);
+    await validateWebhookUrl(data.webhookUrl);
 
     // Validate calendar integration belongs to user if provided
     if (data.calendarIntegrationId) {
@@ -158,17 +305,33 @@ router.post('/', async (req: AuthRequest, res, next) => {
         voiceProvider: data.voiceProvider || 'elevenlabs',
         voice: voiceId,
         voiceSettings: data.voiceSettings,
+        language: data.language || 'en-US',
+        autoDetectLanguage: data.autoDetectLanguage ?? false,
+        llmProvider,
+        llmModel,
+        llmBaseUrl: llmProvider === 'openai-compatible' ? data.llmBaseUrl : null,
+        llmApiKey: llmProvider === 'openai-compatible' ? encryptLLMApiKey(data.llmApiKey) : null,
         greeting: data.greeting,
         maxCallDuration: data.maxCallDuration || 600,
         interruptible: data.interruptible ?? true,
+        interruptThreshold: data.interruptThreshold ?? 500,
+        endCallPhrases: data.endCallPhrases || [],
+        transferNumber: data.transferNumber || null,
+        transferMode: data.transferMode || 'cold',
         webhookUrl: data.webhookUrl || null,
         webhookEvents: data.webhookEvents || [],
+        webhookSecret: data.webhookUrl ? encrypt(generateWebhookSecret()) : null,
         mode: data.mode || 'INBOUND',
         outboundGreeting: data.outboundGreeting,
         callTimeout: data.callTimeout || 600,
         retryAttempts: data.retryAttempts || 0,
         callWindowStart: data.callWindowStart,
         callWindowEnd: data.callWindowEnd,
+        voicemailMessage: data.voicemailMessage || null,
+        ivrMenu: toIvrMenuInput(data.ivrMenu),
+        extractionSchema: toExtractionSchemaInput(data.extractionSchema),
+        phoneTreeNavigation: data.phoneTreeNavigation ?? false,
+        callerContext: data.callerContext ?? false,
         // Calendar configuration (agent-centric)
         calendarEnabled: data.calendarEnabled ?? false,
         calendarIntegrationId: data.calendarIntegrationId || null,
@@ -187,12 +350,22 @@ router.post('/', async (req: AuthRequest, res, next) => {
         imageToolEnabled: data.imageToolEnabled ?? false,
         documentToolEnabled: data.documentToolEnabled ?? false,
         videoToolEnabled: data.videoToolEnabled ?? false,
+        template: promptTemplate?.id,
       },
     });
 
+    if (promptTemplate) {
+      await prisma.promptTemplate.update({
+        where: { id: promptTemplate.id },
+        data: { usageCount: { increment: 1 } },
+      });
+    }
+
+    const versioned = await recordAgentVersion(agent.id);
+
     res.status(201).json({
       success: true,
-      data: agent,
+      data: toAgentResponse(versioned),
     });
   } catch (error) {
     next(error);
@@ -229,8 +402,19 @@ router.put('/:id', async (req: AuthRequest, res, next) => {
       }
     }
 
-    const agent = await prisma.agent.update({
-      where: { id: req.params.id },
+    const llmProvider = data.llmProvider ?? existing.llmProvider;
+    const switchingToOpenAI = llmProvider === 'openai' && existing.llmProvider !== 'openai';
+    await validateLLMConfig(
+      llmProvider,
+      data.llmModel ?? (data.llmProvider ? existing.llmModel : undefined),
+      data.llmBaseUrl !== undefined ? data.llmBaseUrl : existing.llmBaseUrl
+    );
+    validatePromptVariables(data, existing);
+    await validateIvrMenu(data.ivrMenu, req.user!.id);
+    await validateWebhookUrl(data.webhookUrl);
+
+    const { agent: versioned } = await saveAgentVersion(existing.id, (tx) => tx.agent.update({
+      where: { id: existing.id },
       data: {
         name: data.name,
         description: data.description,
@@ -238,11 +422,24 @@ router.put('/:id', async (req: AuthRequest, res, next) => {
         voiceProvider: data.voiceProvider,
         voice: data.voiceId,
         voiceSettings: data.voiceSettings,
+        language: data.language,
+        autoDetectLanguage: data.autoDetectLanguage,
+        llmProvider: data.llmProvider,
+        llmModel: data.llmModel,
+        // Endpoint credentials only apply to openai-compatible, drop them when switching back
+        llmBaseUrl: switchingToOpenAI ? null : data.llmBaseUrl,
+        llmApiKey: switchingToOpenAI ? null : encryptLLMApiKey(data.llmApiKey),
         greeting: data.greeting,
         maxCallDuration: data.maxCallDuration,
         interruptible: data.interruptible,
+        interruptThreshold: data.interruptThreshold,
+        endCallPhrases: data.endCallPhrases,
+        transferNumber: data.transferNumber,
+        transferMode: data.transferMode,
         webhookUrl: data.webhookUrl,
         webhookEvents: data.webhookEvents,
+        // First webhook URL gets a signing secret; later changes keep it until rotated
+        webhookSecret: data.webhookUrl && !existing.webhookSecret ? encrypt(generateWebhookSecret()) : undefined,
         isActive: data.isActive,
         mode: data.mode,
         outboundGreeting: data.outboundGreeting,
@@ -250,6 +447,11 @@ router.put('/:id', async (req: AuthRequest, res, next) => {
         retryAttempts: data.retryAttempts,
         callWindowStart: data.callWindowStart,
         callWindowEnd: data.callWindowEnd,
+        voicemailMessage: data.voicemailMessage,
+        ivrMenu: toIvrMenuInput(data.ivrMenu),
+        extractionSchema: toExtractionSchemaInput(data.extractionSchema),
+        phoneTreeNavigation: data.phoneTreeNavigation,
+        callerContext: data.callerContext,
         // Calendar configuration (agent-centric)
         calendarEnabled: data.calendarEnabled,
         calendarIntegrationId: data.calendarIntegrationId,
@@ -269,11 +471,11 @@ router.put('/:id', async (req: AuthRequest, res, next) => {
         documentToolEnabled: data.documentToolEnabled,
         videoToolEnabled: data.videoToolEnabled,
       },
-    });
+    }));
 
     res.json({
       success: true,
-      data: agent,
+      data: toAgentResponse(versioned),
     });
   } catch (error) {
     next(error);
@@ -323,6 +525,332 @@ router.delete('/:id', async (req: AuthRequest, res, next) => {
   }
 });
 
+// GET /api/agents/:id/webhook - Webhook settings including the signing secret
+router.get('/:id/webhook', async (req: AuthRequest, res, next) => {
+  try {
+    const agent = await findUserAgent(req.params.id, req.user!.id);
+
+    res.json({
+      success: true,
+      data: {
+        url: agent.webhookUrl,
+        events: agent.webhookEvents,
+        secret: agent.webhookSecret ? decrypt(agent.webhookSecret) : null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/agents/:id/webhook/rotate-secret - Replace the signing secret
+router.post('/:id/webhook/rotate-secret', async (req: AuthRequest, res, next) => {
+  try {
+    const agent = await findUserAgent(req.params.id, req.user!.id);
+
+    if (!agent.webhookUrl) {
+      throw createError('Set a webhook URL before rotating its secret', 400, ERROR_CODES.VALIDATION_ERROR);
+    }
+
+    const secret = generateWebhookSecret();
+    await prisma.agent.update({
+      where: { id: agent.id },
+      data: { webhookSecret: encrypt(secret) },
+    });
+
+    res.json({
+      success: true,
+      data: { secret },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/agents/:id/webhook-deliveries - Delivery attempts, newest first
+router.get('/:id/webhook-deliveries', async (req: AuthRequest, res, next) => {
+  try {
+    const agent = await findUserAgent(req.params.id, req.user!.id);
+
+    const pagination = paginationSchema.parse({
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 20,
+    });
+
+    const where = { agentId: agent.id };
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (pagination.page - 1) * pagination.limit,
+        take: pagination.limit,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: deliveries,
+      meta: {
+        page: pagination.page,
+        limit: pagination.limit,
+        total,
+        hasMore: pagination.page * pagination.limit < total,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/agents/:id/webhook-deliveries/:deliveryId/redeliver - Send a logged payload again
+router.post('/:id/webhook-deliveries/:deliveryId/redeliver', async (req: AuthRequest, res, next) => {
+  try {
+    const agent = await findUserAgent(req.params.id, req.user!.id);
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: req.params.deliveryId, agentId: agent.id },
+    });
+
+    if (!delivery) {
+      throw createError('Webhook delivery not found', 404, 'WEBHOOK_DELIVERY_NOT_FOUND');
+    }
+
+    if (!agent.webhookUrl) {
+      throw createError('Agent has no webhook URL', 400, ERROR_CODES.VALIDATION_ERROR);
+    }
+
+    // Redeliveries go to the current URL in case it was fixed since
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { url: agent.webhookUrl },
+    });
+    await webhookService.redeliver(delivery.id);
+
+    res.json({
+      success: true,
+      data: { queued: true },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/agents/:id/tools - Custom HTTP tools the agent can call
+router.get('/:id/tools', async (req: AuthRequest, res, next) => {
+  try {
+    const agent = await findUserAgent(req.params.id, req.user!.id);
+
+    const tools = await prisma.agentTool.findMany({
+      where: { agentId: agent.id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: tools.map(toToolResponse),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/agents/:id/tools - Add a custom tool
+router.post('/:id/tools', async (req: AuthRequest, res, next) => {
+  try {
+    const agent = await findUserAgent(req.params.id, req.user!.id);
+    const data = agentToolSchema.parse(req.body);
+
+    const [count, existing] = await Promise.all([
+      prisma.agentTool.count({ where: { agentId: agent.id } }),
+      prisma.agentTool.findFirst({ where: { agentId: agent.id, name: data.name } }),
+    ]);
+
+    if (count >= AGENT_TOOL_LIMIT) {
+      throw createError(`Agents can have up to ${AGENT_TOOL_LIMIT} tools`, 400, ERROR_CODES.VALIDATION_ERROR);
+    }
+    if (existing) {
+      throw createError(`This agent already has a tool named ${data.name}`, 409, ERROR_CODES.ALREADY_EXISTS);
+    }
+
+    const { result: tool } = await saveAgentVersion(agent.id, (tx) => tx.agentTool.create({
+      data: {
+        agentId: agent.id,
+        name: data.name,
+        description: data.description,
+        parameters: data.parameters,
+        method: data.method,
+        url: data.url,
+        headers: encryptToolHeaders(data.headers),
+        responseTemplate: data.responseTemplate || null,
+        timeoutMs: data.timeoutMs,
+        isActive: data.isActive,
+      },
+    }));
+
+    res.status(201).json({
+      success: true,
+      data: toToolResponse(tool),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/agents/:id/tools/:toolId - Update a custom tool
+router.put('/:id/tools/:toolId', async (req: AuthRequest, res, next) => {
+  try {
+    const existing = await findUserAgentTool(req.params.id, req.params.toolId, req.user!.id);
+    const data = updateAgentToolSchema.parse(req.body);
+
+    if (data.name && data.name !== existing.name) {
+      const clash = await prisma.agentTool.findFirst({
+        where: { agentId: existing.agentId, name: data.name },
+      });
+      if (clash) {
+        throw createError(`This agent already has a tool named ${data.name}`, 409, ERROR_CODES.ALREADY_EXISTS);
+      }
+    }
+
+    const { result: tool } = await saveAgentVersion(existing.agentId, (tx) => tx.agentTool.update({
+      where: { id: existing.id },
+      data: {
+        name: data.name,
+        description: data.description,
+        parameters: data.parameters,
+        method: data.method,
+        url: data.url,
+        headers: data.headers !== undefined ? encryptToolHeaders(data.headers) : undefined,
+        responseTemplate: data.responseTemplate !== undefined ? data.responseTemplate || null : undefined,
+        timeoutMs: data.timeoutMs,
+        isActive: data.isActive,
+      },
+    }));
+
+    res.json({
+      success: true,
+      data: toToolResponse(tool),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/agents/:id/tools/:toolId - Remove a custom tool
+router.delete('/:id/tools/:toolId', async (req: AuthRequest, res, next) => {
+  try {
+    const tool = await findUserAgentTool(req.params.id, req.params.toolId, req.user!.id);
+
+    await saveAgentVersion(tool.agentId, (tx) => tx.agentTool.delete({ where: { id: tool.id } }));
+
+    res.json({
+      success: true,
+      data: { deleted: true },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/agents/:id/tools/:toolId/test - Run a tool with sample arguments
+router.post('/:id/tools/:toolId/test', async (req: AuthRequest, res, next) => {
+  try {
+    const tool = await findUserAgentTool(req.params.id, req.params.toolId, req.user!.id);
+    const args = req.body?.arguments;
+
+    if (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) {
+      throw createError('Arguments must be a JSON object', 400, ERROR_CODES.VALIDATION_ERROR);
+    }
+
+    const invocation = await invokeAgentTool(tool, args || {});
+
+    // The response body stays server-side; the test only reports how the request went
+    res.json({
+      success: true,
+      data: { ...invocation, result: null },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/agents/:id/versions - Saved versions, newest first, with what changed in each
+router.get('/:id/versions', async (req: AuthRequest, res, next) => {
+  try {
+    const agent = await findUserAgent(req.params.id, req.user!.id);
+
+    const versions = await prisma.agentVersion.findMany({
+      where: { agentId: agent.id },
+      orderBy: { version: 'asc' },
+      include: {
+        _count: { select: { calls: true, messages: true } },
+      },
+    });
+
+    const data = versions.map((version, index) => ({
+      ...version,
+      changedFields: index > 0
+        ? changedAgentFields(versions[index - 1].config as Record<string, unknown>, version.config as Record<string, unknown>)
+        : [],
+      isCurrent: version.id === agent.currentVersionId,
+    }));
+
+    res.json({
+      success: true,
+      data: data.reverse(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/agents/:id/versions/:versionId/rollback - Restore a version's config as a new version
+router.post('/:id/versions/:versionId/rollback', async (req: AuthRequest, res, next) => {
+  try {
+    const existing = await findUserAgent(req.params.id, req.user!.id);
+
+    const version = await prisma.agentVersion.findFirst({
+      where: { id: req.params.versionId, agentId: existing.id },
+    });
+
+    if (!version) {
+      throw createError('Agent version not found', 404, ERROR_CODES.NOT_FOUND);
+    }
+
+    const config = version.config as Record<string, unknown>;
+
+    // Agents the menu routes to may have been deleted or switched to outbound since
+    await validateIvrMenu(config.ivrMenu as IvrMenu | null | undefined, req.user!.id);
+
+    // A calendar that has since been disconnected is dropped rather than restored
+    const calendarIntegrationId = typeof config.calendarIntegrationId === 'string'
+      ? (await prisma.calendarIntegration.findFirst({
+          where: { id: config.calendarIntegrationId, userId: req.user!.id },
+          select: { id: true },
+        }))?.id ?? null
+      : null;
+
+    const { agent: versioned } = await saveAgentVersion(existing.id, async (tx) => {
+      await tx.agent.update({
+        where: { id: existing.id },
+        data: {
+          ...toAgentConfigInput(config),
+          calendarIntegrationId,
+          webhookSecret: config.webhookUrl && !existing.webhookSecret ? encrypt(generateWebhookSecret()) : undefined,
+        },
+      });
+      await restoreAgentTools(tx, existing.id, config);
+    }, `Rolled back to v${version.version}`);
+
+    res.json({
+      success: true,
+      data: toAgentResponse(versioned),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/agents/:id/test - Test agent with a message
 router.post('/:id/test', async (req: AuthRequest, res, next) => {
   try {
@@ -344,19 +872,20 @@ router.post('/:id/test', async (req: AuthRequest, res, next) => {
     }
 
     // Import services dynamically to avoid circular dependencies
-    const { OpenAIService } = await import('../services/llm/openai.service');
-    const { ElevenLabsService } = await import('../services/tts/elevenlabs.service');
+    const { createTTSService, parseVoiceSettings } = await import('../services/tts');
 
-    const llmService = new OpenAIService();
-    const ttsService = new ElevenLabsService();
+    const llmService = createLLMService(agent);
+    const ttsService = createTTSService(agent);
 
     const startTime = Date.now();
 
     // Generate LLM response
     const llmStart = Date.now();
+    // No caller on a test, so only business and date/time variables have values
+    const promptVariables = await buildPromptVariables({ userId: req.user!.id });
     const response = await llmService.generateResponse(
       [{ role: 'user', content: testMessage }],
-      agent.systemPrompt
+      renderTemplate(agent.systemPrompt, promptVariables)
     );
     const llmTime = Date.now() - llmStart;
 
@@ -364,7 +893,11 @@ router.post('/:id/test', async (req: AuthRequest, res, next) => {
     const ttsStart = Date.now();
     let audioUrl: string | undefined;
     try {
-      const audioBuffer = await ttsService.textToSpeech(response, agent.voice);
+      const audioBuffer = await ttsService.textToSpeechForTwilio(
+        response,
+        ttsService.resolveVoiceId(agent.voice),
+        parseVoiceSettings(agent.voiceSettings)
+      );
       // In production, upload to S3 and return URL
       // For now, we skip the audio URL
       audioUrl = undefined;
@@ -437,6 +970,8 @@ router.post('/:id/call', async (req: AuthRequest, res, next) => {
       throw createError('Call quota exceeded', 403, ERROR_CODES.CALL_QUOTA_EXCEEDED);
     }
 
+    await assertNotOnDncList(req.user!.id, data.phoneNumber);
+
     const phoneNumber = await prisma.phoneNumber.findFirst({
       where: {
         userId: req.user!.id,
@@ -474,7 +1009,8 @@ router.post('/:id/call', async (req: AuthRequest, res, next) => {
     const result = await twilioService.makeOutboundCall(
       data.phoneNumber,
       agent.id,
-      phoneNumber.phoneNumber
+      phoneNumber.phoneNumber,
+      { detectMachine: !!agent.voicemailMessage }
     );
 
     // Create call record
@@ -483,6 +1019,7 @@ router.post('/:id/call', async (req: AuthRequest, res, next) => {
         callSid: result.callSid,
         userId: req.user!.id,
         agentId: agent.id,
+        agentVersionId: agent.currentVersionId,
         phoneNumberId: phoneNumber.id,
         direction: 'outbound',
         from: phoneNumber.phoneNumber,
@@ -538,6 +1075,8 @@ router.post('/:id/message', async (req: AuthRequest, res, next) => {
       throw createError('Agent is configured for inbound only', 400, 'OUTBOUND_NOT_ALLOWED');
     }
 
+    await assertNotOnDncList(req.user!.id, data.phoneNumber);
+
     // Get phone number assigned to this agent
     const phoneNumber = await prisma.phoneNumber.findFirst({
       where: {
@@ -551,29 +1090,6 @@ router.post('/:id/message', async (req: AuthRequest, res, next) => {
       throw createError('No active phone number assigned to this agent', 400, ERROR_CODES.PHONE_NUMBER_NOT_FOUND);
     }
 
-    // Get user's Twilio credentials and billing info
-    const user = await prisma.user.findUnique({
-      where: { id: req.user!.id },
-      select: {
-        twilioAccountSid: true,
-        twilioAuthToken: true,
-        twilioConfigured: true,
-        twilioMessagingServiceSid: true,
-        creditsBalance: true,
-        minutesUsed: true,
-        minutesLimit: true,
-      },
-    });
-
-    if (!user?.twilioConfigured || !user.twilioAccountSid || !user.twilioAuthToken) {
-      throw createError('Twilio account not configured', 400, ERROR_CODES.TWILIO_NOT_CONFIGURED);
-    }
-
-    // Check credits balance - messaging is always credit-based (no included message quota)
-    if (Number(user.creditsBalance) <= 0) {
-      throw createError('Insufficient credits to send messages', 402, ERROR_CODES.INSUFFICIENT_CREDITS);
-    }
-
     // Resolve asset IDs to URLs if provided
     let allMediaUrls: string[] = data.mediaUrls || [];
 
@@ -608,107 +1124,22 @@ router.post('/:id/message', async (req: AuthRequest, res, next) => {
       throw createError('No media tools enabled for this agent. Enable Image, Document, or Video tools to send media.', 400, 'NO_MEDIA_TOOLS_ENABLED');
     }
 
-    // Initialize Twilio service with user's credentials
-    const { TwilioService } = await import('../services/twilio.service');
-    const twilioService = new TwilioService({
-      accountSid: user.twilioAccountSid,
-      authToken: decrypt(user.twilioAuthToken),
-    });
-
-    // Determine message type
-    const messageType = allMediaUrls.length > 0 ? 'MMS' : 'SMS';
-
-    // Get Messaging Service SID for A2P 10DLC compliance (optional)
-    const messagingServiceSid = user.twilioMessagingServiceSid || undefined;
-
-    // Send the message (uses Messaging Service SID if configured for US A2P compliance)
-    const result = messageType === 'MMS'
-      ? await twilioService.sendMMS(data.phoneNumber, phoneNumber.phoneNumber, data.message, allMediaUrls, messagingServiceSid)
-      : await twilioService.sendSMS(data.phoneNumber, phoneNumber.phoneNumber, data.message, messagingServiceSid);
-
-    // Create or update conversation
-    const conversation = await prisma.conversation.upsert({
-      where: {
-        userId_externalNumber_twilioNumber: {
-          userId: req.user!.id,
-          externalNumber: data.phoneNumber,
-          twilioNumber: phoneNumber.phoneNumber,
-        },
-      },
-      update: {
-        lastMessageAt: new Date(),
-        messageCount: { increment: 1 },
-        agentId: agent.id, // Update to current agent
-        agentName: agent.name, // Denormalized for when agent is deleted
-        agentVoice: agent.voice,
-      },
-      create: {
-        userId: req.user!.id,
-        externalNumber: data.phoneNumber,
-        twilioNumber: phoneNumber.phoneNumber,
-        agentId: agent.id,
-        agentName: agent.name, // Denormalized for when agent is deleted
-        agentVoice: agent.voice,
-        lastMessageAt: new Date(),
-        messageCount: 1,
-      },
-    });
-
-    // Calculate message cost
-    // SMS: $0.01 per segment (messages over 160 chars are split)
-    // MMS: $0.03 per message (regardless of media count)
-    const segmentCount = messageType === 'SMS' ? Math.ceil((data.message?.length || 0) / 160) || 1 : 1;
-    const messageCostUsd = messageType === 'MMS' ? MMS_RATE_USD : SMS_SEGMENT_RATE_USD * segmentCount;
-    const creditsToDeduct = Math.ceil(messageCostUsd * CREDITS_PER_USD);
-
-    // Create message record
-    const message = await prisma.message.create({
-      data: {
-        messageSid: result.messageSid,
-        userId: req.user!.id,
-        agentId: agent.id,
-        phoneNumberId: phoneNumber.id,
-        conversationId: conversation.id, // Link to conversation
-        type: messageType,
-        direction: 'OUTBOUND',
-        status: 'QUEUED',
-        from: phoneNumber.phoneNumber,
-        to: data.phoneNumber,
-        body: data.message,
-        mediaUrls: allMediaUrls,
-        numMedia: allMediaUrls.length,
-        numSegments: segmentCount,
-        costUsd: messageCostUsd,
-        sentAt: new Date(),
-        // Agent snapshot
-        agentName: agent.name,
-        agentSystemPrompt: agent.messagingSystemPrompt || agent.systemPrompt,
-      },
-    });
-
-    // Deduct credits for the message
-    await prisma.user.update({
-      where: { id: req.user!.id },
-      data: {
-        creditsBalance: { decrement: creditsToDeduct },
-      },
-    });
-
-    logger.info(`[Agents] Message sent, deducted ${creditsToDeduct} credits`, {
+    const message = await sendOutboundMessage({
       userId: req.user!.id,
-      messageId: message.id,
-      type: messageType,
-      segments: segmentCount,
-      costUsd: messageCostUsd,
+      agent,
+      from: phoneNumber,
+      to: data.phoneNumber,
+      body: data.message,
+      mediaUrls: allMediaUrls,
     });
 
     res.status(201).json({
       success: true,
       data: {
-        messageSid: result.messageSid,
+        messageSid: message.messageSid,
         messageId: message.id,
         status: 'QUEUED',
-        type: messageType,
+        type: message.type,
         to: data.phoneNumber,
         from: phoneNumber.phoneNumber,
       },
@@ -12,12 +12,51 @@ import { TwilioService } from '../services/twilio.service';
 import { config } from '../config';
 import { getPresignedUrl, getFromS3 } from '../services/storage.service';
 import { logger } from '../utils/logger';
+import { percentile } from '../utils/metrics';
+import { toCsvValue } from '../utils/csv';
+import { assertNotOnDncList } from '../services/dnc.service';
 
 const router = Router();
 
 // Apply auth to all routes
 router.use(authenticate);
 
+const EXPORT_LIMIT = 5000;
+
+// Prisma where clause for the call list filters in the query string
+function buildCallWhere(req: AuthRequest) {
+  const filter = callFilterSchema.parse({
+    agentId: req.query.agentId,
+    agentVersionId: req.query.agentVersionId,
+    status: req.query.status,
+    endReason: req.query.endReason,
+    disposition: req.query.disposition,
+    sentiment: req.query.sentiment,
+    direction: req.query.direction,
+    startDate: req.query.startDate,
+    endDate: req.query.endDate,
+  });
+
+  const where: any = {
+    userId: req.user!.id,
+  };
+
+  if (filter.agentId) where.agentId = filter.agentId;
+  if (filter.agentVersionId) where.agentVersionId = filter.agentVersionId;
+  if (filter.status) where.status = filter.status;
+  if (filter.endReason) where.endReason = filter.endReason;
+  if (filter.disposition) where.disposition = filter.disposition;
+  if (filter.sentiment) where.sentiment = filter.sentiment;
+  if (filter.direction) where.direction = filter.direction;
+  if (filter.startDate || filter.endDate) {
+    where.createdAt = {};
+    if (filter.startDate) where.createdAt.gte = new Date(filter.startDate);
+    if (filter.endDate) where.createdAt.lte = new Date(filter.endDate);
+  }
+
+  return where;
+}
+
 // GET /api/calls - List calls with filtering and pagination
 router.get('/', async (req: AuthRequest, res, next) => {
   try {
@@ -28,26 +67,7 @@ router.get('/', async (req: AuthRequest, res, next) => {
       sortOrder: req.query.sortOrder || 'desc',
     });
 
-    const filter = callFilterSchema.parse({
-      agentId: req.query.agentId,
-      status: req.query.status,
-      direction: req.query.direction,
-      startDate: req.query.startDate,
-      endDate: req.query.endDate,
-    });
-
-    const where: any = {
-      userId: req.user!.id,
-    };
-
-    if (filter.agentId) where.agentId = filter.agentId;
-    if (filter.status) where.status = filter.status;
-    if (filter.direction) where.direction = filter.direction;
-    if (filter.startDate || filter.endDate) {
-      where.createdAt = {};
-      if (filter.startDate) where.createdAt.gte = new Date(filter.startDate);
-      if (filter.endDate) where.createdAt.lte = new Date(filter.endDate);
-    }
+    const where = buildCallWhere(req);
 
     const [calls, total] = await Promise.all([
       prisma.call.findMany({
@@ -79,6 +99,59 @@ router.get('/', async (req: AuthRequest, res, next) => {
   }
 });
 
+// GET /api/calls/export - CSV of calls matching the list filters, one column per extracted field
+router.get('/export', async (req: AuthRequest, res, next) => {
+  try {
+    const calls = await prisma.call.findMany({
+      where: buildCallWhere(req),
+      orderBy: { createdAt: 'desc' },
+      take: EXPORT_LIMIT,
+      include: {
+        agent: {
+          select: { name: true },
+        },
+      },
+    });
+
+    // Field columns in first-seen order across all calls
+    const fieldKeys: string[] = [];
+    for (const call of calls) {
+      for (const key of Object.keys((call.extractedData as Record<string, unknown>) || {})) {
+        if (!fieldKeys.includes(key)) fieldKeys.push(key);
+      }
+    }
+
+    const header = [
+      'id', 'createdAt', 'direction', 'from', 'to', 'agent', 'status', 'duration',
+      'endReason', 'disposition', 'sentiment', 'summary', ...fieldKeys,
+    ];
+    const rows = calls.map((call) => {
+      const data = (call.extractedData as Record<string, unknown>) || {};
+      return [
+        call.id,
+        call.createdAt.toISOString(),
+        call.direction,
+        call.from,
+        call.to,
+        call.agent?.name || call.agentName,
+        call.status,
+        call.duration,
+        call.endReason,
+        call.disposition,
+        call.sentiment,
+        call.summary,
+        ...fieldKeys.map((key) => data[key]),
+      ].map(toCsvValue).join(',');
+    });
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="calls-${new Date().toISOString().slice(0, 10)}.csv"`);
+    res.send([header.join(','), ...rows].join('\n'));
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/calls/:id/recording - Proxy call recording (from S3 or Twilio)
 router.get('/:id/recording', async (req: AuthRequest, res, next) => {
   try {
@@ -186,7 +259,16 @@ router.get('/:id', async (req: AuthRequest, res, next) => {
       },
       include: {
         agent: {
-          select: { id: true, name: true, voice: true },
+          select: { id: true, name: true, voice: true, extractionSchema: true },
+        },
+        agentVersion: {
+          select: { id: true, version: true, note: true, createdAt: true },
+        },
+        experimentVariant: {
+          select: { id: true, name: true, experiment: { select: { id: true, name: true } } },
+        },
+        toolInvocations: {
+          orderBy: { createdAt: 'asc' },
         },
       },
     });
@@ -254,6 +336,8 @@ router.post('/', async (req: AuthRequest, res, next) => {
       throw createError('Call quota exceeded', 403, ERROR_CODES.CALL_QUOTA_EXCEEDED);
     }
 
+    await assertNotOnDncList(req.user!.id, data.toNumber || data.to);
+
     // Get from number
     let fromNumber = data.fromNumber;
     if (!fromNumber) {
@@ -272,6 +356,7 @@ router.post('/', async (req: AuthRequest, res, next) => {
       data: {
         userId: req.user!.id,
         agentId: data.agentId,
+        agentVersionId: agent.currentVersionId,
         direction: 'outbound',
         from: fromNumber,
         to: data.toNumber || data.to,
@@ -292,7 +377,8 @@ router.post('/', async (req: AuthRequest, res, next) => {
       const result = await twilioService.makeCall(
         toPhone,
         fromNumber,
-        `${config.apiUrl}/api/webhooks/twilio/voice?agentId=${data.agentId}&callId=${call.id}`
+        `${config.apiUrl}/api/webhooks/twilio/voice?agentId=${data.agentId}&callId=${call.id}`,
+        { detectMachine: !!agent.voicemailMessage }
       );
 
       // Update with real call SID
@@ -532,4 +618,90 @@ router.get('/analytics/timeseries', async (req: AuthRequest, res, next) => {
   }
 });
 
+// Latency percentiles for a set of agent turns
+function summarizeLatency(samples: Array<{ sttMs: number; llmMs: number; ttsMs: number; totalMs: number }>) {
+  const totals = samples.map((s) => s.totalMs);
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0;
+
+  return {
+    turns: samples.length,
+    avg: average(totals),
+    p50: percentile(totals, 50),
+    p90: percentile(totals, 90),
+    p95: percentile(totals, 95),
+    avgStt: average(samples.map((s) => s.sttMs)),
+    avgLlm: average(samples.map((s) => s.llmMs)),
+    avgTts: average(samples.map((s) => s.ttsMs)),
+  };
+}
+
+// GET /api/calls/analytics/latency - Response latency percentiles by agent, model and voice provider
+router.get('/analytics/latency', async (req: AuthRequest, res, next) => {
+  try {
+    const days = parseInt(req.query.days as string) || 30;
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+    startDate.setHours(0, 0, 0, 0);
+
+    const callWhere: any = { userId: req.user!.id };
+    if (req.query.agentId) callWhere.agentId = req.query.agentId;
+
+    const samples = await prisma.callLatencySample.findMany({
+      where: {
+        createdAt: { gte: startDate },
+        call: callWhere,
+      },
+      select: {
+        sttMs: true,
+        llmMs: true,
+        ttsMs: true,
+        totalMs: true,
+        llmModel: true,
+        voiceProvider: true,
+        call: {
+          select: {
+            agentId: true,
+            agentName: true,
+            agent: { select: { name: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 20000, // Plenty for percentiles, bounds memory for busy accounts
+    });
+
+    // Group samples by a dimension and summarize each group, slowest p95 first
+    const groupBy = (keyOf: (sample: typeof samples[number]) => { key: string; label: string }) => {
+      const groups = new Map<string, { label: string; samples: typeof samples }>();
+      for (const sample of samples) {
+        const { key, label } = keyOf(sample);
+        const group = groups.get(key) || { label, samples: [] };
+        group.samples.push(sample);
+        groups.set(key, group);
+      }
+
+      return Array.from(groups.entries())
+        .map(([key, group]) => ({ key, label: group.label, ...summarizeLatency(group.samples) }))
+        .sort((a, b) => b.p95 - a.p95);
+    };
+
+    res.json({
+      success: true,
+      data: {
+        days,
+        overall: summarizeLatency(samples),
+        byAgent: groupBy((s) => ({
+          key: s.call.agentId || 'deleted',
+          label: s.call.agent?.name || s.call.agentName || 'Deleted agent',
+        })),
+        byModel: groupBy((s) => ({ key: s.llmModel || 'unknown', label: s.llmModel || 'Unknown' })),
+        byVoiceProvider: groupBy((s) => ({ key: s.voiceProvider || 'unknown', label: s.voiceProvider || 'Unknown' })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
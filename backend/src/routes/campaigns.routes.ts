@@ -6,8 +6,12 @@ import { Router } from 'express';
 import { prisma } from '../lib/prisma';
 import { createError } from '../middleware/error-handler';
 import { authenticate, AuthRequest } from '../middleware/auth';
-import { ERROR_CODES } from '../lib/constants';
+import { ERROR_CODES, REACHED_OUTCOMES, CAMPAIGN_STEP_CHANNELS, CAMPAIGN_STEP_CONDITIONS, CAMPAIGN_STEP_LIMIT } from '../lib/constants';
 import { campaignService } from '../services/campaign.service';
+import { getPoolUsage } from '../services/phone-pool.service';
+import { findDncNumbers, normalizeDncNumber, DNC_SKIP_NOTE } from '../services/dnc.service';
+import { getCampaignSteps, getSequenceFunnel, saveCampaignSteps, validateCampaignSteps } from '../services/campaign-sequence.service';
+import { isValidTimeZone, normalizeTimeZone, resolveLeadTimeZone } from '../utils/timezone';
 import { parse } from 'csv-parse/sync';
 import { z } from 'zod';
 
@@ -17,6 +21,14 @@ const router = Router();
 router.use(authenticate);
 
 // Validation schemas
+const campaignStepSchema = z.object({
+  channel: z.enum(CAMPAIGN_STEP_CHANNELS),
+  condition: z.enum(CAMPAIGN_STEP_CONDITIONS).default('always'), // Ignored on the first step
+  delayMinutes: z.number().int().min(0).max(30 * 24 * 60).default(0),
+  message: z.string().max(1600).nullable().optional(), // SMS steps
+  assetId: z.string().min(1).nullable().optional(),    // SMS steps: sent as MMS media
+});
+
 const createCampaignSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   description: z.string().optional(),
@@ -25,20 +37,42 @@ const createCampaignSchema = z.object({
   endDate: z.string().datetime().optional(),
   callWindowStart: z.string().regex(/^\d{2}:\d{2}$/).optional(),
   callWindowEnd: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Invalid timezone').optional(), // IANA name, e.g. America/Chicago
   dailyCallLimit: z.number().int().min(1).max(1000).default(100),
-  callsPerHour: z.number().int().min(1).max(100).optional(),
+  callsPerHour: z.number().int().min(1).max(1000).nullable().optional(), // null = no hourly limit
   minCallInterval: z.number().int().min(10).max(300).default(30),
+  maxConcurrentCalls: z.number().int().min(1).max(50).default(1), // Also capped by the account's limit
   maxRetryAttempts: z.number().int().min(0).max(10).default(3),
   retryInterval: z.number().int().min(300).max(86400).default(3600),
+  voicemailMessage: z.string().max(1000).nullable().optional(), // Overrides the agent's voicemail message
+  phoneNumberIds: z.array(z.string().min(1)).max(50).optional(), // Caller ID pool; empty = the agent's number
+  localPresence: z.boolean().default(false),
+  callsPerNumberPerDay: z.number().int().min(1).max(1000).nullable().optional(),
+  steps: z.array(campaignStepSchema).max(CAMPAIGN_STEP_LIMIT).optional(), // Empty = one call per lead with retries
 });
 
 const updateCampaignSchema = createCampaignSchema.partial();
 
+// Caller ID pool numbers must belong to the user
+async function verifyPoolNumbers(userId: string, phoneNumberIds: string[]): Promise<string[]> {
+  const ids = Array.from(new Set(phoneNumberIds));
+  const owned = await prisma.phoneNumber.count({
+    where: { id: { in: ids }, userId },
+  });
+
+  if (owned !== ids.length) {
+    throw createError('Phone number not found', 404, ERROR_CODES.NOT_FOUND);
+  }
+
+  return ids;
+}
+
 const addLeadSchema = z.object({
   name: z.string().optional(),
   phoneNumber: z.string().min(10, 'Valid phone number required'),
   email: z.string().email().optional(),
   metadata: z.record(z.any()).optional(),
+  timezone: z.string().refine((value) => normalizeTimeZone(value) !== null, 'Invalid timezone').optional(),
 });
 
 const addLeadsArraySchema = z.array(addLeadSchema);
@@ -109,7 +143,18 @@ router.get('/:id', async (req: AuthRequest, res, next) => {
             voice: true,
             isActive: true,
             voiceProvider: true,
+            voicemailMessage: true,
+          },
+        },
+        phoneNumbers: {
+          include: {
+            phoneNumber: { select: { id: true, phoneNumber: true, friendlyName: true, isActive: true } },
           },
+          orderBy: { createdAt: 'asc' },
+        },
+        steps: {
+          include: { asset: { select: { id: true, name: true, category: true } } },
+          orderBy: { position: 'asc' },
         },
       },
     });
@@ -118,9 +163,24 @@ router.get('/:id', async (req: AuthRequest, res, next) => {
       throw createError('Campaign not found', 404, ERROR_CODES.NOT_FOUND);
     }
 
+    // Numbers the next call could go out from, with today's usage against the cap
+    const [poolUsage, funnel] = await Promise.all([
+      getPoolUsage(campaign),
+      getSequenceFunnel(campaign.id),
+    ]);
+
     res.json({
       success: true,
-      data: campaign,
+      data: {
+        ...campaign,
+        poolUsage: poolUsage.map(({ phoneNumber, callsToday }) => ({
+          id: phoneNumber.id,
+          phoneNumber: phoneNumber.phoneNumber,
+          friendlyName: phoneNumber.friendlyName,
+          callsToday,
+        })),
+        funnel,
+      },
     });
   } catch (error) {
     next(error);
@@ -130,7 +190,7 @@ router.get('/:id', async (req: AuthRequest, res, next) => {
 // POST /api/campaigns - Create campaign
 router.post('/', async (req: AuthRequest, res, next) => {
   try {
-    const data = createCampaignSchema.parse(req.body);
+    const { phoneNumberIds, steps, ...data } = createCampaignSchema.parse(req.body);
 
     // Verify agent ownership
     const agent = await prisma.agent.findFirst({
@@ -166,6 +226,11 @@ router.post('/', async (req: AuthRequest, res, next) => {
       );
     }
 
+    const poolIds = phoneNumberIds ? await verifyPoolNumbers(req.user!.id, phoneNumberIds) : [];
+    if (steps) {
+      await validateCampaignSteps(req.user!.id, agent, steps);
+    }
+
     // Create campaign
     const campaign = await prisma.campaign.create({
       data: {
@@ -173,6 +238,9 @@ router.post('/', async (req: AuthRequest, res, next) => {
         userId: req.user!.id,
         startDate: data.startDate ? new Date(data.startDate) : null,
         endDate: data.endDate ? new Date(data.endDate) : null,
+        phoneNumbers: {
+          create: poolIds.map((phoneNumberId) => ({ phoneNumberId })),
+        },
       },
       include: {
         agent: {
@@ -185,6 +253,10 @@ router.post('/', async (req: AuthRequest, res, next) => {
       },
     });
 
+    if (steps) {
+      await saveCampaignSteps(campaign.id, steps);
+    }
+
     res.status(201).json({
       success: true,
       data: campaign,
@@ -198,7 +270,7 @@ router.post('/', async (req: AuthRequest, res, next) => {
 router.patch('/:id', async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
-    const data = updateCampaignSchema.parse(req.body);
+    const { phoneNumberIds, steps, ...data } = updateCampaignSchema.parse(req.body);
 
     // Verify ownership
     const existing = await prisma.campaign.findFirst({
@@ -218,26 +290,35 @@ router.patch('/:id', async (req: AuthRequest, res, next) => {
     }
 
     // If changing agent, verify new agent
-    if (data.agentId && data.agentId !== existing.agentId) {
-      const agent = await prisma.agent.findFirst({
-        where: {
-          id: data.agentId,
-          userId: req.user!.id,
-          isActive: true,
-        },
-      });
+    const agentChanged = !!data.agentId && data.agentId !== existing.agentId;
+    const agent = await prisma.agent.findFirst({
+      where: agentChanged
+        ? { id: data.agentId, userId: req.user!.id, isActive: true }
+        : { id: existing.agentId },
+    });
 
-      if (!agent) {
-        throw createError('Agent not found or inactive', 404, ERROR_CODES.AGENT_NOT_FOUND);
-      }
+    if (!agent) {
+      throw createError('Agent not found or inactive', 404, ERROR_CODES.AGENT_NOT_FOUND);
+    }
+
+    // The sequence has to suit the agent's channels, whichever of the two changed
+    if (steps || agentChanged) {
+      await validateCampaignSteps(req.user!.id, agent, steps || await getCampaignSteps(id));
     }
 
+    // A new pool replaces the old one
+    const poolIds = phoneNumberIds ? await verifyPoolNumbers(req.user!.id, phoneNumberIds) : undefined;
+
     const campaign = await prisma.campaign.update({
       where: { id },
       data: {
         ...data,
         startDate: data.startDate ? new Date(data.startDate) : undefined,
         endDate: data.endDate ? new Date(data.endDate) : undefined,
+        phoneNumbers: poolIds ? {
+          deleteMany: {},
+          create: poolIds.map((phoneNumberId) => ({ phoneNumberId })),
+        } : undefined,
       },
       include: {
         agent: {
@@ -250,6 +331,10 @@ router.patch('/:id', async (req: AuthRequest, res, next) => {
       },
     });
 
+    if (steps) {
+      await saveCampaignSteps(id, steps);
+    }
+
     res.json({
       success: true,
       data: campaign,
@@ -402,11 +487,15 @@ router.post('/:id/leads', async (req: AuthRequest, res, next) => {
       throw createError('Campaign not found', 404, ERROR_CODES.NOT_FOUND);
     }
 
-    // Normalize phone numbers
+    // Normalize phone numbers; leads without a timezone get their area code's.
+    // Numbers on the DNC list are kept as skipped leads so the upload shows why they won't be called.
+    const blocked = await findDncNumbers(req.user!.id, leadsData.map((lead) => lead.phoneNumber));
     const normalizedLeads = leadsData.map((lead) => ({
       ...lead,
       phoneNumber: lead.phoneNumber.replace(/\D/g, '').replace(/^1/, '+1'),
+      timezone: resolveLeadTimeZone(lead.phoneNumber, lead.timezone),
       campaignId: id,
+      ...(blocked.has(normalizeDncNumber(lead.phoneNumber) || '') && { status: 'SKIPPED' as const, notes: DNC_SKIP_NOTE }),
     }));
 
     // Create leads (duplicates will be handled by unique constraint)
@@ -440,6 +529,7 @@ router.post('/:id/leads', async (req: AuthRequest, res, next) => {
       success: true,
       data: {
         created: createdLeads.length,
+        skipped: createdLeads.filter((lead) => lead.status === 'SKIPPED').length,
         errors: errors.length,
         leads: createdLeads,
         errorDetails: errors,
@@ -491,11 +581,20 @@ router.post('/:id/leads/upload', async (req: AuthRequest, res, next) => {
         name: record.name || record.Name || null,
         phoneNumber: phoneNumber.startsWith('1') && phoneNumber.length === 11 ? `+${phoneNumber}` : `+1${phoneNumber}`,
         email: record.email || record.Email || null,
+        timezone: resolveLeadTimeZone(phoneNumber, record.timezone || record.Timezone || record.time_zone || record.tz),
         metadata: record,
         campaignId: id,
       };
     }).filter(Boolean);
 
+    const blocked = await findDncNumbers(req.user!.id, leads.map((lead: any) => lead.phoneNumber));
+    for (const lead of leads) {
+      if (blocked.has(lead.phoneNumber)) {
+        lead.status = 'SKIPPED';
+        lead.notes = DNC_SKIP_NOTE;
+      }
+    }
+
     // Create leads in batch
     const createdCount = await prisma.campaignLead.createMany({
       data: leads,
@@ -515,6 +614,7 @@ router.post('/:id/leads/upload', async (req: AuthRequest, res, next) => {
       data: {
         total: records.length,
         created: createdCount.count,
+        skipped: leads.filter((lead: any) => lead.status === 'SKIPPED').length,
         errors: records.length - createdCount.count,
       },
     });
@@ -527,7 +627,7 @@ router.post('/:id/leads/upload', async (req: AuthRequest, res, next) => {
 router.get('/:id/leads', async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
-    const { status, page = '1', limit = '20' } = req.query;
+    const { status, outcome, page = '1', limit = '20' } = req.query;
     const pageNum = parseInt(page as string, 10);
     const limitNum = parseInt(limit as string, 10);
     const skip = (pageNum - 1) * limitNum;
@@ -550,6 +650,10 @@ router.get('/:id/leads', async (req: AuthRequest, res, next) => {
       where.status = status.toUpperCase();
     }
 
+    if (outcome && typeof outcome === 'string') {
+      where.outcome = outcome;
+    }
+
     const [leads, total] = await Promise.all([
       prisma.campaignLead.findMany({
         where,
@@ -745,12 +849,12 @@ router.post('/:id/convert-successful-leads', async (req: AuthRequest, res, next)
       throw createError('Campaign not found', 404, ERROR_CODES.NOT_FOUND);
     }
 
-    // Get successful leads (completed with outcome: answered)
+    // Get successful leads (completed and a person was reached)
     const successfulLeads = await prisma.campaignLead.findMany({
       where: {
         campaignId: id,
         status: 'COMPLETED',
-        outcome: 'answered',
+        outcome: { in: REACHED_OUTCOMES },
       },
     });
 
@@ -0,0 +1,181 @@
+// ============================================
+// Do Not Call Routes
+// ============================================
+
+import { Router } from 'express';
+import { parse } from 'csv-parse/sync';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma';
+import { createError } from '../middleware/error-handler';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { ERROR_CODES, DNC_SOURCES } from '../lib/constants';
+import { addToDncList, addManyToDncList, normalizeDncNumber } from '../services/dnc.service';
+import { toCsvValue } from '../utils/csv';
+
+const router = Router();
+
+// Apply auth to all routes
+router.use(authenticate);
+
+const EXPORT_LIMIT = 50000;
+
+const addEntrySchema = z.object({
+  phoneNumber: z.string().min(7, 'Valid phone number required'),
+  reason: z.string().max(500).optional(),
+});
+
+// GET /api/dnc - List DNC entries, newest first
+router.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    const { search, source, page = '1', limit = '50' } = req.query;
+    const pageNum = parseInt(page as string, 10);
+    const limitNum = parseInt(limit as string, 10);
+    const skip = (pageNum - 1) * limitNum;
+
+    const where: any = { userId: req.user!.id };
+
+    if (search && typeof search === 'string') {
+      where.phoneNumber = { contains: search.replace(/[^\d+]/g, '') };
+    }
+
+    if (source && typeof source === 'string') {
+      where.source = source;
+    }
+
+    const [entries, total] = await Promise.all([
+      prisma.doNotCallEntry.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limitNum,
+      }),
+      prisma.doNotCallEntry.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: entries,
+      meta: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        hasMore: skip + entries.length < total,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/dnc/export - The whole list as CSV (same columns the import reads)
+router.get('/export', async (req: AuthRequest, res, next) => {
+  try {
+    const entries = await prisma.doNotCallEntry.findMany({
+      where: { userId: req.user!.id },
+      orderBy: { createdAt: 'desc' },
+      take: EXPORT_LIMIT,
+    });
+
+    const header = ['phoneNumber', 'source', 'reason', 'createdAt'];
+    const rows = entries.map((entry) => [
+      entry.phoneNumber,
+      entry.source,
+      entry.reason,
+      entry.createdAt.toISOString(),
+    ].map(toCsvValue).join(','));
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="do-not-call-${new Date().toISOString().slice(0, 10)}.csv"`);
+    res.send([header.join(','), ...rows].join('\n'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/dnc - Add a number
+router.post('/', async (req: AuthRequest, res, next) => {
+  try {
+    const data = addEntrySchema.parse(req.body);
+
+    const phoneNumber = normalizeDncNumber(data.phoneNumber);
+    if (!phoneNumber) {
+      throw createError('Invalid phone number', 400, ERROR_CODES.VALIDATION_ERROR);
+    }
+
+    const existing = await prisma.doNotCallEntry.findUnique({
+      where: { userId_phoneNumber: { userId: req.user!.id, phoneNumber } },
+    });
+    if (existing) {
+      throw createError('This number is already on your Do Not Call list', 409, ERROR_CODES.ALREADY_EXISTS);
+    }
+
+    const entry = await addToDncList(req.user!.id, phoneNumber, DNC_SOURCES.MANUAL, data.reason);
+
+    res.status(201).json({
+      success: true,
+      data: entry,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/dnc/import - Bulk CSV import (phone column, optional reason column)
+router.post('/import', async (req: AuthRequest, res, next) => {
+  try {
+    const { csvData } = req.body;
+
+    if (!csvData || typeof csvData !== 'string') {
+      throw createError('CSV data is required', 400, ERROR_CODES.VALIDATION_ERROR);
+    }
+
+    const records = parse(csvData, {
+      columns: true,
+      skip_empty_lines: true,
+      trim: true,
+    });
+
+    const phoneNumbers: string[] = records
+      .map((record: any) => record.phone || record.phoneNumber || record.Phone || record.PhoneNumber || record.phone_number || '')
+      .filter((phone: string) => normalizeDncNumber(phone));
+
+    const { added, leadsSkipped } = await addManyToDncList(req.user!.id, phoneNumbers, DNC_SOURCES.IMPORT);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        total: records.length,
+        added,
+        alreadyListed: phoneNumbers.length - added,
+        invalid: records.length - phoneNumbers.length,
+        leadsSkipped,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/dnc/:id - Remove a number
+router.delete('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const entry = await prisma.doNotCallEntry.findFirst({
+      where: { id: req.params.id, userId: req.user!.id },
+    });
+
+    if (!entry) {
+      throw createError('Entry not found', 404, ERROR_CODES.NOT_FOUND);
+    }
+
+    await prisma.doNotCallEntry.delete({ where: { id: entry.id } });
+
+    res.json({
+      success: true,
+      data: { deleted: true },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,195 @@
+// ============================================
+// Experiment Routes (A/B tests of agent variants)
+// ============================================
+
+import { Router } from 'express';
+import { prisma } from '../lib/prisma';
+import { createError } from '../middleware/error-handler';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { experimentSchema } from '../lib/validators';
+import { ERROR_CODES } from '../lib/constants';
+import { getExperimentResults } from '../services/experiment.service';
+
+const router = Router();
+
+// Apply auth to all routes
+router.use(authenticate);
+
+const experimentInclude = {
+  phoneNumber: { select: { id: true, phoneNumber: true, friendlyName: true } },
+  campaign: { select: { id: true, name: true } },
+  variants: {
+    orderBy: { createdAt: 'asc' as const },
+    include: {
+      agent: { select: { id: true, name: true, voice: true } },
+      _count: { select: { calls: true } },
+    },
+  },
+};
+
+async function findUserExperiment(id: string, userId: string) {
+  const experiment = await prisma.experiment.findFirst({
+    where: { id, userId },
+    include: experimentInclude,
+  });
+
+  if (!experiment) {
+    throw createError('Experiment not found', 404, ERROR_CODES.NOT_FOUND);
+  }
+
+  return experiment;
+}
+
+// GET /api/experiments - List experiments
+router.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    const experiments = await prisma.experiment.findMany({
+      where: { userId: req.user!.id },
+      include: experimentInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({
+      success: true,
+      data: experiments,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/experiments/:id - Experiment with per-variant results
+router.get('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const experiment = await findUserExperiment(req.params.id, req.user!.id);
+    const results = await getExperimentResults(experiment.id);
+
+    res.json({
+      success: true,
+      data: { ...experiment, results },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/experiments - Start splitting a phone number's or campaign's calls across agents
+router.post('/', async (req: AuthRequest, res, next) => {
+  try {
+    const data = experimentSchema.parse(req.body);
+    const target = data.phoneNumberId ? { phoneNumberId: data.phoneNumberId } : { campaignId: data.campaignId! };
+
+    if (data.phoneNumberId) {
+      const phoneNumber = await prisma.phoneNumber.findFirst({
+        where: { id: data.phoneNumberId, userId: req.user!.id },
+      });
+      if (!phoneNumber) {
+        throw createError('Phone number not found', 404, ERROR_CODES.NOT_FOUND);
+      }
+    } else {
+      const campaign = await prisma.campaign.findFirst({
+        where: { id: data.campaignId, userId: req.user!.id },
+      });
+      if (!campaign) {
+        throw createError('Campaign not found', 404, ERROR_CODES.NOT_FOUND);
+      }
+    }
+
+    const running = await prisma.experiment.findFirst({
+      where: { ...target, status: 'running' },
+    });
+    if (running) {
+      throw createError(`${running.name} is already running here. Stop it first.`, 400, ERROR_CODES.VALIDATION_ERROR);
+    }
+
+    // Phone numbers take inbound calls and campaigns place outbound ones
+    const agentIds = [...new Set(data.variants.map((v) => v.agentId))];
+    const agents = await prisma.agent.findMany({
+      where: { id: { in: agentIds }, userId: req.user!.id },
+      select: { id: true, name: true, mode: true, communicationChannel: true },
+    });
+
+    for (const agentId of agentIds) {
+      const agent = agents.find((a) => a.id === agentId);
+      if (!agent) {
+        throw createError('Variant points to an agent that was not found', 400, ERROR_CODES.VALIDATION_ERROR);
+      }
+      if (agent.communicationChannel === 'MESSAGING_ONLY') {
+        throw createError(`${agent.name} is messaging-only and can't take calls`, 400, ERROR_CODES.VALIDATION_ERROR);
+      }
+      if (data.phoneNumberId && agent.mode === 'OUTBOUND') {
+        throw createError(`${agent.name} is outbound-only and can't answer calls`, 400, ERROR_CODES.VALIDATION_ERROR);
+      }
+      if (data.campaignId && agent.mode === 'INBOUND') {
+        throw createError(`${agent.name} is inbound-only and can't place campaign calls`, 400, ERROR_CODES.VALIDATION_ERROR);
+      }
+    }
+
+    const experiment = await prisma.experiment.create({
+      data: {
+        userId: req.user!.id,
+        name: data.name,
+        ...target,
+        variants: {
+          create: data.variants.map((variant) => ({
+            name: variant.name,
+            agentId: variant.agentId,
+            weight: variant.weight,
+          })),
+        },
+      },
+      include: experimentInclude,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: experiment,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/experiments/:id/stop - Stop assigning variants; results are kept
+router.post('/:id/stop', async (req: AuthRequest, res, next) => {
+  try {
+    const existing = await findUserExperiment(req.params.id, req.user!.id);
+
+    if (existing.status !== 'running') {
+      throw createError('Experiment is not running', 400, ERROR_CODES.VALIDATION_ERROR);
+    }
+
+    const experiment = await prisma.experiment.update({
+      where: { id: existing.id },
+      data: { status: 'stopped', stoppedAt: new Date() },
+      include: experimentInclude,
+    });
+
+    res.json({
+      success: true,
+      data: experiment,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/experiments/:id - Delete an experiment; its calls are kept
+router.delete('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const experiment = await findUserExperiment(req.params.id, req.user!.id);
+
+    await prisma.experiment.delete({
+      where: { id: experiment.id },
+    });
+
+    res.json({
+      success: true,
+      data: { deleted: true },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
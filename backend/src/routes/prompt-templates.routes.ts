@@ -0,0 +1,207 @@
+// ============================================
+// Prompt Template Routes
+// ============================================
+
+import { Router } from 'express';
+import { PromptTemplate } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { createError } from '../middleware/error-handler';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { promptTemplateSchema, updatePromptTemplateSchema, saveAgentAsTemplateSchema } from '../lib/validators';
+import { ERROR_CODES, PROMPT_TEMPLATE_CATEGORIES } from '../lib/constants';
+import { findUsableTemplate, resolveTemplateVariables, categoryForAgent, ensureSystemTemplates } from '../services/prompt-templates.service';
+import { MODE_SYSTEM_PROMPTS, MESSAGING_SYSTEM_PROMPTS } from '../lib/prompt-templates';
+
+const router = Router();
+
+// Apply auth to all routes
+router.use(authenticate);
+
+function toTemplateResponse(template: PromptTemplate, userId: string) {
+  return {
+    ...template,
+    isSystem: template.userId === null,
+    isOwner: template.userId === userId,
+  };
+}
+
+async function findOwnTemplate(id: string, userId: string): Promise<PromptTemplate> {
+  const template = await prisma.promptTemplate.findFirst({
+    where: { id, userId },
+  });
+
+  if (!template) {
+    throw createError('Prompt template not found', 404, ERROR_CODES.NOT_FOUND);
+  }
+
+  return template;
+}
+
+// GET /api/prompt-templates - System templates and the user's own
+router.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    const { category } = req.query;
+
+    await ensureSystemTemplates();
+
+    const templates = await prisma.promptTemplate.findMany({
+      where: {
+        OR: [{ userId: null, isPublic: true }, { userId: req.user!.id }],
+        ...(typeof category === 'string' && (PROMPT_TEMPLATE_CATEGORIES as readonly string[]).includes(category) && { category }),
+      },
+      orderBy: [{ usageCount: 'desc' }, { name: 'asc' }],
+    });
+
+    res.json({
+      success: true,
+      data: templates.map((template) => toTemplateResponse(template, req.user!.id)),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/prompt-templates/mode-defaults - The prompts the agent wizard starts from, per mode
+router.get('/mode-defaults', async (_req: AuthRequest, res, next) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        voice: MODE_SYSTEM_PROMPTS,
+        messaging: MESSAGING_SYSTEM_PROMPTS,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/prompt-templates/:id - Get a single template
+router.get('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const template = await findUsableTemplate(req.params.id, req.user!.id);
+
+    res.json({
+      success: true,
+      data: toTemplateResponse(template, req.user!.id),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/prompt-templates - Create a private template
+router.post('/', async (req: AuthRequest, res, next) => {
+  try {
+    const data = promptTemplateSchema.parse(req.body);
+    const variables = resolveTemplateVariables(data.systemPrompt, data.greeting);
+
+    const template = await prisma.promptTemplate.create({
+      data: {
+        userId: req.user!.id,
+        name: data.name,
+        description: data.description || null,
+        category: data.category,
+        systemPrompt: data.systemPrompt,
+        greeting: data.greeting || null,
+        variables,
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: toTemplateResponse(template, req.user!.id),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/prompt-templates/from-agent - Save an agent's prompt and greeting as a template
+router.post('/from-agent', async (req: AuthRequest, res, next) => {
+  try {
+    const data = saveAgentAsTemplateSchema.parse(req.body);
+
+    const agent = await prisma.agent.findFirst({
+      where: { id: data.agentId, userId: req.user!.id },
+    });
+
+    if (!agent) {
+      throw createError('Agent not found', 404, ERROR_CODES.AGENT_NOT_FOUND);
+    }
+
+    const systemPrompt = data.systemPrompt || agent.systemPrompt;
+    const greeting = agent.communicationChannel === 'MESSAGING_ONLY'
+      ? agent.messagingGreeting
+      : agent.mode === 'OUTBOUND' ? agent.outboundGreeting : agent.greeting;
+
+    const template = await prisma.promptTemplate.create({
+      data: {
+        userId: req.user!.id,
+        name: data.name,
+        description: data.description || agent.description || null,
+        category: data.category || categoryForAgent(agent),
+        systemPrompt,
+        greeting: greeting || null,
+        variables: resolveTemplateVariables(systemPrompt, greeting),
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      data: toTemplateResponse(template, req.user!.id),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/prompt-templates/:id - Update one of the user's templates
+router.put('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const data = updatePromptTemplateSchema.parse(req.body);
+    const existing = await findOwnTemplate(req.params.id, req.user!.id);
+
+    const systemPrompt = data.systemPrompt ?? existing.systemPrompt;
+    const greeting = data.greeting !== undefined ? data.greeting : existing.greeting;
+
+    const template = await prisma.promptTemplate.update({
+      where: { id: existing.id },
+      data: {
+        name: data.name,
+        description: data.description,
+        category: data.category,
+        systemPrompt: data.systemPrompt,
+        greeting: data.greeting,
+        variables: resolveTemplateVariables(systemPrompt, greeting),
+      },
+    });
+
+    res.json({
+      success: true,
+      data: toTemplateResponse(template, req.user!.id),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/prompt-templates/:id - Delete one of the user's templates
+router.delete('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const template = await findOwnTemplate(req.params.id, req.user!.id);
+
+    await prisma.promptTemplate.delete({
+      where: { id: template.id },
+    });
+
+    res.json({
+      success: true,
+      data: { deleted: true },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -6,7 +6,7 @@ import { Router } from 'express';
 import { prisma } from '../lib/prisma';
 import { createError } from '../middleware/error-handler';
 import { authenticate, AuthRequest } from '../middleware/auth';
-import { ERROR_CODES } from '../lib/constants';
+import { ERROR_CODES, CONCURRENT_CALL_LIMITS } from '../lib/constants';
 import { encrypt, decrypt, maskSecret } from '../utils/crypto';
 import { TwilioService } from '../services/twilio.service';
 import { logger } from '../utils/logger';
@@ -249,6 +249,79 @@ router.put('/business-profile', async (req: AuthRequest, res, next) => {
   }
 });
 
+// ============================================
+// Campaign Dialing Routes
+// ============================================
+
+// GET /api/settings/dialing - Get the account-wide concurrent call limit
+router.get('/dialing', async (req: AuthRequest, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { plan: true, maxConcurrentCalls: true },
+    });
+
+    if (!user) {
+      throw createError('User not found', 404, ERROR_CODES.USER_NOT_FOUND);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        maxConcurrentCalls: user.maxConcurrentCalls,
+        planLimit: CONCURRENT_CALL_LIMITS[user.plan],
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/settings/dialing - Lower the concurrent call limit below the plan's (null resets it)
+router.put('/dialing', async (req: AuthRequest, res, next) => {
+  try {
+    const { maxConcurrentCalls } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { plan: true },
+    });
+
+    if (!user) {
+      throw createError('User not found', 404, ERROR_CODES.USER_NOT_FOUND);
+    }
+
+    const planLimit = CONCURRENT_CALL_LIMITS[user.plan];
+    if (
+      maxConcurrentCalls !== null &&
+      (!Number.isInteger(maxConcurrentCalls) || maxConcurrentCalls < 1 || maxConcurrentCalls > planLimit)
+    ) {
+      throw createError(`Concurrent calls must be between 1 and ${planLimit} on your plan`, 400, ERROR_CODES.VALIDATION_ERROR);
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { maxConcurrentCalls },
+      select: { maxConcurrentCalls: true },
+    });
+
+    logger.info('[Settings] Concurrent call limit updated', {
+      userId: req.user!.id,
+      maxConcurrentCalls,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        maxConcurrentCalls: updatedUser.maxConcurrentCalls,
+        planLimit,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/settings/storage - Get S3 storage configuration status
 router.get('/storage', async (req: AuthRequest, res, next) => {
   try {
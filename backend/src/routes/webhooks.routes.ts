@@ -2,12 +2,21 @@
 // Webhook Routes (Twilio)
 // ============================================
 
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import { prisma } from '../lib/prisma';
 import { logger } from '../utils/logger';
 import { config } from '../config';
 import { TwilioMediaEvent } from '../lib/types';
-import { CREDITS_PER_USD, VOICE_MINUTE_RATE_USD } from '../lib/constants';
+import { CREDITS_PER_USD, VOICE_MINUTE_RATE_USD, ACTIVE_CALL_STATUSES, CALL_DISPOSITIONS, CALL_END_REASONS, DNC_SOURCES, SMS_OPT_OUT_KEYWORDS, SMS_OPT_IN_KEYWORDS } from '../lib/constants';
+import { escapeXml, isMachineAnswer, isPhoneTreeAnswer, reachedVoicemail } from '../services/twilio.service';
+import { webhookService } from '../services/webhook.service';
+import { ivrMenuSchema, IvrMenu } from '../lib/validators';
+import { campaignService } from '../services/campaign.service';
+import { postCallService } from '../services/post-call.service';
+import { assignExperimentVariant, VariantAssignment } from '../services/experiment.service';
+import { addToDncList, removeFromDncList } from '../services/dnc.service';
+import { buildPromptVariables } from '../services/prompt-variables.service';
+import { renderTemplate } from '../lib/template';
 import { 
   isS3Configured, 
   uploadFromUrl, 
@@ -16,19 +25,32 @@ import {
 
 const router = Router();
 
+const IVR_MAX_ATTEMPTS = 2; // Times the menu is read before the caller goes to the menu's agent
+
 // POST /webhooks/twilio/voice - Initial voice webhook
 router.post('/twilio/voice', async (req, res) => {
   try {
     const { agentId, callId } = req.query;
-    const { CallSid, From, To, Direction } = req.body;
+    const { CallSid, From, To, Direction, AnsweredBy } = req.body;
 
-    logger.info('[Webhook] Voice webhook received', { callSid: CallSid, agentId, callId });
+    logger.info('[Webhook] Voice webhook received', { callSid: CallSid, agentId, callId, answeredBy: AnsweredBy });
 
     // Get agent
-    const agent = await prisma.agent.findUnique({
+    let agent = await prisma.agent.findUnique({
       where: { id: agentId as string },
     });
 
+    // A running A/B test on the dialed number hands the call to one of its variants
+    let assignment: VariantAssignment | null = null;
+    if (agent && Direction === 'inbound') {
+      const phoneNumber = await prisma.phoneNumber.findUnique({
+        where: { phoneNumber: To },
+        select: { id: true },
+      });
+      assignment = phoneNumber ? await assignExperimentVariant({ phoneNumberId: phoneNumber.id }) : null;
+      agent = assignment?.agent || agent;
+    }
+
     if (!agent) {
       logger.error('[Webhook] Agent not found', { agentId });
       const errorTwiml = '<?xml version="1.0" encoding="UTF-8"?>' +
@@ -64,6 +86,33 @@ router.post('/twilio/voice', async (req, res) => {
       return;
     }
 
+    // Outbound calls are placed with answering machine detection
+    if (AnsweredBy && callDirection !== 'inbound') {
+      const call = await prisma.call.findFirst({
+        where: callId ? { id: callId as string } : { callSid: CallSid },
+        select: { id: true, campaignId: true, metadata: true },
+      });
+
+      if (call) {
+        // Business phone systems often register as machines - agents that navigate them take
+        // those calls, but a greeting that ended in a beep still gets the voicemail handling
+        const phoneTree = isMachineAnswer(AnsweredBy) && agent.phoneTreeNavigation && isPhoneTreeAnswer(AnsweredBy);
+        if (!isMachineAnswer(AnsweredBy) || phoneTree) {
+          await prisma.call.update({
+            where: { id: call.id },
+            data: {
+              answeredBy: AnsweredBy,
+              ...(phoneTree && { metadata: { ...((call.metadata as Record<string, any>) || {}), phoneTree: true } }),
+            },
+          });
+        } else {
+          const twiml = await buildVoicemailTwiml(req, call, agent, CallSid, AnsweredBy);
+          res.type('text/xml').send(twiml);
+          return;
+        }
+      }
+    }
+
     // Update call record for inbound calls
     if (Direction === 'inbound') {
       await prisma.call.create({
@@ -71,6 +120,8 @@ router.post('/twilio/voice', async (req, res) => {
           callSid: CallSid,
           userId: agent.userId,
           agentId: agent.id,
+          agentVersionId: agent.currentVersionId,
+          experimentVariantId: assignment?.variant.id,
           direction: 'inbound',
           from: From,
           to: To,
@@ -84,27 +135,15 @@ router.post('/twilio/voice', async (req, res) => {
       });
     }
 
-    // Return TwiML to connect to media stream
-    // Always use the regular host - Railway's HTTP proxy supports WebSockets
-    const protocol = req.secure || req.get('x-forwarded-proto') === 'https' ? 'wss' : 'ws';
-    const host = req.get('host');
-    // IMPORTANT: & must be escaped as &amp; in XML attributes
-    const websocketUrl = `${protocol}://${host}/media-stream?agentId=${agentId}&amp;callSid=${CallSid}`;
-    
-    console.log('[Webhook] WebSocket URL:', websocketUrl);
-    
-    logger.info('[Webhook] Connecting to WebSocket:', websocketUrl);
-    
-    // IMPORTANT: XML declaration MUST be first with NO preceding whitespace
-    const twiml = '<?xml version="1.0" encoding="UTF-8"?>' +
-      '<Response>' +
-        '<Connect>' +
-          `<Stream url="${websocketUrl}">` +
-            `<Parameter name="agentId" value="${agentId}" />` +
-            `<Parameter name="callSid" value="${CallSid}" />` +
-          '</Stream>' +
-        '</Connect>' +
-      '</Response>';
+    // Inbound callers pick a department from the keypad menu before any agent picks up
+    const ivrMenu = callDirection === 'inbound' ? parseIvrMenu(agent.ivrMenu) : null;
+    if (ivrMenu) {
+      logger.info('[Webhook] Playing IVR menu', { callSid: CallSid, agentId, options: ivrMenu.options.length });
+      res.type('text/xml').send(buildIvrMenuTwiml(agent, ivrMenu, 1));
+      return;
+    }
+
+    const twiml = buildStreamTwiml(req, agent.id, CallSid);
 
     console.log('[Webhook] Sending TwiML:', twiml);
     
@@ -120,6 +159,226 @@ router.post('/twilio/voice', async (req, res) => {
   }
 });
 
+/**
+ * TwiML for an outbound call that reached an answering machine. AMD has already
+ * waited for the beep, so the campaign's (or agent's) voicemail message is left
+ * straight away: audio URLs are played, text is spoken in the agent's voice over
+ * a voicemail-mode media stream. Without a message we just hang up.
+ */
+async function buildVoicemailTwiml(
+  req: Request,
+  call: { id: string; campaignId: string | null; metadata: unknown },
+  agent: { id: string; voicemailMessage: string | null },
+  callSid: string,
+  answeredBy: string
+): Promise<string> {
+  const campaign = call.campaignId
+    ? await prisma.campaign.findUnique({ where: { id: call.campaignId }, select: { voicemailMessage: true } })
+    : null;
+  const message = (campaign?.voicemailMessage || agent.voicemailMessage || '').trim();
+  const isAudioUrl = /^https?:\/\//i.test(message);
+
+  await prisma.call.update({
+    where: { id: call.id },
+    data: {
+      answeredBy,
+      disposition: CALL_DISPOSITIONS.VOICEMAIL,
+      endReason: CALL_END_REASONS.VOICEMAIL,
+      // Recorded audio plays in full; spoken messages are marked once the stream finishes
+      voicemailLeft: isAudioUrl,
+      ...(message && !isAudioUrl && {
+        metadata: { ...((call.metadata as Record<string, any>) || {}), voicemailDrop: message },
+      }),
+    },
+  });
+
+  logger.info('[Webhook] Call reached voicemail', { callSid, answeredBy, leavingMessage: !!message });
+
+  if (!message) {
+    return '<?xml version="1.0" encoding="UTF-8"?><Response><Hangup/></Response>';
+  }
+
+  if (isAudioUrl) {
+    return '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<Response>' +
+        `<Play>${escapeXml(message)}</Play>` +
+        '<Hangup/>' +
+      '</Response>';
+  }
+
+  return buildStreamTwiml(req, agent.id, callSid, { mode: 'voicemail' });
+}
+
+/**
+ * TwiML that connects the call to the media stream for an agent.
+ * Extra parameters arrive in the stream's start event as customParameters.
+ */
+function buildStreamTwiml(
+  req: Request,
+  agentId: string,
+  callSid: string,
+  parameters: Record<string, string> = {}
+): string {
+  // Always use the regular host - Railway's HTTP proxy supports WebSockets
+  const protocol = req.secure || req.get('x-forwarded-proto') === 'https' ? 'wss' : 'ws';
+  const host = req.get('host');
+  // IMPORTANT: & must be escaped as &amp; in XML attributes
+  const websocketUrl = `${protocol}://${host}/media-stream?agentId=${agentId}&amp;callSid=${callSid}`;
+
+  logger.info('[Webhook] Connecting to WebSocket:', websocketUrl);
+
+  const extraParameters = Object.entries(parameters)
+    .map(([name, value]) => `<Parameter name="${name}" value="${escapeXml(value)}" />`)
+    .join('');
+
+  // IMPORTANT: XML declaration MUST be first with NO preceding whitespace
+  return '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<Response>' +
+      '<Connect>' +
+        `<Stream url="${websocketUrl}">` +
+          `<Parameter name="agentId" value="${agentId}" />` +
+          `<Parameter name="callSid" value="${callSid}" />` +
+          extraParameters +
+        '</Stream>' +
+      '</Connect>' +
+    '</Response>';
+}
+
+// Agent.ivrMenu is free-form JSON; anything that doesn't validate is treated as no menu
+function parseIvrMenu(raw: unknown): IvrMenu | null {
+  if (!raw) return null;
+  const result = ivrMenuSchema.safeParse(raw);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Read the menu and wait for one keypress. Without a press Twilio falls through
+ * to the <Redirect>, which hands the caller to the menu's own agent.
+ */
+function buildIvrMenuTwiml(
+  agent: { id: string; language: string },
+  menu: IvrMenu,
+  attempt: number,
+  notice?: string
+): string {
+  const actionUrl = escapeXml(`${config.apiUrl}/webhooks/twilio/ivr?agentId=${agent.id}&attempt=${attempt}`);
+  const say = (text: string) => `<Say language="${escapeXml(agent.language || 'en-US')}">${escapeXml(text)}</Say>`;
+
+  return '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<Response>' +
+      `<Gather input="dtmf" numDigits="1" timeout="${menu.timeoutSeconds}" action="${actionUrl}" method="POST">` +
+        (notice ? say(notice) : '') +
+        say(menu.prompt) +
+      '</Gather>' +
+      `<Redirect method="POST">${actionUrl}</Redirect>` +
+    '</Response>';
+}
+
+// POST /webhooks/twilio/ivr - Keypress from the agent's IVR menu
+router.post('/twilio/ivr', async (req, res) => {
+  try {
+    const { agentId, attempt = '1' } = req.query;
+    const { CallSid, Digits } = req.body;
+
+    const menuAgent = await prisma.agent.findUnique({
+      where: { id: agentId as string },
+    });
+    const menu = menuAgent ? parseIvrMenu(menuAgent.ivrMenu) : null;
+
+    if (!menuAgent || !menu) {
+      logger.error('[Webhook] IVR menu not found', { agentId });
+      res.type('text/xml').send(
+        '<?xml version="1.0" encoding="UTF-8"?><Response><Say>Sorry, an error occurred.</Say><Hangup/></Response>'
+      );
+      return;
+    }
+
+    const option = Digits ? menu.options.find((o) => o.digit === Digits) : undefined;
+
+    // Unknown key: say so and replay the menu once before giving up on it
+    if (Digits && !option && parseInt(attempt as string, 10) < IVR_MAX_ATTEMPTS) {
+      logger.info('[Webhook] IVR invalid selection', { callSid: CallSid, digits: Digits });
+      res.type('text/xml').send(
+        buildIvrMenuTwiml(menuAgent, menu, parseInt(attempt as string, 10) + 1, "Sorry, that isn't one of the options.")
+      );
+      return;
+    }
+
+    // Only route to the account's own active agents; otherwise the menu's agent takes the call
+    const targetAgent = option
+      ? await prisma.agent.findFirst({
+          where: { id: option.agentId, userId: menuAgent.userId, isActive: true },
+        })
+      : null;
+    const agent = targetAgent || menuAgent;
+
+    logger.info('[Webhook] IVR selection', { callSid: CallSid, digits: Digits, routedTo: agent.id });
+
+    const call = await prisma.call.findUnique({
+      where: { callSid: CallSid },
+      select: { metadata: true },
+    });
+
+    if (call) {
+      await prisma.call.update({
+        where: { callSid: CallSid },
+        data: {
+          agentId: agent.id,
+          agentVersionId: agent.currentVersionId,
+          agentName: agent.name,
+          agentVoice: agent.voice,
+          agentVoiceProvider: agent.voiceProvider,
+          metadata: {
+            ...((call.metadata as Record<string, any>) || {}),
+            ivr: {
+              menuAgentId: menuAgent.id,
+              digit: Digits || null,
+              option: option?.label || null,
+            },
+          },
+        },
+      });
+    }
+
+    res.type('text/xml').send(buildStreamTwiml(req, agent.id, CallSid));
+  } catch (error) {
+    logger.error('[Webhook] IVR error:', error);
+    res.type('text/xml').send(
+      '<?xml version="1.0" encoding="UTF-8"?><Response><Say>Sorry, an error occurred.</Say><Hangup/></Response>'
+    );
+  }
+});
+
+// POST /webhooks/twilio/transfer-whisper - Played to the human before a warm transfer is bridged
+router.post('/twilio/transfer-whisper', async (req, res) => {
+  try {
+    const { callSid } = req.query;
+
+    logger.info('[Webhook] Transfer whisper requested', { callSid });
+
+    const call = await prisma.call.findUnique({
+      where: { callSid: callSid as string },
+      select: { from: true, to: true, direction: true, metadata: true },
+    });
+
+    const transfer = (call?.metadata as Record<string, any> | null)?.transfer;
+    const callerNumber = call?.direction === 'outbound' ? call?.to : call?.from;
+    const summary = transfer?.summary || 'The caller asked to speak with someone.';
+
+    const twiml = '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<Response>' +
+        `<Say>Incoming transfer from your AI assistant${callerNumber ? `, caller ${escapeXml(callerNumber.split('').join(' '))}` : ''}. ` +
+        `${escapeXml(summary)}</Say>` +
+      '</Response>';
+
+    res.type('text/xml').send(twiml);
+  } catch (error) {
+    logger.error('[Webhook] Transfer whisper error:', error);
+    // An empty response just bridges the call without a whisper
+    res.type('text/xml').send('<?xml version="1.0" encoding="UTF-8"?><Response></Response>');
+  }
+});
+
 // POST /webhooks/twilio/status - Call status updates
 router.post('/twilio/status', async (req, res) => {
   try {
@@ -147,6 +406,13 @@ router.post('/twilio/status', async (req, res) => {
 
     const status = statusMap[CallStatus] || CallStatus;
 
+    // Twilio retries status callbacks; a call that had already ended was handled the first time
+    const previous = await prisma.call.findUnique({
+      where: { callSid: CallSid },
+      select: { status: true },
+    });
+    const alreadyEnded = !!previous && !ACTIVE_CALL_STATUSES.includes(previous.status as any);
+
     const updateData: any = {
       status,
     };
@@ -170,7 +436,7 @@ router.post('/twilio/status', async (req, res) => {
       }
     }
 
-    await prisma.call.update({
+    const updatedCall = await prisma.call.update({
       where: { callSid: CallSid },
       data: updateData,
     });
@@ -230,6 +496,24 @@ router.post('/twilio/status', async (req, res) => {
       }
     }
 
+    // After billing, so a campaign error never leaves a finished call unbilled
+    if (updateData.endTime && !alreadyEnded) {
+      try {
+        // Campaign leads are completed or rescheduled from the final call status
+        if (updatedCall.campaignLeadId) {
+          await campaignService.handleCallCompleted(updatedCall.id, status, updatedCall.duration || 0);
+        }
+
+        // Voicemail drops never open a conversation, so send them through post-call
+        // here to get the call.ended webhook (the analysis itself is skipped)
+        if (reachedVoicemail(updatedCall)) {
+          await postCallService.enqueueCall(updatedCall.id);
+        }
+      } catch (error) {
+        logger.error('[Webhook] Call completion handling failed', { callSid: CallSid, error });
+      }
+    }
+
     res.status(200).send('OK');
   } catch (error) {
     logger.error('[Webhook] Status error:', error);
@@ -318,6 +602,130 @@ router.post('/twilio/recording', async (req, res) => {
   }
 });
 
+// POST /webhooks/twilio/message - Inbound SMS/MMS
+router.post('/twilio/message', async (req, res) => {
+  const emptyTwiml = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+  try {
+    const { MessageSid, From, To, Body } = req.body;
+    const numMedia = parseInt(req.body.NumMedia || '0', 10) || 0;
+
+    logger.info('[Webhook] Inbound message received', { messageSid: MessageSid, from: From, to: To });
+
+    const phoneNumber = await prisma.phoneNumber.findUnique({
+      where: { phoneNumber: To },
+      include: { agent: { select: { id: true, name: true, voice: true, currentVersionId: true, systemPrompt: true, messagingSystemPrompt: true } } },
+    });
+
+    if (!phoneNumber) {
+      logger.warn('[Webhook] Inbound message for unknown number', { to: To });
+      res.type('text/xml').send(emptyTwiml);
+      return;
+    }
+
+    // Twilio retries webhooks, so the same MessageSid can arrive twice
+    const existing = await prisma.message.findUnique({ where: { messageSid: MessageSid } });
+    if (existing) {
+      res.type('text/xml').send(emptyTwiml);
+      return;
+    }
+
+    const mediaUrls: string[] = [];
+    const mediaTypes: string[] = [];
+    for (let i = 0; i < numMedia; i++) {
+      if (req.body[`MediaUrl${i}`]) {
+        mediaUrls.push(req.body[`MediaUrl${i}`]);
+        mediaTypes.push(req.body[`MediaContentType${i}`] || '');
+      }
+    }
+
+    const agent = phoneNumber.agent;
+    const conversation = await prisma.conversation.upsert({
+      where: {
+        userId_externalNumber_twilioNumber: {
+          userId: phoneNumber.userId,
+          externalNumber: From,
+          twilioNumber: To,
+        },
+      },
+      update: {
+        lastMessageAt: new Date(),
+        messageCount: { increment: 1 },
+      },
+      create: {
+        userId: phoneNumber.userId,
+        externalNumber: From,
+        twilioNumber: To,
+        agentId: agent?.id,
+        agentName: agent?.name,
+        agentVoice: agent?.voice,
+        lastMessageAt: new Date(),
+        messageCount: 1,
+      },
+    });
+
+    // Snapshot the prompt (variables filled in) and version of the agent answering this sender
+    const answeringAgent = agent && agent.id === conversation.agentId ? agent : null;
+    const agentSystemPrompt = answeringAgent
+      ? renderTemplate(
+          answeringAgent.messagingSystemPrompt || answeringAgent.systemPrompt,
+          await buildPromptVariables({ userId: phoneNumber.userId, phoneNumber: From })
+        )
+      : null;
+
+    const message = await prisma.message.create({
+      data: {
+        messageSid: MessageSid,
+        userId: phoneNumber.userId,
+        agentId: conversation.agentId,
+        agentVersionId: answeringAgent?.currentVersionId,
+        agentSystemPrompt,
+        phoneNumberId: phoneNumber.id,
+        conversationId: conversation.id,
+        type: mediaUrls.length > 0 ? 'MMS' : 'SMS',
+        direction: 'INBOUND',
+        status: 'RECEIVED',
+        from: From,
+        to: To,
+        body: Body || null,
+        mediaUrls,
+        mediaTypes,
+        numMedia: mediaUrls.length,
+      },
+    });
+
+    // Carrier opt-out keywords put the sender on the account's DNC list; opting back in
+    // only lifts an SMS opt-out, not a number the business added itself
+    const keyword = (Body || '').trim().toUpperCase();
+    if (SMS_OPT_OUT_KEYWORDS.includes(keyword)) {
+      await addToDncList(phoneNumber.userId, From, DNC_SOURCES.SMS_STOP, `Replied ${keyword} to ${To}`);
+      logger.info('[Webhook] SMS opt-out added to DNC list', { from: From, keyword });
+    } else if (SMS_OPT_IN_KEYWORDS.includes(keyword)) {
+      const removed = await removeFromDncList(phoneNumber.userId, From, DNC_SOURCES.SMS_STOP);
+      if (removed > 0) {
+        logger.info('[Webhook] SMS opt-in removed from DNC list', { from: From, keyword });
+      }
+    }
+
+    await webhookService.emit(conversation.agentId, 'message.received', {
+      messageId: message.id,
+      messageSid: MessageSid,
+      conversationId: conversation.id,
+      from: From,
+      to: To,
+      type: message.type,
+      body: message.body,
+      mediaUrls,
+      receivedAt: message.createdAt,
+    });
+
+    res.type('text/xml').send(emptyTwiml);
+  } catch (error) {
+    logger.error('[Webhook] Inbound message error:', error);
+    res.type('text/xml').send(emptyTwiml);
+  }
+});
+
 // POST /webhooks/twilio/message-status - SMS/MMS status updates
 router.post('/twilio/message-status', async (req, res) => {
   try {
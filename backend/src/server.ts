@@ -29,6 +29,9 @@ import messageRoutes from './routes/messages.routes';
 import campaignRoutes from './routes/campaigns.routes';
 import billingRoutes from './routes/billing.routes';
 import knowledgeBaseRoutes from './routes/knowledge-base.routes';
+import promptTemplateRoutes from './routes/prompt-templates.routes';
+import experimentRoutes from './routes/experiments.routes';
+import dncRoutes from './routes/dnc.routes';
 
 // WebSocket
 import { initializeWebSocket, setupTwilioMediaStream } from './websocket';
@@ -166,6 +169,9 @@ export async function createServer() {
   app.use('/api/campaigns', campaignRoutes);
   app.use('/api/billing', billingRoutes);
   app.use('/api/knowledge-base', knowledgeBaseRoutes);
+  app.use('/api/prompt-templates', promptTemplateRoutes);
+  app.use('/api/experiments', experimentRoutes);
+  app.use('/api/dnc', dncRoutes);
   
   // Twilio webhooks (no auth required) - both paths for compatibility
   app.use('/webhooks', webhookRoutes);
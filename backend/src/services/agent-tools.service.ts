@@ -0,0 +1,153 @@
+// ============================================
+// Agent Tools Service - Custom HTTP functions the LLM can call
+// ============================================
+
+import OpenAI from 'openai';
+import { AgentTool } from '@prisma/client';
+import { encrypt, decrypt } from '../utils/crypto';
+import { logger } from '../utils/logger';
+import { safeFetch } from '../utils/safe-fetch';
+import { renderTemplate } from '../lib/template';
+
+const MAX_RESULT_LENGTH = 2000;
+const MAX_ERROR_BODY_LENGTH = 300;
+
+export interface ToolInvocationRecord {
+  toolName: string;
+  arguments: Record<string, any>;
+  method: string;
+  url: string; // The tool's URL template; the values filled in are in arguments
+  status: 'success' | 'error' | 'timeout';
+  responseStatus: number | null;
+  result: string; // What the model was given
+  error: string | null;
+  durationMs: number;
+  createdAt: Date; // When the request started
+}
+
+/**
+ * Function definition the model sees for a custom tool
+ */
+export function toFunctionTool(tool: AgentTool): OpenAI.Chat.ChatCompletionTool {
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters as Record<string, unknown>,
+    },
+  };
+}
+
+/**
+ * Header templates are stored as one encrypted JSON object since they usually carry API keys
+ */
+export function encryptToolHeaders(headers: Record<string, string> | undefined): string | null {
+  if (!headers || Object.keys(headers).length === 0) {
+    return null;
+  }
+  return encrypt(JSON.stringify(headers));
+}
+
+export function decryptToolHeaders(headers: string | null): Record<string, string> {
+  if (!headers) {
+    return {};
+  }
+  try {
+    return JSON.parse(decrypt(headers));
+  } catch (error) {
+    logger.error('[AgentTools] Could not read stored headers:', error);
+    return {};
+  }
+}
+
+function urlHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid URL';
+  }
+}
+
+/**
+ * Call the tool's endpoint with the model's arguments. The URL is user-supplied, so it must
+ * resolve to a public address and redirects aren't followed.
+ * Never throws - failures come back as a result the model can explain to the caller.
+ */
+export async function invokeAgentTool(tool: AgentTool, args: Record<string, any>): Promise<ToolInvocationRecord> {
+  const startedAt = Date.now();
+  const method = tool.method.toUpperCase();
+  const url = renderTemplate(tool.url, args, encodeURIComponent);
+
+  const headers: Record<string, string> = {
+    'User-Agent': 'Gleam-Tools/1.0',
+    Accept: 'application/json',
+  };
+  for (const [name, value] of Object.entries(decryptToolHeaders(tool.headers))) {
+    headers[name] = renderTemplate(value, args);
+  }
+
+  // GET and DELETE only get arguments through the URL template
+  const hasBody = method !== 'GET' && method !== 'DELETE';
+  if (hasBody && !Object.keys(headers).some((name) => name.toLowerCase() === 'content-type')) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const record: ToolInvocationRecord = {
+    toolName: tool.name,
+    arguments: args,
+    method,
+    url: tool.url, // Not the rendered URL, which carries the caller's details
+    status: 'success',
+    responseStatus: null,
+    result: '',
+    error: null,
+    durationMs: 0,
+    createdAt: new Date(startedAt),
+  };
+
+  try {
+    const response = await safeFetch(url, {
+      method,
+      headers,
+      body: hasBody ? JSON.stringify(args) : undefined,
+      signal: AbortSignal.timeout(tool.timeoutMs),
+    });
+
+    record.responseStatus = response.status;
+    const text = await response.text();
+
+    if (!response.ok) {
+      record.status = 'error';
+      record.error = `Endpoint responded with HTTP ${response.status}`;
+      record.result = `The request failed with HTTP ${response.status}: ${text.slice(0, MAX_ERROR_BODY_LENGTH)}`;
+    } else {
+      let data: unknown = text;
+      try {
+        data = JSON.parse(text);
+      } catch {
+        // Plain text responses are passed through as-is
+      }
+
+      record.result = tool.responseTemplate
+        ? renderTemplate(tool.responseTemplate, { ...args, response: data, status: response.status })
+        : text;
+      record.result = record.result.slice(0, MAX_RESULT_LENGTH) || 'The request succeeded with an empty response.';
+    }
+  } catch (err: any) {
+    if (err?.name === 'TimeoutError') {
+      record.status = 'timeout';
+      record.error = `No response within ${tool.timeoutMs / 1000}s`;
+      record.result = 'The lookup timed out. Let the caller know the information is not available right now.';
+    } else {
+      record.status = 'error';
+      record.error = err?.message || 'Request failed';
+      record.result = 'The lookup failed. Let the caller know the information is not available right now.';
+    }
+  }
+
+  record.durationMs = Date.now() - startedAt;
+  // The rendered URL carries the caller's details, so only the host is logged
+  logger.info(`[AgentTools] ${tool.name} ${method} ${urlHost(url)} -> ${record.responseStatus ?? record.status} in ${record.durationMs}ms`);
+  return record;
+}
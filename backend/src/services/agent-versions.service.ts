@@ -0,0 +1,158 @@
+// ============================================
+// Agent Versions Service - Immutable snapshots of agent config
+// ============================================
+
+import { Agent, AgentTool, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { VERSIONED_AGENT_FIELDS, VersionedAgentField } from '../lib/constants';
+
+// Custom tools live in their own table but are part of the agent's behavior, so they're snapshotted too
+const VERSIONED_TOOL_FIELDS = [
+  'name',
+  'description',
+  'parameters',
+  'method',
+  'url',
+  'headers',
+  'responseTemplate',
+  'timeoutMs',
+  'isActive',
+] as const;
+
+export type ToolConfig = Pick<AgentTool, typeof VERSIONED_TOOL_FIELDS[number]>;
+export type AgentConfig = Pick<Agent, VersionedAgentField> & { tools: ToolConfig[] };
+export type VersionedField = VersionedAgentField | 'tools';
+
+const VERSIONED_FIELDS: VersionedField[] = [...VERSIONED_AGENT_FIELDS, 'tools'];
+
+// Concurrent saves can race for the next version number; the loser starts over
+const MAX_VERSION_ATTEMPTS = 3;
+
+// Json columns need DbNull to clear when a snapshot is restored
+const JSON_AGENT_FIELDS: VersionedAgentField[] = ['voiceSettings', 'ivrMenu', 'extractionSchema'];
+
+export function snapshotAgent(agent: Agent, tools: AgentTool[]): AgentConfig {
+  return {
+    ...Object.fromEntries(VERSIONED_AGENT_FIELDS.map((field) => [field, agent[field]])),
+    tools: tools
+      .map((tool) => Object.fromEntries(VERSIONED_TOOL_FIELDS.map((field) => [field, tool[field]])) as ToolConfig)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  } as AgentConfig;
+}
+
+// Postgres jsonb doesn't keep key order, so objects are compared with their keys sorted
+function canonical(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+/**
+ * Fields that differ between two snapshots. Fields missing from older snapshots count as
+ * null (tools as none).
+ */
+export function changedAgentFields(before: Record<string, unknown>, after: Record<string, unknown>): VersionedField[] {
+  const missing = (field: VersionedField) => (field === 'tools' ? [] : null);
+  return VERSIONED_FIELDS.filter((field) =>
+    canonical(before[field] ?? missing(field)) !== canonical(after[field] ?? missing(field))
+  );
+}
+
+function isVersionConflict(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Apply a change to an agent or its tools and record the resulting config as a new version,
+ * in one transaction so the agent never ends up changed without a version to match.
+ * Changes that don't touch a versioned field (e.g. toggling isActive) don't create one.
+ */
+export async function saveAgentVersion<T>(
+  agentId: string,
+  apply: (tx: Prisma.TransactionClient) => Promise<T>,
+  note?: string
+): Promise<{ agent: Agent; result: T }> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const result = await apply(tx);
+
+        const { tools, ...agent } = await tx.agent.findUniqueOrThrow({
+          where: { id: agentId },
+          include: { tools: true },
+        });
+        const config = snapshotAgent(agent, tools);
+
+        const latest = await tx.agentVersion.findFirst({
+          where: { agentId },
+          orderBy: { version: 'desc' },
+        });
+
+        if (latest && changedAgentFields(latest.config as Record<string, unknown>, config).length === 0) {
+          return { agent, result };
+        }
+
+        const version = await tx.agentVersion.create({
+          data: {
+            agentId,
+            version: (latest?.version ?? 0) + 1,
+            config: config as unknown as Prisma.InputJsonObject,
+            note: note || null,
+          },
+        });
+
+        const updated = await tx.agent.update({
+          where: { id: agentId },
+          data: { currentVersionId: version.id },
+        });
+        return { agent: updated, result };
+      });
+    } catch (error) {
+      if (!isVersionConflict(error) || attempt >= MAX_VERSION_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Record the agent's current config as a new version (e.g. right after it's created)
+ */
+export async function recordAgentVersion(agentId: string, note?: string): Promise<Agent> {
+  const { agent } = await saveAgentVersion(agentId, async () => undefined, note);
+  return agent;
+}
+
+/**
+ * Agent update data that restores a snapshot
+ */
+export function toAgentConfigInput(config: Record<string, unknown>): Prisma.AgentUncheckedUpdateInput {
+  const data: Record<string, unknown> = {};
+
+  for (const field of VERSIONED_AGENT_FIELDS) {
+    if (!(field in config)) continue;
+    const value = config[field];
+    data[field] = value === null && JSON_AGENT_FIELDS.includes(field) ? Prisma.DbNull : value;
+  }
+
+  return data as Prisma.AgentUncheckedUpdateInput;
+}
+
+/**
+ * Replace the agent's tools with a snapshot's. Snapshots taken before tools were
+ * versioned leave the current tools alone.
+ */
+export async function restoreAgentTools(tx: Prisma.TransactionClient, agentId: string, config: Record<string, unknown>): Promise<void> {
+  if (!Array.isArray(config.tools)) return;
+
+  await tx.agentTool.deleteMany({ where: { agentId } });
+  await tx.agentTool.createMany({
+    data: (config.tools as ToolConfig[]).map((tool) => ({
+      ...tool,
+      parameters: tool.parameters as Prisma.InputJsonValue,
+      agentId,
+    })),
+  });
+}
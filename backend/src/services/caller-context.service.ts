@@ -0,0 +1,127 @@
+// ============================================
+// Caller Context Service - What we already know about the person on the line
+// ============================================
+
+import { prisma } from '../lib/prisma';
+import { logger } from '../utils/logger';
+
+const MAX_PRIOR_CALLS = 3;
+const MAX_RECENT_MESSAGES = 4;
+const PRIOR_CALL_LOOKBACK = 10; // Recent calls scanned for summaries and booked appointments
+const MAX_NOTES_LENGTH = 500;
+
+export interface CallerProfile {
+  name: string | null;
+  prompt: string; // System prompt section
+}
+
+interface BookedAppointment {
+  start: string;
+  name?: string;
+}
+
+/**
+ * Build the caller profile for a call: contact details, summaries of earlier calls,
+ * recent texts and upcoming appointments booked on earlier calls. Appointments come
+ * from what the booking tool recorded on those calls (Call.metadata.appointments), not
+ * the calendar, so ones made elsewhere or cancelled since aren't reflected.
+ * Returns null for numbers we've never dealt with. Never throws.
+ */
+export async function buildCallerProfile(
+  userId: string,
+  phoneNumber: string,
+  currentCallSid: string,
+  timezone: string = 'America/New_York'
+): Promise<CallerProfile | null> {
+  try {
+    const [contact, calls, conversation] = await Promise.all([
+      prisma.contact.findUnique({
+        where: { userId_phoneNumber: { userId, phoneNumber } },
+      }),
+      prisma.call.findMany({
+        where: {
+          userId,
+          callSid: { not: currentCallSid },
+          OR: [{ from: phoneNumber }, { to: phoneNumber }],
+        },
+        orderBy: { createdAt: 'desc' },
+        take: PRIOR_CALL_LOOKBACK,
+        select: { createdAt: true, direction: true, summary: true, disposition: true, metadata: true },
+      }),
+      prisma.conversation.findFirst({
+        where: { userId, externalNumber: phoneNumber },
+        orderBy: { lastMessageAt: 'desc' },
+        include: {
+          messages: {
+            orderBy: { createdAt: 'desc' },
+            take: MAX_RECENT_MESSAGES,
+            select: { direction: true, body: true, createdAt: true },
+          },
+        },
+      }),
+    ]);
+
+    const messages = (conversation?.messages || []).filter((m) => m.body?.trim()).reverse();
+    if (!contact && calls.length === 0 && messages.length === 0) {
+      return null;
+    }
+
+    const formatDate = (date: Date) => date.toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      timeZone: timezone,
+    });
+
+    const lines: string[] = [];
+
+    if (contact) {
+      lines.push(`- Name: ${contact.name}`);
+      if (contact.email) lines.push(`- Email: ${contact.email}`);
+      if (contact.notes) lines.push(`- Notes: ${contact.notes.slice(0, MAX_NOTES_LENGTH)}`);
+    }
+
+    const summarized = calls.filter((call) => call.summary).slice(0, MAX_PRIOR_CALLS);
+    if (summarized.length > 0) {
+      lines.push('- Previous calls (newest first):');
+      for (const call of summarized) {
+        const outcome = call.disposition ? ` Outcome: ${call.disposition.replace(/_/g, ' ')}.` : '';
+        lines.push(`  - ${formatDate(call.createdAt)} (${call.direction}): ${call.summary}${outcome}`);
+      }
+    } else if (calls.length > 0) {
+      lines.push(`- Has called or been called ${calls.length} time${calls.length === 1 ? '' : 's'} before, last on ${formatDate(calls[0].createdAt)}`);
+    }
+
+    // Appointments the agent booked on earlier calls that are still ahead
+    const now = Date.now();
+    const upcoming = calls
+      .flatMap((call) => ((call.metadata as Record<string, any> | null)?.appointments || []) as BookedAppointment[])
+      .filter((appointment) => appointment?.start && new Date(appointment.start).getTime() > now)
+      .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+    if (upcoming.length > 0) {
+      lines.push('- Upcoming appointments booked on earlier calls (may have changed since):');
+      for (const appointment of upcoming) {
+        const start = new Date(appointment.start);
+        const time = start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: timezone });
+        lines.push(`  - ${formatDate(start)} at ${time}`);
+      }
+    }
+
+    if (messages.length > 0) {
+      lines.push(`- Recent text messages (last on ${formatDate(messages[messages.length - 1].createdAt)}):`);
+      for (const message of messages) {
+        lines.push(`  - ${message.direction === 'INBOUND' ? 'Them' : 'Us'}: ${message.body!.trim()}`);
+      }
+    }
+
+    const name = contact?.name || null;
+    const prompt = `\n\nCALLER PROFILE (from your records for this phone number - use it to personalize the call, don't read it out):
+${lines.join('\n')}
+${name ? `Greet them by name. ` : ''}If they have an upcoming appointment, it may be why they're calling. Someone else can use the same phone, so confirm who you're speaking with before discussing account details.`;
+
+    return { name, prompt };
+  } catch (error) {
+    logger.error('[CallerContext] Failed to build caller profile:', error);
+    return null;
+  }
+}
@@ -0,0 +1,197 @@
+// ============================================
+// Campaign Sequence Service - Multi-step call/SMS follow-ups
+// ============================================
+
+import { CampaignStep } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { createError } from '../middleware/error-handler';
+import {
+  ERROR_CODES,
+  CALL_DISPOSITIONS,
+  REACHED_OUTCOMES,
+  CampaignStepChannel,
+  CampaignStepCondition,
+} from '../lib/constants';
+import { reachedVoicemail } from './twilio.service';
+
+export interface CampaignStepInput {
+  channel: CampaignStepChannel;
+  condition: CampaignStepCondition;
+  delayMinutes: number;
+  message?: string | null;
+  assetId?: string | null;
+}
+
+export interface FunnelStep {
+  id: string;
+  position: number;
+  channel: string;
+  condition: string;
+  delayMinutes: number;
+  entered: number;   // Leads the step ran for
+  waiting: number;   // Leads queued for the step
+  outcomes: Record<string, number>; // call: reached | voicemail | no_answer | failed; sms: sent | failed
+}
+
+const NO_ANSWER_OUTCOMES = ['no-answer', 'busy'];
+
+/**
+ * Whether a step's condition holds for the outcome of the lead's most recent call.
+ * A lead that hasn't been called yet counts as not reached.
+ */
+export function matchesStepCondition(condition: string, outcome: string | null): boolean {
+  const reached = !!outcome && REACHED_OUTCOMES.includes(outcome);
+
+  switch (condition) {
+    case 'always':
+      return true;
+    case 'reached':
+      return reached;
+    case 'not_reached':
+      return !reached;
+    case 'no_answer':
+      return !!outcome && NO_ANSWER_OUTCOMES.includes(outcome);
+    case 'voicemail':
+      return outcome === CALL_DISPOSITIONS.VOICEMAIL;
+    default:
+      return false;
+  }
+}
+
+export async function getCampaignSteps(campaignId: string): Promise<CampaignStep[]> {
+  return prisma.campaignStep.findMany({
+    where: { campaignId },
+    orderBy: { position: 'asc' },
+  });
+}
+
+/**
+ * The step after `position` if the lead's last outcome lets it run, else null (the sequence is over).
+ * A failed condition ends the sequence rather than skipping ahead, so a lead reached on
+ * the first call never gets the "sorry we missed you" follow-ups.
+ */
+export function nextStep(steps: CampaignStep[], position: number, outcome: string | null): CampaignStep | null {
+  const step = steps.find((s) => s.position === position + 1);
+  if (!step || !matchesStepCondition(step.condition, outcome)) return null;
+  return step;
+}
+
+/**
+ * Check a sequence against the campaign's agent and the user's assets
+ */
+export async function validateCampaignSteps(
+  userId: string,
+  agent: { communicationChannel: string },
+  steps: Array<{ channel: string; message?: string | null; assetId?: string | null }>
+): Promise<void> {
+  if (steps.length === 0) return;
+
+  if (steps.some((step) => step.channel === 'sms') && agent.communicationChannel === 'VOICE_ONLY') {
+    throw createError('The campaign agent is voice only; switch it to messaging or omnichannel to send SMS steps', 400, ERROR_CODES.VALIDATION_ERROR);
+  }
+  if (steps.some((step) => step.channel === 'call') && agent.communicationChannel === 'MESSAGING_ONLY') {
+    throw createError('The campaign agent is messaging only; switch it to voice or omnichannel to place call steps', 400, ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  const missingMessage = steps.findIndex((step) => step.channel === 'sms' && !step.message?.trim());
+  if (missingMessage !== -1) {
+    throw createError(`Step ${missingMessage + 1} needs a message`, 400, ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  const assetIds = Array.from(new Set(steps.map((step) => step.assetId).filter((id): id is string => !!id)));
+  if (assetIds.length > 0) {
+    const owned = await prisma.asset.count({ where: { id: { in: assetIds }, userId } });
+    if (owned !== assetIds.length) {
+      throw createError('Asset not found', 404, ERROR_CODES.NOT_FOUND);
+    }
+  }
+}
+
+/**
+ * Replace a campaign's sequence. Steps are updated in place by position so calls and
+ * messages already sent keep counting toward the same step in the funnel.
+ */
+export async function saveCampaignSteps(campaignId: string, steps: CampaignStepInput[]): Promise<void> {
+  const data = (step: CampaignStepInput) => ({
+    channel: step.channel,
+    condition: step.condition,
+    delayMinutes: step.delayMinutes,
+    message: step.channel === 'sms' ? step.message?.trim() || null : null,
+    assetId: step.channel === 'sms' ? step.assetId || null : null,
+  });
+
+  await prisma.$transaction([
+    prisma.campaignStep.deleteMany({ where: { campaignId, position: { gte: steps.length } } }),
+    ...steps.map((step, position) =>
+      prisma.campaignStep.upsert({
+        where: { campaignId_position: { campaignId, position } },
+        update: data(step),
+        create: { campaignId, position, ...data(step) },
+      })
+    ),
+  ]);
+}
+
+/**
+ * Per-step counts for the campaign page: how many leads each step ran for, how they
+ * came out and how many are waiting on it
+ */
+export async function getSequenceFunnel(campaignId: string): Promise<FunnelStep[]> {
+  const steps = await getCampaignSteps(campaignId);
+  if (steps.length === 0) return [];
+
+  const stepIds = steps.map((step) => step.id);
+  const [calls, messages, waiting] = await Promise.all([
+    prisma.call.findMany({
+      where: { campaignId, campaignStepId: { in: stepIds } },
+      distinct: ['campaignLeadId', 'campaignStepId'],
+      orderBy: { createdAt: 'desc' },
+      select: { campaignStepId: true, status: true, duration: true, answeredBy: true, metadata: true },
+    }),
+    prisma.message.groupBy({
+      by: ['campaignStepId', 'status'],
+      where: { campaignId, campaignStepId: { in: stepIds } },
+      _count: { _all: true },
+    }),
+    prisma.campaignLead.groupBy({
+      by: ['sequenceStep'],
+      where: { campaignId, status: { in: ['PENDING', 'SCHEDULED', 'CALLING'] } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const waitingByPosition = new Map(waiting.map((row) => [row.sequenceStep, row._count._all]));
+
+  return steps.map((step) => {
+    const outcomes: Record<string, number> = {};
+    const bump = (key: string, count = 1) => {
+      outcomes[key] = (outcomes[key] || 0) + count;
+    };
+
+    if (step.channel === 'call') {
+      // Latest call per lead for the step
+      for (const call of calls.filter((c) => c.campaignStepId === step.id)) {
+        if (reachedVoicemail(call)) bump('voicemail');
+        else if (call.status === 'completed' && (call.duration || 0) > 0) bump('reached');
+        else if (call.status === 'no-answer' || call.status === 'busy') bump('no_answer');
+        else if (call.status === 'failed' || call.status === 'canceled') bump('failed');
+        else bump('in_progress');
+      }
+    } else {
+      for (const row of messages.filter((m) => m.campaignStepId === step.id)) {
+        bump(row.status === 'FAILED' || row.status === 'UNDELIVERED' ? 'failed' : 'sent', row._count._all);
+      }
+    }
+
+    return {
+      id: step.id,
+      position: step.position,
+      channel: step.channel,
+      condition: step.condition,
+      delayMinutes: step.delayMinutes,
+      entered: Object.values(outcomes).reduce((sum, count) => sum + count, 0),
+      waiting: waitingByPosition.get(step.position) || 0,
+      outcomes,
+    };
+  });
+}
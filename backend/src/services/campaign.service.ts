@@ -3,10 +3,21 @@
 // ============================================
 
 import Queue from 'bull';
+import { CampaignLead, CampaignStep, PhoneNumber } from '@prisma/client';
 import { prisma } from '../lib/prisma';
-import { TwilioService } from './twilio.service';
+import { TwilioService, reachedVoicemail } from './twilio.service';
+import { webhookService } from './webhook.service';
 import { logger } from '../utils/logger';
 import { config } from '../config';
+import { CALL_DISPOSITIONS, ACTIVE_CALL_STATUSES, CONCURRENT_CALL_LIMITS } from '../lib/constants';
+import { assignExperimentVariant } from './experiment.service';
+import { getPoolUsage, pickPoolNumber, remainingPoolCalls } from './phone-pool.service';
+import { isOnDncList, DNC_SKIP_NOTE } from './dnc.service';
+import { getCampaignSteps, nextStep } from './campaign-sequence.service';
+import { sendOutboundMessage } from './messaging.service';
+import { buildPromptVariables } from './prompt-variables.service';
+import { renderTemplate } from '../lib/template';
+import { isWithinLocalWindow, msUntilLocalTime, startOfLocalDay } from '../utils/timezone';
 import { broadcastCampaignStarted, broadcastCampaignPaused, broadcastCampaignCompleted, broadcastCampaignLeadCalled, broadcastCampaignStatsUpdated } from '../websocket';
 
 // Initialize Bull queue for campaign processing
@@ -37,6 +48,27 @@ interface ScheduleCampaignJob {
   campaignId: string;
 }
 
+// What an SMS sequence step needs from the lead's campaign
+interface MessageStepCampaign {
+  id: string;
+  userId: string;
+  timezone: string;
+  agent: Parameters<typeof sendOutboundMessage>[0]['agent'];
+}
+
+// Voicemail with no message left: calling back within the hour usually hits the
+// machine again, so wait at least this long and try a different time of day
+const VOICEMAIL_RETRY_MIN_SECONDS = 4 * 60 * 60;
+
+// Shortest wait before looking again when every remaining lead is outside its window
+const MIN_RESCHEDULE_MS = 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A lead still CALLING this long after it was claimed never heard back from Twilio
+// (or its job was lost), so it is released for another attempt
+const STALE_CLAIM_MS = 2 * HOUR_MS;
+
 // Campaign Service
 export class CampaignService {
   private twilioService: TwilioService;
@@ -132,11 +164,14 @@ export class CampaignService {
       data: { status: 'PAUSED' },
     });
 
-    // Remove pending jobs for this campaign
+    // Remove pending jobs for this campaign; leads claimed for a removed dial go back in the queue
     const jobs = await campaignQueue.getJobs(['waiting', 'delayed']);
     for (const job of jobs) {
       if (job.data.campaignId === campaignId) {
         await job.remove();
+        if (job.name === 'process-lead') {
+          await this.releaseClaim((job.data as ProcessLeadJob).leadId);
+        }
       }
     }
 
@@ -188,31 +223,21 @@ export class CampaignService {
       return;
     }
 
-    // Check if within call window
-    if (!this.isWithinCallWindow(campaign.callWindowStart, campaign.callWindowEnd)) {
-      logger.info(`Campaign ${campaignId} outside call window, rescheduling`);
-      // Reschedule for next hour
-      await campaignQueue.add('schedule-next-leads', { campaignId }, { delay: 60 * 60 * 1000 });
-      return;
-    }
-
-    // Check daily call limit
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const now = new Date();
+    await this.releaseStaleClaims(campaignId, now);
 
-    const callsToday = await prisma.campaignLead.count({
+    // Check daily call limit (the day runs midnight to midnight in the campaign's timezone)
+    const callsToday = await prisma.call.count({
       where: {
         campaignId,
-        lastAttemptAt: { gte: today },
+        createdAt: { gte: startOfLocalDay(now, campaign.timezone) },
       },
     });
 
     if (callsToday >= campaign.dailyCallLimit) {
       logger.info(`Campaign ${campaignId} reached daily call limit, rescheduling for tomorrow`);
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      tomorrow.setHours(9, 0, 0, 0); // Start at 9 AM tomorrow
-      const delayMs = tomorrow.getTime() - Date.now();
+      // Leads still wait for their own call window once the new day starts
+      const delayMs = msUntilLocalTime(now, campaign.timezone, campaign.callWindowStart || '00:00');
       await campaignQueue.add('schedule-next-leads', { campaignId }, { delay: delayMs });
       return;
     }
@@ -224,30 +249,93 @@ export class CampaignService {
       return;
     }
 
-    // Get next pending lead
-    const lead = await prisma.campaignLead.findFirst({
+    // Check hourly rate limit (rolling hour)
+    let hourlySlots = Infinity;
+    if (campaign.callsPerHour) {
+      const recentCalls = await prisma.call.findMany({
+        where: { campaignId, createdAt: { gte: new Date(now.getTime() - HOUR_MS) } },
+        orderBy: { createdAt: 'asc' },
+        select: { createdAt: true },
+      });
+      hourlySlots = campaign.callsPerHour - recentCalls.length;
+
+      if (hourlySlots <= 0) {
+        // Wait for the oldest call in the hour to age out
+        const delayMs = Math.max(recentCalls[0].createdAt.getTime() + HOUR_MS - now.getTime(), MIN_RESCHEDULE_MS);
+        logger.info(`Campaign ${campaignId} reached ${campaign.callsPerHour} calls/hour, checking again in ${Math.round(delayMs / 60000)}m`);
+        await campaignQueue.add('schedule-next-leads', { campaignId }, { delay: delayMs });
+        return;
+      }
+    }
+
+    // Caller ID numbers left under their daily cap
+    const poolUsage = await getPoolUsage(campaign, now);
+    if (poolUsage.length === 0) {
+      logger.warn(`Campaign ${campaignId} has no active phone number to call from, pausing campaign`);
+      await this.pauseCampaign(campaignId, campaign.userId);
+      return;
+    }
+
+    const poolSlots = remainingPoolCalls(campaign, poolUsage);
+    if (poolSlots <= 0) {
+      logger.info(`Campaign ${campaignId} phone numbers reached their daily cap, rescheduling for tomorrow`);
+      const delayMs = msUntilLocalTime(now, campaign.timezone, campaign.callWindowStart || '00:00');
+      await campaignQueue.add('schedule-next-leads', { campaignId }, { delay: delayMs });
+      return;
+    }
+
+    // Free lines: the campaign's own cap and the account-wide cap, counting calls still in progress
+    const { campaignLive, accountLive } = await this.countLiveCalls(campaignId, campaign.userId, now);
+    const accountLimit = Math.min(
+      campaign.user.maxConcurrentCalls ?? CONCURRENT_CALL_LIMITS[campaign.user.plan],
+      CONCURRENT_CALL_LIMITS[campaign.user.plan]
+    );
+    const slots = Math.min(
+      campaign.maxConcurrentCalls - campaignLive,
+      accountLimit - accountLive,
+      campaign.dailyCallLimit - callsToday,
+      hourlySlots,
+      poolSlots
+    );
+
+    if (slots <= 0) {
+      logger.info(`Campaign ${campaignId} has no free lines (${campaignLive} live, ${accountLive} on the account)`);
+      await campaignQueue.add('schedule-next-leads', { campaignId }, { delay: campaign.minCallInterval * 1000 });
+      return;
+    }
+
+    // Get next pending leads whose local time is inside the call window
+    const { open, closed } = await this.getLeadTimezones(campaign, now);
+    const leads = open.length > 0 ? await prisma.campaignLead.findMany({
       where: {
         campaignId,
         status: 'PENDING',
-        OR: [
-          { nextAttemptAt: null },
-          { nextAttemptAt: { lte: new Date() } },
+        AND: [
+          { OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }] },
+          {
+            OR: [
+              { timezone: { in: open } },
+              ...(open.includes(campaign.timezone) ? [{ timezone: null }] : []),
+            ],
+          },
         ],
       },
       orderBy: { createdAt: 'asc' },
-    });
+      take: slots,
+      select: { id: true },
+    }) : [];
 
-    if (!lead) {
-      // No more pending leads, check if campaign is complete
+    if (leads.length === 0) {
+      // No lead to dial now, check if campaign is complete (calls still in progress may yet retry)
       const remainingLeads = await prisma.campaignLead.count({
         where: {
           campaignId,
-          status: { in: ['PENDING', 'SCHEDULED'] },
+          status: { in: ['PENDING', 'SCHEDULED', 'CALLING'] },
         },
       });
 
       if (remainingLeads === 0) {
-        await prisma.campaign.update({
+        const completedCampaign = await prisma.campaign.update({
           where: { id: campaignId },
           data: { status: 'COMPLETED' },
         });
@@ -255,15 +343,50 @@ export class CampaignService {
         // Broadcast campaign completed event
         broadcastCampaignCompleted(campaign.userId, campaignId, campaign.name);
 
+        await webhookService.emit(campaign.agentId, 'campaign.completed', {
+          campaignId,
+          name: campaign.name,
+          totalLeads: completedCampaign.totalLeads,
+          callsCompleted: completedCampaign.callsCompleted,
+          callsSuccessful: completedCampaign.callsSuccessful,
+          callsFailed: completedCampaign.callsFailed,
+          leadsContacted: completedCampaign.leadsContacted,
+        });
+
         logger.info(`Campaign ${campaignId} completed`);
+        return;
       }
+
+      // Sleep until the next window opens or a retry comes due, whichever is first
+      const delayMs = await this.msUntilNextEligibleLead(campaign, closed, now);
+      logger.info(`Campaign ${campaignId} has no lead to dial, checking again in ${Math.round(delayMs / 60000)}m`);
+      await campaignQueue.add('schedule-next-leads', { campaignId }, { delay: delayMs });
       return;
     }
 
-    // Schedule lead call
-    await campaignQueue.add('process-lead', { campaignId, leadId: lead.id }, { delay: 0 });
+    for (const lead of leads) {
+      // Claim the lead before queueing it; a second scheduler run finds it no longer PENDING
+      const claimed = await prisma.campaignLead.updateMany({
+        where: { id: lead.id, status: 'PENDING' },
+        data: {
+          status: 'CALLING',
+          lastAttemptAt: now,
+          attempts: { increment: 1 },
+        },
+      });
+      if (claimed.count === 0) continue;
+
+      // One job per claim, keyed by the claim time: a released claim gives its attempt back,
+      // so an attempt number can repeat while the earlier job is still kept in Redis, and Bull
+      // silently drops a duplicate jobId. The job isn't retried because a retry could dial twice.
+      await campaignQueue.add(
+        'process-lead',
+        { campaignId, leadId: lead.id },
+        { delay: 0, jobId: `lead-${lead.id}-${now.getTime()}`, attempts: 1 }
+      );
+    }
 
-    // Schedule next lead with rate limiting
+    // Schedule next round with rate limiting
     const delayMs = campaign.minCallInterval * 1000;
     await campaignQueue.add('schedule-next-leads', { campaignId }, { delay: delayMs });
   }
@@ -285,41 +408,85 @@ export class CampaignService {
 
     const { campaign } = lead;
 
-    // Update lead status to CALLING
-    await prisma.campaignLead.update({
-      where: { id: leadId },
-      data: {
-        status: 'CALLING',
-        lastAttemptAt: new Date(),
-        attempts: { increment: 1 },
-      },
+    // The scheduler claims the lead (CALLING) before queueing this job. Anything else means the
+    // attempt was released or already handled, and a call made since the claim means a restarted
+    // worker is re-running a job that already dialed.
+    if (lead.status !== 'CALLING' || campaign.status !== 'ACTIVE') {
+      logger.info(`Skipping lead ${leadId}: lead is ${lead.status}, campaign is ${campaign.status}`);
+      if (lead.status === 'CALLING') {
+        await this.releaseClaim(leadId);
+      }
+      return;
+    }
+
+    const existingCall = await prisma.call.findFirst({
+      where: { campaignLeadId: leadId, createdAt: { gte: lead.lastAttemptAt || new Date(0) } },
+      select: { id: true },
     });
+    if (existingCall) {
+      logger.info(`Lead ${leadId} was already dialed for this attempt (call ${existingCall.id})`);
+      return;
+    }
 
+    // Any error from here on takes the lead out of CALLING (retried or failed below), so a
+    // failed job never holds its concurrency slot until the stale-claim sweep
+    let step: CampaignStep | undefined;
     try {
-      // Get agent's phone number
-      const phoneNumber = await prisma.phoneNumber.findFirst({
-        where: { userId: campaign.userId, isActive: true },
-      });
+      // Numbers added to the DNC list after the lead was queued are never dialed
+      if (await isOnDncList(campaign.userId, lead.phoneNumber)) {
+        logger.info(`Lead ${leadId} is on the Do Not Call list, skipping`);
+        await prisma.campaignLead.update({
+          where: { id: leadId },
+          data: { status: 'SKIPPED', notes: DNC_SKIP_NOTE },
+        });
+        return;
+      }
 
+      // Caller ID from the campaign's pool; when every number is at its cap the lead waits for tomorrow
+      const phoneNumber = await pickPoolNumber(campaign, lead.phoneNumber);
       if (!phoneNumber) {
-        throw new Error('No active phone number available');
+        logger.info(`No phone number under its daily cap for lead ${leadId}, returning it to the queue`);
+        await this.releaseClaim(leadId);
+        return;
       }
 
+      // Sequenced campaigns run the lead's current step; without steps every attempt is a call
+      const steps = await getCampaignSteps(campaign.id);
+      step = steps.find((s) => s.position === lead.sequenceStep);
+      if (steps.length > 0 && !step) {
+        // The sequence was shortened past this lead
+        await prisma.campaignLead.update({ where: { id: leadId }, data: { status: 'COMPLETED' } });
+        return;
+      }
+
+      if (step?.channel === 'sms') {
+        await this.runMessageStep(campaign, lead, step, steps, phoneNumber);
+        return;
+      }
+
+      // A running A/B test on the campaign decides which agent places this call
+      const assignment = await assignExperimentVariant({ campaignId: campaign.id });
+      const agent = assignment?.agent || campaign.agent;
+
       // Create call record first
       const call = await prisma.call.create({
         data: {
           userId: campaign.userId,
-          agentId: campaign.agentId,
+          agentId: agent.id,
+          agentVersionId: agent.currentVersionId,
+          experimentVariantId: assignment?.variant.id,
           direction: 'outbound',
           from: phoneNumber.phoneNumber,
           to: lead.phoneNumber,
+          phoneNumberId: phoneNumber.id,
           status: 'initiated',
           campaignId: campaign.id,
           campaignLeadId: lead.id,
+          campaignStepId: step?.id,
           callSid: `pending_${Date.now()}_${leadId}`,
-          agentName: campaign.agent.name,
-          agentVoice: campaign.agent.voice,
-          agentVoiceProvider: campaign.agent.voiceProvider,
+          agentName: agent.name,
+          agentVoice: agent.voice,
+          agentVoiceProvider: agent.voiceProvider,
           metadata: {
             campaignName: campaign.name,
             leadName: lead.name,
@@ -331,7 +498,8 @@ export class CampaignService {
       const result = await this.twilioService.makeCall(
         lead.phoneNumber,
         phoneNumber.phoneNumber,
-        `${config.apiUrl}/api/webhooks/twilio/voice?agentId=${campaign.agentId}&callId=${call.id}`
+        `${config.apiUrl}/api/webhooks/twilio/voice?agentId=${agent.id}&callId=${call.id}`,
+        { detectMachine: true }
       );
 
       // Update call with real Twilio SID
@@ -356,10 +524,13 @@ export class CampaignService {
 
       logger.info(`Call initiated for lead ${leadId} in campaign ${campaignId}`);
     } catch (error) {
-      logger.error(`Failed to initiate call for lead ${leadId}:`, error);
+      logger.error(`Failed to process lead ${leadId}:`, error);
 
-      // Update lead status based on attempts
-      const shouldRetry = lead.attempts < campaign.maxRetryAttempts;
+      // Update lead status based on attempts - per step for a call step, as in handleCallCompleted
+      const attempts = step?.channel === 'call'
+        ? await prisma.call.count({ where: { campaignLeadId: leadId, campaignStepId: step.id } })
+        : lead.attempts;
+      const shouldRetry = attempts < campaign.maxRetryAttempts;
 
       if (shouldRetry) {
         // Schedule retry
@@ -412,26 +583,59 @@ export class CampaignService {
       include: { campaign: true },
     });
 
-    if (!lead) {
+    // Only the lead's live attempt is settled, and only once: a retried or late status
+    // callback would otherwise reschedule the lead and count the call again
+    if (!lead || lead.status !== 'CALLING' || (lead.lastCallId && lead.lastCallId !== call.id)) {
+      return;
+    }
+
+    // In a sequence the call belongs to the step that placed it; a lead that has since moved
+    // on was already settled for this call
+    const steps = await getCampaignSteps(lead.campaignId);
+    const callStep = steps.find((s) => s.id === call.campaignStepId);
+    if (callStep && callStep.position !== lead.sequenceStep) {
       return;
     }
 
+    // Retries are counted per step in a sequence, per lead otherwise
+    const attempts = callStep
+      ? await prisma.call.count({ where: { campaignLeadId: lead.id, campaignStepId: callStep.id } })
+      : lead.attempts;
+
     // Determine outcome based on call status
     let outcome: string;
     let leadStatus: 'COMPLETED' | 'PENDING' | 'FAILED';
-
-    if (status === 'completed' && duration > 0) {
-      outcome = 'answered';
+    const wentToVoicemail = reachedVoicemail(call);
+    const attemptsExhausted = attempts >= lead.campaign.maxRetryAttempts;
+
+    if (wentToVoicemail) {
+      // A left message is a finished attempt; otherwise retry, and once out of
+      // attempts the number still works, so the lead isn't marked failed
+      outcome = CALL_DISPOSITIONS.VOICEMAIL;
+      leadStatus = call.voicemailLeft || attemptsExhausted ? 'COMPLETED' : 'PENDING';
+    } else if (status === 'completed' && duration > 0) {
+      // Post-call analysis may already have classified the conversation
+      outcome = call.disposition || 'answered';
       leadStatus = 'COMPLETED';
     } else if (status === 'no-answer') {
       outcome = 'no-answer';
-      leadStatus = lead.attempts >= lead.campaign.maxRetryAttempts ? 'FAILED' : 'PENDING';
+      leadStatus = attemptsExhausted ? 'FAILED' : 'PENDING';
     } else if (status === 'busy') {
       outcome = 'busy';
-      leadStatus = lead.attempts >= lead.campaign.maxRetryAttempts ? 'FAILED' : 'PENDING';
+      leadStatus = attemptsExhausted ? 'FAILED' : 'PENDING';
     } else {
       outcome = 'failed';
-      leadStatus = lead.attempts >= lead.campaign.maxRetryAttempts ? 'FAILED' : 'PENDING';
+      leadStatus = attemptsExhausted ? 'FAILED' : 'PENDING';
+    }
+
+    const reachedPerson = !wentToVoicemail && status === 'completed' && duration > 0;
+
+    // Sequenced campaigns move on to the next step whose condition matches; when none does,
+    // the step is retried or the lead finished like any other call
+    const next = callStep ? nextStep(steps, callStep.position, outcome) : null;
+    const sequence = next ? this.nextStepUpdate(next) : null;
+    if (sequence) {
+      leadStatus = sequence.status;
     }
 
     // Update lead
@@ -442,22 +646,34 @@ export class CampaignService {
       outcome,
     };
 
-    // Schedule retry if needed
-    if (leadStatus === 'PENDING') {
-      updateData.nextAttemptAt = new Date(Date.now() + lead.campaign.retryInterval * 1000);
+    if (call.voicemailLeft) {
+      updateData.voicemailsLeft = { increment: 1 };
     }
 
-    await prisma.campaignLead.update({
-      where: { id: lead.id },
+    // Schedule the next step, or a retry if needed
+    if (sequence) {
+      Object.assign(updateData, sequence);
+    } else if (leadStatus === 'PENDING') {
+      const retrySeconds = wentToVoicemail
+        ? Math.max(lead.campaign.retryInterval, VOICEMAIL_RETRY_MIN_SECONDS)
+        : lead.campaign.retryInterval;
+      updateData.nextAttemptAt = new Date(Date.now() + retrySeconds * 1000);
+    }
+
+    const settled = await prisma.campaignLead.updateMany({
+      where: { id: lead.id, status: 'CALLING' },
       data: updateData,
     });
+    if (settled.count === 0) {
+      return; // A concurrent callback for the same call got here first
+    }
 
     // Update campaign stats
     const statsUpdate: any = {
       callsCompleted: { increment: 1 },
     };
 
-    if (leadStatus === 'COMPLETED') {
+    if (reachedPerson) {
       statsUpdate.callsSuccessful = { increment: 1 };
       statsUpdate.leadsContacted = { increment: 1 };
     } else if (leadStatus === 'FAILED') {
@@ -480,16 +696,184 @@ export class CampaignService {
     logger.info(`Call completed for lead ${lead.id}, outcome: ${outcome}`);
   }
 
-  // Check if current time is within call window
-  private isWithinCallWindow(startTime?: string | null, endTime?: string | null): boolean {
-    if (!startTime || !endTime) {
-      return true; // No call window restriction
+  // Send an SMS step, then move the lead on. A text that fails to send is noted on the lead
+  // but doesn't hold up the rest of the sequence.
+  private async runMessageStep(
+    campaign: MessageStepCampaign,
+    lead: CampaignLead,
+    step: CampaignStep,
+    steps: CampaignStep[],
+    from: PhoneNumber
+  ): Promise<void> {
+    let notes: string | undefined;
+
+    // A stalled or re-run job may already have sent this step's text
+    const alreadySent = await prisma.message.findFirst({
+      where: { campaignLeadId: lead.id, campaignStepId: step.id },
+      select: { id: true },
+    });
+
+    if (alreadySent) {
+      logger.info(`SMS step ${step.position + 1} was already sent to lead ${lead.id} (message ${alreadySent.id})`);
+    } else {
+      try {
+        await this.sendStepMessage(campaign, lead, step, from);
+        logger.info(`SMS step ${step.position + 1} sent to lead ${lead.id} in campaign ${campaign.id}`);
+      } catch (error) {
+        logger.error(`Failed to send SMS step ${step.position + 1} to lead ${lead.id}:`, error);
+        notes = `SMS step ${step.position + 1} failed: ${(error as Error).message}`;
+      }
     }
 
-    const now = new Date();
-    const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
+    const next = nextStep(steps, step.position, lead.outcome);
+    await prisma.campaignLead.update({
+      where: { id: lead.id },
+      data: { ...(next ? this.nextStepUpdate(next) : { status: 'COMPLETED' }), notes },
+    });
+  }
+
+  // Render a step's text for the lead and send it with the step's asset attached
+  private async sendStepMessage(
+    campaign: MessageStepCampaign,
+    lead: CampaignLead,
+    step: CampaignStep,
+    from: PhoneNumber
+  ): Promise<void> {
+    const [variables, asset] = await Promise.all([
+      buildPromptVariables({
+        userId: campaign.userId,
+        phoneNumber: lead.phoneNumber,
+        campaignLeadId: lead.id,
+        timezone: lead.timezone || campaign.timezone,
+      }),
+      step.assetId ? prisma.asset.findUnique({ where: { id: step.assetId } }) : null,
+    ]);
+
+    await sendOutboundMessage({
+      userId: campaign.userId,
+      agent: campaign.agent,
+      from,
+      to: lead.phoneNumber,
+      body: renderTemplate(step.message || '', variables),
+      mediaUrls: asset ? [asset.url] : [],
+      campaign: { campaignId: campaign.id, campaignLeadId: lead.id, campaignStepId: step.id },
+      variables,
+    });
+  }
+
+  // Queue a lead for a sequence step once the step's delay is up
+  private nextStepUpdate(step: CampaignStep): { status: 'PENDING'; sequenceStep: number; nextAttemptAt: Date } {
+    return {
+      status: 'PENDING',
+      sequenceStep: step.position,
+      nextAttemptAt: new Date(Date.now() + step.delayMinutes * 60 * 1000),
+    };
+  }
+
+  // Lines in use: the campaign's claimed leads, and across the account those plus any other live calls
+  private async countLiveCalls(
+    campaignId: string,
+    userId: string,
+    now: Date
+  ): Promise<{ campaignLive: number; accountLive: number }> {
+    const [campaignLive, campaignsLive, otherCallsLive] = await Promise.all([
+      prisma.campaignLead.count({ where: { campaignId, status: 'CALLING' } }),
+      prisma.campaignLead.count({ where: { status: 'CALLING', campaign: { userId } } }),
+      prisma.call.count({
+        where: {
+          userId,
+          campaignLeadId: null,
+          status: { in: [...ACTIVE_CALL_STATUSES] },
+          createdAt: { gte: new Date(now.getTime() - STALE_CLAIM_MS) },
+        },
+      }),
+    ]);
+
+    return { campaignLive, accountLive: campaignsLive + otherCallsLive };
+  }
+
+  // Undo a claim whose call was never placed
+  private async releaseClaim(leadId: string): Promise<void> {
+    await prisma.campaignLead.updateMany({
+      where: { id: leadId, status: 'CALLING' },
+      data: { status: 'PENDING', attempts: { decrement: 1 } },
+    });
+  }
+
+  // Put leads stuck in CALLING back in the queue so they don't hold a line forever
+  private async releaseStaleClaims(campaignId: string, now: Date): Promise<void> {
+    const released = await prisma.campaignLead.updateMany({
+      where: {
+        campaignId,
+        status: 'CALLING',
+        lastAttemptAt: { lt: new Date(now.getTime() - STALE_CLAIM_MS) },
+      },
+      data: {
+        status: 'PENDING',
+        notes: 'Call never reported back; queued for another attempt',
+      },
+    });
+
+    if (released.count > 0) {
+      logger.warn(`Released ${released.count} stale lead(s) in campaign ${campaignId}`);
+    }
+  }
+
+  // Split the timezones of pending leads by whether their local time is inside the call window.
+  // Leads without a timezone use the campaign's.
+  private async getLeadTimezones(
+    campaign: { id: string; timezone: string; callWindowStart: string | null; callWindowEnd: string | null },
+    now: Date
+  ): Promise<{ open: string[]; closed: string[] }> {
+    const rows = await prisma.campaignLead.findMany({
+      where: { campaignId: campaign.id, status: 'PENDING' },
+      distinct: ['timezone'],
+      select: { timezone: true },
+    });
+
+    const timezones = new Set(rows.map((row) => row.timezone || campaign.timezone));
+    const open: string[] = [];
+    const closed: string[] = [];
+    for (const timezone of timezones) {
+      if (isWithinLocalWindow(now, timezone, campaign.callWindowStart, campaign.callWindowEnd)) {
+        open.push(timezone);
+      } else {
+        closed.push(timezone);
+      }
+    }
+
+    return { open, closed };
+  }
+
+  // How long until some pending lead can be called: a closed window opening or a retry coming due
+  private async msUntilNextEligibleLead(
+    campaign: { id: string; callWindowStart: string | null; minCallInterval: number },
+    closedTimezones: string[],
+    now: Date
+  ): Promise<number> {
+    const waits: number[] = [];
+
+    if (campaign.callWindowStart) {
+      for (const timezone of closedTimezones) {
+        waits.push(msUntilLocalTime(now, timezone, campaign.callWindowStart));
+      }
+    }
+
+    const nextRetry = await prisma.campaignLead.findFirst({
+      where: { campaignId: campaign.id, status: 'PENDING', nextAttemptAt: { gt: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      select: { nextAttemptAt: true },
+    });
+    if (nextRetry?.nextAttemptAt) {
+      waits.push(nextRetry.nextAttemptAt.getTime() - now.getTime());
+    }
+
+    // Nothing pending to wait for (leads mid-call): look again after the usual interval
+    if (waits.length === 0) {
+      return campaign.minCallInterval * 1000;
+    }
 
-    return currentTime >= startTime && currentTime <= endTime;
+    return Math.max(Math.min(...waits), MIN_RESCHEDULE_MS);
   }
 
   // Get campaign statistics
@@ -0,0 +1,142 @@
+// ============================================
+// Do Not Call Service - Account-level suppression list
+// ============================================
+
+import { DoNotCallEntry } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { createError } from '../middleware/error-handler';
+import { ERROR_CODES, DncSource } from '../lib/constants';
+import { logger } from '../utils/logger';
+
+export const DNC_SKIP_NOTE = 'Skipped: number is on the Do Not Call list';
+
+/**
+ * E.164 form of a number as typed or imported ("(555) 123-4567", "15551234567"),
+ * null when it can't be a phone number. Bare 10-digit numbers are taken as US/Canada.
+ */
+export function normalizeDncNumber(phoneNumber: string): string | null {
+  const digits = phoneNumber.replace(/\D/g, '');
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  if (phoneNumber.trim().startsWith('+') && digits.length >= 7 && digits.length <= 15) return `+${digits}`;
+  return null;
+}
+
+// Ways the same number may be stored on leads, calls and conversations
+function storedVariants(e164: string): string[] {
+  const digits = e164.slice(1);
+  return digits.length === 11 && digits.startsWith('1')
+    ? [e164, digits, digits.slice(1)]
+    : [e164, digits];
+}
+
+/**
+ * The numbers (E.164) from the list that are on the user's DNC list
+ */
+export async function findDncNumbers(userId: string, phoneNumbers: string[]): Promise<Set<string>> {
+  const normalized = Array.from(new Set(
+    phoneNumbers.map(normalizeDncNumber).filter((n): n is string => !!n)
+  ));
+  if (normalized.length === 0) return new Set();
+
+  const entries = await prisma.doNotCallEntry.findMany({
+    where: { userId, phoneNumber: { in: normalized } },
+    select: { phoneNumber: true },
+  });
+  return new Set(entries.map((entry) => entry.phoneNumber));
+}
+
+export async function isOnDncList(userId: string, phoneNumber: string): Promise<boolean> {
+  const blocked = await findDncNumbers(userId, [phoneNumber]);
+  return blocked.size > 0;
+}
+
+/**
+ * Refuse to call or message a number on the user's DNC list
+ */
+export async function assertNotOnDncList(userId: string, phoneNumber: string): Promise<void> {
+  if (await isOnDncList(userId, phoneNumber)) {
+    throw createError(`${phoneNumber} is on your Do Not Call list`, 403, ERROR_CODES.DO_NOT_CALL);
+  }
+}
+
+/**
+ * Skip the user's campaign leads for these numbers that haven't been called yet
+ */
+async function suppressLeads(userId: string, numbers: string[]): Promise<number> {
+  if (numbers.length === 0) return 0;
+
+  const result = await prisma.campaignLead.updateMany({
+    where: {
+      campaign: { userId },
+      status: { in: ['PENDING', 'SCHEDULED'] },
+      phoneNumber: { in: numbers.flatMap(storedVariants) },
+    },
+    data: { status: 'SKIPPED', notes: DNC_SKIP_NOTE },
+  });
+
+  if (result.count > 0) {
+    logger.info(`[DNC] Skipped ${result.count} pending lead(s) for user ${userId}`);
+  }
+  return result.count;
+}
+
+/**
+ * Put a number on the DNC list (no-op if it's already there) and skip its pending leads
+ */
+export async function addToDncList(
+  userId: string,
+  phoneNumber: string,
+  source: DncSource,
+  reason?: string | null
+): Promise<DoNotCallEntry> {
+  const normalized = normalizeDncNumber(phoneNumber);
+  if (!normalized) {
+    throw createError(`Invalid phone number: ${phoneNumber}`, 400, ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  const entry = await prisma.doNotCallEntry.upsert({
+    where: { userId_phoneNumber: { userId, phoneNumber: normalized } },
+    update: {},
+    create: { userId, phoneNumber: normalized, source, reason: reason || null },
+  });
+
+  await suppressLeads(userId, [normalized]);
+  return entry;
+}
+
+/**
+ * Add many numbers at once (CSV import). Numbers already on the list are left as they are.
+ */
+export async function addManyToDncList(
+  userId: string,
+  phoneNumbers: string[],
+  source: DncSource,
+  reason?: string | null
+): Promise<{ added: number; leadsSkipped: number }> {
+  const normalized = Array.from(new Set(
+    phoneNumbers.map(normalizeDncNumber).filter((n): n is string => !!n)
+  ));
+  if (normalized.length === 0) return { added: 0, leadsSkipped: 0 };
+
+  const created = await prisma.doNotCallEntry.createMany({
+    data: normalized.map((number) => ({ userId, phoneNumber: number, source, reason: reason || null })),
+    skipDuplicates: true,
+  });
+
+  const leadsSkipped = await suppressLeads(userId, normalized);
+  return { added: created.count, leadsSkipped };
+}
+
+/**
+ * Take a number off the list. Leads skipped because of it stay skipped.
+ */
+export async function removeFromDncList(userId: string, phoneNumber: string, source?: DncSource): Promise<number> {
+  const normalized = normalizeDncNumber(phoneNumber);
+  if (!normalized) return 0;
+
+  const result = await prisma.doNotCallEntry.deleteMany({
+    where: { userId, phoneNumber: normalized, ...(source && { source }) },
+  });
+  return result.count;
+}
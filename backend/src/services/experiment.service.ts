@@ -0,0 +1,162 @@
+// ============================================
+// Experiment Service - A/B tests of agent variants on live calls
+// ============================================
+
+import { Agent, ExperimentVariant } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../utils/logger';
+import { CALL_DISPOSITIONS, CALL_SENTIMENTS, EXPERIMENT_MIN_SAMPLE } from '../lib/constants';
+import { SignificanceResult, twoProportionTest, welchTest, chiSquareTest, summarizeCounts } from '../utils/stats';
+
+export interface VariantAssignment {
+  variant: ExperimentVariant;
+  agent: Agent;
+}
+
+const DISPOSITIONS = Object.values(CALL_DISPOSITIONS) as string[];
+
+/**
+ * Weighted random pick; weights are relative, so 1:1 and 50:50 split the same way
+ */
+export function pickVariant<T extends { weight: number }>(variants: T[]): T | null {
+  const total = variants.reduce((sum, v) => sum + Math.max(0, v.weight), 0);
+  if (total <= 0) return null;
+
+  let roll = Math.random() * total;
+  for (const variant of variants) {
+    roll -= Math.max(0, variant.weight);
+    if (roll < 0) return variant;
+  }
+  return variants[variants.length - 1];
+}
+
+/**
+ * Pick the agent for a call to a phone number or from a campaign with a running
+ * experiment. Returns null when there's no experiment, so the usual agent takes the call.
+ * A variant whose agent has since been switched to the wrong direction hands the call
+ * to the control (the first variant).
+ */
+export async function assignExperimentVariant(
+  target: { phoneNumberId: string } | { campaignId: string }
+): Promise<VariantAssignment | null> {
+  const experiment = await prisma.experiment.findFirst({
+    where: { ...target, status: 'running' },
+    include: { variants: { include: { agent: true }, orderBy: { createdAt: 'asc' } } },
+  });
+
+  if (!experiment) return null;
+
+  // Paused agents sit the experiment out; the others keep their relative weights
+  let variant = pickVariant(experiment.variants.filter((v) => v.agent.isActive));
+  if (!variant) return null;
+
+  const wrongMode = 'phoneNumberId' in target ? 'OUTBOUND' : 'INBOUND';
+  if (variant.agent.mode === wrongMode) {
+    const control = experiment.variants[0];
+    logger.warn('[Experiment] Variant agent can\'t take this call, using the control', { experimentId: experiment.id, variant: variant.name, mode: variant.agent.mode });
+    if (control.agent.mode === wrongMode || !control.agent.isActive) return null;
+    variant = control;
+  }
+
+  logger.info('[Experiment] Assigned variant', { experimentId: experiment.id, variant: variant.name, agentId: variant.agentId });
+
+  const { agent, ...rest } = variant;
+  return { variant: rest, agent };
+}
+
+export interface VariantResults {
+  id: string;
+  name: string;
+  weight: number;
+  agent: { id: string; name: string };
+  calls: number;
+  completed: number;
+  avgDuration: number; // Seconds, completed calls
+  bookings: number;
+  bookingRate: number; // Bookings per completed call
+  dispositions: Record<string, number>;
+  sentiments: Record<string, number>;
+  // Compared with the first (control) variant; null on the control itself
+  significance: {
+    duration: SignificanceResult;
+    bookingRate: SignificanceResult;
+    disposition: SignificanceResult;
+    sentiment: SignificanceResult;
+  } | null;
+}
+
+/**
+ * Per-variant outcomes with significance against the control
+ */
+export async function getExperimentResults(experimentId: string): Promise<{ variants: VariantResults[]; enoughData: boolean }> {
+  const variants = await prisma.experimentVariant.findMany({
+    where: { experimentId },
+    orderBy: { createdAt: 'asc' },
+    include: { agent: { select: { id: true, name: true } } },
+  });
+
+  // Counted in the database; an experiment can run for thousands of calls
+  const byVariant = { experimentVariantId: { in: variants.map((v) => v.id) } };
+  const completedByVariant = { ...byVariant, status: 'completed' };
+  const [callCounts, outcomeCounts, durationCounts] = await Promise.all([
+    prisma.call.groupBy({
+      by: ['experimentVariantId'],
+      where: byVariant,
+      _count: { _all: true },
+    }),
+    prisma.call.groupBy({
+      by: ['experimentVariantId', 'disposition', 'sentiment'],
+      where: completedByVariant,
+      _count: { _all: true },
+    }),
+    prisma.call.groupBy({
+      by: ['experimentVariantId', 'duration'],
+      where: { ...completedByVariant, duration: { not: null } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const summaries = variants.map((variant) => {
+    const outcomes = outcomeCounts.filter((row) => row.experimentVariantId === variant.id);
+    const countWhere = (match: (row: typeof outcomes[number]) => boolean) =>
+      outcomes.filter(match).reduce((sum, row) => sum + row._count._all, 0);
+
+    const completed = countWhere(() => true);
+    const durations = summarizeCounts(durationCounts
+      .filter((row) => row.experimentVariantId === variant.id)
+      .map((row) => ({ value: row.duration!, count: row._count._all })));
+    const dispositions = Object.fromEntries(DISPOSITIONS.map((d) => [d, countWhere((row) => row.disposition === d)]));
+    const sentiments = Object.fromEntries(CALL_SENTIMENTS.map((s) => [s, countWhere((row) => row.sentiment === s)]));
+    const bookings = dispositions[CALL_DISPOSITIONS.BOOKED];
+    const calls = callCounts.find((row) => row.experimentVariantId === variant.id)?._count._all || 0;
+
+    return { variant, calls, completed, durations, dispositions, sentiments, bookings };
+  });
+
+  const control = summaries[0];
+
+  const results: VariantResults[] = summaries.map((summary, index) => ({
+    id: summary.variant.id,
+    name: summary.variant.name,
+    weight: summary.variant.weight,
+    agent: summary.variant.agent,
+    calls: summary.calls,
+    completed: summary.completed,
+    avgDuration: Math.round(summary.durations.mean),
+    bookings: summary.bookings,
+    bookingRate: summary.completed > 0 ? summary.bookings / summary.completed : 0,
+    dispositions: summary.dispositions,
+    sentiments: summary.sentiments,
+    significance: index === 0 ? null : {
+      duration: welchTest(control.durations, summary.durations),
+      bookingRate: twoProportionTest(control.bookings, control.completed, summary.bookings, summary.completed),
+      disposition: chiSquareTest(Object.values(control.dispositions), Object.values(summary.dispositions)),
+      sentiment: chiSquareTest(Object.values(control.sentiments), Object.values(summary.sentiments)),
+    },
+  }));
+
+  return {
+    variants: results,
+    enoughData: summaries.length > 1 && summaries.every((s) => s.completed >= EXPERIMENT_MIN_SAMPLE),
+  };
+}
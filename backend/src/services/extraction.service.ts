@@ -0,0 +1,244 @@
+// ============================================
+// Extraction Service - Structured data collected during calls
+// ============================================
+
+import OpenAI from 'openai';
+import { prisma } from '../lib/prisma';
+import { logger } from '../utils/logger';
+import { extractionSchemaSchema, ExtractionField, isSafePattern } from '../lib/validators';
+
+export const EXTRACTION_TOOL_NAME = 'save_call_data';
+
+// Longest value a field pattern is run against
+const MAX_PATTERN_INPUT_LENGTH = 200;
+
+// Field patterns compiled once per process; null for patterns that fail isSafePattern
+const compiledPatterns = new Map<string, RegExp | null>();
+
+function compilePattern(pattern: string): RegExp | null {
+  if (!compiledPatterns.has(pattern)) {
+    compiledPatterns.set(pattern, isSafePattern(pattern) ? new RegExp(pattern) : null);
+  }
+  return compiledPatterns.get(pattern)!;
+}
+
+const TYPE_HINTS: Record<ExtractionField['type'], string> = {
+  string: 'text',
+  number: 'number',
+  boolean: 'yes/no',
+  date: 'date, YYYY-MM-DD',
+  email: 'email address',
+  phone: 'phone number',
+  enum: 'one of the listed options',
+};
+
+/**
+ * Read an agent's stored extraction schema; anything invalid counts as no schema
+ */
+export function parseExtractionSchema(value: unknown): ExtractionField[] {
+  if (!value) return [];
+  const parsed = extractionSchemaSchema.safeParse(value);
+  return parsed.success ? parsed.data : [];
+}
+
+/**
+ * save_call_data tool: every field is optional so the model can save values as they come up
+ */
+export function buildExtractionTool(fields: ExtractionField[]): OpenAI.Chat.ChatCompletionTool {
+  const properties: Record<string, Record<string, unknown>> = {};
+
+  for (const field of fields) {
+    const description = [field.label, field.description, field.type === 'date' ? 'Format: YYYY-MM-DD' : null]
+      .filter(Boolean)
+      .join('. ');
+
+    properties[field.key] = {
+      type: field.type === 'number' ? 'number' : field.type === 'boolean' ? 'boolean' : 'string',
+      description,
+      ...(field.type === 'enum' && { enum: field.options }),
+    };
+  }
+
+  return {
+    type: 'function',
+    function: {
+      name: EXTRACTION_TOOL_NAME,
+      description: 'Save details the caller has given you. Call it as soon as you learn any of the fields; you can call it again to add or correct values.',
+      parameters: {
+        type: 'object',
+        properties,
+      },
+    },
+  };
+}
+
+/**
+ * Normalize a value for a field, or explain why it doesn't fit
+ */
+export function validateExtractedValue(field: ExtractionField, value: unknown): { value: string | number | boolean } | { error: string } {
+  if (value === null || value === undefined || String(value).trim() === '') {
+    return { error: 'no value given' };
+  }
+
+  const text = String(value).trim();
+  let normalized: string | number | boolean;
+
+  switch (field.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(text.replace(/[,\s]/g, ''));
+      if (!Number.isFinite(number)) return { error: 'must be a number' };
+      return { value: number };
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value };
+      if (/^(true|yes|y)$/i.test(text)) return { value: true };
+      if (/^(false|no|n)$/i.test(text)) return { value: false };
+      return { error: 'must be yes or no' };
+    }
+    case 'date': {
+      const match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+      if (!date || date.toISOString().slice(0, 10) !== text) return { error: 'must be a real date in YYYY-MM-DD format' };
+      normalized = text;
+      break;
+    }
+    case 'email': {
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text)) return { error: 'must be a valid email address' };
+      normalized = text.toLowerCase();
+      break;
+    }
+    case 'phone': {
+      const digits = text.replace(/\D/g, '');
+      if (digits.length < 7 || digits.length > 15) return { error: 'must be a phone number with 7 to 15 digits' };
+      normalized = text.startsWith('+') ? `+${digits}` : digits;
+      break;
+    }
+    case 'enum': {
+      const option = field.options?.find((o) => o.toLowerCase() === text.toLowerCase());
+      if (!option) return { error: `must be one of: ${field.options?.join(', ')}` };
+      normalized = option;
+      break;
+    }
+    default:
+      normalized = text;
+  }
+
+  if (field.pattern) {
+    const pattern = compilePattern(field.pattern);
+    const candidate = String(normalized);
+    if (pattern && (candidate.length > MAX_PATTERN_INPUT_LENGTH || !pattern.test(candidate))) {
+      return { error: 'is not in the expected format' };
+    }
+  }
+
+  return { value: normalized };
+}
+
+export function getMissingRequiredFields(fields: ExtractionField[], data: Record<string, unknown>): ExtractionField[] {
+  return fields.filter((field) => field.required && data[field.key] === undefined);
+}
+
+/**
+ * System prompt section listing the fields and which required ones are still missing
+ */
+export function describeExtractionFields(fields: ExtractionField[], data: Record<string, unknown>): string {
+  const lines = fields.map((field) => {
+    const hint = [TYPE_HINTS[field.type], field.required ? 'required' : 'optional'].join(', ');
+    const options = field.type === 'enum' ? ` Options: ${field.options?.join(', ')}.` : '';
+    return `- ${field.label} (${hint})${field.description ? `: ${field.description}` : ''}${options}`;
+  });
+
+  const missing = getMissingRequiredFields(fields, data);
+  const status = missing.length > 0
+    ? `Still needed: ${missing.map((f) => f.label).join(', ')}. Work these into the conversation and make sure you have them before the call ends.`
+    : 'All required details are collected.';
+
+  return `\n\nINFORMATION TO COLLECT:
+Gather these details naturally during the call. As soon as the caller gives any of them, confirm spellings and numbers and call ${EXTRACTION_TOOL_NAME}.
+${lines.join('\n')}
+${status}`;
+}
+
+/**
+ * Copy a finished call's extracted data onto its campaign lead (metadata.extracted) and
+ * the caller's contact (fields mapped with contactField). Never throws.
+ */
+export async function applyExtractedData(callId: string): Promise<void> {
+  try {
+    const call = await prisma.call.findUnique({
+      where: { id: callId },
+      select: {
+        userId: true,
+        direction: true,
+        from: true,
+        to: true,
+        extractedData: true,
+        campaignLeadId: true,
+        agent: { select: { extractionSchema: true } },
+      },
+    });
+
+    const data = call?.extractedData as Record<string, unknown> | null;
+    if (!call || !data || Object.keys(data).length === 0) return;
+
+    if (call.campaignLeadId) {
+      const lead = await prisma.campaignLead.findUnique({
+        where: { id: call.campaignLeadId },
+        select: { metadata: true },
+      });
+      if (lead) {
+        // Kept apart from the imported CSV columns so a field can't overwrite one
+        const metadata = (lead.metadata as Record<string, any>) || {};
+        await prisma.campaignLead.update({
+          where: { id: call.campaignLeadId },
+          data: { metadata: { ...metadata, extracted: { ...(metadata.extracted || {}), ...data } } },
+        });
+      }
+    }
+
+    const contactUpdates: { name?: string; email?: string; notes: string[] } = { notes: [] };
+    for (const field of parseExtractionSchema(call.agent?.extractionSchema)) {
+      const value = data[field.key];
+      if (value === undefined || !field.contactField) continue;
+
+      if (field.contactField === 'notes') {
+        contactUpdates.notes.push(`${field.label}: ${value}`);
+      } else {
+        contactUpdates[field.contactField] = String(value);
+      }
+    }
+
+    if (!contactUpdates.name && !contactUpdates.email && contactUpdates.notes.length === 0) return;
+
+    // The contact is whoever was on the other end of the line
+    const phoneNumber = call.direction === 'inbound' ? call.from : call.to;
+    const contact = await prisma.contact.findUnique({
+      where: { userId_phoneNumber: { userId: call.userId, phoneNumber } },
+    });
+    const notes = contactUpdates.notes.join('\n');
+
+    if (contact) {
+      await prisma.contact.update({
+        where: { id: contact.id },
+        data: {
+          name: contactUpdates.name,
+          email: contactUpdates.email,
+          notes: notes ? [contact.notes, notes].filter(Boolean).join('\n') : undefined,
+        },
+      });
+    } else if (contactUpdates.name) {
+      // Contacts need a name, so a new one is only created once we have it
+      await prisma.contact.create({
+        data: {
+          userId: call.userId,
+          phoneNumber,
+          name: contactUpdates.name,
+          email: contactUpdates.email,
+          notes: notes || null,
+        },
+      });
+    }
+  } catch (error) {
+    logger.error(`[Extraction] Failed to apply extracted data for call ${callId}:`, error);
+  }
+}
@@ -0,0 +1,108 @@
+// ============================================
+// LLM Provider Factory - Picks the LLM backend for an agent
+// ============================================
+
+import OpenAI from 'openai';
+import { Agent } from '@prisma/client';
+import { OpenAIService, ResponseWithTools, StreamedSentence, DEFAULT_OPENAI_MODEL } from './openai.service';
+import { decrypt } from '../../utils/crypto';
+import { safeFetch } from '../../utils/safe-fetch';
+import { logger } from '../../utils/logger';
+
+/**
+ * Everything the voice pipeline, messaging and agent test need from an LLM.
+ * Tools use the OpenAI function-calling shape, which OpenAI-compatible servers share.
+ */
+export interface LLMService {
+  generateResponse(
+    messages: Array<{ role: string; content: string }>,
+    systemPrompt: string,
+    temperature?: number,
+    maxTokens?: number
+  ): Promise<string>;
+
+  streamResponse(
+    messages: Array<{ role: string; content: string }>,
+    systemPrompt: string,
+    temperature?: number,
+    maxTokens?: number
+  ): AsyncGenerator<string, void, unknown>;
+
+  streamSentences(
+    messages: Array<{ role: string; content: string }>,
+    systemPrompt: string,
+    temperature?: number,
+    maxTokens?: number
+  ): AsyncGenerator<{ sentence: string; isComplete: boolean }, void, unknown>;
+
+  streamSentencesWithTools(
+    messages: Array<{ role: string; content: string }>,
+    systemPrompt: string,
+    tools: OpenAI.Chat.ChatCompletionTool[],
+    temperature?: number,
+    maxTokens?: number
+  ): AsyncGenerator<StreamedSentence, void, unknown>;
+
+  generateResponseWithTools(
+    messages: Array<{ role: string; content: string }>,
+    systemPrompt: string,
+    tools: OpenAI.Chat.ChatCompletionTool[],
+    temperature?: number,
+    maxTokens?: number
+  ): Promise<ResponseWithTools>;
+
+  continueAfterToolCall(
+    messages: Array<{ role: string; content: string }>,
+    systemPrompt: string,
+    toolCall: { id: string; name: string; arguments: Record<string, unknown> },
+    toolResult: string,
+    temperature?: number,
+    maxTokens?: number
+  ): Promise<string>;
+}
+
+export const LLM_PROVIDERS = ['openai', 'openai-compatible'] as const;
+export type LLMProvider = typeof LLM_PROVIDERS[number];
+
+type AgentLLMConfig = Pick<Agent, 'llmProvider' | 'llmModel' | 'llmBaseUrl' | 'llmApiKey'>;
+
+/**
+ * Create the LLM service configured on an agent
+ * - openai: OpenAI API with the platform key
+ * - openai-compatible: any server speaking the OpenAI chat completions API, over https on a public address
+ */
+export function createLLMService(agent: AgentLLMConfig): LLMService {
+  switch (agent.llmProvider) {
+    case 'openai-compatible': {
+      if (!agent.llmBaseUrl) {
+        logger.warn('[LLM] openai-compatible provider has no base URL, falling back to OpenAI');
+        break;
+      }
+
+      let apiKey = 'not-needed'; // Many local servers ignore the key, but the SDK requires one
+      if (agent.llmApiKey) {
+        try {
+          apiKey = decrypt(agent.llmApiKey);
+        } catch (error) {
+          logger.error('[LLM] Failed to decrypt agent LLM API key:', error);
+        }
+      }
+
+      return new OpenAIService({
+        model: agent.llmModel,
+        baseURL: agent.llmBaseUrl,
+        apiKey,
+        // The base URL is user-supplied, so re-check where each request actually resolves to
+        fetch: (url, init) => safeFetch(url, init, { httpsOnly: true }),
+      });
+    }
+
+    case 'openai':
+      return new OpenAIService({ model: agent.llmModel || DEFAULT_OPENAI_MODEL });
+
+    default:
+      logger.warn(`[LLM] Unknown provider "${agent.llmProvider}", falling back to OpenAI`);
+  }
+
+  return new OpenAIService({ model: DEFAULT_OPENAI_MODEL });
+}
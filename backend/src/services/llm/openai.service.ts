@@ -76,12 +76,119 @@ export const CALENDAR_TOOLS: OpenAI.Chat.ChatCompletionTool[] = [
   },
 ];
 
+// Call control tools - always available to voice agents
+export const CALL_CONTROL_TOOLS: OpenAI.Chat.ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'end_call',
+      description: 'Hang up the phone call. Use this only when the conversation is clearly over: the caller has said goodbye, asked to end the call, reached a wrong number, or there is nothing left to help with.',
+      parameters: {
+        type: 'object',
+        properties: {
+          reason: {
+            type: 'string',
+            enum: ['conversation_complete', 'caller_requested', 'wrong_number', 'not_interested'],
+            description: 'Why the call is ending',
+          },
+          farewell: {
+            type: 'string',
+            description: 'A short goodbye to say to the caller before hanging up (e.g., "Thanks for calling, have a great day!")',
+          },
+        },
+        required: ['reason'],
+      },
+    },
+  },
+];
+
+// Transfer tool - only offered when the agent has a transferNumber configured
+export const TRANSFER_TOOLS: OpenAI.Chat.ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'transfer_call',
+      description: 'Transfer the caller to a human team member. Use this when the caller asks to speak with a person, or when they need help you cannot provide.',
+      parameters: {
+        type: 'object',
+        properties: {
+          reason: {
+            type: 'string',
+            description: 'Why the caller is being transferred',
+          },
+          summary: {
+            type: 'string',
+            description: 'One or two sentences for the person taking the call: who the caller is and what they need',
+          },
+        },
+        required: ['reason', 'summary'],
+      },
+    },
+  },
+];
+
+// Phone tree tools - offered on outbound calls for agents that navigate other businesses' phone systems
+export const PHONE_TREE_TOOLS: OpenAI.Chat.ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'send_dtmf',
+      description: 'Press keys on the phone keypad. Use this when an automated phone menu asks you to press a key or enter a number (account number, extension, date of birth, etc.). Do not say the digits out loud.',
+      parameters: {
+        type: 'object',
+        properties: {
+          digits: {
+            type: 'string',
+            description: 'Keys to press, using 0-9, * and #. Add "w" for a half-second pause between keys if needed.',
+          },
+        },
+        required: ['digits'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'wait_on_hold',
+      description: 'Stay silent while on hold. Use this when you are put on hold or hear hold music or recorded messages like "please hold" or "your call is important to us". You will be prompted again when a person picks up.',
+      parameters: {
+        type: 'object',
+        properties: {
+          reason: {
+            type: 'string',
+            description: 'What you heard that indicates you are on hold',
+          },
+        },
+        required: [],
+      },
+    },
+  },
+];
+
+// A chunk of a streamed response - either a sentence ready for TTS or the tool calls requested by the model
+export type StreamedSentence =
+  | { sentence: string; isComplete: boolean; toolCalls?: undefined }
+  | { sentence?: undefined; isComplete: true; toolCalls: ToolCall[] };
+
+export interface OpenAIServiceOptions {
+  model?: string;
+  apiKey?: string;
+  baseURL?: string; // Point at any OpenAI-compatible server (e.g. a self-hosted model)
+  fetch?: (url: string, init?: RequestInit) => Promise<Response>;
+}
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini'; // Fast enough for real-time voice conversation
+
 export class OpenAIService {
   private client: OpenAI;
+  private model: string;
 
-  constructor() {
+  constructor(options: OpenAIServiceOptions = {}) {
+    this.model = options.model || DEFAULT_OPENAI_MODEL;
     this.client = new OpenAI({
-      apiKey: config.openaiApiKey,
+      apiKey: options.apiKey || config.openaiApiKey,
+      baseURL: options.baseURL,
+      fetch: options.fetch as OpenAI['fetch'] | undefined,
     });
   }
 
@@ -93,7 +200,7 @@ export class OpenAIService {
   ): Promise<string> {
     try {
       const response = await this.client.chat.completions.create({
-        model: 'gpt-4o-mini', // Faster for real-time voice conversation
+        model: this.model,
         messages: [
           { role: 'system', content: systemPrompt },
           ...messages.map((m) => ({
@@ -120,7 +227,7 @@ export class OpenAIService {
   ): AsyncGenerator<string, void, unknown> {
     try {
       const stream = await this.client.chat.completions.create({
-        model: 'gpt-4o-mini', // Faster for real-time voice conversation
+        model: this.model,
         messages: [
           { role: 'system', content: systemPrompt },
           ...messages.map((m) => ({
@@ -186,6 +293,93 @@ export class OpenAIService {
     }
   }
 
+  /**
+   * Stream sentences like streamSentences, but let the model call tools.
+   * Spoken content is yielded sentence by sentence; any tool calls are
+   * assembled from the stream and yielded once at the end.
+   */
+  async *streamSentencesWithTools(
+    messages: Array<{ role: string; content: string }>,
+    systemPrompt: string,
+    tools: OpenAI.Chat.ChatCompletionTool[],
+    temperature: number = 0.7,
+    maxTokens: number = 150
+  ): AsyncGenerator<StreamedSentence, void, unknown> {
+    let buffer = '';
+    const sentenceEnders = /([.!?])\s/g;
+    const pendingToolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: this.model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          ...messages.map((m) => ({
+            role: m.role as 'user' | 'assistant',
+            content: m.content,
+          })),
+        ],
+        tools,
+        tool_choice: 'auto',
+        temperature,
+        max_tokens: maxTokens,
+        stream: true,
+      });
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta;
+
+        // Tool call arguments arrive in fragments keyed by index
+        for (const tc of delta?.tool_calls || []) {
+          const pending = pendingToolCalls.get(tc.index) || { id: '', name: '', arguments: '' };
+          if (tc.id) pending.id = tc.id;
+          if (tc.function?.name) pending.name += tc.function.name;
+          if (tc.function?.arguments) pending.arguments += tc.function.arguments;
+          pendingToolCalls.set(tc.index, pending);
+        }
+
+        if (!delta?.content) continue;
+        buffer += delta.content;
+
+        let match;
+        let lastIndex = 0;
+        sentenceEnders.lastIndex = 0;
+
+        while ((match = sentenceEnders.exec(buffer)) !== null) {
+          const sentence = buffer.slice(lastIndex, match.index + 1).trim();
+          if (sentence) {
+            yield { sentence, isComplete: false };
+          }
+          lastIndex = match.index + match[0].length;
+        }
+
+        if (lastIndex > 0) {
+          buffer = buffer.slice(lastIndex);
+        }
+      }
+    } catch (error) {
+      logger.error('[OpenAI] Streaming with tools error:', error);
+      throw error;
+    }
+
+    if (buffer.trim()) {
+      yield { sentence: buffer.trim(), isComplete: true };
+    }
+
+    if (pendingToolCalls.size > 0) {
+      const toolCalls: ToolCall[] = Array.from(pendingToolCalls.values()).map((tc) => {
+        let args: Record<string, any> = {};
+        try {
+          args = tc.arguments ? JSON.parse(tc.arguments) : {};
+        } catch {
+          logger.warn('[OpenAI] Could not parse streamed tool arguments:', tc.arguments);
+        }
+        return { id: tc.id, name: tc.name, arguments: args };
+      });
+      yield { isComplete: true, toolCalls };
+    }
+  }
+
   /**
    * Generate response with tool/function calling support
    * Used when AI needs to interact with external services (calendar, etc.)
@@ -208,7 +402,7 @@ export class OpenAIService {
       });
 
       const response = await this.client.chat.completions.create({
-        model: 'gpt-4o-mini', // Faster for real-time voice conversation
+        model: this.model,
         messages: [
           { role: 'system', content: systemPrompt },
           ...formattedMessages,
@@ -293,7 +487,7 @@ export class OpenAIService {
       ];
 
       const response = await this.client.chat.completions.create({
-        model: 'gpt-4o-mini', // Faster for real-time voice conversation
+        model: this.model,
         messages: fullMessages,
         temperature,
         max_tokens: maxTokens,
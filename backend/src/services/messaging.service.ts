@@ -0,0 +1,156 @@
+// ============================================
+// Messaging Service - Outbound SMS/MMS on the user's Twilio account
+// ============================================
+
+import { Agent, Message, PhoneNumber } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { createError } from '../middleware/error-handler';
+import { ERROR_CODES, SMS_SEGMENT_RATE_USD, MMS_RATE_USD, CREDITS_PER_USD } from '../lib/constants';
+import { decrypt } from '../utils/crypto';
+import { renderTemplate } from '../lib/template';
+import { TwilioService } from './twilio.service';
+import { buildPromptVariables } from './prompt-variables.service';
+import { logger } from '../utils/logger';
+
+export interface OutboundMessage {
+  userId: string;
+  agent: Pick<Agent, 'id' | 'name' | 'voice' | 'currentVersionId' | 'systemPrompt' | 'messagingSystemPrompt'>;
+  from: Pick<PhoneNumber, 'id' | 'phoneNumber'>;
+  to: string;
+  body: string;
+  mediaUrls?: string[];
+  // Set when a campaign sequence step sends the message
+  campaign?: { campaignId: string; campaignLeadId: string; campaignStepId: string };
+  // Prompt variables for the recipient, when the caller already has them
+  variables?: Record<string, any>;
+}
+
+/**
+ * Send a message, thread it into the conversation with the recipient and charge credits.
+ * Messaging is always credit-based (no included message quota).
+ */
+export async function sendOutboundMessage(outbound: OutboundMessage): Promise<Message> {
+  const { userId, agent, from, to, body } = outbound;
+  const mediaUrls = outbound.mediaUrls || [];
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      twilioAccountSid: true,
+      twilioAuthToken: true,
+      twilioConfigured: true,
+      twilioMessagingServiceSid: true,
+      creditsBalance: true,
+    },
+  });
+
+  if (!user?.twilioConfigured || !user.twilioAccountSid || !user.twilioAuthToken) {
+    throw createError('Twilio account not configured', 400, ERROR_CODES.TWILIO_NOT_CONFIGURED);
+  }
+
+  if (Number(user.creditsBalance) <= 0) {
+    throw createError('Insufficient credits to send messages', 402, ERROR_CODES.INSUFFICIENT_CREDITS);
+  }
+
+  const twilioService = new TwilioService({
+    accountSid: user.twilioAccountSid,
+    authToken: decrypt(user.twilioAuthToken),
+  });
+
+  const messageType = mediaUrls.length > 0 ? 'MMS' : 'SMS';
+
+  // Get Messaging Service SID for A2P 10DLC compliance (optional)
+  const messagingServiceSid = user.twilioMessagingServiceSid || undefined;
+
+  // Send the message (uses Messaging Service SID if configured for US A2P compliance)
+  const result = messageType === 'MMS'
+    ? await twilioService.sendMMS(to, from.phoneNumber, body, mediaUrls, messagingServiceSid)
+    : await twilioService.sendSMS(to, from.phoneNumber, body, messagingServiceSid);
+
+  // Create or update conversation
+  const conversation = await prisma.conversation.upsert({
+    where: {
+      userId_externalNumber_twilioNumber: {
+        userId,
+        externalNumber: to,
+        twilioNumber: from.phoneNumber,
+      },
+    },
+    update: {
+      lastMessageAt: new Date(),
+      messageCount: { increment: 1 },
+      agentId: agent.id, // Update to current agent
+      agentName: agent.name, // Denormalized for when agent is deleted
+      agentVoice: agent.voice,
+    },
+    create: {
+      userId,
+      externalNumber: to,
+      twilioNumber: from.phoneNumber,
+      agentId: agent.id,
+      agentName: agent.name, // Denormalized for when agent is deleted
+      agentVoice: agent.voice,
+      lastMessageAt: new Date(),
+      messageCount: 1,
+    },
+  });
+
+  // Calculate message cost
+  // SMS: $0.01 per segment (messages over 160 chars are split)
+  // MMS: $0.03 per message (regardless of media count)
+  const segmentCount = messageType === 'SMS' ? Math.ceil((body?.length || 0) / 160) || 1 : 1;
+  const messageCostUsd = messageType === 'MMS' ? MMS_RATE_USD : SMS_SEGMENT_RATE_USD * segmentCount;
+  const creditsToDeduct = Math.ceil(messageCostUsd * CREDITS_PER_USD);
+
+  // The snapshot holds the prompt as the agent would have used it for this recipient
+  const variables = outbound.variables || await buildPromptVariables({
+    userId,
+    phoneNumber: to,
+    campaignLeadId: outbound.campaign?.campaignLeadId,
+  });
+
+  // Create message record
+  const message = await prisma.message.create({
+    data: {
+      messageSid: result.messageSid,
+      userId,
+      agentId: agent.id,
+      agentVersionId: agent.currentVersionId,
+      phoneNumberId: from.id,
+      conversationId: conversation.id, // Link to conversation
+      type: messageType,
+      direction: 'OUTBOUND',
+      status: 'QUEUED',
+      from: from.phoneNumber,
+      to,
+      body,
+      mediaUrls,
+      numMedia: mediaUrls.length,
+      numSegments: segmentCount,
+      costUsd: messageCostUsd,
+      sentAt: new Date(),
+      ...outbound.campaign,
+      // Agent snapshot
+      agentName: agent.name,
+      agentSystemPrompt: renderTemplate(agent.messagingSystemPrompt || agent.systemPrompt, variables),
+    },
+  });
+
+  // Deduct credits for the message
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      creditsBalance: { decrement: creditsToDeduct },
+    },
+  });
+
+  logger.info(`[Messaging] Message sent, deducted ${creditsToDeduct} credits`, {
+    userId,
+    messageId: message.id,
+    type: messageType,
+    segments: segmentCount,
+    costUsd: messageCostUsd,
+  });
+
+  return message;
+}
@@ -0,0 +1,108 @@
+// ============================================
+// Phone Pool Service - Caller ID rotation for campaigns
+// ============================================
+
+import { PhoneNumber } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { startOfLocalDay } from '../utils/timezone';
+
+export interface PoolCampaign {
+  id: string;
+  userId: string;
+  agentId: string;
+  timezone: string;
+  localPresence: boolean;
+  callsPerNumberPerDay: number | null;
+}
+
+export interface PoolNumber {
+  phoneNumber: PhoneNumber;
+  callsToday: number;
+}
+
+// 3-digit area code of a +1 number, null for other countries
+function areaCode(phoneNumber: string): string | null {
+  const digits = phoneNumber.replace(/\D/g, '');
+  if (digits.length === 11 && digits.startsWith('1')) return digits.slice(1, 4);
+  if (digits.length === 10) return digits.slice(0, 3);
+  return null;
+}
+
+/**
+ * Active numbers the campaign can call from, with today's outbound calls from each
+ * (any campaign or agent, counted in the campaign's timezone). Without a pool the
+ * campaign uses its agent's numbers, or the first active number on the account.
+ */
+export async function getPoolUsage(campaign: PoolCampaign, now = new Date()): Promise<PoolNumber[]> {
+  const pool = await prisma.campaignPhoneNumber.findMany({
+    where: { campaignId: campaign.id, phoneNumber: { isActive: true } },
+    include: { phoneNumber: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let numbers = pool.map((entry) => entry.phoneNumber);
+  if (numbers.length === 0) {
+    numbers = await prisma.phoneNumber.findMany({
+      where: { userId: campaign.userId, agentId: campaign.agentId, isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+  if (numbers.length === 0) {
+    const fallback = await prisma.phoneNumber.findFirst({
+      where: { userId: campaign.userId, isActive: true },
+    });
+    numbers = fallback ? [fallback] : [];
+  }
+  if (numbers.length === 0) return [];
+
+  const usage = await prisma.call.groupBy({
+    by: ['phoneNumberId'],
+    where: {
+      phoneNumberId: { in: numbers.map((n) => n.id) },
+      direction: 'outbound',
+      createdAt: { gte: startOfLocalDay(now, campaign.timezone) },
+    },
+    _count: { _all: true },
+  });
+  const callsByNumber = new Map(usage.map((u) => [u.phoneNumberId, u._count._all]));
+
+  return numbers.map((phoneNumber) => ({
+    phoneNumber,
+    callsToday: callsByNumber.get(phoneNumber.id) || 0,
+  }));
+}
+
+/**
+ * Calls the pool can still place today before every number hits its cap
+ */
+export function remainingPoolCalls(campaign: PoolCampaign, usage: PoolNumber[]): number {
+  if (usage.length === 0) return 0;
+
+  const cap = campaign.callsPerNumberPerDay;
+  if (!cap) return Infinity;
+
+  return usage.reduce((sum, n) => sum + Math.max(cap - n.callsToday, 0), 0);
+}
+
+/**
+ * Caller ID for a lead: the least-used number under its daily cap, preferring one
+ * with the lead's area code when the campaign asks for local presence.
+ * Returns null when every number is at its cap.
+ */
+export async function pickPoolNumber(campaign: PoolCampaign, leadPhoneNumber: string): Promise<PhoneNumber | null> {
+  const usage = await getPoolUsage(campaign);
+  const cap = campaign.callsPerNumberPerDay;
+  const available = usage.filter((n) => !cap || n.callsToday < cap);
+  if (available.length === 0) return null;
+
+  let candidates = available;
+  if (campaign.localPresence) {
+    const leadAreaCode = areaCode(leadPhoneNumber);
+    const local = available.filter((n) => leadAreaCode && areaCode(n.phoneNumber.phoneNumber) === leadAreaCode);
+    if (local.length > 0) candidates = local;
+  }
+
+  // Spread calls evenly; ties go to the number added to the pool first
+  const least = candidates.reduce((best, n) => (n.callsToday < best.callsToday ? n : best));
+  return least.phoneNumber;
+}
@@ -0,0 +1,233 @@
+// ============================================
+// Post-Call Service - Transcript Analysis with Bull Queue
+// ============================================
+
+import Queue from 'bull';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma';
+import { logger } from '../utils/logger';
+import { createLLMService } from './llm';
+import { DEFAULT_OPENAI_MODEL } from './llm/openai.service';
+import { CALL_DISPOSITIONS, CALL_SENTIMENTS, DNC_SOURCES } from '../lib/constants';
+import { broadcastCallAnalyzed } from '../websocket';
+import { webhookService } from './webhook.service';
+import { addToDncList } from './dnc.service';
+
+// Initialize Bull queue for post-call analysis
+const postCallQueue = new Queue('post-call', {
+  redis: {
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379'),
+    password: process.env.REDIS_PASSWORD,
+  },
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 5000,
+    },
+    removeOnComplete: 100,
+    removeOnFail: 500,
+  },
+});
+
+// Job types
+interface AnalyzeCallJob {
+  callId: string;
+}
+
+const DISPOSITION_VALUES = Object.values(CALL_DISPOSITIONS) as [string, ...string[]];
+
+const callAnalysisSchema = z.object({
+  summary: z.string().min(1).max(2000),
+  sentiment: z.enum(CALL_SENTIMENTS),
+  disposition: z.enum(DISPOSITION_VALUES),
+  actionItems: z.array(z.string().min(1).max(300)).max(10).default([]),
+});
+
+export type CallAnalysis = z.infer<typeof callAnalysisSchema>;
+
+const ANALYSIS_PROMPT = `You analyze phone call transcripts between an AI agent and a caller.
+Respond with a single JSON object and nothing else:
+{
+  "summary": "2-3 sentences covering who called, what they wanted and how it ended",
+  "sentiment": "positive" | "neutral" | "negative",
+  "disposition": ${DISPOSITION_VALUES.map(d => `"${d}"`).join(' | ')},
+  "actionItems": ["follow-ups the business needs to do, empty if none"]
+}
+
+Disposition guide:
+- booked: an appointment or meeting was scheduled
+- not_interested: the caller declined
+- do_not_call: the caller asked not to be called or contacted again
+- callback_requested: the caller asked to be called back or to continue later
+- wrong_number: the caller was not the intended person or business
+- voicemail: the call reached voicemail or an answering machine
+- other: none of the above`;
+
+// Post-Call Service
+export class PostCallService {
+  constructor() {
+    this.initializeQueueProcessor();
+  }
+
+  // Initialize queue processor
+  private initializeQueueProcessor() {
+    postCallQueue.process('analyze-call', async (job) => {
+      const { callId } = job.data as AnalyzeCallJob;
+      return await this.analyzeCall(callId);
+    });
+
+    postCallQueue.on('failed', (job, err) => {
+      logger.error(`Post-call job failed: ${job?.id}`, err);
+
+      // Out of retries - the call still ended, so send call.ended without the analysis
+      if (job && job.attemptsMade >= (job.opts.attempts || 1)) {
+        const { callId } = job.data as AnalyzeCallJob;
+        this.emitCallEnded(callId).catch(() => {});
+      }
+    });
+
+    logger.info('Post-call queue processor initialized');
+  }
+
+  // Queue a finished call for analysis
+  async enqueueCall(callId: string): Promise<void> {
+    try {
+      await postCallQueue.add('analyze-call', { callId }, { jobId: `analyze-${callId}` });
+    } catch (error) {
+      // Analysis is best effort - never fail call teardown because Redis is down,
+      // but still send call.ended (without the analysis)
+      logger.error(`[PostCall] Failed to queue analysis for call ${callId}:`, error);
+      await this.emitCallEnded(callId).catch(() => {});
+    }
+  }
+
+  // Summarize the transcript and record sentiment, disposition and action items
+  private async analyzeCall(callId: string): Promise<CallAnalysis | null> {
+    const call = await prisma.call.findUnique({
+      where: { id: callId },
+      include: {
+        agent: { select: { llmProvider: true, llmModel: true, llmBaseUrl: true, llmApiKey: true } },
+      },
+    });
+
+    if (!call) {
+      logger.warn(`[PostCall] Call ${callId} not found`);
+      return null;
+    }
+
+    const transcript = this.formatTranscript(call.transcript);
+    if (!transcript) {
+      logger.info(`[PostCall] Call ${callId} has no transcript, skipping analysis`);
+      await this.emitCallEnded(callId);
+      return null;
+    }
+
+    // Analysis runs on the agent's configured model (or the default if the agent was deleted)
+    const llm = createLLMService(call.agent || {
+      llmProvider: 'openai',
+      llmModel: DEFAULT_OPENAI_MODEL,
+      llmBaseUrl: null,
+      llmApiKey: null,
+    });
+
+    const response = await llm.generateResponse(
+      [{ role: 'user', content: `Transcript:\n${transcript}` }],
+      ANALYSIS_PROMPT,
+      0.2,
+      600
+    );
+
+    const analysis = this.parseAnalysis(response);
+
+    await prisma.call.update({
+      where: { id: callId },
+      data: {
+        summary: analysis.summary,
+        sentiment: analysis.sentiment,
+        disposition: analysis.disposition,
+        actionItems: analysis.actionItems,
+        analyzedAt: new Date(),
+      },
+    });
+
+    // Campaign leads report the disposition as their outcome
+    if (call.campaignLeadId) {
+      await prisma.campaignLead.updateMany({
+        where: { id: call.campaignLeadId, lastCallId: call.id },
+        data: { outcome: analysis.disposition },
+      });
+    }
+
+    // "Don't call me again" puts the other party on the account's DNC list
+    if (analysis.disposition === CALL_DISPOSITIONS.DO_NOT_CALL) {
+      const externalNumber = call.direction === 'inbound' ? call.from : call.to;
+      try {
+        await addToDncList(call.userId, externalNumber, DNC_SOURCES.CALL_REQUEST, `Asked not to be called again (call ${call.id})`);
+        logger.info(`[PostCall] Added ${externalNumber} to the DNC list after call ${callId}`);
+      } catch (error) {
+        logger.error(`[PostCall] Failed to add ${externalNumber} to the DNC list:`, error);
+      }
+    }
+
+    broadcastCallAnalyzed(call.userId, call.callSid, analysis);
+    await this.emitCallEnded(callId);
+
+    logger.info(`[PostCall] Call ${callId} analyzed: ${analysis.disposition} (${analysis.sentiment})`);
+    return analysis;
+  }
+
+  // call.ended waits for analysis so the payload can carry the summary
+  private async emitCallEnded(callId: string): Promise<void> {
+    const call = await prisma.call.findUnique({ where: { id: callId } });
+    if (!call) return;
+
+    await webhookService.emit(call.agentId, 'call.ended', {
+      callId: call.id,
+      callSid: call.callSid,
+      direction: call.direction,
+      from: call.from,
+      to: call.to,
+      status: call.status,
+      startTime: call.startTime,
+      endTime: call.endTime,
+      duration: call.duration,
+      endReason: call.endReason,
+      answeredBy: call.answeredBy,
+      voicemailLeft: call.voicemailLeft,
+      transcript: call.transcript,
+      summary: call.summary,
+      sentiment: call.sentiment,
+      disposition: call.disposition,
+      actionItems: call.actionItems,
+      extractedData: call.extractedData,
+    });
+  }
+
+  private formatTranscript(transcript: unknown): string {
+    if (!Array.isArray(transcript)) {
+      return '';
+    }
+
+    return transcript
+      .filter((m) => m && typeof m.content === 'string' && m.content.trim())
+      .map((m) => `${m.role === 'assistant' ? 'Agent' : 'Caller'}: ${m.content.trim()}`)
+      .join('\n');
+  }
+
+  private parseAnalysis(response: string): CallAnalysis {
+    // Models sometimes wrap JSON in a code fence
+    const json = response.replace(/^\s*```(?:json)?/i, '').replace(/```\s*$/, '').trim();
+
+    try {
+      return callAnalysisSchema.parse(JSON.parse(json));
+    } catch (error) {
+      // Throwing lets Bull retry; a second sample usually parses
+      throw new Error(`Invalid call analysis from LLM: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+// Export singleton instance
+export const postCallService = new PostCallService();
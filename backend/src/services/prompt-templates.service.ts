@@ -0,0 +1,113 @@
+// ============================================
+// Prompt Templates Service - Reusable prompts from the template library
+// ============================================
+
+import { PromptTemplate } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { createError } from '../middleware/error-handler';
+import { ERROR_CODES, PromptTemplateCategory } from '../lib/constants';
+import { findPromptTemplateErrors, findTemplateVariables } from '../lib/validators';
+import { SYSTEM_PROMPT_TEMPLATES } from '../lib/prompt-templates';
+import { logger } from '../utils/logger';
+
+let systemTemplatesSeeded: Promise<void> | null = null;
+
+/**
+ * Put the built-in templates in the library the first time it's read, so a fresh database
+ * doesn't start with an empty library. scripts/seed-prompt-templates.ts updates their text.
+ */
+export function ensureSystemTemplates(): Promise<void> {
+  if (!systemTemplatesSeeded) {
+    systemTemplatesSeeded = (async () => {
+      const existing = await prisma.promptTemplate.count({ where: { userId: null } });
+      if (existing > 0) return;
+
+      await prisma.promptTemplate.createMany({
+        data: SYSTEM_PROMPT_TEMPLATES.map((template) => ({ ...template, userId: null, isPublic: true })),
+      });
+      logger.info(`[PromptTemplates] Seeded ${SYSTEM_PROMPT_TEMPLATES.length} system templates`);
+    })().catch((error) => {
+      systemTemplatesSeeded = null; // Try again on the next read
+      throw error;
+    });
+  }
+  return systemTemplatesSeeded;
+}
+
+/**
+ * A template the user can use: a system template or one of their own
+ */
+export async function findUsableTemplate(id: string, userId: string): Promise<PromptTemplate> {
+  const template = await prisma.promptTemplate.findFirst({
+    where: {
+      id,
+      OR: [{ userId: null, isPublic: true }, { userId }],
+    },
+  });
+
+  if (!template) {
+    throw createError('Prompt template not found', 404, ERROR_CODES.NOT_FOUND);
+  }
+
+  return template;
+}
+
+/**
+ * Check a template's prompt and greeting, and work out its variables
+ */
+export function resolveTemplateVariables(systemPrompt: string, greeting?: string | null): string[] {
+  const variables = findTemplateVariables(systemPrompt, greeting);
+  const errors = [systemPrompt, greeting || ''].flatMap((text) => findPromptTemplateErrors(text, variables));
+
+  if (errors.length > 0) {
+    throw createError(errors[0], 400, ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  return variables;
+}
+
+/**
+ * Replace template variables with their values; call variables ({{lead.name}}, {{date}}...) are kept for call time
+ */
+export function fillTemplateVariables(text: string, variables: string[], values: Record<string, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    variables.includes(name) ? (values[name] ?? '').trim() : placeholder
+  );
+}
+
+/**
+ * Agent create body with the template's prompt and greeting filled in.
+ * The prompt and greeting in the body win, so edits made in the wizard are kept.
+ */
+export function applyPromptTemplate(body: Record<string, any>, template: PromptTemplate): Record<string, any> {
+  const values: Record<string, string> = body.templateVariables || {};
+  const missing = template.variables.filter((name) => !values[name]?.trim());
+  if (missing.length > 0) {
+    throw createError(`Fill in the template variables: ${missing.join(', ')}`, 400, ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  // The template greeting goes wherever this agent greets people first
+  const greetingField = body.communicationChannel === 'MESSAGING_ONLY'
+    ? 'messagingGreeting'
+    : body.mode === 'OUTBOUND' ? 'outboundGreeting' : 'greeting';
+
+  const filled: Record<string, any> = {
+    ...body,
+    systemPrompt: body.systemPrompt || template.systemPrompt,
+    [greetingField]: body[greetingField] || template.greeting || undefined,
+  };
+
+  for (const field of ['systemPrompt', 'greeting', 'outboundGreeting', 'messagingGreeting']) {
+    if (typeof filled[field] === 'string') {
+      filled[field] = fillTemplateVariables(filled[field], template.variables, values);
+    }
+  }
+
+  return filled;
+}
+
+export function categoryForAgent(agent: { mode: string; communicationChannel: string }): PromptTemplateCategory {
+  return agent.communicationChannel === 'MESSAGING_ONLY'
+    ? 'messaging'
+    : (agent.mode.toLowerCase() as PromptTemplateCategory);
+}
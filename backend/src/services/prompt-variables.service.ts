@@ -0,0 +1,91 @@
+// ============================================
+// Prompt Variables Service - {{variables}} in system prompts and greetings
+// ============================================
+
+import { prisma } from '../lib/prisma';
+import { logger } from '../utils/logger';
+import { renderTemplate } from '../lib/template';
+
+export interface PromptVariableSource {
+  userId: string;
+  phoneNumber?: string | null; // The other party on the call
+  campaignLeadId?: string | null;
+  timezone?: string;
+}
+
+interface PromptFields {
+  systemPrompt: string;
+  greeting: string | null;
+  outboundGreeting: string | null;
+  messagingGreeting: string | null;
+}
+
+// "First Name" -> "first_name", so CSV headers can be written as {{lead.first_name}}
+const toVariableKey = (key: string) => key.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * Values for every variable we can resolve for a call. Anything we don't know is left out
+ * and renders empty. Never throws.
+ */
+export async function buildPromptVariables(source: PromptVariableSource): Promise<Record<string, any>> {
+  const now = new Date();
+  const timeZone = source.timezone || 'America/New_York';
+  const variables: Record<string, any> = {
+    date: now.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone }),
+    time: now.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone }),
+    weekday: now.toLocaleDateString('en-US', { weekday: 'long', timeZone }),
+    caller: { phone: source.phoneNumber || '' },
+  };
+
+  try {
+    const [user, contact, lead] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: source.userId },
+        select: { organizationName: true, industry: true },
+      }),
+      source.phoneNumber
+        ? prisma.contact.findUnique({
+            where: { userId_phoneNumber: { userId: source.userId, phoneNumber: source.phoneNumber } },
+            select: { name: true, email: true },
+          })
+        : null,
+      source.campaignLeadId
+        ? prisma.campaignLead.findUnique({
+            where: { id: source.campaignLeadId },
+            select: { name: true, phoneNumber: true, email: true, metadata: true },
+          })
+        : null,
+    ]);
+
+    variables.business = { name: user?.organizationName, industry: user?.industry };
+    if (contact) {
+      variables.contact = contact;
+    }
+    if (lead) {
+      const columns: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries((lead.metadata as Record<string, unknown>) || {})) {
+        columns[toVariableKey(key)] = value;
+      }
+      variables.lead = { ...columns, name: lead.name, phone: lead.phoneNumber, email: lead.email };
+    }
+  } catch (error) {
+    logger.error('[PromptVariables] Failed to load prompt variables:', error);
+  }
+
+  return variables;
+}
+
+/**
+ * Agent copy with its prompt and greetings rendered; other fields are untouched
+ */
+export function renderAgentPrompts<T extends PromptFields>(agent: T, variables: Record<string, any>): T {
+  const render = (template: string | null) => (template ? renderTemplate(template, variables) : template);
+
+  return {
+    ...agent,
+    systemPrompt: renderTemplate(agent.systemPrompt, variables),
+    greeting: render(agent.greeting),
+    outboundGreeting: render(agent.outboundGreeting),
+    messagingGreeting: render(agent.messagingGreeting),
+  };
+}
@@ -12,22 +12,35 @@ export interface TranscriptEvent {
   isFinal: boolean;
   confidence: number;
   timestamp: number;
+  language?: string; // Only set in auto-detect mode
+  speechDurationMs: number; // First word start to last word end
+}
+
+export interface DeepgramSTTOptions {
+  language?: string;
+  autoDetect?: boolean;
 }
 
 export class DeepgramSTTService extends EventEmitter {
   private client;
   private connection: LiveClient | null = null;
+  private language: string;
+  private autoDetect: boolean;
 
-  constructor() {
+  constructor(options: DeepgramSTTOptions = {}) {
     super();
     this.client = createClient(config.deepgramApiKey);
+    this.language = options.language || 'en-US';
+    this.autoDetect = options.autoDetect ?? false;
   }
 
   async startStream(): Promise<void> {
     try {
+      // nova-3 'multi' transcribes code-switched speech and tags each word with its
+      // language, so auto-detect never has to reconnect mid-call
       this.connection = this.client.listen.live({
-        model: 'nova-2',
-        language: 'en-US',
+        model: this.autoDetect ? 'nova-3' : 'nova-2',
+        language: this.autoDetect ? 'multi' : this.language,
         encoding: 'mulaw',
         sample_rate: 8000,
         channels: 1,
@@ -55,6 +68,8 @@ export class DeepgramSTTService extends EventEmitter {
             isFinal,
             confidence,
             timestamp: Date.now(),
+            language: this.autoDetect ? this.dominantLanguage(data.channel?.alternatives?.[0]) : undefined,
+            speechDurationMs: this.speechDuration(data.channel?.alternatives?.[0]?.words),
           };
           this.emit('transcript', event);
         }
@@ -84,6 +99,41 @@ export class DeepgramSTTService extends EventEmitter {
     }
   }
 
+  /**
+   * Language most of the words in a multilingual result were spoken in
+   */
+  private dominantLanguage(
+    alternative?: { languages?: string[]; words?: Array<{ language?: string }> }
+  ): string | undefined {
+    const counts = new Map<string, number>();
+    for (const word of alternative?.words || []) {
+      if (word.language) {
+        counts.set(word.language, (counts.get(word.language) || 0) + 1);
+      }
+    }
+
+    let dominant: string | undefined;
+    let max = 0;
+    counts.forEach((count, language) => {
+      if (count > max) {
+        dominant = language;
+        max = count;
+      }
+    });
+
+    return dominant || alternative?.languages?.[0];
+  }
+
+  /**
+   * How long the words in a result were spoken for, in ms
+   */
+  private speechDuration(words?: Array<{ start: number; end: number }>): number {
+    if (!words || words.length === 0) {
+      return 0;
+    }
+    return Math.max(0, Math.round((words[words.length - 1].end - words[0].start) * 1000));
+  }
+
   sendAudio(audioData: Buffer): void {
     if (this.connection) {
       // Send raw buffer - Deepgram SDK handles the conversion
@@ -0,0 +1,133 @@
+// ============================================
+// Deepgram Aura TTS Service - Text to Speech
+// ============================================
+
+import { createClient } from '@deepgram/sdk';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { DEEPGRAM_VOICES, getBaseLanguage } from '../../lib/constants';
+import { VoiceSettings } from './elevenlabs.service';
+
+const DEFAULT_AURA_VOICE = 'aura-asteria-en';
+
+// Aura voices speak a single language; these stand in when a call switches language
+const AURA_LANGUAGE_VOICES: Record<string, string> = {
+  es: 'aura-2-celeste-es',
+};
+const STREAM_TIMEOUT_MS = 10000;
+
+export class DeepgramTTSService {
+  readonly provider = 'deepgram' as const;
+  private client;
+  private language = 'en';
+
+  constructor() {
+    this.client = createClient(config.deepgramApiKey);
+  }
+
+  /**
+   * Agent voices are stored as Aura model names (e.g. aura-luna-en)
+   */
+  resolveVoiceId(voice: string): string {
+    let voiceId = voice;
+    if (!DEEPGRAM_VOICES.some(v => v.id === voice) && !voice?.startsWith('aura-')) {
+      logger.warn(`[Deepgram TTS] Unknown voice "${voice}", using ${DEFAULT_AURA_VOICE}`);
+      voiceId = DEFAULT_AURA_VOICE;
+    }
+
+    // Voice IDs end in their language (aura-luna-en), swap when the call language differs
+    const voiceLanguage = voiceId.split('-').pop();
+    if (voiceLanguage !== this.language) {
+      const replacement = AURA_LANGUAGE_VOICES[this.language];
+      if (replacement) {
+        return replacement;
+      }
+      logger.warn(`[Deepgram TTS] No Aura voice for "${this.language}", keeping ${voiceId}`);
+    }
+
+    return voiceId;
+  }
+
+  setLanguage(language: string): void {
+    this.language = getBaseLanguage(language);
+  }
+
+  /**
+   * Generate TTS for Twilio (mulaw 8kHz, no container)
+   * Aura has no stability/similarity controls, so voice settings are ignored
+   */
+  async textToSpeechForTwilio(
+    text: string,
+    voiceId: string = DEFAULT_AURA_VOICE,
+    settings?: VoiceSettings
+  ): Promise<Buffer> {
+    const { totalBuffer } = await this.streamTTSForTwilio(text, voiceId, settings, () => {});
+    return totalBuffer;
+  }
+
+  /**
+   * Stream TTS for Twilio
+   * Aura streams the REST response body, so chunks are forwarded as they arrive
+   */
+  async streamTTSForTwilio(
+    text: string,
+    voiceId: string,
+    _settings: VoiceSettings | undefined,
+    onChunk: (chunk: Buffer) => void
+  ): Promise<{ totalBuffer: Buffer; durationMs: number }> {
+    try {
+      const response = await this.client.speak.request(
+        { text },
+        {
+          model: voiceId,
+          encoding: 'mulaw',
+          sample_rate: 8000,
+          container: 'none',
+        }
+      );
+
+      const stream = await response.getStream();
+      if (!stream) {
+        throw new Error('Deepgram returned no audio stream');
+      }
+
+      const reader = stream.getReader();
+      const chunks: Buffer[] = [];
+
+      // Don't let a stalled response hold up the conversation
+      const timeout = setTimeout(() => {
+        reader.cancel().catch(() => {});
+      }, STREAM_TIMEOUT_MS);
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          if (value && value.length > 0) {
+            const audioChunk = Buffer.from(value);
+            chunks.push(audioChunk);
+            onChunk(audioChunk);
+          }
+        }
+      } finally {
+        clearTimeout(timeout);
+      }
+
+      const totalBuffer = Buffer.concat(chunks);
+      const durationMs = Math.ceil((totalBuffer.length / 8000) * 1000);
+
+      return { totalBuffer, durationMs };
+    } catch (error) {
+      logger.error('[Deepgram TTS] TTS for Twilio error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Calculate approximate cost
+   * ~$0.015 per 1000 characters for Aura
+   */
+  calculateCost(characterCount: number): number {
+    return (characterCount / 1000) * 0.015;
+  }
+}
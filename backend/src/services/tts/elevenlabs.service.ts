@@ -7,6 +7,7 @@ import { Readable } from 'stream';
 import { WebSocket } from 'ws';
 import { config } from '../../config';
 import { logger } from '../../utils/logger';
+import { getElevenLabsVoiceId, getBaseLanguage } from '../../lib/constants';
 
 export interface VoiceSettings {
   stability?: number;
@@ -21,7 +22,9 @@ export interface AudioChunk {
 }
 
 export class ElevenLabsService {
+  readonly provider = 'elevenlabs' as const;
   private client: ElevenLabsClient;
+  private languageCode: string | undefined; // ISO 639-1, enforced on the Flash model
 
   constructor() {
     this.client = new ElevenLabsClient({
@@ -29,6 +32,21 @@ export class ElevenLabsService {
     });
   }
 
+  /**
+   * Agent voices are stored as friendly names (e.g. sarah), map them to ElevenLabs IDs
+   */
+  resolveVoiceId(voice: string): string {
+    return getElevenLabsVoiceId(voice);
+  }
+
+  /**
+   * Voices are multilingual, so switching language only pins the model's language
+   */
+  setLanguage(language: string): void {
+    const base = getBaseLanguage(language);
+    this.languageCode = base === 'en' ? undefined : base;
+  }
+
   async textToSpeech(
     text: string,
     voiceId: string = 'EXAVITQu4vr4xnSDxMaL',
@@ -39,10 +57,7 @@ export class ElevenLabsService {
         model_id: 'eleven_turbo_v2_5',
         output_format: 'mp3_44100_128',
         text,
-        voice_settings: {
-          stability: settings?.stability ?? 0.5,
-          similarity_boost: settings?.similarity_boost ?? 0.75,
-        },
+        voice_settings: this.toApiVoiceSettings(settings),
       });
 
       const readableStream = Readable.from(response);
@@ -72,10 +87,8 @@ export class ElevenLabsService {
         model_id: 'eleven_flash_v2_5',
         output_format: 'ulaw_8000',
         text,
-        voice_settings: {
-          stability: settings?.stability ?? 0.5,
-          similarity_boost: settings?.similarity_boost ?? 0.75,
-        },
+        ...(this.languageCode && { language_code: this.languageCode }),
+        voice_settings: this.toApiVoiceSettings(settings),
       });
 
       // Convert stream to buffer (matching ElevenLabs example)
@@ -89,6 +102,18 @@ export class ElevenLabsService {
     }
   }
 
+  /**
+   * Voice settings in the shape the ElevenLabs API expects, with our defaults
+   */
+  private toApiVoiceSettings(settings?: VoiceSettings) {
+    return {
+      stability: settings?.stability ?? 0.5,
+      similarity_boost: settings?.similarity_boost ?? 0.75,
+      ...(settings?.style !== undefined && { style: settings.style }),
+      ...(settings?.use_speaker_boost !== undefined && { use_speaker_boost: settings.use_speaker_boost }),
+    };
+  }
+
   /**
    * Convert readable stream to ArrayBuffer (from ElevenLabs example)
    */
@@ -138,7 +163,8 @@ export class ElevenLabsService {
       const chunks: Buffer[] = [];
       let totalBytes = 0;
       
-      const wsUrl = `wss://api.elevenlabs.io/v1/text-to-speech/${voiceId}/stream-input?model_id=eleven_flash_v2_5&output_format=ulaw_8000`;
+      const languageParam = this.languageCode ? `&language_code=${this.languageCode}` : '';
+      const wsUrl = `wss://api.elevenlabs.io/v1/text-to-speech/${voiceId}/stream-input?model_id=eleven_flash_v2_5&output_format=ulaw_8000${languageParam}`;
       
       console.log('[ElevenLabs] Opening WebSocket stream...');
       
@@ -150,10 +176,7 @@ export class ElevenLabsService {
         // Send initialization message with voice settings
         const initMessage = {
           text: ' ', // Initial space to start the stream
-          voice_settings: {
-            stability: settings?.stability ?? 0.5,
-            similarity_boost: settings?.similarity_boost ?? 0.75,
-          },
+          voice_settings: this.toApiVoiceSettings(settings),
           xi_api_key: config.elevenlabsApiKey,
         };
         ws.send(JSON.stringify(initMessage));
@@ -0,0 +1,78 @@
+// ============================================
+// TTS Provider Factory - Picks the TTS backend for an agent
+// ============================================
+
+import { Agent } from '@prisma/client';
+import { ElevenLabsService, VoiceSettings } from './elevenlabs.service';
+import { DeepgramTTSService } from './deepgram.service';
+import { logger } from '../../utils/logger';
+
+export type { VoiceSettings } from './elevenlabs.service';
+
+export const TTS_PROVIDERS = ['elevenlabs', 'deepgram'] as const;
+export type TTSProvider = typeof TTS_PROVIDERS[number];
+
+/**
+ * Everything the voice pipeline needs from a TTS provider.
+ * All audio is ulaw_8000 so it can go straight onto a Twilio media stream.
+ */
+export interface TTSService {
+  readonly provider: TTSProvider;
+
+  /** Map the voice stored on the agent to the provider's voice ID (for the current language) */
+  resolveVoiceId(voice: string): string;
+
+  /** Language to speak from now on; call resolveVoiceId again afterwards */
+  setLanguage(language: string): void;
+
+  textToSpeechForTwilio(
+    text: string,
+    voiceId: string,
+    settings?: VoiceSettings
+  ): Promise<Buffer>;
+
+  streamTTSForTwilio(
+    text: string,
+    voiceId: string,
+    settings: VoiceSettings | undefined,
+    onChunk: (chunk: Buffer) => void
+  ): Promise<{ totalBuffer: Buffer; durationMs: number }>;
+}
+
+/**
+ * Create the TTS service configured on an agent
+ */
+export function createTTSService(agent: Pick<Agent, 'voiceProvider'>): TTSService {
+  switch (agent.voiceProvider) {
+    case 'deepgram':
+      return new DeepgramTTSService();
+
+    case 'elevenlabs':
+      return new ElevenLabsService();
+
+    default:
+      logger.warn(`[TTS] Unknown voice provider "${agent.voiceProvider}", falling back to ElevenLabs`);
+      return new ElevenLabsService();
+  }
+}
+
+/**
+ * Read Agent.voiceSettings (free-form JSON) into typed settings.
+ * Accepts camelCase aliases (similarityBoost, useSpeakerBoost) as well.
+ */
+export function parseVoiceSettings(raw: unknown): VoiceSettings | undefined {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return undefined;
+  }
+
+  const value = raw as Record<string, unknown>;
+  const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : undefined);
+  const bool = (v: unknown) => (typeof v === 'boolean' ? v : undefined);
+
+  return {
+    stability: num(value.stability),
+    similarity_boost: num(value.similarity_boost ?? value.similarityBoost),
+    style: num(value.style),
+    use_speaker_boost: bool(value.use_speaker_boost ?? value.useSpeakerBoost),
+  };
+}
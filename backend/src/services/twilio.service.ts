@@ -6,6 +6,53 @@ import twilio from 'twilio';
 import { config } from '../config';
 import { logger } from '../utils/logger';
 
+/**
+ * Escape text for use inside TwiML
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Answering machine detection for outbound calls. DetectMessageEnd holds the
+ * voice webhook until the greeting finishes, so a voicemail drop starts after
+ * the beep; the result arrives as AnsweredBy on the voice webhook. The hold also
+ * delays a live answer, so it's only requested for calls that can drop a voicemail.
+ */
+const MACHINE_DETECTION = {
+  machineDetection: 'DetectMessageEnd',
+  machineDetectionTimeout: 30,
+} as const;
+
+/**
+ * True when AMD says the call reached a machine rather than a person
+ */
+export function isMachineAnswer(answeredBy?: string | null): boolean {
+  return !!answeredBy && (answeredBy.startsWith('machine') || answeredBy === 'fax');
+}
+
+/**
+ * True when AMD's result could be a phone menu rather than a voicemail box. With
+ * DetectMessageEnd a voicemail greeting ends in a beep; a menu that finishes talking
+ * without one comes back as machine_end_other or machine_end_silence.
+ */
+export function isPhoneTreeAnswer(answeredBy?: string | null): boolean {
+  return answeredBy === 'machine_end_other' || answeredBy === 'machine_end_silence';
+}
+
+/**
+ * True when the call went to voicemail. Machine answers a phone tree agent took
+ * (metadata.phoneTree) were navigated, not left a message.
+ */
+export function reachedVoicemail(call: { answeredBy: string | null; metadata?: unknown }): boolean {
+  return isMachineAnswer(call.answeredBy) && !(call.metadata as Record<string, any> | null)?.phoneTree;
+}
+
 export interface TwilioCredentials {
   accountSid: string;
   authToken: string;
@@ -81,6 +128,8 @@ export class TwilioService {
         voiceMethod: 'POST',
         statusCallback: `${webhookBaseUrl}/api/webhooks/twilio/status`,
         statusCallbackMethod: 'POST',
+        smsUrl: `${webhookBaseUrl}/api/webhooks/twilio/message`,
+        smsMethod: 'POST',
       });
       logger.info('[Twilio] Phone number configured', { sid, agentId });
     } catch (error) {
@@ -111,6 +160,8 @@ export class TwilioService {
         voiceMethod: 'POST',
         statusCallback: `${config.apiUrl}/webhooks/twilio/status`,
         statusCallbackMethod: 'POST',
+        smsUrl: `${config.apiUrl}/webhooks/twilio/message`,
+        smsMethod: 'POST',
       });
 
       logger.info('[Twilio] Phone number purchased', { number: purchased.phoneNumber });
@@ -136,7 +187,7 @@ export class TwilioService {
     }
   }
 
-  async makeCall(to: string, from: string, url: string) {
+  async makeCall(to: string, from: string, url: string, options: { detectMachine?: boolean } = {}) {
     try {
       const call = await this.client.calls.create({
         to,
@@ -145,6 +196,7 @@ export class TwilioService {
         statusCallback: `${config.apiUrl}/webhooks/twilio/status`,
         statusCallbackMethod: 'POST',
         statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+        ...(options.detectMachine && MACHINE_DETECTION),
         record: true,
         recordingStatusCallback: `${config.apiUrl}/webhooks/twilio/recording`,
       });
@@ -164,7 +216,12 @@ export class TwilioService {
   /**
    * Make an outbound call for an agent
    */
-  async makeOutboundCall(toNumber: string, agentId: string, fromNumber: string): Promise<{ callSid: string }> {
+  async makeOutboundCall(
+    toNumber: string,
+    agentId: string,
+    fromNumber: string,
+    options: { detectMachine?: boolean } = {}
+  ): Promise<{ callSid: string }> {
     try {
       const webhookUrl = `${config.apiUrl}/webhooks/twilio/voice?agentId=${agentId}`;
       
@@ -176,6 +233,7 @@ export class TwilioService {
         statusCallback: `${config.apiUrl}/webhooks/twilio/status`,
         statusCallbackMethod: 'POST',
         statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+        ...(options.detectMachine && MACHINE_DETECTION),
         record: true,
         recordingStatusCallback: `${config.apiUrl}/webhooks/twilio/recording`,
       });
@@ -203,6 +261,31 @@ export class TwilioService {
     }
   }
 
+  /**
+   * Transfer a live call by replacing its TwiML with a <Dial>.
+   * Passing whisperUrl makes it a warm transfer: Twilio plays the TwiML at that
+   * URL to the person who answers before bridging them with the caller.
+   */
+  async transferCall(callSid: string, toNumber: string, whisperUrl?: string) {
+    try {
+      const number = whisperUrl
+        ? `<Number url="${escapeXml(whisperUrl)}" method="POST">${escapeXml(toNumber)}</Number>`
+        : `<Number>${escapeXml(toNumber)}</Number>`;
+
+      const twiml = '<?xml version="1.0" encoding="UTF-8"?>' +
+        '<Response>' +
+          `<Dial timeout="30">${number}</Dial>` +
+          '<Say>Sorry, no one is available to take your call right now. Please try again later.</Say>' +
+        '</Response>';
+
+      await this.client.calls(callSid).update({ twiml });
+      logger.info('[Twilio] Call transferred', { callSid, to: toNumber, warm: !!whisperUrl });
+    } catch (error) {
+      logger.error('[Twilio] Transfer call error:', error);
+      throw error;
+    }
+  }
+
   async getCall(callSid: string) {
     try {
       const call = await this.client.calls(callSid).fetch();
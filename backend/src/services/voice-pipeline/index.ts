@@ -4,16 +4,30 @@
 
 import { EventEmitter } from 'events';
 import { DeepgramSTTService, TranscriptEvent } from '../stt/deepgram.service';
-import { OpenAIService, CALENDAR_TOOLS, ToolCall } from '../llm/openai.service';
-import { ElevenLabsService } from '../tts/elevenlabs.service';
+import OpenAI from 'openai';
+import { CALENDAR_TOOLS, CALL_CONTROL_TOOLS, TRANSFER_TOOLS, PHONE_TREE_TOOLS, ToolCall } from '../llm/openai.service';
+import { LLMService, createLLMService } from '../llm';
+import { TTSService, VoiceSettings, createTTSService, parseVoiceSettings } from '../tts';
 import { CalendlyService } from '../calendar/calendly.service';
 import { CalComService } from '../calendar/calcom.service';
 import { GoogleCalendarService } from '../calendar/google.service';
-import { MetricsTracker } from '../../utils/metrics';
+import { MetricsTracker, LatencySample, metricsCollector } from '../../utils/metrics';
 import { logger } from '../../utils/logger';
-import { Agent } from '@prisma/client';
-import { getElevenLabsVoiceId } from '../../lib/constants';
+import { Agent, AgentTool } from '@prisma/client';
+import { CALL_END_REASONS, SUPPORTED_LANGUAGES, getBaseLanguage, getLanguageName } from '../../lib/constants';
 import { decrypt } from '../../utils/crypto';
+import { generateDtmfTones } from '../../utils/audio';
+import { ToolInvocationRecord, invokeAgentTool, toFunctionTool } from '../agent-tools.service';
+import {
+  EXTRACTION_TOOL_NAME,
+  buildExtractionTool,
+  describeExtractionFields,
+  parseExtractionSchema,
+  validateExtractedValue,
+  getMissingRequiredFields,
+} from '../extraction.service';
+import { ExtractionField } from '../../lib/validators';
+import { CallerProfile } from '../caller-context.service';
 import { cacheGet, cacheSet } from '../../lib/redis';
 
 export interface CalendarIntegration {
@@ -42,12 +56,37 @@ export interface PipelineConfig {
   agent: Agent;
   callDirection?: string;
   calendarIntegration?: CalendarIntegration | null;
+  customTools?: AgentTool[]; // Active HTTP tools defined on the agent
+  callerProfile?: CallerProfile | null; // What we know about the other party (agent.callerContext)
   onTranscript: (text: string, isFinal: boolean, speaker: 'user' | 'agent') => void;
   onAudio: (audio: Buffer) => void;
   onError: (error: Error) => void;
   onLatencyMetrics: (metrics: { stt: number; llm: number; tts: number; total: number }) => void;
 }
 
+export interface TransferRequest {
+  to: string;
+  mode: 'cold' | 'warm';
+  reason: string | null;
+  summary: string | null;
+}
+
+export interface EndCallEvent {
+  reason: string;
+  detail?: Record<string, any>;
+  transfer?: TransferRequest; // Set when the call should be handed to a human instead of hung up
+}
+
+export interface AppointmentBookedEvent {
+  provider: 'google' | 'calcom';
+  bookingId: string;
+  start: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  notes?: string;
+}
+
 export interface ConversationMessage {
   role: 'user' | 'assistant';
   content: string;
@@ -56,8 +95,10 @@ export interface ConversationMessage {
 
 export class VoicePipeline extends EventEmitter {
   private stt: DeepgramSTTService;
-  private llm: OpenAIService;
-  private tts: ElevenLabsService;
+  private llm: LLMService;
+  private tts: TTSService;
+  private ttsVoiceId: string;
+  private voiceSettings: VoiceSettings | undefined;
   private metrics: MetricsTracker;
   private config: PipelineConfig;
   private calendlyService: CalendlyService | null = null;
@@ -72,6 +113,69 @@ export class VoicePipeline extends EventEmitter {
   private interrupted = false;
   private hasCalendarAccess = false;
   private calendarProvider: 'calendly' | 'calcom' | 'google' | null = null;
+
+  // End-of-call handling
+  private endCallPhrases: string[];
+  private endingCall = false;
+  private pendingEndCall: EndCallEvent | null = null;
+  private endCallTimeout: NodeJS.Timeout | null = null;
+  private playbackEndsAt = 0; // When audio already sent to Twilio will finish playing
+  private readonly END_CALL_GRACE_MS = 750; // Small buffer so the last word isn't clipped
+  private readonly DEFAULT_FAREWELL = 'Thanks for calling. Goodbye!';
+  private readonly TRANSFER_MESSAGE = 'Sure, let me connect you with someone who can help. One moment please.';
+
+  // Barge-in: the caller has to talk over the agent for a while before it stops
+  private interruptThresholdMs: number;
+  private interruptMinWords: number;
+  private bargeInSpeechMs = 0; // Finalized caller speech while the agent is talking
+  private bargeInWords = 0;
+  private interruptionCount = 0;
+  private latencySamples: LatencySample[] = [];
+  // Pure fillers carry no answer; acknowledgements may be answering the agent's question
+  private readonly FILLER_WORDS = new Set(['mm', 'mmm', 'hmm', 'mhm', 'uh', 'huh', 'um', 'ah', 'oh']);
+  private readonly ACKNOWLEDGEMENT_WORDS = new Set([
+    'yeah', 'yep', 'yes', 'ok', 'okay', 'right', 'sure', 'alright', 'cool',
+  ]);
+
+  // Keypad input: digits are collected until # or a pause, then sent as one turn
+  private dtmfBuffer = '';
+  private dtmfTimeout: NodeJS.Timeout | null = null;
+  private keypadUsed = false;
+  private readonly DTMF_INTER_DIGIT_MS = 2000;
+
+  // Custom HTTP tools: a filler covers the request, every call is logged on the Call
+  private toolInvocations: ToolInvocationRecord[] = [];
+  private readonly TOOL_FILLER_PHRASES = [
+    "Let me check on that.",
+    "Let me look that up.",
+    "One moment while I check.",
+  ];
+
+  // Structured data the agent collects with save_call_data (saved on Call.extractedData)
+  private extractionFields: ExtractionField[];
+  private extractedData: Record<string, string | number | boolean> = {};
+
+  // The caller hears nothing until the greeting is ready, so a slow rewrite is skipped
+  private readonly PERSONALIZED_GREETING_TIMEOUT_MS = 1500;
+
+  // Phone trees (outbound): the agent can press keys and sit silently on hold
+  private onHold = false;
+  private holdStartedAt = 0;
+  // What's heard on hold is checked once the line goes quiet, not per transcript
+  private holdTranscript: string[] = [];
+  private holdCheckTimeout: NodeJS.Timeout | null = null;
+  private readonly HOLD_CHECK_DEBOUNCE_MS = 2000;
+  private readonly HOLD_CHECK_PROMPT = `You are listening to a phone call that is on hold.
+Decide whether the text below was said by a live person who just picked up the line
+(e.g. "Thanks for holding, this is Dana, how can I help you?") or is part of the hold:
+recorded announcements, menu prompts, music or noise.
+Answer with exactly one word: HUMAN or HOLD.`;
+
+  // Language (auto-detect follows the caller when they switch)
+  private currentLanguage: string;
+  private languageCandidate: string | null = null;
+  private languageEvidence = 0;
+  private readonly LANGUAGE_SWITCH_EVIDENCE = 2; // One long transcript or two short ones in a row
   
   // Performance: Limit conversation context sent to LLM (reduces latency & cost)
   private readonly MAX_CONTEXT_MESSAGES = 10; // Keep last 10 messages (~5 exchanges)
@@ -82,11 +186,25 @@ export class VoicePipeline extends EventEmitter {
   constructor(config: PipelineConfig, callSid: string) {
     super();
     this.config = config;
-    this.stt = new DeepgramSTTService();
-    this.llm = new OpenAIService();
-    this.tts = new ElevenLabsService();
-    this.metrics = new MetricsTracker(callSid);
+    this.stt = new DeepgramSTTService({
+      language: config.agent.language,
+      autoDetect: config.agent.autoDetectLanguage,
+    });
+    this.llm = createLLMService(config.agent);
+    this.currentLanguage = config.agent.language || 'en-US';
+    this.tts = createTTSService(config.agent);
+    this.tts.setLanguage(this.currentLanguage);
+    this.ttsVoiceId = this.tts.resolveVoiceId(config.agent.voice);
+    this.voiceSettings = parseVoiceSettings(config.agent.voiceSettings);
+    this.metrics = metricsCollector.getTracker(callSid);
     this.interruptionEnabled = config.agent.interruptible;
+    this.interruptThresholdMs = config.agent.interruptThreshold ?? 500;
+    // Transcripts can lag the audio, so a few words also count (roughly 4 words per second)
+    this.interruptMinWords = Math.max(2, Math.round(this.interruptThresholdMs / 250));
+    this.endCallPhrases = (config.agent.endCallPhrases || [])
+      .map((phrase) => this.normalizeForMatch(phrase))
+      .filter(Boolean);
+    this.extractionFields = parseExtractionSchema(config.agent.extractionSchema);
 
     // Initialize calendar service based on provider
     if (config.agent.calendarEnabled && config.calendarIntegration) {
@@ -135,17 +253,25 @@ export class VoicePipeline extends EventEmitter {
 
   private setupSTTHandlers(): void {
     this.stt.on('transcript', async (event: TranscriptEvent) => {
-      this.metrics.mark('transcript_ready');
-      
       // Emit transcript to client
       this.config.onTranscript(event.text, event.isFinal, 'user');
 
-      // Handle interruption
-      if (this.state === 'speaking' && this.interruptionEnabled) {
-        logger.debug('[Pipeline] User interrupted, stopping TTS');
-        this.interrupted = true;
-        this.state = 'listening';
-        this.emit('interrupt');
+      // Once we're hanging up, let the farewell play out and ignore further input
+      if (this.endingCall) {
+        return;
+      }
+
+      if (this.isAgentSpeaking()) {
+        // "Mm-hmm" while the agent talks is listening, not a new turn
+        if (this.isFiller(event.text)) {
+          return;
+        }
+
+        // A bare "yeah" or "okay" doesn't cut the agent off, but it's kept for the
+        // next turn since it may be the answer to the agent's question
+        if (this.interruptionEnabled && !this.isBackchannel(event.text)) {
+          this.handleBargeIn(event);
+        }
       }
 
       // Cancel pending utterance processing if user continues speaking
@@ -162,6 +288,10 @@ export class VoicePipeline extends EventEmitter {
       }
 
       if (event.isFinal) {
+        this.metrics.mark('transcript_ready');
+        if (event.language) {
+          this.trackCallerLanguage(event.language, event.text);
+        }
         this.pendingTranscript += ' ' + event.text;
       }
     });
@@ -222,6 +352,68 @@ export class VoicePipeline extends EventEmitter {
     });
   }
 
+  /**
+   * True while TTS is generating or audio sent to Twilio is still playing
+   */
+  private isAgentSpeaking(): boolean {
+    return !this.interrupted && (this.state === 'speaking' || Date.now() < this.playbackEndsAt);
+  }
+
+  /**
+   * Stop the agent once the caller has spoken over it for at least
+   * interruptThreshold ms (or enough words); shorter speech is held until it adds up
+   */
+  private handleBargeIn(event: TranscriptEvent): void {
+    const speechMs = this.bargeInSpeechMs + event.speechDurationMs;
+    const words = this.bargeInWords + event.text.trim().split(/\s+/).filter(Boolean).length;
+
+    if (speechMs < this.interruptThresholdMs && words < this.interruptMinWords) {
+      if (event.isFinal) {
+        this.bargeInSpeechMs = speechMs;
+        this.bargeInWords = words;
+      }
+      return;
+    }
+
+    logger.debug(`[Pipeline] User interrupted after ${speechMs}ms / ${words} words, stopping TTS`);
+    this.interrupted = true;
+    this.state = 'listening';
+    this.playbackEndsAt = Date.now();
+    this.bargeInSpeechMs = 0;
+    this.bargeInWords = 0;
+    this.interruptionCount++;
+    this.emit('interrupt');
+  }
+
+  private isFiller(text: string): boolean {
+    const words = this.normalizeForMatch(text).split(' ').filter(Boolean);
+    return words.every(word => this.FILLER_WORDS.has(word));
+  }
+
+  private isBackchannel(text: string): boolean {
+    const words = this.normalizeForMatch(text)
+      .replace(/\b(got it|i see)\b/g, ' ')
+      .split(' ')
+      .filter(Boolean);
+    return words.every(word => this.FILLER_WORDS.has(word) || this.ACKNOWLEDGEMENT_WORDS.has(word));
+  }
+
+  getInterruptionCount(): number {
+    return this.interruptionCount;
+  }
+
+  getLatencySamples(): LatencySample[] {
+    return [...this.latencySamples];
+  }
+
+  getToolInvocations(): ToolInvocationRecord[] {
+    return [...this.toolInvocations];
+  }
+
+  getExtractedData(): Record<string, string | number | boolean> {
+    return { ...this.extractedData };
+  }
+
   /**
    * Check if a phrase seems incomplete and the user might continue speaking
    */
@@ -283,7 +475,7 @@ export class VoicePipeline extends EventEmitter {
    * Handle dead air by rephrasing the last response
    */
   private async handleDeadAir(): Promise<void> {
-    if (this.isProcessing || !this.lastAiResponse) {
+    if (this.isProcessing || this.endingCall || this.onHold || !this.lastAiResponse) {
       return;
     }
     
@@ -321,8 +513,8 @@ export class VoicePipeline extends EventEmitter {
    * Generate a rephrased follow-up message
    */
   private async generateReprompt(): Promise<string> {
-    // Simple reprompt phrases for first attempt
-    if (this.deadAirCount === 1) {
+    // Simple reprompt phrases for first attempt (the LLM handles other languages)
+    if (this.deadAirCount === 1 && getBaseLanguage(this.currentLanguage) === 'en') {
       const simpleReprompts = [
         "Are you still there?",
         "Hello? Can you hear me?",
@@ -333,7 +525,7 @@ export class VoicePipeline extends EventEmitter {
     
     // For second attempt, ask LLM to rephrase more helpfully
     try {
-      const systemPrompt = 'You are helping rephrase a message because the caller may not have heard or understood. Keep it brief and conversational.';
+      const systemPrompt = this.withLanguageInstruction('You are helping rephrase a message because the caller may not have heard or understood. Keep it brief and conversational.');
       const userMessage = `The caller hasn't responded. Your last message was: "${this.lastAiResponse}"\n\nGenerate a brief, slightly rephrased follow-up (1 sentence max) that either:\n1. Asks if they need clarification\n2. Rephrases the key question/information\n3. Offers to help differently\n\nKeep it natural and conversational.`;
       
       const response = await this.llm.generateResponse(
@@ -377,14 +569,19 @@ export class VoicePipeline extends EventEmitter {
     let greetingPromise: Promise<void> = Promise.resolve();
 
     if (greeting && greeting.trim()) {
-      // Use the preset greeting (scripted approach)
+      // Use the preset greeting (scripted approach), reworded to address callers we know by name
       console.log('[Pipeline] Generating preset greeting audio...');
-      greetingPromise = this.generateAndSendAudio(greeting).then((playbackMs) => {
+      const preset = greeting;
+      const opening = this.config.callerProfile?.name
+        ? this.personalizeGreeting(preset)
+        : Promise.resolve(preset);
+      greetingPromise = opening.then(async (text) => {
+          const playbackMs = await this.generateAndSendAudio(text);
           console.log('[Pipeline] ✅ Preset greeting sent');
-          this.lastAiResponse = greeting!;
+          this.lastAiResponse = text;
           this.messages.push({
             role: 'assistant',
-            content: greeting!,
+            content: text,
             timestamp: Date.now(),
           });
           this.startDeadAirTimer(playbackMs);
@@ -398,7 +595,7 @@ export class VoicePipeline extends EventEmitter {
 
       greetingPromise = this.llm.generateResponse(
           [{ role: 'user', content: openingPrompt }],
-          this.config.agent.systemPrompt,
+          this.getSystemPrompt(),
           0.7,
           100
       ).then(async (generatedOpening) => {
@@ -427,11 +624,107 @@ export class VoicePipeline extends EventEmitter {
     console.log('[Pipeline] ✅ Startup complete');
   }
 
+  /**
+   * Reword the preset greeting for a caller from the profile
+   * (e.g. "Hi Maria, calling about Thursday's appointment?"). Falls back to the preset
+   * on errors, or when the LLM takes longer than PERSONALIZED_GREETING_TIMEOUT_MS.
+   */
+  private async personalizeGreeting(greeting: string): Promise<string> {
+    let timeout: NodeJS.Timeout | undefined;
+    const fallback = new Promise<string>((resolve) => {
+      timeout = setTimeout(() => {
+        logger.warn('[Pipeline] Personalized greeting timed out, using the preset');
+        resolve('');
+      }, this.PERSONALIZED_GREETING_TIMEOUT_MS);
+    });
+
+    try {
+      const rewrite = this.llm.generateResponse(
+        [{
+          role: 'user',
+          content: `Rewrite this opening line for a caller you recognize from the caller profile: "${greeting}"
+Greet them by name and, if they have an upcoming appointment, ask whether that's what they're calling about. Keep it under 2 sentences and reply with the line only.`,
+        }],
+        this.getSystemPrompt(),
+        0.5,
+        80
+      );
+      const personalized = await Promise.race([rewrite, fallback]);
+      return personalized.trim().replace(/^"|"$/g, '') || greeting;
+    } catch (error) {
+      logger.error('[Pipeline] Failed to personalize greeting:', error);
+      return greeting;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
   async processAudio(audioData: Buffer): Promise<void> {
-    this.metrics.mark('audio_received');
     this.stt.sendAudio(audioData);
   }
 
+  /**
+   * Keypad digit from the caller. A key press stops the agent like speech does,
+   * and the collected digits reach the LLM as "[Keypad: 1234]".
+   */
+  processDtmf(digit: string): void {
+    if (this.endingCall) return;
+
+    if (this.deadAirTimeout) {
+      clearTimeout(this.deadAirTimeout);
+      this.deadAirTimeout = null;
+      this.deadAirCount = 0;
+    }
+
+    if (this.interruptionEnabled && this.isAgentSpeaking()) {
+      this.interrupted = true;
+      this.state = 'listening';
+      this.playbackEndsAt = Date.now();
+      this.emit('interrupt');
+    }
+
+    if (this.dtmfTimeout) {
+      clearTimeout(this.dtmfTimeout);
+      this.dtmfTimeout = null;
+    }
+
+    if (digit === '#') {
+      this.flushDtmf();
+      return;
+    }
+
+    this.dtmfBuffer += digit;
+    this.dtmfTimeout = setTimeout(() => this.flushDtmf(), this.DTMF_INTER_DIGIT_MS);
+  }
+
+  private flushDtmf(): void {
+    this.dtmfTimeout = null;
+    if (!this.dtmfBuffer) return;
+
+    // Still answering the last turn - hold the digits until it's done
+    if (this.isProcessing) {
+      this.dtmfTimeout = setTimeout(() => this.flushDtmf(), this.DTMF_INTER_DIGIT_MS);
+      return;
+    }
+
+    const keypad = `[Keypad: ${this.dtmfBuffer}]`;
+    this.dtmfBuffer = '';
+    this.keypadUsed = true;
+    this.config.onTranscript(keypad, true, 'user');
+
+    // Anything said along with the key presses goes in the same turn
+    if (this.utteranceTimeout) {
+      clearTimeout(this.utteranceTimeout);
+      this.utteranceTimeout = null;
+    }
+    const spoken = this.pendingTranscript.trim();
+    this.pendingTranscript = '';
+
+    this.processUserInput(spoken ? `${spoken} ${keypad}` : keypad).catch((error) =>
+      logger.error('[Pipeline] Keypad input error:', error)
+    );
+  }
+
   private thinkingTimeout: NodeJS.Timeout | null = null;
   private readonly THINKING_DELAY_MS = 1200; // Say "one moment" if processing takes longer than 1.2s
   private readonly THINKING_PHRASES = [
@@ -452,10 +745,22 @@ export class VoicePipeline extends EventEmitter {
   private readonly SEND_QUICK_ACK = true; // Enable immediate acknowledgments
 
   private async processUserInput(text: string): Promise<void> {
+    if (this.endingCall) return;
+
+    // On hold the agent stays silent until a person picks up
+    if (this.onHold) {
+      this.queueHoldCheck(text);
+      return;
+    }
+
     if (this.isProcessing) return;
+
     this.isProcessing = true;
     this.state = 'processing';
     this.interrupted = false;
+    this.bargeInSpeechMs = 0;
+    this.bargeInWords = 0;
+    this.metrics.startTurn();
 
     logger.info('[Pipeline] Processing user input:', text);
     logger.info('[Pipeline] Calendar access:', this.hasCalendarAccess);
@@ -517,15 +822,28 @@ export class VoicePipeline extends EventEmitter {
         
         // Track last response for dead air reprompting
         this.lastAiResponse = fullResponse.trim();
-        
+      }
+
+      // Hang up if the agent asked to (end_call tool) or said one of its end-call phrases
+      if (!this.pendingEndCall && this.matchesEndCallPhrase(fullResponse)) {
+        this.pendingEndCall = { reason: CALL_END_REASONS.END_CALL_PHRASE };
+      }
+
+      if (this.pendingEndCall && !this.interrupted) {
+        this.scheduleEndCall(this.pendingEndCall);
+      } else if (fullResponse.trim()) {
         // Start dead air detection timer (accounting for audio playback time)
         this.startDeadAirTimer(this.lastAudioPlaybackMs);
       }
+      this.pendingEndCall = null;
 
-      // Report latency metrics
+      // Report latency metrics (turns that never produced audio, e.g. interrupted, aren't samples)
       const metrics = this.metrics.getLatencyMetrics();
       this.config.onLatencyMetrics(metrics);
       logger.debug('[Pipeline] Latency metrics:', metrics);
+      if (this.metrics.has('audio_sent')) {
+        this.latencySamples.push({ turn: this.latencySamples.length + 1, ...metrics });
+      }
 
     } catch (error) {
       logger.error('[Pipeline] Process error:', error);
@@ -557,7 +875,7 @@ export class VoicePipeline extends EventEmitter {
       ? `\n\nAvailable appointment type: ${this.config.calendarIntegration.eventTypeName}`
       : '';
     
-    const enhancedPrompt = `${this.config.agent.systemPrompt}
+    const enhancedPrompt = `${this.getSystemPrompt()}
 
 Current date and time: ${today.toLocaleDateString('en-US', { 
   weekday: 'long', 
@@ -598,7 +916,7 @@ BOOKING CONFIRMATION:
     const response = await this.llm.generateResponseWithTools(
       this.getContextMessages(), // Use limited context for performance
       enhancedPrompt,
-      CALENDAR_TOOLS,
+      [...CALENDAR_TOOLS, ...this.getCallControlTools(), ...this.getAgentDefinedTools()],
       0.5,  // Lower temperature = faster, more deterministic
       150   // Reduced from 300 - voice responses should be concise
     );
@@ -610,6 +928,25 @@ BOOKING CONFIRMATION:
       logger.info('[Pipeline] Tool calls detected:', response.toolCalls.map(tc => tc.name));
       
       for (const toolCall of response.toolCalls) {
+        if (toolCall.name === 'end_call') {
+          return this.handleEndCallTool(toolCall, response.content || '');
+        }
+        if (toolCall.name === 'transfer_call') {
+          return this.handleTransferTool(toolCall, response.content || '');
+        }
+        if (toolCall.name === 'send_dtmf') {
+          return this.handleSendDtmfTool(toolCall, response.content || '');
+        }
+        if (toolCall.name === 'wait_on_hold') {
+          return this.handleHoldTool(toolCall, response.content || '');
+        }
+        if (toolCall.name === EXTRACTION_TOOL_NAME) {
+          return this.handleExtractionTool(toolCall, response.content || '', enhancedPrompt);
+        }
+        if (this.findCustomTool(toolCall.name)) {
+          return this.handleCustomTool(toolCall, response.content || '', enhancedPrompt);
+        }
+
         const toolResult = await this.executeToolCall(toolCall);
         
         logger.info('[Pipeline] Tool result:', toolResult.substring(0, 100));
@@ -626,8 +963,8 @@ BOOKING CONFIRMATION:
         );
 
         if (naturalResponse && !this.interrupted) {
+          this.metrics.markOnce('llm_complete');
           await this.generateAndSendAudio(naturalResponse);
-          this.metrics.mark('llm_complete');
           return naturalResponse;
         }
       }
@@ -635,8 +972,8 @@ BOOKING CONFIRMATION:
 
     // If no tool calls, just use the content response
     if (response.content && !this.interrupted) {
+      this.metrics.markOnce('llm_complete');
       await this.generateAndSendAudio(response.content);
-      this.metrics.mark('llm_complete');
       return response.content;
     }
 
@@ -760,6 +1097,15 @@ BOOKING CONFIRMATION:
               });
 
               logger.info('[Pipeline] Google Calendar event created:', event.id);
+              this.emit('appointment_booked', {
+                provider: 'google',
+                bookingId: event.id,
+                start: startTime.toISOString(),
+                name,
+                email: cleanedEmail,
+                phone,
+                notes,
+              } as AppointmentBookedEvent);
               
               return `Appointment successfully booked for ${name} on ${new Date(startTime).toLocaleString('en-US', {
                 timeZone: this.config.calendarIntegration?.timezone,
@@ -820,6 +1166,15 @@ BOOKING CONFIRMATION:
               });
 
               logger.info('[Pipeline] Cal.com booking created:', booking.uid);
+              this.emit('appointment_booked', {
+                provider: 'calcom',
+                bookingId: booking.uid,
+                start: booking.startTime,
+                name,
+                email: cleanedEmail,
+                phone,
+                notes,
+              } as AppointmentBookedEvent);
               
               // Return success message with confirmation details
               return `Appointment successfully booked for ${name} on ${new Date(booking.startTime).toLocaleString('en-US', {
@@ -877,6 +1232,502 @@ BOOKING CONFIRMATION:
     }
   }
 
+  /**
+   * Handle the end_call tool: say goodbye (unless the model already did) and
+   * flag the call to be hung up once the audio finishes playing
+   * @returns The full text spoken for this turn
+   */
+  private async handleEndCallTool(toolCall: ToolCall, spokenSoFar: string): Promise<string> {
+    const { reason, farewell } = toolCall.arguments;
+    logger.info('[Pipeline] Agent requested end of call:', reason);
+
+    let spoken = spokenSoFar.trim();
+    if (!spoken && !this.interrupted) {
+      spoken = (typeof farewell === 'string' && farewell.trim()) || this.DEFAULT_FAREWELL;
+      this.metrics.markOnce('llm_complete');
+      await this.generateAndSendAudio(spoken);
+    }
+
+    this.pendingEndCall = {
+      reason: CALL_END_REASONS.AGENT_HANGUP,
+      detail: { toolReason: reason || null },
+    };
+    return spoken;
+  }
+
+  /**
+   * Handle the transfer_call tool: tell the caller they're being connected and
+   * flag the call to be handed off once the audio finishes playing
+   * @returns The full text spoken for this turn
+   */
+  private async handleTransferTool(toolCall: ToolCall, spokenSoFar: string): Promise<string> {
+    const { reason, summary } = toolCall.arguments;
+    const transferNumber = this.config.agent.transferNumber;
+
+    if (!transferNumber) {
+      // Shouldn't happen - the tool is only offered when a number is configured
+      logger.warn('[Pipeline] transfer_call requested but agent has no transferNumber');
+      return spokenSoFar;
+    }
+
+    logger.info('[Pipeline] Agent requested transfer:', reason);
+
+    let spoken = spokenSoFar.trim();
+    if (!spoken && !this.interrupted) {
+      spoken = this.TRANSFER_MESSAGE;
+      this.metrics.markOnce('llm_complete');
+      await this.generateAndSendAudio(spoken);
+    }
+
+    this.pendingEndCall = {
+      reason: CALL_END_REASONS.TRANSFERRED,
+      transfer: {
+        to: transferNumber,
+        mode: this.config.agent.transferMode === 'warm' ? 'warm' : 'cold',
+        reason: typeof reason === 'string' ? reason : null,
+        summary: typeof summary === 'string' ? summary : null,
+      },
+    };
+    return spoken;
+  }
+
+  /**
+   * Handle the send_dtmf tool: play the keypad tones down the line.
+   * The key presses go into the conversation so the model knows what it entered.
+   * @returns The full text spoken for this turn
+   */
+  private handleSendDtmfTool(toolCall: ToolCall, spokenSoFar: string): string {
+    const digits = String(toolCall.arguments.digits || '').replace(/[^0-9*#w]/gi, '').toLowerCase();
+    if (!digits || this.interrupted) {
+      return spokenSoFar;
+    }
+
+    logger.info('[Pipeline] Agent pressing keys:', digits);
+
+    const tones = generateDtmfTones(digits);
+    this.trackPlayback(Date.now(), Math.round(tones.length / 8));
+    this.config.onAudio(tones);
+
+    const pressed = `[Pressed: ${digits}]`;
+    this.messages.push({
+      role: 'assistant',
+      content: pressed,
+      timestamp: Date.now(),
+    });
+    this.config.onTranscript(pressed, true, 'agent');
+    this.emit('dtmf_sent', digits);
+
+    return spokenSoFar;
+  }
+
+  /**
+   * Handle the wait_on_hold tool: go quiet (no replies, no dead air reprompts)
+   * until a live person is heard on the line
+   * @returns The full text spoken for this turn
+   */
+  private handleHoldTool(toolCall: ToolCall, spokenSoFar: string): string {
+    logger.info('[Pipeline] Agent waiting on hold:', toolCall.arguments.reason || '');
+
+    this.onHold = true;
+    this.holdStartedAt = Date.now();
+    if (this.deadAirTimeout) {
+      clearTimeout(this.deadAirTimeout);
+      this.deadAirTimeout = null;
+    }
+    this.emit('hold', true);
+
+    return spokenSoFar;
+  }
+
+  private queueHoldCheck(text: string): void {
+    this.holdTranscript.push(text);
+    if (this.holdCheckTimeout) {
+      clearTimeout(this.holdCheckTimeout);
+    }
+    this.holdCheckTimeout = setTimeout(() => this.runHoldCheck(), this.HOLD_CHECK_DEBOUNCE_MS);
+  }
+
+  /**
+   * Check everything heard since the last check in one LLM call, and answer it
+   * as the first turn if a person picked up
+   */
+  private async runHoldCheck(): Promise<void> {
+    this.holdCheckTimeout = null;
+    if (!this.onHold || this.endingCall) return;
+
+    // A check is still running - look again once it's done
+    if (this.isProcessing) {
+      this.holdCheckTimeout = setTimeout(() => this.runHoldCheck(), this.HOLD_CHECK_DEBOUNCE_MS);
+      return;
+    }
+
+    const heard = this.holdTranscript.join(' ');
+    this.holdTranscript = [];
+
+    this.isProcessing = true;
+    const liveAnswer = await this.isLiveAnswer(heard).finally(() => {
+      this.isProcessing = false;
+    });
+    if (!liveAnswer) {
+      logger.debug('[Pipeline] Still on hold:', heard);
+      return;
+    }
+
+    this.leaveHold();
+    await this.processUserInput(heard);
+  }
+
+  private leaveHold(): void {
+    const heldMs = Date.now() - this.holdStartedAt;
+    logger.info(`[Pipeline] Person picked up after ${Math.round(heldMs / 1000)}s on hold`);
+    this.onHold = false;
+    this.holdTranscript = [];
+    if (this.holdCheckTimeout) {
+      clearTimeout(this.holdCheckTimeout);
+      this.holdCheckTimeout = null;
+    }
+    this.deadAirCount = 0;
+    this.emit('hold', false);
+  }
+
+  /**
+   * Ask the LLM whether something heard on hold was a person picking up.
+   * Errors count as "still on hold" - staying quiet is the safer mistake.
+   */
+  private async isLiveAnswer(text: string): Promise<boolean> {
+    try {
+      const verdict = await this.llm.generateResponse(
+        [{ role: 'user', content: text }],
+        this.HOLD_CHECK_PROMPT,
+        0,
+        5
+      );
+      return /human/i.test(verdict);
+    } catch (error) {
+      logger.error('[Pipeline] Hold check failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Handle a custom HTTP tool: say a filler while the request runs, log the
+   * invocation and answer the caller from the result
+   * @returns The full text spoken for this turn
+   */
+  private async handleCustomTool(toolCall: ToolCall, spokenSoFar: string, systemPrompt: string): Promise<string> {
+    const tool = this.findCustomTool(toolCall.name)!;
+    logger.info(`[Pipeline] Calling custom tool: ${tool.name}`, toolCall.arguments);
+
+    // The filler replaces the generic "one moment" for this turn
+    if (this.thinkingTimeout) {
+      clearTimeout(this.thinkingTimeout);
+      this.thinkingTimeout = null;
+    }
+
+    const spoken = spokenSoFar.trim();
+    const filler = !spoken && !this.interrupted
+      ? this.generateAndSendAudio(this.TOOL_FILLER_PHRASES[Math.floor(Math.random() * this.TOOL_FILLER_PHRASES.length)])
+      : Promise.resolve(0);
+
+    const invocation = await invokeAgentTool(tool, toolCall.arguments);
+    this.toolInvocations.push(invocation);
+    await filler;
+
+    return this.answerFromToolResult(toolCall, invocation.result, spoken, systemPrompt);
+  }
+
+  /**
+   * Handle save_call_data: keep the values that validate and tell the model
+   * which ones to ask again and which required fields are still missing
+   * @returns The full text spoken for this turn
+   */
+  private async handleExtractionTool(toolCall: ToolCall, spokenSoFar: string, systemPrompt: string): Promise<string> {
+    const saved: string[] = [];
+    const rejected: string[] = [];
+
+    for (const [key, value] of Object.entries(toolCall.arguments)) {
+      const field = this.extractionFields.find((f) => f.key === key);
+      if (!field) continue;
+
+      const result = validateExtractedValue(field, value);
+      if ('error' in result) {
+        rejected.push(`${field.label} ${result.error}`);
+      } else {
+        this.extractedData[key] = result.value;
+        saved.push(field.label);
+      }
+    }
+
+    logger.info('[Pipeline] Saved call data:', { saved, rejected });
+
+    const missing = getMissingRequiredFields(this.extractionFields, this.extractedData);
+    const toolResult = [
+      saved.length > 0 ? `Saved: ${saved.join(', ')}.` : 'Nothing was saved.',
+      rejected.length > 0 ? `Not saved, ask the caller again: ${rejected.join('; ')}.` : '',
+      missing.length > 0 ? `Still needed: ${missing.map((f) => f.label).join(', ')}.` : 'All required details are collected.',
+    ].filter(Boolean).join(' ');
+
+    return this.answerFromToolResult(toolCall, toolResult, spokenSoFar.trim(), systemPrompt);
+  }
+
+  /**
+   * Let the model answer the caller now that it has a tool's result
+   * @returns The full text spoken for this turn
+   */
+  private async answerFromToolResult(toolCall: ToolCall, toolResult: string, spokenSoFar: string, systemPrompt: string): Promise<string> {
+    if (this.interrupted) {
+      return spokenSoFar;
+    }
+
+    const naturalResponse = await this.llm.continueAfterToolCall(
+      this.getContextMessages(),
+      systemPrompt,
+      toolCall,
+      toolResult,
+      0.5,
+      100
+    );
+
+    if (naturalResponse && !this.interrupted) {
+      this.metrics.markOnce('llm_complete');
+      await this.generateAndSendAudio(naturalResponse);
+      return `${spokenSoFar} ${naturalResponse}`.trim();
+    }
+
+    return spokenSoFar;
+  }
+
+  private findCustomTool(name: string): AgentTool | undefined {
+    return this.config.customTools?.find((tool) => tool.name === name);
+  }
+
+  /**
+   * Tools configured on the agent: data collection and custom HTTP tools
+   */
+  private getAgentDefinedTools(): OpenAI.Chat.ChatCompletionTool[] {
+    const tools = (this.config.customTools || []).map(toFunctionTool);
+    if (this.extractionFields.length > 0) {
+      tools.unshift(buildExtractionTool(this.extractionFields));
+    }
+    return tools;
+  }
+
+  /**
+   * Call control tools offered on every turn
+   */
+  private getCallControlTools(): OpenAI.Chat.ChatCompletionTool[] {
+    const tools = [...CALL_CONTROL_TOOLS];
+    if (this.config.agent.transferNumber) {
+      tools.push(...TRANSFER_TOOLS);
+    }
+    if (this.config.agent.phoneTreeNavigation && this.config.callDirection === 'outbound') {
+      tools.push(...PHONE_TREE_TOOLS);
+    }
+    return tools;
+  }
+
+  /**
+   * Check whether the agent's response contains one of its configured end-call phrases
+   */
+  private matchesEndCallPhrase(text: string): boolean {
+    if (this.endCallPhrases.length === 0 || !text.trim()) {
+      return false;
+    }
+    const normalized = this.normalizeForMatch(text);
+    return this.endCallPhrases.some((phrase) => normalized.includes(phrase));
+  }
+
+  private normalizeForMatch(text: string): string {
+    return text.toLowerCase().replace(/[^\w\s']/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Hang up (or transfer) once everything already sent to Twilio has finished playing
+   */
+  private scheduleEndCall(event: EndCallEvent): void {
+    if (this.endCallTimeout) return;
+    this.endingCall = true;
+
+    if (this.deadAirTimeout) {
+      clearTimeout(this.deadAirTimeout);
+      this.deadAirTimeout = null;
+    }
+    if (this.utteranceTimeout) {
+      clearTimeout(this.utteranceTimeout);
+      this.utteranceTimeout = null;
+    }
+
+    const delay = Math.max(0, this.playbackEndsAt - Date.now()) + this.END_CALL_GRACE_MS;
+    logger.info(`[Pipeline] Ending call in ${delay}ms (reason: ${event.reason})`);
+
+    this.endCallTimeout = setTimeout(() => {
+      this.endCallTimeout = null;
+      this.emit(event.transfer ? 'transfer' : 'end_call', event);
+    }, delay);
+  }
+
+  // ============================================
+  // Language
+  // ============================================
+
+  /**
+   * Count evidence that the caller has switched language and follow them once it's clear.
+   * Short replies ("sí", a name) need a second transcript so one word doesn't flip the call.
+   */
+  private trackCallerLanguage(language: string, text: string): void {
+    const base = getBaseLanguage(language);
+
+    if (base === getBaseLanguage(this.currentLanguage)) {
+      this.languageCandidate = null;
+      this.languageEvidence = 0;
+      return;
+    }
+
+    if (!SUPPORTED_LANGUAGES.some(l => getBaseLanguage(l.code) === base)) {
+      return;
+    }
+
+    const weight = text.trim().split(/\s+/).length >= 3 ? 2 : 1;
+    if (this.languageCandidate === base) {
+      this.languageEvidence += weight;
+    } else {
+      this.languageCandidate = base;
+      this.languageEvidence = weight;
+    }
+
+    if (this.languageEvidence >= this.LANGUAGE_SWITCH_EVIDENCE) {
+      this.switchLanguage(base);
+    }
+  }
+
+  /**
+   * Switch the prompt instruction and TTS voice to a new language.
+   * STT is already multilingual in auto-detect mode, so it keeps running as is.
+   */
+  private switchLanguage(language: string): void {
+    const previous = this.currentLanguage;
+    this.currentLanguage = language;
+    this.languageCandidate = null;
+    this.languageEvidence = 0;
+
+    this.tts.setLanguage(language);
+    this.ttsVoiceId = this.tts.resolveVoiceId(this.config.agent.voice);
+
+    logger.info(`[Pipeline] Caller switched language: ${previous} -> ${language} (voice: ${this.ttsVoiceId})`);
+    this.emit('language_change', language);
+  }
+
+  private getSystemPrompt(): string {
+    const keypad = this.keypadUsed
+      ? '\n\nKEYPAD: "[Keypad: <digits>]" in a caller message means they pressed those keys on their phone. Treat it as their answer (e.g. a menu choice or an ID number).'
+      : '';
+    const extraction = this.extractionFields.length > 0
+      ? describeExtractionFields(this.extractionFields, this.extractedData)
+      : '';
+    const caller = this.config.callerProfile?.prompt || '';
+    return this.withLanguageInstruction(this.config.agent.systemPrompt + caller + keypad + extraction);
+  }
+
+  /**
+   * Tell the LLM which language to answer in. English agents without auto-detect
+   * get the prompt unchanged.
+   */
+  private withLanguageInstruction(prompt: string): string {
+    const autoDetect = this.config.agent.autoDetectLanguage;
+    if (!autoDetect && getBaseLanguage(this.currentLanguage) === 'en') {
+      return prompt;
+    }
+
+    const name = getLanguageName(this.currentLanguage);
+    const followCaller = autoDetect ? ' If the caller clearly switches to another language, switch with them.' : '';
+    return `${prompt}\n\nLANGUAGE: The conversation is in ${name}. Always reply in ${name}.${followCaller}`;
+  }
+
+  getCurrentLanguage(): string {
+    return this.currentLanguage;
+  }
+
+  // ============================================
+  // Call Duration Limits
+  // ============================================
+
+  /**
+   * Let the caller know the call is almost out of time (LLM-generated so it fits the conversation)
+   */
+  async warnTimeRemaining(secondsLeft: number): Promise<void> {
+    if (this.endingCall) return;
+    logger.info(`[Pipeline] Call time limit approaching (${secondsLeft}s left)`);
+
+    const warning = await this.generateTimeLimitMessage(
+      `The call will automatically end in about ${secondsLeft} seconds because it has reached its time limit. In one short, natural sentence, let the caller know you'll need to wrap up soon and steer toward finishing up.`,
+      "Just so you know, we're almost out of time on this call, so let's start wrapping up."
+    );
+    if (this.endingCall) return;
+
+    await this.speakAgentMessage(warning);
+  }
+
+  /**
+   * Out of time - say a brief goodbye and hang up once it has played
+   */
+  async wrapUpCall(reason: string): Promise<void> {
+    if (this.endingCall) return;
+    this.endingCall = true; // Stop taking new input while the goodbye is generated
+    logger.info('[Pipeline] Call time limit reached, wrapping up');
+
+    if (this.deadAirTimeout) {
+      clearTimeout(this.deadAirTimeout);
+      this.deadAirTimeout = null;
+    }
+
+    const goodbye = await this.generateTimeLimitMessage(
+      'The call has reached its time limit and must end now. In one short sentence, politely tell the caller you have to go and say goodbye. If there is an obvious next step (a follow-up call, email, or text), mention it briefly.',
+      "I'm sorry, but we've reached the time limit for this call. Thanks so much for your time. Goodbye!"
+    );
+
+    await this.speakAgentMessage(goodbye);
+    this.scheduleEndCall({ reason });
+  }
+
+  private async generateTimeLimitMessage(instruction: string, fallback: string): Promise<string> {
+    try {
+      const response = await this.llm.generateResponse(
+        [...this.getContextMessages(), { role: 'user', content: `[SYSTEM NOTICE - not from the caller] ${instruction}` }],
+        this.getSystemPrompt(),
+        0.5,
+        60
+      );
+      return response.trim() || fallback;
+    } catch (error) {
+      logger.error('[Pipeline] Error generating time limit message:', error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Speak an agent-initiated message and record it in the conversation
+   */
+  private async speakAgentMessage(text: string): Promise<void> {
+    if (!this.isProcessing) {
+      this.interrupted = false; // A stale barge-in flag would otherwise mute this message
+    }
+    await this.generateAndSendAudio(text);
+    this.messages.push({
+      role: 'assistant',
+      content: text,
+      timestamp: Date.now(),
+    });
+    this.config.onTranscript(text, true, 'agent');
+    this.lastAiResponse = text;
+  }
+
+  /**
+   * Track when queued audio will finish playing on the caller's end
+   */
+  private trackPlayback(startedAt: number, durationMs: number): void {
+    this.playbackEndsAt = Math.max(startedAt, this.playbackEndsAt) + durationMs;
+  }
+
   /**
    * Standard streaming response without tools
    */
@@ -885,10 +1736,12 @@ BOOKING CONFIRMATION:
     let fullResponse = '';
 
     // Use sentence-based streaming for lower latency
+    // Call control tools (end_call, transfer_call) ride along on the same stream
     // PERF: Lower temperature (0.5) for faster responses
-    for await (const { sentence, isComplete } of this.llm.streamSentences(
+    for await (const { sentence, toolCalls } of this.llm.streamSentencesWithTools(
       this.getContextMessages(), // Use limited context for performance
-      this.config.agent.systemPrompt,
+      this.getSystemPrompt(),
+      [...this.getCallControlTools(), ...this.getAgentDefinedTools()],
       0.5, // Lower temperature = faster, more deterministic
       100  // Reduced from 150 - keep voice responses concise
     )) {
@@ -897,8 +1750,36 @@ BOOKING CONFIRMATION:
         break;
       }
 
+      if (toolCalls) {
+        const transfer = toolCalls.find((tc) => tc.name === 'transfer_call');
+        if (transfer) {
+          return this.handleTransferTool(transfer, fullResponse);
+        }
+        const endCall = toolCalls.find((tc) => tc.name === 'end_call');
+        if (endCall) {
+          return this.handleEndCallTool(endCall, fullResponse);
+        }
+        const sendDtmf = toolCalls.find((tc) => tc.name === 'send_dtmf');
+        if (sendDtmf) {
+          return this.handleSendDtmfTool(sendDtmf, fullResponse);
+        }
+        const hold = toolCalls.find((tc) => tc.name === 'wait_on_hold');
+        if (hold) {
+          return this.handleHoldTool(hold, fullResponse);
+        }
+        const extraction = toolCalls.find((tc) => tc.name === EXTRACTION_TOOL_NAME);
+        if (extraction) {
+          return this.handleExtractionTool(extraction, fullResponse, this.getSystemPrompt());
+        }
+        const custom = toolCalls.find((tc) => this.findCustomTool(tc.name));
+        if (custom) {
+          return this.handleCustomTool(custom, fullResponse, this.getSystemPrompt());
+        }
+        continue;
+      }
+
       fullResponse += sentence + ' ';
-      this.metrics.mark('llm_complete');
+      this.metrics.markOnce('llm_complete');
 
       // Start TTS for this sentence immediately
       await this.generateAndSendAudio(sentence);
@@ -924,32 +1805,25 @@ BOOKING CONFIRMATION:
 
       console.log('[Pipeline] Generating TTS for text:', text.substring(0, 50) + '...');
       
-      // Get voice settings
-      const voiceSettings = this.config.agent.voiceSettings as any;
-      const elevenLabsVoiceId = getElevenLabsVoiceId(this.config.agent.voice);
-      
-      console.log('[Pipeline] Using voice:', this.config.agent.voice, '-> ElevenLabs ID:', elevenLabsVoiceId);
+      console.log('[Pipeline] Using voice:', this.config.agent.voice, `-> ${this.tts.provider} ID:`, this.ttsVoiceId);
       
       let playbackDurationMs: number;
+      let firstChunkTime: number | null = null;
 
       if (this.USE_STREAMING_TTS) {
         // STREAMING MODE: Send audio chunks as they're generated (lower latency)
         console.log('[Pipeline] 🚀 Using STREAMING TTS for lower latency');
         
-        let firstChunkTime: number | null = null;
-        
         const result = await this.tts.streamTTSForTwilio(
           text,
-          elevenLabsVoiceId,
-          {
-            stability: voiceSettings?.stability ?? 0.5,
-            similarity_boost: voiceSettings?.similarity_boost ?? 0.75,
-          },
+          this.ttsVoiceId,
+          this.voiceSettings,
           (chunk) => {
             // Stream each chunk to Twilio immediately
             if (!this.interrupted) {
               if (!firstChunkTime) {
                 firstChunkTime = Date.now();
+                this.metrics.markOnce('audio_sent');
                 // console.log(`[Pipeline] ⚡ First audio chunk in ${firstChunkTime - ttsStart}ms`);
               }
               // PERF: Ensure this is non-blocking
@@ -967,11 +1841,8 @@ BOOKING CONFIRMATION:
         
         const audioBuffer = await this.tts.textToSpeechForTwilio(
           text,
-          elevenLabsVoiceId,
-          {
-            stability: voiceSettings?.stability ?? 0.5,
-            similarity_boost: voiceSettings?.similarity_boost ?? 0.75,
-          }
+          this.ttsVoiceId,
+          this.voiceSettings
         );
 
         playbackDurationMs = Math.ceil((audioBuffer.length / 8000) * 1000);
@@ -980,6 +1851,7 @@ BOOKING CONFIRMATION:
 
         if (!this.interrupted) {
           console.log('[Pipeline] Sending audio to client via onAudio callback');
+          this.metrics.markOnce('audio_sent');
           this.config.onAudio(audioBuffer);
         } else {
           console.log('[Pipeline] ⚠️ Audio generation interrupted, not sending');
@@ -988,7 +1860,9 @@ BOOKING CONFIRMATION:
 
       // Track last playback duration for dead air timing
       this.lastAudioPlaybackMs = playbackDurationMs;
-      this.metrics.mark('audio_sent');
+      if (!this.interrupted) {
+        this.trackPlayback(firstChunkTime ?? ttsStart, playbackDurationMs);
+      }
 
       return playbackDurationMs;
 
@@ -1005,16 +1879,10 @@ BOOKING CONFIRMATION:
    */
   private async generateAndSendAudioBatch(text: string): Promise<number> {
     try {
-      const voiceSettings = this.config.agent.voiceSettings as any;
-      const elevenLabsVoiceId = getElevenLabsVoiceId(this.config.agent.voice);
-      
       const audioBuffer = await this.tts.textToSpeechForTwilio(
         text,
-        elevenLabsVoiceId,
-        {
-          stability: voiceSettings?.stability ?? 0.5,
-          similarity_boost: voiceSettings?.similarityBoost ?? 0.75,
-        }
+        this.ttsVoiceId,
+        this.voiceSettings
       );
 
       const playbackDurationMs = Math.ceil((audioBuffer.length / 8000) * 1000);
@@ -1022,6 +1890,7 @@ BOOKING CONFIRMATION:
 
       if (!this.interrupted) {
         this.config.onAudio(audioBuffer);
+        this.trackPlayback(Date.now(), playbackDurationMs);
       }
 
       return playbackDurationMs;
@@ -1045,6 +1914,18 @@ BOOKING CONFIRMATION:
       clearTimeout(this.thinkingTimeout);
       this.thinkingTimeout = null;
     }
+    if (this.endCallTimeout) {
+      clearTimeout(this.endCallTimeout);
+      this.endCallTimeout = null;
+    }
+    if (this.dtmfTimeout) {
+      clearTimeout(this.dtmfTimeout);
+      this.dtmfTimeout = null;
+    }
+    if (this.holdCheckTimeout) {
+      clearTimeout(this.holdCheckTimeout);
+      this.holdCheckTimeout = null;
+    }
     
     await this.stt.close();
     this.removeAllListeners();
@@ -0,0 +1,195 @@
+// ============================================
+// Webhook Service - Signed Agent Webhooks with Bull Queue
+// ============================================
+
+import Queue from 'bull';
+import crypto from 'crypto';
+import { prisma } from '../lib/prisma';
+import { logger } from '../utils/logger';
+import { decrypt } from '../utils/crypto';
+import { safeFetch } from '../utils/safe-fetch';
+import { AgentWebhookEvent } from '../lib/constants';
+
+// Initialize Bull queue for webhook delivery
+// 6 attempts with exponential backoff spans roughly 10 minutes
+const webhookQueue = new Queue('agent-webhooks', {
+  redis: {
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379'),
+    password: process.env.REDIS_PASSWORD,
+  },
+  defaultJobOptions: {
+    attempts: 6,
+    backoff: {
+      type: 'exponential',
+      delay: 10000,
+    },
+    removeOnComplete: 100,
+    removeOnFail: 500,
+  },
+});
+
+// Job types
+interface DeliverWebhookJob {
+  deliveryId: string;
+}
+
+const DELIVERY_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<raw body>", hex encoded.
+ * Receivers recompute it with their secret and compare against X-Webhook-Signature.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Webhook Service
+export class WebhookService {
+  constructor() {
+    this.initializeQueueProcessor();
+  }
+
+  // Initialize queue processor
+  private initializeQueueProcessor() {
+    webhookQueue.process('deliver', async (job) => {
+      const { deliveryId } = job.data as DeliverWebhookJob;
+      return await this.deliver(deliveryId, job.attemptsMade + 1, job.opts.attempts || 1);
+    });
+
+    webhookQueue.on('failed', (job, err) => {
+      logger.warn(`Webhook job failed: ${job?.id} (attempt ${job?.attemptsMade})`, err.message);
+    });
+
+    logger.info('Webhook queue processor initialized');
+  }
+
+  /**
+   * Send an event to the agent's webhook, if it has one subscribed to the event.
+   * Never throws - webhook problems must not break calls or messaging.
+   */
+  async emit(agentId: string | null | undefined, event: AgentWebhookEvent, data: Record<string, any>): Promise<void> {
+    if (!agentId) return;
+
+    try {
+      const agent = await prisma.agent.findUnique({
+        where: { id: agentId },
+        select: { webhookUrl: true, webhookEvents: true },
+      });
+
+      if (!agent?.webhookUrl) return;
+      if (agent.webhookEvents.length > 0 && !agent.webhookEvents.includes(event)) return;
+
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          agentId,
+          event,
+          url: agent.webhookUrl,
+          payload: {
+            event,
+            agentId,
+            createdAt: new Date().toISOString(),
+            data,
+          },
+        },
+      });
+
+      try {
+        await webhookQueue.add('deliver', { deliveryId: delivery.id }, { jobId: delivery.id });
+      } catch (queueError) {
+        // Without Redis there are no retries, but the event still goes out once
+        logger.error(`[Webhook] Failed to queue ${event} for agent ${agentId}, delivering now:`, queueError);
+        this.deliver(delivery.id, 1, 1).catch(() => {});
+      }
+    } catch (error) {
+      logger.error(`[Webhook] Failed to queue ${event} for agent ${agentId}:`, error);
+    }
+  }
+
+  /**
+   * Queue another delivery of a logged payload (manual redelivery from the dashboard)
+   */
+  async redeliver(deliveryId: string): Promise<void> {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'pending', attempts: 0, error: null },
+    });
+    await webhookQueue.add('deliver', { deliveryId }, { jobId: `${deliveryId}-${Date.now()}` });
+  }
+
+  // POST the payload and record the attempt; throwing hands the retry to Bull
+  private async deliver(deliveryId: string, attempt: number, maxAttempts: number): Promise<void> {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { agent: { select: { webhookSecret: true } } },
+    });
+
+    if (!delivery) {
+      logger.warn(`[Webhook] Delivery ${deliveryId} not found`);
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Gleam-Webhooks/1.0',
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Delivery': delivery.id,
+      'X-Webhook-Timestamp': timestamp,
+    };
+
+    if (delivery.agent.webhookSecret) {
+      headers['X-Webhook-Signature'] = `sha256=${signWebhookPayload(decrypt(delivery.agent.webhookSecret), timestamp, body)}`;
+    }
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      // The URL is user-supplied: public addresses only, redirects not followed
+      const response = await safeFetch(delivery.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+
+      if (!response.ok) {
+        error = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (err: any) {
+      error = err?.name === 'TimeoutError'
+        ? `No response within ${DELIVERY_TIMEOUT_MS / 1000}s`
+        : err?.message || 'Request failed';
+    }
+
+    const succeeded = !error;
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: succeeded ? 'success' : attempt >= maxAttempts ? 'failed' : 'retrying',
+        attempts: attempt,
+        responseStatus,
+        responseBody,
+        error,
+        lastAttemptAt: new Date(),
+        deliveredAt: succeeded ? new Date() : null,
+      },
+    });
+
+    if (!succeeded) {
+      throw new Error(`Webhook ${delivery.event} to ${delivery.url} failed: ${error}`);
+    }
+
+    logger.info(`[Webhook] Delivered ${delivery.event} to ${delivery.url} (attempt ${attempt})`);
+  }
+}
+
+// Export singleton instance
+export const webhookService = new WebhookService();
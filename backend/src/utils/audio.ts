@@ -71,6 +71,45 @@ function mulawToLinear(mulawByte: number): number {
   return sign ? -sample : sample;
 }
 
+// DTMF keypad tones: [row, column] frequencies in Hz
+const DTMF_FREQUENCIES: Record<string, [number, number]> = {
+  '1': [697, 1209], '2': [697, 1336], '3': [697, 1477],
+  '4': [770, 1209], '5': [770, 1336], '6': [770, 1477],
+  '7': [852, 1209], '8': [852, 1336], '9': [852, 1477],
+  '*': [941, 1209], '0': [941, 1336], '#': [941, 1477],
+};
+
+/**
+ * Synthesize keypad tones as 8kHz mu-law, ready to send on a Twilio media stream.
+ * 'w' is a half-second pause (same convention as Twilio's sendDigits); other characters are skipped.
+ */
+export function generateDtmfTones(digits: string, toneMs = 160, gapMs = 80): Buffer {
+  const samplesPerMs = 8;
+  const silence = linearToMulaw(0);
+  const amplitude = 3500; // Per tone - the pair stays inside the encoder's range
+  const parts: Buffer[] = [];
+
+  for (const digit of digits) {
+    if (digit === 'w') {
+      parts.push(Buffer.alloc(500 * samplesPerMs, silence));
+      continue;
+    }
+
+    const frequencies = DTMF_FREQUENCIES[digit];
+    if (!frequencies) continue;
+
+    const tone = Buffer.alloc(toneMs * samplesPerMs);
+    for (let i = 0; i < tone.length; i++) {
+      const t = i / 8000;
+      const sample = amplitude * (Math.sin(2 * Math.PI * frequencies[0] * t) + Math.sin(2 * Math.PI * frequencies[1] * t));
+      tone[i] = linearToMulaw(Math.round(sample));
+    }
+    parts.push(tone, Buffer.alloc(gapMs * samplesPerMs, silence));
+  }
+
+  return Buffer.concat(parts);
+}
+
 /**
  * Calculate audio duration from buffer (assuming 8kHz mono mu-law)
  */
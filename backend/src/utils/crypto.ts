@@ -54,6 +54,13 @@ export function decrypt(encryptedText: string): string {
   return decrypted;
 }
 
+/**
+ * New signing secret for an agent webhook (store it encrypted)
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
 /**
  * Mask sensitive data for display (show only last 4 chars)
  */
@@ -0,0 +1,15 @@
+// ============================================
+// CSV Helpers (exports)
+// ============================================
+
+// Quote a value for CSV when it contains a delimiter, quote or newline.
+// Text a spreadsheet would read as a formula (= + - @, tab, CR) gets a leading apostrophe;
+// plain signed numbers like +15551234567 are left alone.
+export function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && !/^[+-]?\d[\d.]*$/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -9,6 +9,23 @@ export interface LatencyMetrics {
   total: number;
 }
 
+// Per-turn latency as persisted to CallLatencySample
+export interface LatencySample extends LatencyMetrics {
+  turn: number;
+}
+
+/**
+ * Nearest-rank percentile (p in 0-100) of unsorted values
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
 export class MetricsTracker {
   private timestamps: Map<string, number> = new Map();
   private callSid: string;
@@ -21,6 +38,13 @@ export class MetricsTracker {
     this.timestamps.set(event, Date.now());
   }
 
+  // Keep the first time an event happened in the current turn
+  markOnce(event: string): void {
+    if (!this.timestamps.has(event)) {
+      this.mark(event);
+    }
+  }
+
   measure(from: string, to: string): number {
     const fromTime = this.timestamps.get(from);
     const toTime = this.timestamps.get(to);
@@ -29,15 +53,32 @@ export class MetricsTracker {
       return 0;
     }
     
-    return toTime - fromTime;
+    return Math.max(0, toTime - fromTime);
+  }
+
+  has(event: string): boolean {
+    return this.timestamps.has(event);
+  }
+
+  /**
+   * Start measuring a new agent turn. The caller's final transcript was
+   * marked before the turn began, so it is carried over.
+   */
+  startTurn(): void {
+    const transcriptReady = this.timestamps.get('transcript_ready');
+    this.timestamps.clear();
+    if (transcriptReady) {
+      this.timestamps.set('transcript_ready', transcriptReady);
+    }
+    this.mark('turn_started');
   }
 
   getLatencyMetrics(): LatencyMetrics {
     return {
-      stt: this.measure('audio_received', 'transcript_ready'),
-      llm: this.measure('transcript_ready', 'llm_complete'),
+      stt: this.measure('transcript_ready', 'turn_started'),
+      llm: this.measure('turn_started', 'llm_complete'),
       tts: this.measure('llm_complete', 'audio_sent'),
-      total: this.measure('audio_received', 'audio_sent'),
+      total: this.measure('transcript_ready', 'audio_sent'),
     };
   }
 
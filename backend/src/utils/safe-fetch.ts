@@ -0,0 +1,140 @@
+// ============================================
+// Safe Fetch - Requests to user-supplied URLs
+// ============================================
+
+import { lookup as lookupCallback, LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { isIP, LookupFunction } from 'net';
+import { Agent } from 'undici';
+
+// IPv4 ranges that are private, loopback, link-local (cloud metadata) or otherwise not the public internet
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+function ipv4ToNumber(ip: string): number {
+  return ip.split('.').reduce((value, octet) => value * 256 + parseInt(octet, 10), 0);
+}
+
+function isBlockedIpv4(ip: string): boolean {
+  const address = ipv4ToNumber(ip);
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    const start = ipv4ToNumber(base);
+    return address >= start && address < start + size;
+  });
+}
+
+function isBlockedIpv6(ip: string): boolean {
+  const address = ip.toLowerCase();
+
+  // IPv4-mapped (::ffff:10.0.0.1) is checked as the IPv4 address
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isBlockedIpv4(mapped[1]);
+
+  return address === '::'
+    || address === '::1'
+    || /^f[cd]/.test(address)        // fc00::/7 unique local
+    || /^fe[89ab]/.test(address)     // fe80::/10 link-local
+    || address.startsWith('ff')      // multicast
+    || address.startsWith('64:ff9b:') // NAT64 into IPv4 space
+    || address.startsWith('2001:db8:');
+}
+
+/**
+ * True when the address is not on the public internet
+ */
+export function isPrivateAddress(ip: string): boolean {
+  const version = isIP(ip);
+  if (version === 4) return isBlockedIpv4(ip);
+  if (version === 6) return isBlockedIpv6(ip);
+  return true;
+}
+
+/**
+ * Refuse URLs that aren't http(s) or whose host resolves to a private or reserved address.
+ * Throws with a message that is safe to show the user.
+ */
+export async function assertPublicUrl(url: string, options: { httpsOnly?: boolean } = {}): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Invalid URL');
+  }
+
+  const protocols = options.httpsOnly ? ['https:'] : ['http:', 'https:'];
+  if (!protocols.includes(parsed.protocol)) {
+    throw new Error(`URL must use ${options.httpsOnly ? 'https' : 'http or https'}`);
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : await lookup(hostname, { all: true }).then(
+        (results) => results.map((result) => result.address),
+        () => {
+          throw new Error(`Could not resolve ${hostname}`);
+        }
+      );
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error('URL must point to a public internet address');
+  }
+
+  return parsed;
+}
+
+/**
+ * DNS lookup for outgoing connections that fails on private addresses. The connection
+ * uses the addresses checked here, so a host can't pass assertPublicUrl and then
+ * re-resolve (DNS rebinding) to an internal address when fetch connects.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      callback(Object.assign(new Error('URL must point to a public internet address'), { code: 'EBLOCKED' }), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * fetch() for a user-supplied URL: the host must be public (checked up front and again
+ * when connecting) and redirects are not followed (a 3xx comes back as the response),
+ * so the request can't be bounced onto an internal address.
+ */
+export async function safeFetch(
+  url: string,
+  init: RequestInit = {},
+  options: { httpsOnly?: boolean } = {}
+): Promise<Response> {
+  await assertPublicUrl(url, options);
+  return fetch(url, { ...init, redirect: 'manual', dispatcher: publicAgent } as RequestInit);
+}
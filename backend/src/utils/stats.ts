@@ -0,0 +1,99 @@
+// ============================================
+// Significance Tests (A/B experiment reporting)
+// ============================================
+
+export interface SignificanceResult {
+  pValue: number | null; // null when either side has too little data to test
+  significant: boolean;
+}
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+function toResult(pValue: number | null): SignificanceResult {
+  return {
+    pValue: pValue === null || Number.isNaN(pValue) ? null : Math.min(1, Math.max(0, pValue)),
+    significant: pValue !== null && pValue < SIGNIFICANCE_LEVEL,
+  };
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided two-proportion z-test, e.g. booking rate of variant B vs A
+ */
+export function twoProportionTest(successesA: number, totalA: number, successesB: number, totalB: number): SignificanceResult {
+  if (totalA === 0 || totalB === 0) return toResult(null);
+
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) return toResult(1);
+
+  const z = (successesB / totalB - successesA / totalA) / standardError;
+  return toResult(2 * (1 - normalCdf(Math.abs(z))));
+}
+
+export interface SampleSummary {
+  count: number;
+  mean: number;
+  variance: number; // Sample variance (n - 1)
+}
+
+/**
+ * Summarize a sample given as value counts, e.g. rows of a GROUP BY on the value
+ */
+export function summarizeCounts(counts: Array<{ value: number; count: number }>): SampleSummary {
+  const count = counts.reduce((sum, c) => sum + c.count, 0);
+  if (count === 0) return { count, mean: 0, variance: 0 };
+
+  const mean = counts.reduce((sum, c) => sum + c.value * c.count, 0) / count;
+  const variance = count > 1
+    ? counts.reduce((sum, c) => sum + c.count * (c.value - mean) ** 2, 0) / (count - 1)
+    : 0;
+  return { count, mean, variance };
+}
+
+/**
+ * Two-sided Welch's t-test on means. The t statistic is read against the normal
+ * distribution, which is close enough at the sample sizes experiments report on.
+ */
+export function welchTest(a: SampleSummary, b: SampleSummary): SignificanceResult {
+  if (a.count < 2 || b.count < 2) return toResult(null);
+
+  const standardError = Math.sqrt(a.variance / a.count + b.variance / b.count);
+  if (standardError === 0) return toResult(a.mean === b.mean ? 1 : 0);
+
+  const t = (b.mean - a.mean) / standardError;
+  return toResult(2 * (1 - normalCdf(Math.abs(t))));
+}
+
+/**
+ * Chi-square test of independence on a 2 x k table of category counts,
+ * e.g. disposition mix of variant B vs A. Categories neither side used are dropped.
+ */
+export function chiSquareTest(countsA: number[], countsB: number[]): SignificanceResult {
+  const columns = countsA.map((a, i) => [a, countsB[i] || 0]).filter(([a, b]) => a + b > 0);
+  const totalA = columns.reduce((sum, [a]) => sum + a, 0);
+  const totalB = columns.reduce((sum, [, b]) => sum + b, 0);
+  if (totalA === 0 || totalB === 0 || columns.length < 2) return toResult(null);
+
+  const total = totalA + totalB;
+  let chiSquare = 0;
+  for (const [a, b] of columns) {
+    const expectedA = (totalA * (a + b)) / total;
+    const expectedB = (totalB * (a + b)) / total;
+    chiSquare += (a - expectedA) ** 2 / expectedA + (b - expectedB) ** 2 / expectedB;
+  }
+
+  // Wilson-Hilferty: the cube root of chi-square / k is close to normal
+  const k = columns.length - 1;
+  const z = (Math.cbrt(chiSquare / k) - (1 - 2 / (9 * k))) / Math.sqrt(2 / (9 * k));
+  return toResult(1 - normalCdf(z));
+}
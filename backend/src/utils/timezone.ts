@@ -0,0 +1,123 @@
+// ============================================
+// Timezone Helpers (campaign call windows)
+// ============================================
+
+import { timezoneForPhoneNumber } from '../lib/area-codes';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Names people put in a CSV "timezone" column
+const TIMEZONE_ALIASES: Record<string, string> = {
+  eastern: 'America/New_York',
+  est: 'America/New_York',
+  edt: 'America/New_York',
+  et: 'America/New_York',
+  central: 'America/Chicago',
+  cst: 'America/Chicago',
+  cdt: 'America/Chicago',
+  ct: 'America/Chicago',
+  mountain: 'America/Denver',
+  mst: 'America/Denver',
+  mdt: 'America/Denver',
+  mt: 'America/Denver',
+  arizona: 'America/Phoenix',
+  pacific: 'America/Los_Angeles',
+  pst: 'America/Los_Angeles',
+  pdt: 'America/Los_Angeles',
+  pt: 'America/Los_Angeles',
+  alaska: 'America/Anchorage',
+  akst: 'America/Anchorage',
+  hawaii: 'Pacific/Honolulu',
+  hst: 'Pacific/Honolulu',
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * IANA name for a timezone as typed in a CSV ("America/Chicago", "PST", "Eastern"), or null
+ */
+export function normalizeTimeZone(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  const trimmed = value.trim();
+  const alias = TIMEZONE_ALIASES[trimmed.toLowerCase()];
+  if (alias) return alias;
+
+  return isValidTimeZone(trimmed) ? trimmed : null;
+}
+
+/**
+ * A lead's timezone: the one given with the lead, else its area code's.
+ * null means the campaign's timezone applies.
+ */
+export function resolveLeadTimeZone(phoneNumber: string, explicit?: unknown): string | null {
+  return normalizeTimeZone(explicit) || timezoneForPhoneNumber(phoneNumber);
+}
+
+// Minutes since midnight on the zone's clock, including seconds
+function localMinutes(date: Date, timeZone: string): number {
+  const parts = formatterFor(timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value || 0);
+  return part('hour') * 60 + part('minute') + part('second') / 60;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether the zone's clock is inside an HH:MM window (both ends inclusive, to the minute).
+ * A window that ends before it starts runs overnight.
+ */
+export function isWithinLocalWindow(date: Date, timeZone: string, start?: string | null, end?: string | null): boolean {
+  if (!start || !end) {
+    return true; // No call window restriction
+  }
+
+  const now = Math.floor(localMinutes(date, timeZone));
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+
+  return from <= to ? now >= from && now <= to : now >= from || now <= to;
+}
+
+/**
+ * Milliseconds until the zone's clock next reads HH:MM, always in the future.
+ * Ignores DST changes in between, so it can be an hour off on those days.
+ */
+export function msUntilLocalTime(date: Date, timeZone: string, time: string): number {
+  const minutes = ((toMinutes(time) - localMinutes(date, timeZone)) % MINUTES_PER_DAY + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return Math.ceil((minutes || MINUTES_PER_DAY) * 60 * 1000);
+}
+
+/**
+ * Midnight today on the zone's clock
+ */
+export function startOfLocalDay(date: Date, timeZone: string): Date {
+  return new Date(date.getTime() - Math.floor(localMinutes(date, timeZone) * 60) * 1000 - date.getMilliseconds());
+}
@@ -6,23 +6,43 @@ import { Server as SocketIOServer, Socket } from 'socket.io';
 import { WebSocket, WebSocketServer } from 'ws';
 import { IncomingMessage } from 'http';
 import { prisma } from '../lib/prisma';
-import { VoicePipeline } from '../services/voice-pipeline';
+import { VoicePipeline, EndCallEvent, TransferRequest, AppointmentBookedEvent } from '../services/voice-pipeline';
+import { TwilioService } from '../services/twilio.service';
+import { postCallService } from '../services/post-call.service';
+import { createTTSService, parseVoiceSettings } from '../services/tts';
+import { webhookService } from '../services/webhook.service';
+import { applyExtractedData } from '../services/extraction.service';
+import { buildCallerProfile } from '../services/caller-context.service';
+import { buildPromptVariables, renderAgentPrompts } from '../services/prompt-variables.service';
 import { logger } from '../utils/logger';
-import { metricsCollector } from '../utils/metrics';
+import { decrypt } from '../utils/crypto';
+import { CALL_END_REASONS, VOICE_MINUTE_RATE_USD, CREDITS_PER_USD } from '../lib/constants';
+import { config } from '../config';
+import { metricsCollector, percentile } from '../utils/metrics';
 import { decodeFromTwilio } from '../utils/audio';
-import { TwilioMediaEvent, TwilioMediaStart, TwilioMediaPayload } from '../lib/types';
+import { TwilioMediaEvent, TwilioMediaStart, TwilioMediaPayload, TwilioMediaDtmf } from '../lib/types';
 
 interface CallSession {
   callSid: string;
   streamSid: string | null;
   agentId: string;
   userId: string;
+  llmModel: string;
+  voiceProvider: string;
   pipeline: VoicePipeline | null;
   ws: WebSocket;
+  endReason?: string;
+  endDetail?: Record<string, any>;
+  durationTimers: NodeJS.Timeout[];
 }
 
 const activeSessions = new Map<string, CallSession>();
 
+// Call duration limits
+const DURATION_WARNING_SECONDS = 30; // Spoken warning this long before the limit
+const HARD_LIMIT_GRACE_SECONDS = 20; // Force hang up if the graceful wrap-up hasn't ended the call
+const VOICEMAIL_HANGUP_GRACE_MS = 1500; // Let the last of the voicemail audio play out before hanging up
+
 // Dashboard clients for real-time updates
 const dashboardClients = new Map<string, Set<Socket>>();
 
@@ -110,6 +130,15 @@ export function setupTwilioMediaStream(wss: WebSocketServer) {
             }
             break;
 
+          case 'dtmf':
+            // Caller pressed a key on their phone
+            if (session?.pipeline) {
+              const { digit } = (message as TwilioMediaDtmf).dtmf;
+              logger.info('[MediaStream] DTMF received', { callSid: session.callSid, digit });
+              session.pipeline.processDtmf(digit);
+            }
+            break;
+
           case 'mark':
             // Mark events indicate audio playback progress
             logger.debug('[MediaStream] Mark received:', message.mark);
@@ -166,7 +195,10 @@ async function handleStreamStart(
   // Fetch agent
   const agent = await prisma.agent.findUnique({
     where: { id: agentId },
-    include: { user: true },
+    include: {
+      user: true,
+      tools: { where: { isActive: true }, orderBy: { createdAt: 'asc' } },
+    },
   });
 
   if (!agent) {
@@ -182,6 +214,29 @@ async function handleStreamStart(
     voice: agent.voice,
   });
 
+  // Outbound call reached an answering machine - leave the message, no conversation
+  if (customParameters?.mode === 'voicemail') {
+    const session: CallSession = {
+      callSid,
+      streamSid,
+      agentId,
+      userId: agent.userId,
+      llmModel: agent.llmModel,
+      voiceProvider: agent.voiceProvider,
+      pipeline: null,
+      ws,
+      endReason: CALL_END_REASONS.VOICEMAIL,
+      durationTimers: [],
+    };
+
+    leaveVoicemail(session, agent).catch(async (error) => {
+      logger.error('[MediaStream] Voicemail drop failed:', error);
+      await hangUpCall(session, agent.user);
+    });
+
+    return session;
+  }
+
   // Fetch calendar integration using agent's calendarIntegrationId (agent-centric approach)
   let calendarIntegration = null;
   try {
@@ -269,23 +324,50 @@ async function handleStreamStart(
     streamSid,
     agentId,
     userId: agent.userId,
+    llmModel: agent.llmModel,
+    voiceProvider: agent.voiceProvider,
     pipeline: null,
     ws,
+    durationTimers: [],
   };
 
   // Get call direction from database
   const call = await prisma.call.findUnique({
     where: { callSid },
-    select: { direction: true },
+    select: { id: true, direction: true, from: true, to: true, startTime: true, campaignLeadId: true },
   });
 
+  // Known callers: contact, earlier calls, texts and appointments go into the prompt (opt-in per agent)
+  const callerNumber = call ? (call.direction === 'inbound' ? call.from : call.to) : null;
+  const callerProfile = agent.callerContext && callerNumber
+    ? await buildCallerProfile(agent.userId, callerNumber, callSid, calendarIntegration?.timezone)
+    : null;
+
+  // Fill {{variables}} in the prompt and greetings, and keep the rendered prompt on the call
+  const promptVariables = await buildPromptVariables({
+    userId: agent.userId,
+    phoneNumber: callerNumber,
+    campaignLeadId: call?.campaignLeadId,
+    timezone: calendarIntegration?.timezone,
+  });
+  const renderedAgent = renderAgentPrompts(agent, promptVariables);
+
+  if (call) {
+    await prisma.call.update({
+      where: { id: call.id },
+      data: { renderedPrompt: renderedAgent.systemPrompt },
+    }).catch((error) => logger.error('[MediaStream] Failed to save rendered prompt:', error));
+  }
+
   // Initialize voice pipeline
   console.log('[MediaStream] Creating voice pipeline...');
   session.pipeline = new VoicePipeline(
     {
-      agent,
+      agent: renderedAgent,
       callDirection: call?.direction || 'inbound',
       calendarIntegration,
+      customTools: agent.tools,
+      callerProfile,
       onTranscript: (text, isFinal, speaker) => {
         console.log('[Pipeline] Transcript:', { text, isFinal, speaker });
         // Broadcast to dashboard
@@ -326,6 +408,62 @@ async function handleStreamStart(
     sendClearMessage(ws, streamSid);
   });
 
+  // Agent decided to hang up (end_call tool or end-call phrase)
+  session.pipeline.on('end_call', async (event: EndCallEvent) => {
+    session.endReason = event.reason;
+    session.endDetail = event.detail;
+    await hangUpCall(session, agent.user);
+  });
+
+  // Caller switched language (auto-detect)
+  session.pipeline.on('language_change', (language: string) => {
+    broadcastToUser(agent.userId, 'language_change', {
+      callSid,
+      language,
+    });
+  });
+
+  // Outbound agent went on hold / a person picked up (phone tree navigation)
+  session.pipeline.on('hold', (onHold: boolean) => {
+    broadcastToUser(agent.userId, 'call_hold', {
+      callSid,
+      onHold,
+    });
+  });
+
+  // Booking tool created a calendar event
+  session.pipeline.on('appointment_booked', async (event: AppointmentBookedEvent) => {
+    webhookService.emit(agentId, 'appointment.booked', {
+      callSid,
+      ...event,
+    });
+
+    // Kept on the call so later calls from this number know about it
+    try {
+      const booked = await prisma.call.findUnique({ where: { callSid }, select: { metadata: true } });
+      const metadata = (booked?.metadata as Record<string, any>) || {};
+      await prisma.call.update({
+        where: { callSid },
+        data: { metadata: { ...metadata, appointments: [...(metadata.appointments || []), event] } },
+      });
+    } catch (error) {
+      logger.error('[MediaStream] Failed to record booked appointment:', error);
+    }
+  });
+
+  // Agent is handing the caller to a human (transfer_call tool)
+  session.pipeline.on('transfer', async (event: EndCallEvent) => {
+    try {
+      session.endReason = event.reason;
+      await transferCall(session, agent.user, event.transfer!);
+    } catch (error) {
+      // Saving the transfer details failed before the call was redirected
+      logger.error('[MediaStream] Transfer error, ending call:', error);
+      session.endReason = CALL_END_REASONS.TRANSFER_FAILED;
+      session.ws.close();
+    }
+  });
+
   // Start the pipeline
   console.log('[MediaStream] Starting voice pipeline...');
   try {
@@ -342,6 +480,8 @@ async function handleStreamStart(
   activeSessions.set(callSid, session);
   metricsCollector.getTracker(callSid);
 
+  startDurationBudget(session, agent, call?.direction || 'inbound', call?.startTime || new Date());
+
   // Notify dashboard
   broadcastToUser(agent.userId, 'call_started', {
     callSid,
@@ -349,6 +489,15 @@ async function handleStreamStart(
     agentId,
   });
 
+  await webhookService.emit(agentId, 'call.started', {
+    callId: call?.id,
+    callSid,
+    direction: call?.direction || 'inbound',
+    from: call?.from,
+    to: call?.to,
+    startTime: call?.startTime,
+  });
+
   return session;
 }
 
@@ -363,45 +512,286 @@ async function handleMediaPayload(session: CallSession, message: TwilioMediaPayl
 async function handleStreamStop(session: CallSession) {
   logger.info('[MediaStream] Stopping session', { callSid: session.callSid });
 
-  // Stop pipeline
-  if (session.pipeline) {
-    // Get call to calculate duration
-    const call = await prisma.call.findUnique({
-      where: { callSid: session.callSid },
-      select: { startTime: true },
-    });
+  session.durationTimers.forEach(clearTimeout);
+  session.durationTimers = [];
+
+  try {
+    // Stop pipeline
+    if (session.pipeline) {
+      let callId: string;
+      try {
+        // Get call to calculate duration
+        const call = await prisma.call.findUnique({
+          where: { callSid: session.callSid },
+          select: { startTime: true, metadata: true },
+        });
 
-    const endTime = new Date();
-    let duration: number | undefined;
+        const endTime = new Date();
+        let duration: number | undefined;
 
-    // Calculate duration in seconds if startTime exists
-    if (call?.startTime) {
-      duration = Math.round((endTime.getTime() - call.startTime.getTime()) / 1000);
-    }
+        // Calculate duration in seconds if startTime exists
+        if (call?.startTime) {
+          duration = Math.round((endTime.getTime() - call.startTime.getTime()) / 1000);
+        }
 
-    // Save transcript and update call status
-    const messages = session.pipeline.getMessages();
-    await prisma.call.update({
-      where: { callSid: session.callSid },
-      data: {
-        transcript: messages as any,
-        status: 'completed',
-        endTime,
-        duration,
-      },
+        // Save transcript and update call status
+        const messages = session.pipeline.getMessages();
+        const latencySamples = session.pipeline.getLatencySamples();
+        const toolInvocations = session.pipeline.getToolInvocations();
+        const extractedData = session.pipeline.getExtractedData();
+        const totals = latencySamples.map((sample) => sample.total);
+        const updatedCall = await prisma.call.update({
+          where: { callSid: session.callSid },
+          data: {
+            transcript: messages as any,
+            status: 'completed',
+            endTime,
+            duration,
+            endReason: session.endReason || CALL_END_REASONS.CALLER_HANGUP,
+            detectedLanguage: session.pipeline.getCurrentLanguage(),
+            interruptions: session.pipeline.getInterruptionCount(),
+            ...(Object.keys(extractedData).length > 0 && { extractedData }),
+            ...(totals.length > 0 && {
+              avgLatency: Math.round(totals.reduce((sum, total) => sum + total, 0) / totals.length),
+              p95Latency: percentile(totals, 95),
+            }),
+            ...(session.endDetail && {
+              metadata: { ...((call?.metadata as Record<string, any>) || {}), endCall: session.endDetail },
+            }),
+          },
+        });
+        callId = updatedCall.id;
+
+        // Latency samples and tool invocations are extras; losing them shouldn't lose the call
+        if (latencySamples.length > 0) {
+          await prisma.callLatencySample.createMany({
+            data: latencySamples.map((sample) => ({
+              callId: updatedCall.id,
+              turn: sample.turn,
+              sttMs: sample.stt,
+              llmMs: sample.llm,
+              ttsMs: sample.tts,
+              totalMs: sample.total,
+              llmModel: session.llmModel,
+              voiceProvider: session.voiceProvider,
+            })),
+          }).catch((error) => logger.error('[MediaStream] Failed to save latency samples:', error));
+        }
+
+        if (toolInvocations.length > 0) {
+          await prisma.toolInvocation.createMany({
+            data: toolInvocations.map((invocation) => ({
+              callId: updatedCall.id,
+              ...invocation,
+            })),
+          }).catch((error) => logger.error('[MediaStream] Failed to save tool invocations:', error));
+        }
+      } finally {
+        // Close the STT/TTS streams whether or not the call was saved
+        await session.pipeline.stop().catch((error) => logger.error('[MediaStream] Failed to stop pipeline:', error));
+      }
+
+      // Collected fields flow on to the campaign lead and the caller's contact
+      await applyExtractedData(callId);
+
+      // Summary, sentiment, disposition and action items are filled in by the post-call job,
+      // which also sends the call.ended webhook (calls without a transcript skip the analysis)
+      await postCallService.enqueueCall(callId);
+    }
+  } catch (error) {
+    logger.error('[MediaStream] Failed to save call on stream stop:', error);
+  } finally {
+    // Clean up
+    activeSessions.delete(session.callSid);
+    metricsCollector.removeTracker(session.callSid);
+
+    // Notify dashboard
+    broadcastToUser(session.userId, 'call_ended', {
+      callSid: session.callSid,
     });
+  }
+}
+
+/**
+ * Speak the voicemail message saved by the voice webhook in the agent's voice,
+ * then hang up once it has played. Nobody is listening, so there's no pipeline.
+ */
+async function leaveVoicemail(
+  session: CallSession,
+  agent: {
+    voice: string;
+    voiceProvider: string;
+    voiceSettings: unknown;
+    language: string;
+    user: TwilioAccountUser;
+  }
+) {
+  const call = await prisma.call.findUnique({
+    where: { callSid: session.callSid },
+    select: { metadata: true },
+  });
+  const message = (call?.metadata as Record<string, any> | null)?.voicemailDrop;
 
-    await session.pipeline.stop();
+  if (!message || !session.streamSid) {
+    await hangUpCall(session, agent.user);
+    return;
   }
 
-  // Clean up
-  activeSessions.delete(session.callSid);
-  metricsCollector.removeTracker(session.callSid);
+  const tts = createTTSService(agent);
+  tts.setLanguage(agent.language || 'en-US');
 
-  // Notify dashboard
-  broadcastToUser(session.userId, 'call_ended', {
+  const startedAt = Date.now();
+  const streamSid = session.streamSid;
+  const { durationMs } = await tts.streamTTSForTwilio(
+    message,
+    tts.resolveVoiceId(agent.voice),
+    parseVoiceSettings(agent.voiceSettings),
+    (chunk) => sendAudioToTwilio(session.ws, streamSid, chunk)
+  );
+
+  await prisma.call.update({
+    where: { callSid: session.callSid },
+    data: { voicemailLeft: true },
+  });
+
+  logger.info('[MediaStream] Voicemail message streamed', { callSid: session.callSid, durationMs });
+
+  // Generation outpaces playback; hang up when the audio has actually finished
+  const remainingMs = Math.max(0, startedAt + durationMs - Date.now());
+  session.durationTimers.push(setTimeout(() => {
+    hangUpCall(session, agent.user);
+  }, remainingMs + VOICEMAIL_HANGUP_GRACE_MS));
+}
+
+/**
+ * Give the session a duration budget: the agent's maxCallDuration (or callTimeout
+ * for outbound calls, whichever is shorter), capped by the minutes and credits the
+ * account has left. Near the end the agent warns the caller, then wraps up and
+ * hangs up; a hard limit catches anything the graceful path misses.
+ */
+function startDurationBudget(
+  session: CallSession,
+  agent: {
+    maxCallDuration: number;
+    callTimeout: number;
+    user: { minutesUsed: number; minutesLimit: number; creditsBalance: unknown } & TwilioAccountUser;
+  },
+  direction: string,
+  startTime: Date
+) {
+  const agentLimitSeconds = direction === 'outbound'
+    ? Math.min(agent.maxCallDuration, agent.callTimeout)
+    : agent.maxCallDuration;
+
+  // Included minutes first, then credits at the per-minute overage rate
+  const includedMinutesLeft = Math.max(0, agent.user.minutesLimit - agent.user.minutesUsed);
+  const creditMinutesLeft = Math.floor(
+    Math.max(0, Number(agent.user.creditsBalance)) / (VOICE_MINUTE_RATE_USD * CREDITS_PER_USD)
+  );
+  const quotaSeconds = (includedMinutesLeft + creditMinutesLeft) * 60;
+
+  const limitedByQuota = quotaSeconds < agentLimitSeconds;
+  const budgetSeconds = Math.min(agentLimitSeconds, quotaSeconds);
+  const endReason = limitedByQuota ? CALL_END_REASONS.QUOTA_EXHAUSTED : CALL_END_REASONS.MAX_DURATION;
+
+  const elapsedMs = Date.now() - startTime.getTime();
+  const remainingMs = Math.max(0, budgetSeconds * 1000 - elapsedMs);
+
+  logger.info('[MediaStream] Call duration budget', {
     callSid: session.callSid,
+    budgetSeconds,
+    remainingSeconds: Math.round(remainingMs / 1000),
+    limitedByQuota,
+  });
+
+  const warningMs = remainingMs - DURATION_WARNING_SECONDS * 1000;
+  if (warningMs > 0) {
+    session.durationTimers.push(setTimeout(() => {
+      session.pipeline?.warnTimeRemaining(DURATION_WARNING_SECONDS).catch((error) =>
+        logger.error('[MediaStream] Duration warning error:', error)
+      );
+    }, warningMs));
+  }
+
+  session.durationTimers.push(setTimeout(() => {
+    session.pipeline?.wrapUpCall(endReason).catch((error) =>
+      logger.error('[MediaStream] Duration wrap-up error:', error)
+    );
+  }, remainingMs));
+
+  session.durationTimers.push(setTimeout(async () => {
+    logger.warn('[MediaStream] Hard duration limit reached, hanging up', { callSid: session.callSid });
+    session.endReason = session.endReason || endReason;
+    await hangUpCall(session, agent.user);
+  }, remainingMs + HARD_LIMIT_GRACE_SECONDS * 1000));
+}
+
+type TwilioAccountUser = {
+  twilioAccountSid: string | null;
+  twilioAuthToken: string | null;
+  twilioConfigured: boolean;
+};
+
+// Use the account's own Twilio credentials when configured, platform credentials otherwise
+function getTwilioServiceForUser(user: TwilioAccountUser): TwilioService {
+  return user.twilioConfigured && user.twilioAccountSid && user.twilioAuthToken
+    ? new TwilioService({
+        accountSid: user.twilioAccountSid,
+        authToken: decrypt(user.twilioAuthToken),
+      })
+    : new TwilioService();
+}
+
+/**
+ * End the Twilio call from our side.
+ * If the API call fails, closing the media stream ends the <Connect> verb and
+ * Twilio hangs up since there's no TwiML left to run.
+ */
+async function hangUpCall(session: CallSession, user: TwilioAccountUser) {
+  logger.info('[MediaStream] Agent ending call', { callSid: session.callSid, reason: session.endReason });
+
+  try {
+    await getTwilioServiceForUser(user).endCall(session.callSid);
+  } catch (error) {
+    logger.error('[MediaStream] Failed to end call via Twilio, closing stream instead:', error);
+    session.ws.close();
+  }
+}
+
+/**
+ * Redirect the live call to a human with <Dial>. The transfer details are saved
+ * on the call first so the warm-transfer whisper webhook can read the summary.
+ */
+async function transferCall(session: CallSession, user: TwilioAccountUser, transfer: TransferRequest) {
+  logger.info('[MediaStream] Agent transferring call', { callSid: session.callSid, to: transfer.to, mode: transfer.mode });
+
+  const call = await prisma.call.findUnique({
+    where: { callSid: session.callSid },
+    select: { metadata: true },
+  });
+  const metadata = (call?.metadata as Record<string, any>) || {};
+
+  await prisma.call.update({
+    where: { callSid: session.callSid },
+    data: {
+      metadata: {
+        ...metadata,
+        transfer: { ...transfer, requestedAt: new Date().toISOString() },
+      },
+    },
   });
+
+  try {
+    const whisperUrl = transfer.mode === 'warm'
+      ? `${config.apiUrl}/webhooks/twilio/transfer-whisper?callSid=${session.callSid}`
+      : undefined;
+
+    await getTwilioServiceForUser(user).transferCall(session.callSid, transfer.to, whisperUrl);
+  } catch (error) {
+    logger.error('[MediaStream] Transfer failed, ending call:', error);
+    session.endReason = CALL_END_REASONS.TRANSFER_FAILED;
+    session.ws.close();
+  }
 }
 
 // Track audio chunks for logging (don't spam logs during streaming)
@@ -505,6 +895,14 @@ export function broadcastCampaignStatsUpdated(userId: string, campaignId: string
   });
 }
 
+export function broadcastCallAnalyzed(userId: string, callSid: string, analysis: any) {
+  broadcastToUser(userId, 'call_analyzed', {
+    callSid,
+    ...analysis,
+    timestamp: new Date().toISOString(),
+  });
+}
+
 // Export for external access
 export function getActiveSessions(): Map<string, CallSession> {
   return activeSessions;
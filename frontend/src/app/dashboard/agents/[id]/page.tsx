@@ -8,15 +8,23 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { api, ApiError } from '@/lib/api';
+import { api, ApiError, IvrMenu, ExtractionField } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
-import { ELEVENLABS_VOICES, AGENT_MODES, AgentMode, getSystemPromptForMode, BusinessContext, COMMUNICATION_CHANNELS, CommunicationChannel, supportsVoice, supportsMessaging, getModeDescription, MEDIA_TOOLS, CALL_PURPOSES, CallPurposeType } from '@/lib/constants';
+import { ELEVENLABS_VOICES, DEFAULT_LLM_MODELS, LLM_PROVIDERS, LLMProvider, getLLMModelName, SUPPORTED_LANGUAGES, getLanguageName, INTERRUPT_THRESHOLDS, getInterruptThresholdName, AGENT_WEBHOOK_EVENTS, AGENT_MODES, AgentMode, BusinessContext, COMMUNICATION_CHANNELS, CommunicationChannel, supportsVoice, supportsMessaging, getModeDescription, MEDIA_TOOLS, CALL_PURPOSES, CallPurposeType } from '@/lib/constants';
 import { VoiceSelector } from '@/components/VoiceSelector';
 import { OutboundCallDialog } from '@/components/OutboundCallDialog';
 import { OutboundMessageDialog } from '@/components/OutboundMessageDialog';
 import { DeleteButton } from '@/components/DeleteButton';
+import { AgentWebhookPanel } from '@/components/AgentWebhookPanel';
+import { IvrMenuEditor } from '@/components/IvrMenuEditor';
+import { ExtractionSchemaEditor } from '@/components/ExtractionSchemaEditor';
+import { AgentToolsPanel } from '@/components/AgentToolsPanel';
+import { AgentVersionHistory } from '@/components/AgentVersionHistory';
+import { PromptTemplateHint } from '@/components/PromptTemplateHint';
+import { SaveTemplateDialog } from '@/components/SaveTemplateDialog';
 import { canAccessFeature, Plan } from '@/lib/subscription';
-import { User, Phone, ArrowLeft, ArrowDownLeft, ArrowUpRight, ArrowLeftRight, Bot, Calendar, CheckCircle, XCircle, ExternalLink, Sparkles, Wrench, ChevronDown, Settings, AlertCircle, Building2, MessageSquare, Layers, Image as ImageIcon, FileText, Video, HelpCircle, ClipboardList, Bell, Edit, X, Save, Loader2, Trash2, Lock } from 'lucide-react';
+import { findPromptTemplateErrors } from '@/lib/utils';
+import { User, Phone, ArrowLeft, ArrowDownLeft, ArrowUpRight, ArrowLeftRight, Bot, Calendar, CheckCircle, XCircle, ExternalLink, Sparkles, Wrench, ChevronDown, Settings, AlertCircle, Building2, MessageSquare, Layers, Image as ImageIcon, FileText, Video, HelpCircle, ClipboardList, Bell, Edit, X, Save, Loader2, Trash2, Lock, BookmarkPlus } from 'lucide-react';
 
 interface Agent {
   id: string;
@@ -25,6 +33,11 @@ interface Agent {
   voice: string;
   voiceProvider: string;
   llmModel: string;
+  llmProvider: LLMProvider;
+  llmBaseUrl?: string;
+  llmApiKeySet?: boolean;
+  language?: string;
+  autoDetectLanguage?: boolean;
   systemPrompt: string;
   greeting?: string;
   template?: string;
@@ -35,6 +48,19 @@ interface Agent {
   mode: AgentMode;
   communicationChannel: CommunicationChannel;
   outboundGreeting?: string;
+  voicemailMessage?: string | null;
+  ivrMenu?: IvrMenu | null;
+  phoneTreeNavigation?: boolean;
+  callerContext?: boolean;
+  extractionSchema?: ExtractionField[] | null;
+  endCallPhrases?: string[];
+  transferNumber?: string;
+  transferMode?: 'cold' | 'warm';
+  interruptible?: boolean;
+  interruptThreshold?: number;
+  webhookUrl?: string;
+  webhookEvents?: string[];
+  currentVersionId?: string | null;
   callTimeout: number;
   retryAttempts: number;
   callWindowStart?: string;
@@ -158,6 +184,7 @@ export default function AgentDetailPage() {
   const [saving, setSaving] = useState(false);
   const [editing, setEditing] = useState(searchParams.get('edit') === 'true');
   const [showCallDialog, setShowCallDialog] = useState(false);
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false);
   const [showMessageDialog, setShowMessageDialog] = useState(false);
 
   // Form state
@@ -167,8 +194,27 @@ export default function AgentDetailPage() {
   const [voiceId, setVoiceId] = useState('');
   const [mode, setMode] = useState<AgentMode>('INBOUND');
   const [outboundGreeting, setOutboundGreeting] = useState('');
+  const [voicemailMessage, setVoicemailMessage] = useState('');
   const [callWindowStart, setCallWindowStart] = useState('');
   const [callWindowEnd, setCallWindowEnd] = useState('');
+  const [endCallPhrases, setEndCallPhrases] = useState('');
+  const [transferNumber, setTransferNumber] = useState('');
+  const [ivrMenu, setIvrMenu] = useState<IvrMenu | null>(null);
+  const [phoneTreeNavigation, setPhoneTreeNavigation] = useState(false);
+  const [callerContext, setCallerContext] = useState(false);
+  const [extractionSchema, setExtractionSchema] = useState<ExtractionField[]>([]);
+  const [transferMode, setTransferMode] = useState<'cold' | 'warm'>('cold');
+  const [interruptible, setInterruptible] = useState(true);
+  const [interruptThreshold, setInterruptThreshold] = useState(500);
+  const [language, setLanguage] = useState('en-US');
+  const [autoDetectLanguage, setAutoDetectLanguage] = useState(false);
+  const [llmProvider, setLlmProvider] = useState<LLMProvider>('openai');
+  const [llmModel, setLlmModel] = useState('gpt-4o-mini');
+  const [llmBaseUrl, setLlmBaseUrl] = useState('');
+  const [llmApiKey, setLlmApiKey] = useState('');
+  const [llmApiKeySet, setLlmApiKeySet] = useState(false);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [webhookEvents, setWebhookEvents] = useState<string[]>([]);
   const [calendarEnabled, setCalendarEnabled] = useState(false);
   const [calendarStatus, setCalendarStatus] = useState<CalendarStatus | null>(null);
   // Calendar configuration (agent-centric)
@@ -372,8 +418,27 @@ export default function AgentDetailPage() {
         setVoiceId(response.data.voice || ELEVENLABS_VOICES[0].id);
         setMode(response.data.mode || 'INBOUND');
         setOutboundGreeting(response.data.outboundGreeting || '');
+        setVoicemailMessage(response.data.voicemailMessage || '');
         setCallWindowStart(response.data.callWindowStart || '');
         setCallWindowEnd(response.data.callWindowEnd || '');
+        setEndCallPhrases((response.data.endCallPhrases || []).join(', '));
+        setTransferNumber(response.data.transferNumber || '');
+        setIvrMenu(response.data.ivrMenu || null);
+        setPhoneTreeNavigation(response.data.phoneTreeNavigation || false);
+        setCallerContext(response.data.callerContext || false);
+        setExtractionSchema(response.data.extractionSchema || []);
+        setTransferMode(response.data.transferMode || 'cold');
+        setInterruptible(response.data.interruptible ?? true);
+        setInterruptThreshold(response.data.interruptThreshold ?? 500);
+        setLanguage(response.data.language || 'en-US');
+        setAutoDetectLanguage(response.data.autoDetectLanguage || false);
+        setLlmProvider(response.data.llmProvider || 'openai');
+        setLlmModel(response.data.llmModel || 'gpt-4o-mini');
+        setLlmBaseUrl(response.data.llmBaseUrl || '');
+        setLlmApiKey('');
+        setLlmApiKeySet(response.data.llmApiKeySet || false);
+        setWebhookUrl(response.data.webhookUrl || '');
+        setWebhookEvents(response.data.webhookEvents || []);
         setCalendarEnabled(response.data.calendarEnabled || false);
         // Calendar configuration (agent-centric)
         setCalendarIntegrationId(response.data.calendarIntegrationId || '');
@@ -403,6 +468,21 @@ export default function AgentDetailPage() {
   };
 
   const handleSave = async () => {
+    // Only block on problems this edit adds; the saved text may predate these checks
+    const savedErrors = [agent?.systemPrompt, agent?.greeting, agent?.outboundGreeting]
+      .flatMap((text) => findPromptTemplateErrors(text || ''));
+    const templateErrors = [systemPrompt, greeting, outboundGreeting]
+      .flatMap((text) => findPromptTemplateErrors(text))
+      .filter((error) => !savedErrors.includes(error));
+    if (templateErrors.length > 0) {
+      toast({
+        title: 'Check your variables',
+        description: templateErrors[0],
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setSaving(true);
     try {
       await api.updateAgent(params.id as string, {
@@ -412,8 +492,27 @@ export default function AgentDetailPage() {
         voiceId,
         mode,
         outboundGreeting: outboundGreeting || undefined,
+        voicemailMessage: voicemailMessage.trim() || null,
         callWindowStart: callWindowStart || undefined,
         callWindowEnd: callWindowEnd || undefined,
+        endCallPhrases: endCallPhrases.split(',').map(p => p.trim()).filter(Boolean),
+        transferNumber: transferNumber.trim() || null,
+        ivrMenu,
+        phoneTreeNavigation,
+        callerContext,
+        extractionSchema: extractionSchema.filter(f => f.label.trim() && f.key),
+        transferMode,
+        interruptible,
+        interruptThreshold,
+        language,
+        autoDetectLanguage,
+        llmProvider,
+        llmModel: llmModel.trim(),
+        llmBaseUrl: llmProvider === 'openai-compatible' ? llmBaseUrl.trim() || null : undefined,
+        // Leave the stored key untouched unless a new one was typed
+        llmApiKey: llmProvider === 'openai-compatible' && llmApiKey ? llmApiKey : undefined,
+        webhookUrl: webhookUrl.trim() || null,
+        webhookEvents,
         // Calendar configuration (agent-centric)
         calendarEnabled,
         calendarIntegrationId: calendarEnabled ? calendarIntegrationId || undefined : undefined,
@@ -566,6 +665,14 @@ export default function AgentDetailPage() {
                   <Edit className="h-4 w-4 mr-2" />
                   Edit
                 </Button>
+                {/* Save as template button */}
+                <Button variant="outline" size="icon" onClick={() => setShowTemplateDialog(true)} className="sm:hidden text-teal-600 border-teal-600 hover:bg-teal-50">
+                  <BookmarkPlus className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" onClick={() => setShowTemplateDialog(true)} className="hidden sm:flex text-teal-600 border-teal-600 hover:bg-teal-50">
+                  <BookmarkPlus className="h-4 w-4 mr-2" />
+                  Save as Template
+                </Button>
                 {/* Delete button */}
                 <DeleteButton
                   variant="full"
@@ -661,6 +768,10 @@ export default function AgentDetailPage() {
                   <Edit className="h-4 w-4 mr-2" />
                   Edit
                 </Button>
+                <Button variant="outline" onClick={() => setShowTemplateDialog(true)} className="text-teal-600 border-teal-600 hover:bg-teal-50">
+                  <BookmarkPlus className="h-4 w-4 mr-2" />
+                  Save as Template
+                </Button>
                 <DeleteButton
                   variant="full"
                   onDelete={handleDelete}
@@ -1128,6 +1239,7 @@ export default function AgentDetailPage() {
                     onChange={(e) => setGreeting(e.target.value)}
                     placeholder={`e.g., Hi, this is ${ELEVENLABS_VOICES.find(v => v.id === voiceId)?.name || 'your assistant'}. How can I help you today?`}
                   />
+                  <PromptTemplateHint value={greeting} />
                 </div>
               )}
               {(mode === 'OUTBOUND' || mode === 'HYBRID') && (
@@ -1140,7 +1252,31 @@ export default function AgentDetailPage() {
                       onChange={(e) => setOutboundGreeting(e.target.value)}
                       placeholder={`e.g., Hi, this is ${ELEVENLABS_VOICES.find(v => v.id === voiceId)?.name || 'your assistant'} calling from ${businessProfile?.organizationName || '[company]'}...`}
                     />
+                    <PromptTemplateHint value={outboundGreeting} />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="voicemailMessage" className="text-muted-foreground">Voicemail Message (optional)</Label>
+                    <textarea
+                      id="voicemailMessage"
+                      value={voicemailMessage}
+                      onChange={(e) => setVoicemailMessage(e.target.value)}
+                      maxLength={1000}
+                      placeholder={`e.g., Hi, this is ${ELEVENLABS_VOICES.find(v => v.id === voiceId)?.name || 'your assistant'} from ${businessProfile?.organizationName || '[company]'}. Sorry we missed you - please call us back at your convenience.`}
+                      className="w-full min-h-[80px] px-3 py-2 border rounded-md bg-background"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Left once after the beep when an outbound call reaches voicemail. Use text to speak it in this agent&apos;s voice, or an audio file URL to play a recording. Leave empty to hang up without a message.
+                    </p>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={phoneTreeNavigation}
+                      onChange={(e) => setPhoneTreeNavigation(e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 accent-teal-600 focus:ring-teal-500"
+                    />
+                    Navigate phone menus and wait on hold when calling businesses
+                  </label>
                 </>
               )}
 
@@ -1171,6 +1307,231 @@ export default function AgentDetailPage() {
                 </div>
               </div>
 
+              {/* End Call Phrases - only for voice-capable channels */}
+              {supportsVoice(communicationChannel) && (
+                <div className="space-y-2">
+                  <Label htmlFor="endCallPhrases" className="text-muted-foreground">End Call Phrases (optional)</Label>
+                  <Input
+                    id="endCallPhrases"
+                    value={endCallPhrases}
+                    onChange={(e) => setEndCallPhrases(e.target.value)}
+                    placeholder="e.g., goodbye, have a great day"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Comma-separated. The agent hangs up after saying any of these.
+                  </p>
+                </div>
+              )}
+
+              {/* Call Transfer - only for voice-capable channels */}
+              {supportsVoice(communicationChannel) && (
+                <div className="space-y-2">
+                  <Label htmlFor="transferNumber" className="text-muted-foreground">Transfer Number (optional)</Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input
+                      id="transferNumber"
+                      value={transferNumber}
+                      onChange={(e) => setTransferNumber(e.target.value)}
+                      placeholder="+15551234567"
+                      className="col-span-2"
+                    />
+                    <select
+                      className="w-full px-3 py-2 text-sm border rounded-md bg-white"
+                      value={transferMode}
+                      onChange={(e) => setTransferMode(e.target.value as 'cold' | 'warm')}
+                      disabled={!transferNumber.trim()}
+                    >
+                      <option value="cold">Cold transfer</option>
+                      <option value="warm">Warm transfer</option>
+                    </select>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    When a caller asks for a person, the agent transfers them here. Warm transfers read a short summary to your team member before connecting.
+                  </p>
+                </div>
+              )}
+
+              {/* IVR menu - inbound voice calls only */}
+              {supportsVoice(communicationChannel) && (mode === 'INBOUND' || mode === 'HYBRID') && (
+                <IvrMenuEditor agentId={agent.id} value={ivrMenu} onChange={setIvrMenu} />
+              )}
+
+              {/* Caller profile from contacts and history - opt-in for privacy */}
+              {supportsVoice(communicationChannel) && (
+                <div className="space-y-1">
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={callerContext}
+                      onChange={(e) => setCallerContext(e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 accent-teal-600 focus:ring-teal-500"
+                    />
+                    Recognize returning callers
+                  </label>
+                  <p className="text-xs text-muted-foreground">
+                    Adds their contact details, summaries of past calls, recent texts and upcoming appointments the agent booked on earlier calls to the agent&apos;s prompt so it can greet them by name. Appointments made outside a call aren&apos;t included. Leave off if callers share phones or this data is sensitive.
+                  </p>
+                </div>
+              )}
+
+              {/* Structured data the agent collects on calls */}
+              {supportsVoice(communicationChannel) && (
+                <ExtractionSchemaEditor value={extractionSchema} onChange={setExtractionSchema} />
+              )}
+
+              {/* Barge-in - only for voice-capable channels */}
+              {supportsVoice(communicationChannel) && (
+                <div className="space-y-2">
+                  <Label htmlFor="interruptThreshold" className="text-muted-foreground">Caller Interruptions</Label>
+                  <select
+                    id="interruptThreshold"
+                    className="w-full px-3 py-2 text-sm border rounded-md bg-white"
+                    value={interruptible ? String(interruptThreshold) : 'off'}
+                    onChange={(e) => {
+                      if (e.target.value === 'off') {
+                        setInterruptible(false);
+                      } else {
+                        setInterruptible(true);
+                        setInterruptThreshold(parseInt(e.target.value, 10));
+                      }
+                    }}
+                  >
+                    {INTERRUPT_THRESHOLDS.map((threshold) => (
+                      <option key={threshold.value} value={threshold.value}>
+                        {threshold.name} - {threshold.description}
+                      </option>
+                    ))}
+                    {interruptible && !INTERRUPT_THRESHOLDS.some(t => t.value === interruptThreshold) && (
+                      <option value={interruptThreshold}>Custom ({interruptThreshold}ms)</option>
+                    )}
+                    <option value="off">Off - The agent always finishes speaking</option>
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    Backchannels like &quot;mm-hmm&quot; and &quot;yeah&quot; never interrupt the agent.
+                  </p>
+                </div>
+              )}
+
+              {/* Call Language - only for voice-capable channels */}
+              {supportsVoice(communicationChannel) && (
+                <div className="space-y-2">
+                  <Label htmlFor="language" className="text-muted-foreground">Call Language</Label>
+                  <select
+                    id="language"
+                    className="w-full px-3 py-2 text-sm border rounded-md bg-white"
+                    value={language}
+                    onChange={(e) => setLanguage(e.target.value)}
+                  >
+                    {SUPPORTED_LANGUAGES.map((lang) => (
+                      <option key={lang.code} value={lang.code}>{lang.name}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={autoDetectLanguage}
+                      onChange={(e) => setAutoDetectLanguage(e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 accent-teal-600 focus:ring-teal-500"
+                    />
+                    Switch languages automatically when the caller does
+                  </label>
+                </div>
+              )}
+
+              {/* Language Model */}
+              <div className="space-y-2">
+                <Label htmlFor="llmProvider" className="text-muted-foreground">Language Model</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  <select
+                    id="llmProvider"
+                    className="w-full px-3 py-2 text-sm border rounded-md bg-white"
+                    value={llmProvider}
+                    onChange={(e) => {
+                      const provider = e.target.value as LLMProvider;
+                      setLlmProvider(provider);
+                      if (provider === 'openai' && !DEFAULT_LLM_MODELS.some(m => m.id === llmModel)) {
+                        setLlmModel('gpt-4o-mini');
+                      }
+                    }}
+                  >
+                    {LLM_PROVIDERS.map((provider) => (
+                      <option key={provider.id} value={provider.id}>{provider.name}</option>
+                    ))}
+                  </select>
+                  {llmProvider === 'openai' ? (
+                    <select
+                      className="w-full px-3 py-2 text-sm border rounded-md bg-white"
+                      value={llmModel}
+                      onChange={(e) => setLlmModel(e.target.value)}
+                    >
+                      {DEFAULT_LLM_MODELS.map((model) => (
+                        <option key={model.id} value={model.id}>{model.name}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <Input
+                      value={llmModel}
+                      onChange={(e) => setLlmModel(e.target.value)}
+                      placeholder="Model name, e.g. llama3.1"
+                    />
+                  )}
+                </div>
+                {llmProvider === 'openai-compatible' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      value={llmBaseUrl}
+                      onChange={(e) => setLlmBaseUrl(e.target.value)}
+                      placeholder="https://llm.example.com/v1"
+                    />
+                    <Input
+                      type="password"
+                      value={llmApiKey}
+                      onChange={(e) => setLlmApiKey(e.target.value)}
+                      placeholder={llmApiKeySet ? 'API key saved (leave blank to keep)' : 'API key (optional)'}
+                    />
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Used for calls, messages and agent tests. Smaller models respond faster on live calls.
+                </p>
+              </div>
+
+              {/* Webhook */}
+              <div className="space-y-2">
+                <Label htmlFor="webhookUrl" className="text-muted-foreground">Webhook URL (optional)</Label>
+                <Input
+                  id="webhookUrl"
+                  value={webhookUrl}
+                  onChange={(e) => setWebhookUrl(e.target.value)}
+                  placeholder="https://example.com/webhooks/gleam"
+                />
+                {webhookUrl.trim() && (
+                  <div className="grid sm:grid-cols-2 gap-2">
+                    {AGENT_WEBHOOK_EVENTS.map((event) => (
+                      <label key={event.id} className="flex items-start gap-2 text-sm text-slate-600">
+                        <input
+                          type="checkbox"
+                          checked={webhookEvents.includes(event.id)}
+                          onChange={(e) =>
+                            setWebhookEvents(e.target.checked
+                              ? [...webhookEvents, event.id]
+                              : webhookEvents.filter(id => id !== event.id))
+                          }
+                          className="mt-0.5 h-4 w-4 rounded border-gray-300 accent-teal-600 focus:ring-teal-500"
+                        />
+                        <span>
+                          <span className="font-mono">{event.id}</span>
+                          <span className="block text-xs text-muted-foreground">{event.description}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Leave every event unchecked to receive all of them. Failed deliveries are retried with backoff.
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="systemPrompt" className="text-muted-foreground">System Prompt *</Label>
                 <textarea
@@ -1179,6 +1540,7 @@ export default function AgentDetailPage() {
                   onChange={(e) => setSystemPrompt(e.target.value)}
                   className="w-full min-h-[200px] px-3 py-2 border rounded-md bg-background"
                 />
+                <PromptTemplateHint value={systemPrompt} showVariables />
                 {/* <Button
                   type="button"
                   variant="outline"
@@ -1446,7 +1808,7 @@ export default function AgentDetailPage() {
                       {ELEVENLABS_VOICES.find(v => v.id === agent.voice)?.description}
                     </p>
                     <p className="text-xs text-muted-foreground mt-2">
-                      Powered by ElevenLabs and GPT-4o Mini
+                      Powered by ElevenLabs and {getLLMModelName(agent.llmModel)}
                     </p>
                   </div>
                 </div>
@@ -1603,6 +1965,71 @@ export default function AgentDetailPage() {
                     <p className="font-medium text-slate-600">{agent.outboundGreeting}</p>
                   </div>
                 )}
+                {(agent.mode === 'OUTBOUND' || agent.mode === 'HYBRID') && agent.voicemailMessage && (
+                  <div className="md:col-span-2">
+                    <Label className="text-muted-foreground">Voicemail Message</Label>
+                    <p className="font-medium text-slate-600 break-words">{agent.voicemailMessage}</p>
+                  </div>
+                )}
+
+                {((agent.language && agent.language !== 'en-US') || agent.autoDetectLanguage) && (
+                  <div>
+                    <Label className="text-muted-foreground">Call Language</Label>
+                    <p className="font-medium text-slate-600">
+                      {getLanguageName(agent.language || 'en-US')}{agent.autoDetectLanguage && ' (auto-detect)'}
+                    </p>
+                  </div>
+                )}
+                {supportsVoice(agent.communicationChannel) && (
+                  <div>
+                    <Label className="text-muted-foreground">Caller Interruptions</Label>
+                    <p className="font-medium text-slate-600">
+                      {agent.interruptible === false ? 'Off' : getInterruptThresholdName(agent.interruptThreshold ?? 500)}
+                    </p>
+                  </div>
+                )}
+                {agent.phoneTreeNavigation && agent.mode !== 'INBOUND' && (
+                  <div>
+                    <Label className="text-muted-foreground">Phone Menus</Label>
+                    <p className="font-medium text-slate-600">Presses keys and waits on hold</p>
+                  </div>
+                )}
+                {agent.callerContext && (
+                  <div>
+                    <Label className="text-muted-foreground">Returning Callers</Label>
+                    <p className="font-medium text-slate-600">Recognized from contacts and call history</p>
+                  </div>
+                )}
+                {agent.extractionSchema && agent.extractionSchema.length > 0 && (
+                  <div>
+                    <Label className="text-muted-foreground">Data to Collect</Label>
+                    <p className="font-medium text-slate-600">
+                      {agent.extractionSchema.map(f => `${f.label}${f.required ? '' : ' (optional)'}`).join(', ')}
+                    </p>
+                  </div>
+                )}
+                {agent.ivrMenu && agent.mode !== 'OUTBOUND' && (
+                  <div>
+                    <Label className="text-muted-foreground">IVR Menu</Label>
+                    <p className="font-medium text-slate-600">
+                      {agent.ivrMenu.options.map(o => `${o.digit}: ${o.label}`).join(', ')}
+                    </p>
+                  </div>
+                )}
+                {agent.transferNumber && (
+                  <div>
+                    <Label className="text-muted-foreground">Transfer Number</Label>
+                    <p className="font-medium text-slate-600">
+                      {formatPhoneNumber(agent.transferNumber)} ({agent.transferMode === 'warm' ? 'warm' : 'cold'})
+                    </p>
+                  </div>
+                )}
+                {agent.endCallPhrases && agent.endCallPhrases.length > 0 && (
+                  <div className="md:col-span-2">
+                    <Label className="text-muted-foreground">End Call Phrases</Label>
+                    <p className="font-medium text-slate-600">{agent.endCallPhrases.join(', ')}</p>
+                  </div>
+                )}
 
                 {/* Divider before System Prompt */}
                 <div className="md:col-span-2 border-t pt-4 mt-2">
@@ -1617,6 +2044,27 @@ export default function AgentDetailPage() {
         </CardContent>
       </Card>
 
+      {/* Custom HTTP tools the agent can call mid-call */}
+      {!editing && agent.communicationChannel !== 'MESSAGING_ONLY' && <AgentToolsPanel agentId={agent.id} />}
+
+      {/* Webhook signing secret and delivery log */}
+      {!editing && agent.webhookUrl && <AgentWebhookPanel agentId={agent.id} />}
+
+      {/* Saved versions with diffs and rollback */}
+      {!editing && (
+        <AgentVersionHistory agentId={agent.id} currentVersionId={agent.currentVersionId} onRollback={fetchAgent} />
+      )}
+
+      {/* Save prompt to the template library */}
+      {showTemplateDialog && agent && (
+        <SaveTemplateDialog
+          agentId={agent.id}
+          agentName={agent.name}
+          systemPrompt={agent.systemPrompt}
+          onClose={() => setShowTemplateDialog(false)}
+        />
+      )}
+
       {/* Outbound Call Dialog */}
       {showCallDialog && agent && (
         <OutboundCallDialog
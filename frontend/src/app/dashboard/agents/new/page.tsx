@@ -8,12 +8,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { api, ApiError } from '@/lib/api';
+import { api, ApiError, PromptTemplate, ModePromptDefaults } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
 import { ELEVENLABS_VOICES, AGENT_MODES, AgentMode, CALL_PURPOSES, CallPurposeType, getSystemPromptForMode, BusinessContext, COMMUNICATION_CHANNELS, CommunicationChannel, supportsVoice, supportsMessaging, getModeDescription, MEDIA_TOOLS } from '@/lib/constants';
 import { VoiceSelector } from '@/components/VoiceSelector';
-import { ArrowDownLeft, ArrowUpRight, ArrowLeftRight, ArrowLeft, Bot, Sparkles, Calendar, Wrench, Phone, AlertCircle, Building2, HelpCircle, ClipboardList, Bell, Edit, MessageCircle, Clock, ChevronDown, Settings, MessageSquare, Layers, Image as ImageIcon, FileText, Video, Check, Lock } from 'lucide-react';
+import { PromptTemplateHint } from '@/components/PromptTemplateHint';
+import { ArrowDownLeft, ArrowUpRight, ArrowLeftRight, ArrowLeft, Bot, Sparkles, Calendar, Wrench, Phone, AlertCircle, Building2, HelpCircle, ClipboardList, Bell, Edit, MessageCircle, Clock, ChevronDown, Settings, MessageSquare, Layers, Image as ImageIcon, FileText, Video, Check, Lock, Trash2 } from 'lucide-react';
 import { canAccessFeature } from '@/lib/subscription';
+import { findPromptTemplateErrors } from '@/lib/utils';
 
 const getModeIcon = (mode: string) => {
   switch (mode) {
@@ -111,6 +113,10 @@ export default function NewAgentPage() {
     eventTypeName?: string
   } | null>(null);
 
+  // Mode prompts for the mode-default template, loaded from the API
+  const [modePrompts, setModePrompts] = useState<ModePromptDefaults | null>(null);
+  const modePromptsRef = useRef<ModePromptDefaults | null>(null);
+
   // Event types state for calendar configuration
   const [eventTypes, setEventTypes] = useState<Array<{ id: string; name: string; duration: number }>>([]);
   const [loadingEventTypes, setLoadingEventTypes] = useState(false);
@@ -125,6 +131,10 @@ export default function NewAgentPage() {
   const [organizationDropdownOpen, setOrganizationDropdownOpen] = useState(false);
   const organizationDropdownRef = useRef<HTMLDivElement>(null);
 
+  // Prompt template library (system templates and the user's own)
+  const [libraryTemplates, setLibraryTemplates] = useState<PromptTemplate[]>([]);
+  const [templateVariables, setTemplateVariables] = useState<Record<string, string>>({});
+
   // User plan for feature gating
   const [userPlan, setUserPlan] = useState<'FREE' | 'STARTER' | 'PROFESSIONAL' | 'ENTERPRISE'>('FREE');
   const canAccessHybrid = canAccessFeature(userPlan, 'HYBRID_MODE');
@@ -139,6 +149,9 @@ export default function NewAgentPage() {
     mode: AgentMode;
     communicationChannel: CommunicationChannel;
     outboundGreeting: string;
+    voicemailMessage: string;
+    phoneTreeNavigation: boolean;
+    callerContext: boolean;
     callTimeout: number;
     retryAttempts: number;
     callWindowStart: string;
@@ -161,13 +174,16 @@ export default function NewAgentPage() {
   }>({
     name: '',
     template: 'mode-default',
-    systemPrompt: getSystemPromptForMode('INBOUND', false), // Default to inbound mode prompt
+    systemPrompt: '', // Filled with the inbound mode prompt once it loads
     voiceId: ELEVENLABS_VOICES[0].id,
     voiceSettings: null, // Will be loaded from voice defaults
     greeting: '',
     mode: 'INBOUND',
     communicationChannel: 'VOICE_ONLY',
     outboundGreeting: '',
+    voicemailMessage: '',
+    phoneTreeNavigation: false,
+    callerContext: false,
     callTimeout: 600,
     retryAttempts: 0,
     callWindowStart: '',
@@ -207,6 +223,23 @@ export default function NewAgentPage() {
     }
   }, []);
 
+  // Load mode prompts and fill in the default prompt if nothing has replaced it yet
+  useEffect(() => {
+    api.getModePromptDefaults()
+      .then((response) => {
+        const defaults = response.data || null;
+        modePromptsRef.current = defaults;
+        setModePrompts(defaults);
+        setFormData(prev => (prev.template === 'mode-default' && !prev.systemPrompt
+          ? {
+              ...prev,
+              systemPrompt: getSystemPromptForMode(defaults, prev.mode, !!prev.calendarIntegrationId, undefined, prev.communicationChannel),
+            }
+          : prev));
+      })
+      .catch((error) => console.error('Failed to load mode prompts:', error));
+  }, []);
+
   // Business profile state
   const [businessProfile, setBusinessProfile] = useState<{
     organizationName: string | null;
@@ -230,7 +263,7 @@ export default function NewAgentPage() {
             ...prev,
             calendarIntegrationId: calendars[0].id, // Default to first calendar
             systemPrompt: prev.template === 'mode-default'
-              ? getSystemPromptForMode(prev.mode, true)
+              ? getSystemPromptForMode(modePromptsRef.current, prev.mode, true)
               : prev.systemPrompt
           }));
         }
@@ -275,10 +308,20 @@ export default function NewAgentPage() {
       }
     };
 
+    const fetchLibraryTemplates = async () => {
+      try {
+        const response = await api.getPromptTemplates();
+        setLibraryTemplates(response.data || []);
+      } catch {
+        // Ignore errors - the built-in choices still work
+      }
+    };
+
     checkCalendar();
     fetchPhoneNumbers();
     fetchBusinessProfile();
     fetchUserPlan();
+    fetchLibraryTemplates();
   }, []);
 
   // Fetch event types when a calendar is selected
@@ -382,7 +425,7 @@ export default function NewAgentPage() {
 
       // If using mode-default template, update the system prompt with business context
       if (prev.template === 'mode-default') {
-        updates.systemPrompt = getSystemPromptForMode(newMode, calendarConnected, buildBusinessContext(), prev.communicationChannel);
+        updates.systemPrompt = getSystemPromptForMode(modePrompts, newMode, calendarConnected, buildBusinessContext(), prev.communicationChannel);
       }
 
       return { ...prev, ...updates };
@@ -396,7 +439,7 @@ export default function NewAgentPage() {
 
       // If using mode-default template, update the system prompt for the new channel
       if (prev.template === 'mode-default') {
-        updates.systemPrompt = getSystemPromptForMode(prev.mode, calendarConnected, buildBusinessContext(), newChannel);
+        updates.systemPrompt = getSystemPromptForMode(modePrompts, prev.mode, calendarConnected, buildBusinessContext(), newChannel);
       }
 
       return { ...prev, ...updates };
@@ -406,20 +449,40 @@ export default function NewAgentPage() {
   // Update system prompt when template changes
   const handleTemplateChange = (templateId: string) => {
     const template = templates.find(t => t.id === templateId);
+    const libraryTemplate = libraryTemplates.find(t => t.id === templateId);
     setFormData(prev => {
       const updates: Partial<typeof prev> = { template: templateId };
 
       if (templateId === 'mode-default') {
-        updates.systemPrompt = getSystemPromptForMode(prev.mode, calendarConnected, buildBusinessContext(), prev.communicationChannel);
+        updates.systemPrompt = getSystemPromptForMode(modePrompts, prev.mode, calendarConnected, buildBusinessContext(), prev.communicationChannel);
       } else if (template) {
         updates.systemPrompt = template.prompt;
+      } else if (libraryTemplate) {
+        // The template greeting is filled in by the server unless one is typed here
+        updates.systemPrompt = libraryTemplate.systemPrompt;
       }
 
       return { ...prev, ...updates };
     });
+    setTemplateVariables({});
+  };
+
+  const handleDeleteLibraryTemplate = async (template: PromptTemplate) => {
+    try {
+      await api.deletePromptTemplate(template.id);
+      setLibraryTemplates(prev => prev.filter(t => t.id !== template.id));
+      if (formData.template === template.id) {
+        handleTemplateChange('mode-default');
+      }
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to delete template';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    }
   };
 
   const selectedTemplate = templates.find((t) => t.id === formData.template);
+  const selectedLibraryTemplate = libraryTemplates.find((t) => t.id === formData.template);
+  const libraryVariables = selectedLibraryTemplate?.variables || [];
 
   const handleSubmit = async () => {
     if (!formData.name.trim()) {
@@ -433,6 +496,19 @@ export default function NewAgentPage() {
       return;
     }
 
+    const missingVariable = libraryVariables.find((name) => !templateVariables[name]?.trim());
+    if (missingVariable) {
+      toast({ title: 'Template details required', description: `Please fill in "${missingVariable.replace(/_/g, ' ')}".`, variant: 'destructive' });
+      return;
+    }
+
+    const templateErrors = [prompt, formData.greeting, formData.outboundGreeting, formData.messagingGreeting]
+      .flatMap((text) => findPromptTemplateErrors(text, libraryVariables));
+    if (templateErrors.length > 0) {
+      toast({ title: 'Check your variables', description: templateErrors[0], variant: 'destructive' });
+      return;
+    }
+
     setLoading(true);
     try {
       // Determine if we should include voice settings based on channel
@@ -446,9 +522,14 @@ export default function NewAgentPage() {
         voiceSettings: includeVoice ? (formData.voiceSettings || undefined) : undefined,
         greeting: includeVoice ? formData.greeting : undefined,
         template: formData.template !== 'custom' ? formData.template : undefined,
+        promptTemplateId: selectedLibraryTemplate?.id,
+        templateVariables: selectedLibraryTemplate ? templateVariables : undefined,
         mode: formData.mode,
         communicationChannel: formData.communicationChannel,
         outboundGreeting: includeVoice ? (formData.outboundGreeting || undefined) : undefined,
+        voicemailMessage: includeVoice ? (formData.voicemailMessage.trim() || undefined) : undefined,
+        phoneTreeNavigation: includeVoice ? formData.phoneTreeNavigation : undefined,
+        callerContext: includeVoice ? formData.callerContext : undefined,
         callTimeout: formData.callTimeout,
         retryAttempts: formData.retryAttempts,
         callWindowStart: formData.callWindowStart || undefined,
@@ -560,6 +641,56 @@ export default function NewAgentPage() {
                 </button>
               ))}
             </div>
+
+            {/* Template library: built-in prompts and ones saved from other agents */}
+            {libraryTemplates.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-muted-foreground">Template Library</Label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {libraryTemplates.map((template) => (
+                    <div
+                      key={template.id}
+                      role="button"
+                      tabIndex={0}
+                      className={`p-4 border rounded-lg text-left hover:border-teal-400 transition-colors cursor-pointer ${formData.template === template.id ? 'border-teal-500 bg-teal-50' : ''
+                        }`}
+                      onClick={() => handleTemplateChange(template.id)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleTemplateChange(template.id)}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-2">
+                          <h3 className="font-semibold text-slate-600">{template.name}</h3>
+                          {template.isOwner && (
+                            <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs bg-slate-100 text-slate-600 w-fit">
+                              Yours
+                            </span>
+                          )}
+                        </div>
+                        {template.isOwner && (
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeleteLibraryTemplate(template);
+                            }}
+                            className="text-muted-foreground hover:text-red-600"
+                            aria-label={`Delete ${template.name}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                      {template.description && (
+                        <p className="text-sm text-muted-foreground mt-1">{template.description}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-2 capitalize">
+                        {template.category}{template.usageCount > 0 && ` · used ${template.usageCount} time${template.usageCount === 1 ? '' : 's'}`}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             <div className="flex justify-between">
               {/* Mobile: icon-only */}
               <Button variant="ghost" size="icon" onClick={() => router.push('/dashboard/agents')} className="sm:hidden text-teal-600 hover:text-teal-700 hover:bg-teal-50">
@@ -900,7 +1031,7 @@ export default function NewAgentPage() {
                           setTimeout(() => {
                             setFormData(prev => ({
                               ...prev,
-                              systemPrompt: getSystemPromptForMode(prev.mode, calendarConnected, {
+                              systemPrompt: getSystemPromptForMode(modePrompts, prev.mode, calendarConnected, {
                                 ...buildBusinessContext(),
                                 callPurpose: newPurpose,
                               })
@@ -936,7 +1067,7 @@ export default function NewAgentPage() {
                       setTimeout(() => {
                         setFormData(prev => ({
                           ...prev,
-                          systemPrompt: getSystemPromptForMode(prev.mode, calendarConnected, {
+                          systemPrompt: getSystemPromptForMode(modePrompts, prev.mode, calendarConnected, {
                             ...buildBusinessContext(),
                             callPurpose: e.target.value,
                           })
@@ -1002,8 +1133,29 @@ export default function NewAgentPage() {
                 value={formData.systemPrompt || selectedTemplate?.prompt || ''}
                 onChange={(e) => setFormData({ ...formData, systemPrompt: e.target.value })}
               />
+              <PromptTemplateHint value={formData.systemPrompt || selectedTemplate?.prompt || ''} templateVariables={libraryVariables} showVariables />
             </div>
 
+            {/* Details the library template needs for this client */}
+            {libraryVariables.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-muted-foreground">Template Details *</Label>
+                {libraryVariables.map((name) => (
+                  <div key={name} className="grid grid-cols-[10rem_1fr] items-center gap-2">
+                    <span className="text-sm text-slate-600 capitalize">{name.replace(/_/g, ' ')}</span>
+                    <Input
+                      value={templateVariables[name] || ''}
+                      onChange={(e) => setTemplateVariables({ ...templateVariables, [name]: e.target.value })}
+                      placeholder={`{{${name}}}`}
+                    />
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Filled into the prompt and greeting when the agent is created.
+                </p>
+              </div>
+            )}
+
             {/* Voice greetings - only for voice-capable channels */}
             {supportsVoice(formData.communicationChannel) && (formData.mode === 'INBOUND' || formData.mode === 'HYBRID') && (
               <div className="space-y-2">
@@ -1014,6 +1166,7 @@ export default function NewAgentPage() {
                   value={formData.greeting}
                   onChange={(e) => setFormData({ ...formData, greeting: e.target.value })}
                 />
+                <PromptTemplateHint value={formData.greeting} templateVariables={libraryVariables} />
               </div>
             )}
             {supportsVoice(formData.communicationChannel) && (formData.mode === 'OUTBOUND' || formData.mode === 'HYBRID') && (
@@ -1025,6 +1178,50 @@ export default function NewAgentPage() {
                   value={formData.outboundGreeting}
                   onChange={(e) => setFormData({ ...formData, outboundGreeting: e.target.value })}
                 />
+                <PromptTemplateHint value={formData.outboundGreeting} templateVariables={libraryVariables} />
+              </div>
+            )}
+            {supportsVoice(formData.communicationChannel) && (formData.mode === 'OUTBOUND' || formData.mode === 'HYBRID') && (
+              <div className="space-y-2">
+                <Label htmlFor="voicemailMessage" className="text-muted-foreground">Voicemail Message (optional)</Label>
+                <textarea
+                  id="voicemailMessage"
+                  placeholder={`e.g., Hi, this is ${ELEVENLABS_VOICES.find(v => v.id === formData.voiceId)?.name || 'your assistant'} from ${businessProfile?.organizationName || '[company]'}. Sorry we missed you - please call us back at your convenience.`}
+                  value={formData.voicemailMessage}
+                  onChange={(e) => setFormData({ ...formData, voicemailMessage: e.target.value })}
+                  maxLength={1000}
+                  className="w-full min-h-[80px] px-3 py-2 border rounded-md bg-background"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Left once after the beep when a call reaches voicemail. Text is spoken in the agent&apos;s voice; an audio file URL is played as-is.
+                </p>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={formData.phoneTreeNavigation}
+                    onChange={(e) => setFormData({ ...formData, phoneTreeNavigation: e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-300 accent-teal-600 focus:ring-teal-500"
+                  />
+                  Navigate phone menus and wait on hold when calling businesses
+                </label>
+              </div>
+            )}
+
+            {/* Caller profile from contacts and history - opt-in for privacy */}
+            {supportsVoice(formData.communicationChannel) && (
+              <div className="space-y-1">
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={formData.callerContext}
+                    onChange={(e) => setFormData({ ...formData, callerContext: e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-300 accent-teal-600 focus:ring-teal-500"
+                  />
+                  Recognize returning callers
+                </label>
+                <p className="text-xs text-muted-foreground">
+                  Adds their contact details, summaries of past calls, recent texts and upcoming appointments the agent booked on earlier calls to the agent&apos;s prompt so it can greet them by name. Appointments made outside a call aren&apos;t included. Leave off if callers share phones or this data is sensitive.
+                </p>
               </div>
             )}
 
@@ -1041,6 +1238,7 @@ export default function NewAgentPage() {
                     value={formData.messagingGreeting}
                     onChange={(e) => setFormData({ ...formData, messagingGreeting: e.target.value })}
                   />
+                  <PromptTemplateHint value={formData.messagingGreeting} templateVariables={libraryVariables} />
                 </div>
               </>
             )}
@@ -1099,7 +1297,7 @@ export default function NewAgentPage() {
                             calendarEnabled: enabled,
                             // Update system prompt if using mode-default template
                             systemPrompt: prev.template === 'mode-default'
-                              ? getSystemPromptForMode(prev.mode, enabled)
+                              ? getSystemPromptForMode(modePrompts, prev.mode, enabled)
                               : prev.systemPrompt
                           }));
                         }}
@@ -23,12 +23,13 @@ import {
   UserPlus,
   ArrowRight,
   Flag,
+  Wrench,
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { api, ApiError } from '@/lib/api';
+import { api, ApiError, ToolInvocation, ExtractionField } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
-import { ELEVENLABS_VOICES, STATUS_COLORS, DIRECTION_COLORS, AGENT_MODES } from '@/lib/constants';
+import { ELEVENLABS_VOICES, STATUS_COLORS, DIRECTION_COLORS, AGENT_MODES, CALL_END_REASONS, CALL_DISPOSITIONS, ANSWERED_BY, getLanguageName } from '@/lib/constants';
 import { ContactModal } from '@/components/ContactModal';
 
 const getModeIcon = (mode: string) => {
@@ -56,18 +57,39 @@ interface Call {
   transcript?: any;
   summary?: string;
   sentiment?: string;
+  disposition?: string;
+  actionItems?: string[];
   recordingUrl?: string;
   costUsd?: number;
+  endReason?: string;
+  detectedLanguage?: string;
+  interruptions?: number;
+  answeredBy?: string | null;
+  voicemailLeft?: boolean;
+  avgLatency?: number;
+  p95Latency?: number;
+  metadata?: {
+    transfer?: { to: string; mode: 'cold' | 'warm'; reason?: string | null; summary?: string | null };
+    [key: string]: any;
+  };
   // Agent snapshot (preserves agent config at time of call)
   agentName?: string;
   agentVoice?: string;
   agentVoiceProvider?: string;
+  renderedPrompt?: string | null;
   // Agent relation (current agent data)
   agent?: {
     id: string;
     name: string;
     voice?: string;
+    extractionSchema?: ExtractionField[] | null;
   };
+  // Agent version the call was handled with
+  agentVersion?: { id: string; version: number; note: string | null; createdAt: string } | null;
+  // A/B test arm the call was assigned to
+  experimentVariant?: { id: string; name: string; experiment: { id: string; name: string } } | null;
+  extractedData?: Record<string, string | number | boolean> | null;
+  toolInvocations?: ToolInvocation[];
   createdAt: string;
 }
 
@@ -417,8 +439,68 @@ export default function CallDetailPage() {
                   {new Date(call.startTime || call.createdAt).toLocaleDateString()}
                 </p>
               </div>
+              {call.endReason && (
+                <div>
+                  <p className="text-xs text-muted-foreground">Ended By</p>
+                  <p className="font-medium text-sm text-slate-600">
+                    {CALL_END_REASONS[call.endReason] || call.endReason}
+                  </p>
+                </div>
+              )}
+              {call.metadata?.ivr?.digit && (
+                <div>
+                  <p className="text-xs text-muted-foreground">Menu Choice</p>
+                  <p className="font-medium text-sm text-slate-600">
+                    {call.metadata.ivr.digit}{call.metadata.ivr.option ? ` - ${call.metadata.ivr.option}` : ''}
+                  </p>
+                </div>
+              )}
+              {call.answeredBy && (
+                <div>
+                  <p className="text-xs text-muted-foreground">Answered By</p>
+                  <p className="font-medium text-sm text-slate-600">
+                    {ANSWERED_BY[call.answeredBy] || call.answeredBy}
+                    {call.voicemailLeft && ' (message left)'}
+                  </p>
+                </div>
+              )}
+              {call.detectedLanguage && (
+                <div>
+                  <p className="text-xs text-muted-foreground">Language</p>
+                  <p className="font-medium text-sm text-slate-600">
+                    {getLanguageName(call.detectedLanguage)}
+                  </p>
+                </div>
+              )}
+              {!!call.avgLatency && (
+                <div>
+                  <p className="text-xs text-muted-foreground">Response Time</p>
+                  <p className="font-medium text-sm text-slate-600">
+                    {call.avgLatency}ms avg{call.p95Latency ? ` / ${call.p95Latency}ms p95` : ''}
+                  </p>
+                </div>
+              )}
+              {!!call.interruptions && (
+                <div>
+                  <p className="text-xs text-muted-foreground">Interruptions</p>
+                  <p className="font-medium text-sm text-slate-600">{call.interruptions}</p>
+                </div>
+              )}
             </div>
 
+            {/* Transfer details if the agent escalated to a human */}
+            {call.metadata?.transfer && (
+              <div className="pt-2 border-t">
+                <p className="text-sm text-muted-foreground">
+                  {call.metadata.transfer.mode === 'warm' ? 'Warm' : 'Cold'} transfer to
+                </p>
+                <p className="font-medium text-slate-600">{formatPhoneNumber(call.metadata.transfer.to)}</p>
+                {call.metadata.transfer.summary && (
+                  <p className="text-sm text-muted-foreground mt-1">{call.metadata.transfer.summary}</p>
+                )}
+              </div>
+            )}
+
             {/* Cost if available */}
             {call.costUsd !== undefined && Number(call.costUsd) > 0 && (
               <div className="pt-2 border-t">
@@ -457,7 +539,17 @@ export default function CallDetailPage() {
                         )}
                       </div>
                       <div className="min-w-0 flex-1">
-                        <p className="font-medium text-slate-600 truncate">{displayName}</p>
+                        <p className="font-medium text-slate-600 truncate">
+                          {displayName}
+                          {call.agentVersion && (
+                            <span className="ml-1.5 text-xs font-normal text-muted-foreground">v{call.agentVersion.version}</span>
+                          )}
+                          {call.experimentVariant && (
+                            <span className="ml-1.5 text-xs font-normal text-muted-foreground">
+                              · {call.experimentVariant.experiment.name} ({call.experimentVariant.name})
+                            </span>
+                          )}
+                        </p>
                         <p className="text-sm text-muted-foreground truncate">
                           {fullAgent.totalCalls || 0} calls
                           {fullAgent.callPurpose && (
@@ -579,6 +671,50 @@ export default function CallDetailPage() {
         )}
       </div>
 
+      {/* Custom tool calls made during the conversation */}
+      {call.toolInvocations && call.toolInvocations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg text-slate-600 flex items-center gap-2">
+              <Wrench className="h-5 w-5 text-teal-600" />
+              Tool Calls
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-md divide-y">
+              {call.toolInvocations.map((invocation) => (
+                <div key={invocation.id} className="px-3 py-2 text-sm space-y-1">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className={`px-2 py-0.5 text-xs rounded-full capitalize ${
+                        invocation.status === 'success'
+                          ? 'bg-green-100 text-green-700'
+                          : invocation.status === 'timeout'
+                          ? 'bg-yellow-100 text-yellow-700'
+                          : 'bg-red-100 text-red-700'
+                      }`}>
+                        {invocation.status}
+                      </span>
+                      <span className="font-mono text-slate-600">{invocation.toolName}</span>
+                      <span className="text-muted-foreground truncate">{invocation.method} {invocation.url}</span>
+                    </div>
+                    <span className="text-muted-foreground shrink-0">
+                      {invocation.responseStatus ? `HTTP ${invocation.responseStatus} · ` : ''}{invocation.durationMs}ms
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono break-all">
+                    {JSON.stringify(invocation.arguments)}
+                  </p>
+                  {(invocation.error || invocation.result) && (
+                    <p className="text-xs text-slate-600 break-words">{invocation.error || invocation.result}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Transcript Card */}
       {call.transcript && (
         <Card>
@@ -617,14 +753,70 @@ export default function CallDetailPage() {
         <Card>
           <CardHeader>
             <CardTitle className="text-lg text-slate-600">Call Summary</CardTitle>
-            {call.sentiment && (
+            {(call.sentiment || call.disposition) && (
               <CardDescription>
-                Sentiment: <span className="capitalize">{call.sentiment}</span>
+                {call.disposition && (
+                  <>Outcome: <span className="font-medium">{CALL_DISPOSITIONS[call.disposition] || call.disposition}</span></>
+                )}
+                {call.disposition && call.sentiment && ' · '}
+                {call.sentiment && (
+                  <>Sentiment: <span className="capitalize">{call.sentiment}</span></>
+                )}
               </CardDescription>
             )}
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
             <p className="text-sm">{call.summary}</p>
+            {call.actionItems && call.actionItems.length > 0 && (
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">Action Items</p>
+                <ul className="list-disc pl-5 space-y-1 text-sm text-slate-600">
+                  {call.actionItems.map((item, index) => (
+                    <li key={index}>{item}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Structured data collected for the agent's extraction schema */}
+      {call.extractedData && Object.keys(call.extractedData).length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg text-slate-600">Collected Data</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid sm:grid-cols-2 gap-4">
+              {Object.entries(call.extractedData).map(([key, value]) => (
+                <div key={key}>
+                  <p className="text-xs text-muted-foreground">
+                    {call.agent?.extractionSchema?.find(f => f.key === key)?.label || key.replace(/_/g, ' ')}
+                  </p>
+                  <p className="font-medium text-sm text-slate-600 break-words">
+                    {typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* System prompt as sent to the model, with {{variables}} filled in */}
+      {call.renderedPrompt && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg text-slate-600">Prompt Used</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <details>
+              <summary className="text-sm text-muted-foreground cursor-pointer">Show the system prompt for this call</summary>
+              <p className="mt-3 text-sm text-slate-600 whitespace-pre-wrap bg-slate-50 p-3 rounded-md">
+                {call.renderedPrompt}
+              </p>
+            </details>
           </CardContent>
         </Card>
       )}
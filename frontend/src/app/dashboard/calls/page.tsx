@@ -3,14 +3,14 @@
 import { useEffect, useState, useRef } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
-import { Phone, PhoneCall, ArrowUpRight, ArrowDownLeft, Search, RefreshCw, ChevronDown, Bot, User, Loader2, Users, UserPlus } from 'lucide-react';
+import { Phone, PhoneCall, ArrowUpRight, ArrowDownLeft, Search, RefreshCw, ChevronDown, Bot, User, Loader2, Users, UserPlus, Download } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { api } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
 import { formatDuration, formatDate, formatPhoneNumber } from '@/lib/utils';
-import { ELEVENLABS_VOICES } from '@/lib/constants';
+import { ELEVENLABS_VOICES, CALL_DISPOSITIONS } from '@/lib/constants';
 import { ContactModal } from '@/components/ContactModal';
 import { OutboundCallDialog } from '@/components/OutboundCallDialog';
 import { AgentSelector } from '@/components/AgentSelector';
@@ -103,6 +103,7 @@ export default function CallsPage() {
   const [hasMore, setHasMore] = useState(false);
   const [filter, setFilter] = useState({
     status: '',
+    disposition: '',
     search: '',
     agentId: '',
     duration: '',
@@ -112,13 +113,46 @@ export default function CallsPage() {
   const [addContactModalOpen, setAddContactModalOpen] = useState(false);
   const [selectedPhoneNumber, setSelectedPhoneNumber] = useState<string>('');
   const [showCallDialog, setShowCallDialog] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const blob = await api.exportCalls({
+        status: filter.status && filter.status !== 'transferred' ? filter.status : undefined,
+        endReason: filter.status === 'transferred' ? 'transferred' : undefined,
+        disposition: filter.disposition || undefined,
+        agentId: filter.agentId || undefined,
+        startDate: filter.startDate || undefined,
+        endDate: filter.endDate || undefined,
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `calls-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export calls:', error);
+      toast({
+        title: 'Export failed',
+        description: 'Could not download the call export.',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
 
   const fetchCalls = async (pageNum: number = 1) => {
     try {
       const response = await api.getCalls({
         page: pageNum,
         limit: 20,
-        status: filter.status || undefined,
+        // "Transferred" is tracked as an end reason rather than a Twilio status
+        status: filter.status && filter.status !== 'transferred' ? filter.status : undefined,
+        endReason: filter.status === 'transferred' ? 'transferred' : undefined,
+        disposition: filter.disposition || undefined,
         agentId: filter.agentId || undefined,
         startDate: filter.startDate || undefined,
         endDate: filter.endDate || undefined,
@@ -162,7 +196,7 @@ export default function CallsPage() {
 
   useEffect(() => {
     fetchCalls(1);
-  }, [filter.status, filter.agentId, filter.duration, filter.startDate, filter.endDate]);
+  }, [filter.status, filter.disposition, filter.agentId, filter.duration, filter.startDate, filter.endDate]);
 
   // Helper to get contact name for a phone number
   const getContactName = (phone: string) => {
@@ -253,6 +287,15 @@ export default function CallsPage() {
             <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
+          <Button
+            onClick={handleExport}
+            disabled={exporting}
+            variant="outline"
+            className="text-teal-600 border-teal-600 hover:bg-teal-50"
+          >
+            {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Export CSV
+          </Button>
           <Button
             onClick={() => setShowCallDialog(true)}
             className="bg-gradient-to-b from-[#0fa693] to-teal-600 hover:from-[#0e9585] hover:to-teal-700"
@@ -314,12 +357,25 @@ export default function CallsPage() {
                   { value: 'in-progress', label: 'In Progress' },
                   { value: 'failed', label: 'Failed' },
                   { value: 'no-answer', label: 'No Answer' },
+                  { value: 'transferred', label: 'Transferred' },
                 ]}
                 value={filter.status}
                 onChange={(value) => setFilter({ ...filter, status: value })}
               />
             </div>
 
+            {/* Outcome Filter (post-call disposition) */}
+            <div className="w-[calc(50%-4px)] sm:w-auto sm:min-w-[140px]">
+              <Dropdown
+                options={[
+                  { value: '', label: 'All Outcomes' },
+                  ...Object.entries(CALL_DISPOSITIONS).map(([value, label]) => ({ value, label })),
+                ]}
+                value={filter.disposition}
+                onChange={(value) => setFilter({ ...filter, disposition: value })}
+              />
+            </div>
+
             {/* Date Range */}
             <div className="w-[calc(50%-4px)] sm:w-[130px]">
               <Input
@@ -353,14 +409,14 @@ export default function CallsPage() {
           <CardContent>
             <EmptyState
               icon={Phone}
-              title={filter.status || filter.agentId ? 'No calls found' : 'No calls yet'}
+              title={filter.status || filter.disposition || filter.agentId ? 'No calls found' : 'No calls yet'}
               description={
-                filter.status || filter.agentId
+                filter.status || filter.disposition || filter.agentId
                   ? 'Try adjusting your filters to find what you are looking for.'
                   : 'Your call history will appear here once you start making or receiving calls.'
               }
               action={
-                !filter.status && !filter.agentId
+                !filter.status && !filter.disposition && !filter.agentId
                   ? {
                       label: 'Make a Call',
                       onClick: () => setShowCallDialog(true),
@@ -417,7 +473,7 @@ export default function CallsPage() {
                             <p className="text-xs text-muted-foreground">{call.agent?.name || call.agentName || 'Deleted Agent'}</p>
                           </div>
                         </div>
-                        <CallStatusBadge status={call.status} />
+                        <CallStatusBadge status={call.status} endReason={call.endReason} />
                       </div>
                       <div className="flex items-center justify-between text-xs text-muted-foreground">
                         <span>{call.duration ? formatDuration(call.duration) : '-'}</span>
@@ -511,7 +567,7 @@ export default function CallsPage() {
                             </span>
                           </td>
                           <td className="p-4">
-                            <CallStatusBadge status={call.status} />
+                            <CallStatusBadge status={call.status} endReason={call.endReason} />
                           </td>
                           <td className="p-4">
                             <span className="text-sm text-muted-foreground whitespace-nowrap">
@@ -562,7 +618,16 @@ export default function CallsPage() {
   );
 }
 
-function CallStatusBadge({ status }: { status: string }) {
+function CallStatusBadge({ status, endReason }: { status: string; endReason?: string }) {
+  // Escalated calls are more useful to spot than a plain "Completed"
+  if (endReason === 'transferred') {
+    return (
+      <span className="px-2 py-1 text-xs rounded-full bg-purple-100 text-purple-700">
+        Transferred
+      </span>
+    );
+  }
+
   const styles: Record<string, string> = {
     completed: 'bg-green-100 text-green-700',
     'in-progress': 'bg-blue-100 text-blue-700',
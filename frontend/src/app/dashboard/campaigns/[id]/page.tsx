@@ -12,9 +12,12 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { CampaignStatusBadge } from '@/components/CampaignStatusBadge';
 import { DeleteButton } from '@/components/DeleteButton';
-import { api, ApiError } from '@/lib/api';
+import { CallerIdPoolEditor, CallerIdPool } from '@/components/CallerIdPoolEditor';
+import { CampaignSequenceEditor } from '@/components/CampaignSequenceEditor';
+import { CampaignFunnel } from '@/components/CampaignFunnel';
+import { api, ApiError, CampaignStepInput } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
-import { ELEVENLABS_VOICES } from '@/lib/constants';
+import { ELEVENLABS_VOICES, CALL_DISPOSITIONS, CAMPAIGN_TIMEZONES, getTimezoneName } from '@/lib/constants';
 import { formatPhoneNumber } from '@/lib/utils';
 
 const formatDuration = (seconds: number) => {
@@ -45,11 +48,16 @@ export default function CampaignDetailPage() {
     description: '',
     callWindowStart: '',
     callWindowEnd: '',
+    timezone: 'America/New_York',
     dailyCallLimit: 100,
     callsPerHour: null as number | null,
     minCallInterval: 30,
+    maxConcurrentCalls: 1,
     maxRetryAttempts: 3,
     retryInterval: 3600,
+    voicemailMessage: '',
+    callerId: { phoneNumberIds: [], localPresence: false, callsPerNumberPerDay: null } as CallerIdPool,
+    steps: [] as CampaignStepInput[],
   });
 
   // Leads pagination
@@ -83,11 +91,26 @@ export default function CampaignDetailPage() {
         description: campaign.description || '',
         callWindowStart: campaign.callWindowStart || '09:00',
         callWindowEnd: campaign.callWindowEnd || '17:00',
+        timezone: campaign.timezone || 'America/New_York',
         dailyCallLimit: campaign.dailyCallLimit || 100,
         callsPerHour: campaign.callsPerHour,
         minCallInterval: campaign.minCallInterval || 30,
+        maxConcurrentCalls: campaign.maxConcurrentCalls || 1,
         maxRetryAttempts: campaign.maxRetryAttempts || 3,
         retryInterval: campaign.retryInterval || 3600,
+        voicemailMessage: campaign.voicemailMessage || '',
+        callerId: {
+          phoneNumberIds: (campaign.phoneNumbers || []).map((entry: any) => entry.phoneNumberId),
+          localPresence: !!campaign.localPresence,
+          callsPerNumberPerDay: campaign.callsPerNumberPerDay ?? null,
+        },
+        steps: (campaign.steps || []).map((step: any) => ({
+          channel: step.channel,
+          condition: step.condition,
+          delayMinutes: step.delayMinutes,
+          message: step.message,
+          assetId: step.assetId,
+        })),
       });
     }
   }, [campaign]);
@@ -135,7 +158,9 @@ export default function CampaignDetailPage() {
       const response = await api.getCampaignLeads(campaignId, {
         page,
         limit: 20,
-        status: filter || undefined,
+        // Outcome filters share the dropdown with statuses as "outcome:<disposition>"
+        status: filter && !filter.startsWith('outcome:') ? filter : undefined,
+        outcome: filter.startsWith('outcome:') ? filter.slice('outcome:'.length) : undefined,
       }, signal);
       
       if (page === 1) {
@@ -160,7 +185,12 @@ export default function CampaignDetailPage() {
   const handleSave = async () => {
     setSaving(true);
     try {
-      await api.updateCampaign(campaignId, editForm);
+      const { callerId, ...fields } = editForm;
+      await api.updateCampaign(campaignId, {
+        ...fields,
+        ...callerId,
+        voicemailMessage: editForm.voicemailMessage.trim() || null,
+      });
       toast({ title: 'Campaign updated', description: 'Your changes have been saved.' });
       setEditing(false);
       fetchCampaign();
@@ -181,11 +211,26 @@ export default function CampaignDetailPage() {
         description: campaign.description || '',
         callWindowStart: campaign.callWindowStart || '09:00',
         callWindowEnd: campaign.callWindowEnd || '17:00',
+        timezone: campaign.timezone || 'America/New_York',
         dailyCallLimit: campaign.dailyCallLimit || 100,
         callsPerHour: campaign.callsPerHour,
         minCallInterval: campaign.minCallInterval || 30,
+        maxConcurrentCalls: campaign.maxConcurrentCalls || 1,
         maxRetryAttempts: campaign.maxRetryAttempts || 3,
         retryInterval: campaign.retryInterval || 3600,
+        voicemailMessage: campaign.voicemailMessage || '',
+        callerId: {
+          phoneNumberIds: (campaign.phoneNumbers || []).map((entry: any) => entry.phoneNumberId),
+          localPresence: !!campaign.localPresence,
+          callsPerNumberPerDay: campaign.callsPerNumberPerDay ?? null,
+        },
+        steps: (campaign.steps || []).map((step: any) => ({
+          channel: step.channel,
+          condition: step.condition,
+          delayMinutes: step.delayMinutes,
+          message: step.message,
+          assetId: step.assetId,
+        })),
       });
     }
   };
@@ -635,6 +680,24 @@ export default function CampaignDetailPage() {
                     />
                   </div>
                 </div>
+                <div className="space-y-2">
+                  <Label className="text-xs text-muted-foreground">Timezone</Label>
+                  <select
+                    className="w-full px-3 py-2 text-sm border rounded-md bg-white"
+                    value={editForm.timezone}
+                    onChange={(e) => setEditForm({ ...editForm, timezone: e.target.value })}
+                  >
+                    {!CAMPAIGN_TIMEZONES.some(tz => tz.value === editForm.timezone) && (
+                      <option value={editForm.timezone}>{editForm.timezone}</option>
+                    )}
+                    {CAMPAIGN_TIMEZONES.map((tz) => (
+                      <option key={tz.value} value={tz.value}>{tz.name} ({tz.value})</option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Leads are called inside this window on their own clock. Leads without a known timezone, and the daily limit, use this one.
+                </p>
               </div>
 
               {/* Pacing Settings */}
@@ -657,6 +720,27 @@ export default function CampaignDetailPage() {
                     onChange={(e) => setEditForm({ ...editForm, minCallInterval: parseInt(e.target.value) || 30 })}
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Calls Per Hour</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="1000"
+                    placeholder="No limit"
+                    value={editForm.callsPerHour || ''}
+                    onChange={(e) => setEditForm({ ...editForm, callsPerHour: e.target.value ? parseInt(e.target.value) : null })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Concurrent Calls</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="50"
+                    value={editForm.maxConcurrentCalls}
+                    onChange={(e) => setEditForm({ ...editForm, maxConcurrentCalls: parseInt(e.target.value) || 1 })}
+                  />
+                </div>
               </div>
 
               {/* Retry Settings */}
@@ -681,6 +765,33 @@ export default function CampaignDetailPage() {
                   />
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label>Caller ID Numbers</Label>
+                <CallerIdPoolEditor
+                  value={editForm.callerId}
+                  onChange={(callerId) => setEditForm({ ...editForm, callerId })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Follow-up Sequence</Label>
+                <CampaignSequenceEditor
+                  value={editForm.steps}
+                  onChange={(steps) => setEditForm({ ...editForm, steps })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Voicemail Message</Label>
+                <Textarea
+                  placeholder={campaign.agent?.voicemailMessage || 'Leave empty to use the agent\'s voicemail message'}
+                  value={editForm.voicemailMessage}
+                  onChange={(e) => setEditForm({ ...editForm, voicemailMessage: e.target.value })}
+                  maxLength={1000}
+                  rows={3}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Left after the beep when a call reaches voicemail. Overrides the agent&apos;s message; an audio file URL is played as-is.
+                </p>
+              </div>
             </>
           ) : (
             <>
@@ -717,8 +828,9 @@ export default function CampaignDetailPage() {
                 <div>
                   <Label className="text-muted-foreground">Call Window</Label>
                   <p className="font-medium text-slate-600 mt-1">
-                    {campaign.callWindowStart || '00:00'} - {campaign.callWindowEnd || '23:59'}
+                    {campaign.callWindowStart || '00:00'} - {campaign.callWindowEnd || '23:59'} lead local time
                   </p>
+                  <p className="text-xs text-muted-foreground">Default timezone: {getTimezoneName(campaign.timezone)}</p>
                 </div>
                 <div>
                   <Label className="text-muted-foreground">Daily Limit</Label>
@@ -729,11 +841,47 @@ export default function CampaignDetailPage() {
                   <p className="font-medium text-slate-600 mt-1">{campaign.minCallInterval}s between calls</p>
                 </div>
                 <div>
-                  <Label className="text-muted-foreground">Retry Settings</Label>
+                  <Label className="text-muted-foreground">Concurrency</Label>
                   <p className="font-medium text-slate-600 mt-1">
-                    {campaign.maxRetryAttempts} attempts, {Math.round(campaign.retryInterval / 60)}min interval
+                    {campaign.maxConcurrentCalls || 1} at a time{campaign.callsPerHour ? `, ${campaign.callsPerHour} calls/hour` : ''}
                   </p>
                 </div>
+                <div>
+                  <Label className="text-muted-foreground">{campaign.steps?.length > 0 ? 'Sequence' : 'Retry Settings'}</Label>
+                  <p className="font-medium text-slate-600 mt-1">
+                    {campaign.steps?.length > 0
+                      ? `${campaign.steps.length} step${campaign.steps.length !== 1 ? 's' : ''}`
+                      : `${campaign.maxRetryAttempts} attempts, ${Math.round(campaign.retryInterval / 60)}min interval`}
+                  </p>
+                </div>
+                <div className="sm:col-span-2">
+                  <Label className="text-muted-foreground">
+                    Caller ID{campaign.phoneNumbers?.length > 0 ? ' Pool' : ''}
+                    {campaign.localPresence && <span className="ml-1.5 text-xs font-normal">(local presence)</span>}
+                  </Label>
+                  <div className="mt-1 space-y-1">
+                    {(campaign.poolUsage || []).map((number: any) => (
+                      <div key={number.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="text-slate-600">
+                          <span className="font-mono">{formatPhoneNumber(number.phoneNumber)}</span>
+                          {number.friendlyName && <span className="text-muted-foreground"> · {number.friendlyName}</span>}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {number.callsToday}{campaign.callsPerNumberPerDay ? ` / ${campaign.callsPerNumberPerDay}` : ''} calls today
+                        </span>
+                      </div>
+                    ))}
+                    {!campaign.poolUsage?.length && (
+                      <p className="text-sm text-muted-foreground">No active phone number</p>
+                    )}
+                  </div>
+                </div>
+                {campaign.voicemailMessage && (
+                  <div className="sm:col-span-2">
+                    <Label className="text-muted-foreground">Voicemail Message</Label>
+                    <p className="font-medium text-slate-600 mt-1 break-words">{campaign.voicemailMessage}</p>
+                  </div>
+                )}
               </div>
 
               {campaign.description && (
@@ -747,6 +895,19 @@ export default function CampaignDetailPage() {
         </CardContent>
       </Card>
 
+      {/* Sequence Funnel */}
+      {campaign.funnel?.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-slate-600">Sequence</CardTitle>
+            <CardDescription>Leads each step ran for and how they came out</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CampaignFunnel steps={campaign.funnel} totalLeads={campaign.totalLeads} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Leads Table */}
       <Card>
         <CardHeader>
@@ -770,6 +931,11 @@ export default function CampaignDetailPage() {
                 <option value="COMPLETED">Completed</option>
                 <option value="FAILED">Failed</option>
                 <option value="SKIPPED">Skipped</option>
+                <optgroup label="Outcome">
+                  {Object.entries(CALL_DISPOSITIONS).map(([value, label]) => (
+                    <option key={value} value={`outcome:${value}`}>{label}</option>
+                  ))}
+                </optgroup>
               </select>
             </div>
           </div>
@@ -790,7 +956,7 @@ export default function CampaignDetailPage() {
                 <div className="col-span-3">Name</div>
                 <div className="col-span-3">Phone</div>
                 <div className="col-span-2">Status</div>
-                <div className="col-span-2">Attempts</div>
+                <div className="col-span-2">{campaign.steps?.length > 0 ? 'Step' : 'Attempts'}</div>
                 <div className="col-span-2">Outcome</div>
               </div>
 
@@ -803,12 +969,17 @@ export default function CampaignDetailPage() {
                       <div>
                         {lead.name && <p className="font-medium text-slate-600">{lead.name}</p>}
                         <p className="font-mono text-sm text-muted-foreground">{formatPhoneNumber(lead.phoneNumber)}</p>
+                        <p className="text-xs text-muted-foreground">{getTimezoneName(lead.timezone || campaign.timezone)}</p>
                       </div>
                       <CampaignStatusBadge status={lead.status} />
                     </div>
                     <div className="flex items-center justify-between text-xs text-muted-foreground">
-                      <span>{lead.attempts} attempts</span>
-                      {lead.outcome && <span className="capitalize">{lead.outcome}</span>}
+                      <span>
+                        {campaign.steps?.length > 0
+                          ? `Step ${lead.sequenceStep + 1} of ${campaign.steps.length}`
+                          : `${lead.attempts} attempts`}
+                      </span>
+                      {lead.outcome && <span className="capitalize">{CALL_DISPOSITIONS[lead.outcome] || lead.outcome}</span>}
                     </div>
                   </div>
 
@@ -819,15 +990,18 @@ export default function CampaignDetailPage() {
                     </div>
                     <div className="col-span-3">
                       <p className="font-mono text-sm text-slate-600">{formatPhoneNumber(lead.phoneNumber)}</p>
+                      <p className="text-xs text-muted-foreground">{getTimezoneName(lead.timezone || campaign.timezone)}</p>
                     </div>
                     <div className="col-span-2">
                       <CampaignStatusBadge status={lead.status} />
                     </div>
                     <div className="col-span-2 text-sm text-muted-foreground">
-                      {lead.attempts} / {campaign.maxRetryAttempts}
+                      {campaign.steps?.length > 0
+                        ? `${lead.sequenceStep + 1} / ${campaign.steps.length}`
+                        : `${lead.attempts} / ${campaign.maxRetryAttempts}`}
                     </div>
                     <div className="col-span-2 text-sm text-slate-600 capitalize">
-                      {lead.outcome || '—'}
+                      {lead.outcome ? CALL_DISPOSITIONS[lead.outcome] || lead.outcome : '—'}
                     </div>
                   </div>
 
@@ -11,9 +11,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { CsvUploadZone } from '@/components/CsvUploadZone';
-import { api, ApiError } from '@/lib/api';
+import { CallerIdPoolEditor, CallerIdPool } from '@/components/CallerIdPoolEditor';
+import { CampaignSequenceEditor } from '@/components/CampaignSequenceEditor';
+import { api, ApiError, CampaignStepInput } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
-import { ELEVENLABS_VOICES } from '@/lib/constants';
+import { ELEVENLABS_VOICES, CAMPAIGN_TIMEZONES, getTimezoneName } from '@/lib/constants';
 
 interface FormData {
   name: string;
@@ -24,11 +26,16 @@ interface FormData {
   endDate: string;
   callWindowStart: string;
   callWindowEnd: string;
+  timezone: string;
   dailyCallLimit: number;
   callsPerHour: number | null;
   minCallInterval: number;
+  maxConcurrentCalls: number;
   maxRetryAttempts: number;
   retryInterval: number;
+  voicemailMessage: string;
+  callerId: CallerIdPool;
+  steps: CampaignStepInput[];
 }
 
 const getModeIcon = (mode: string) => {
@@ -65,11 +72,16 @@ export default function NewCampaignPage() {
     endDate: '',
     callWindowStart: '09:00',
     callWindowEnd: '17:00',
+    timezone: CAMPAIGN_TIMEZONES.find(t => t.value === Intl.DateTimeFormat().resolvedOptions().timeZone)?.value || 'America/New_York',
     dailyCallLimit: 100,
     callsPerHour: null,
     minCallInterval: 30,
+    maxConcurrentCalls: 1,
     maxRetryAttempts: 3,
     retryInterval: 3600,
+    voicemailMessage: '',
+    callerId: { phoneNumberIds: [], localPresence: false, callsPerNumberPerDay: null },
+    steps: [],
   });
 
   useEffect(() => {
@@ -145,21 +157,33 @@ export default function NewCampaignPage() {
         endDate: formData.endDate ? new Date(formData.endDate).toISOString() : undefined,
         callWindowStart: formData.callWindowStart,
         callWindowEnd: formData.callWindowEnd,
+        timezone: formData.timezone,
         dailyCallLimit: formData.dailyCallLimit,
         callsPerHour: formData.callsPerHour || undefined,
         minCallInterval: formData.minCallInterval,
+        maxConcurrentCalls: formData.maxConcurrentCalls,
         maxRetryAttempts: formData.maxRetryAttempts,
         retryInterval: formData.retryInterval,
+        voicemailMessage: formData.voicemailMessage.trim() || undefined,
+        ...formData.callerId,
+        steps: formData.steps.length > 0 ? formData.steps : undefined,
       });
 
       const campaignId = campaignResponse.data.id;
 
       // Upload leads
+      let skipped = 0;
       if (csvData) {
-        await api.uploadCampaignLeadsCSV(campaignId, csvData);
+        const upload = await api.uploadCampaignLeadsCSV(campaignId, csvData);
+        skipped = upload.data?.skipped || 0;
       }
 
-      toast({ title: 'Campaign created!', description: `${formData.name} is ready to launch.` });
+      toast({
+        title: 'Campaign created!',
+        description: skipped > 0
+          ? `${formData.name} is ready to launch. ${skipped} lead${skipped !== 1 ? 's are' : ' is'} on your Do Not Call list and will be skipped.`
+          : `${formData.name} is ready to launch.`,
+      });
       router.push(`/dashboard/campaigns/${campaignId}`);
     } catch (error) {
       const message = error instanceof ApiError ? error.message : 'Failed to create campaign';
@@ -459,6 +483,21 @@ export default function NewCampaignPage() {
                   />
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Timezone</Label>
+                <select
+                  className="w-full px-3 py-2 text-sm border rounded-md bg-white"
+                  value={formData.timezone}
+                  onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                >
+                  {CAMPAIGN_TIMEZONES.map((tz) => (
+                    <option key={tz.value} value={tz.value}>{tz.name} ({tz.value})</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Each lead is called inside this window on their own clock, using a timezone column in the CSV or their area code. Leads we can&apos;t place, and the daily limit, use this timezone.
+              </p>
             </div>
 
             {/* Daily Call Limit */}
@@ -479,7 +518,7 @@ export default function NewCampaignPage() {
               <Input
                 type="number"
                 min="1"
-                max="100"
+                max="1000"
                 placeholder="No limit"
                 value={formData.callsPerHour || ''}
                 onChange={(e) => setFormData({ ...formData, callsPerHour: e.target.value ? parseInt(e.target.value) : null })}
@@ -498,6 +537,21 @@ export default function NewCampaignPage() {
               />
             </div>
 
+            {/* Concurrent Calls */}
+            <div className="space-y-2">
+              <Label className="text-muted-foreground">Concurrent Calls</Label>
+              <Input
+                type="number"
+                min="1"
+                max="50"
+                value={formData.maxConcurrentCalls}
+                onChange={(e) => setFormData({ ...formData, maxConcurrentCalls: parseInt(e.target.value) || 1 })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Leads dialed at the same time. Your account&apos;s limit in Settings applies across all campaigns.
+              </p>
+            </div>
+
             {/* Retry Configuration */}
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               <div className="space-y-2">
@@ -522,6 +576,39 @@ export default function NewCampaignPage() {
               </div>
             </div>
 
+            {/* Caller ID */}
+            <div className="space-y-2">
+              <Label className="text-muted-foreground">Caller ID Numbers</Label>
+              <CallerIdPoolEditor
+                value={formData.callerId}
+                onChange={(callerId) => setFormData({ ...formData, callerId })}
+              />
+            </div>
+
+            {/* Follow-up Sequence */}
+            <div className="space-y-2">
+              <Label className="text-muted-foreground">Follow-up Sequence (optional)</Label>
+              <CampaignSequenceEditor
+                value={formData.steps}
+                onChange={(steps) => setFormData({ ...formData, steps })}
+              />
+            </div>
+
+            {/* Voicemail */}
+            <div className="space-y-2">
+              <Label className="text-muted-foreground">Voicemail Message (optional)</Label>
+              <Textarea
+                placeholder={agents.find(a => a.id === formData.agentId)?.voicemailMessage || "Leave empty to use the agent's voicemail message"}
+                value={formData.voicemailMessage}
+                onChange={(e) => setFormData({ ...formData, voicemailMessage: e.target.value })}
+                maxLength={1000}
+                rows={3}
+              />
+              <p className="text-xs text-muted-foreground">
+                Left once after the beep when a call reaches voicemail. Text is spoken in the agent&apos;s voice; an audio file URL is played as-is.
+              </p>
+            </div>
+
             <div className="flex items-center justify-between pt-4">
               <div>
                 <Button variant="ghost" onClick={() => setStep(2)} className="text-teal-600 hover:text-teal-700 hover:bg-teal-50">
@@ -573,23 +660,40 @@ export default function NewCampaignPage() {
                 <div className="grid grid-cols-2 gap-4 pt-2 border-t">
                   <div>
                     <p className="text-xs text-muted-foreground">Call Window</p>
-                    <p className="text-sm text-slate-600">{formData.callWindowStart} - {formData.callWindowEnd}</p>
+                    <p className="text-sm text-slate-600">{formData.callWindowStart} - {formData.callWindowEnd} local</p>
+                    <p className="text-xs text-muted-foreground">Default: {getTimezoneName(formData.timezone)}</p>
                   </div>
                   <div>
                     <p className="text-xs text-muted-foreground">Daily Limit</p>
                     <p className="text-sm text-slate-600">{formData.dailyCallLimit} calls/day</p>
                   </div>
                 </div>
-                {formData.callsPerHour && (
+                <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <p className="text-xs text-muted-foreground">Rate Limit</p>
-                    <p className="text-sm text-slate-600">{formData.callsPerHour} calls/hour</p>
+                    <p className="text-xs text-muted-foreground">Concurrent Calls</p>
+                    <p className="text-sm text-slate-600">{formData.maxConcurrentCalls} at a time</p>
                   </div>
-                )}
+                  {formData.callsPerHour && (
+                    <div>
+                      <p className="text-xs text-muted-foreground">Rate Limit</p>
+                      <p className="text-sm text-slate-600">{formData.callsPerHour} calls/hour</p>
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">{formData.steps.length > 0 ? 'Sequence' : 'Retry Settings'}</p>
+                  <p className="text-sm text-slate-600">
+                    {formData.steps.length > 0
+                      ? formData.steps.map((s) => (s.channel === 'sms' ? 'SMS' : 'Call')).join(' → ')
+                      : `${formData.maxRetryAttempts} attempts, ${Math.round(formData.retryInterval / 60)} min interval`}
+                  </p>
+                </div>
                 <div>
-                  <p className="text-xs text-muted-foreground">Retry Settings</p>
+                  <p className="text-xs text-muted-foreground">Caller ID</p>
                   <p className="text-sm text-slate-600">
-                    {formData.maxRetryAttempts} attempts, {Math.round(formData.retryInterval / 60)} min interval
+                    {formData.callerId.phoneNumberIds.length > 0
+                      ? `${formData.callerId.phoneNumberIds.length} number pool${formData.callerId.localPresence ? ', local presence' : ''}`
+                      : "Agent's number"}
                   </p>
                 </div>
               </div>
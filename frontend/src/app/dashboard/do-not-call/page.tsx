@@ -0,0 +1,359 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { PhoneOff, Plus, Search, Loader2, Upload, Download, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DeleteButton } from '@/components/DeleteButton';
+import { EmptyState } from '@/components/EmptyState';
+import { api, ApiError, DncEntry } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { DNC_SOURCES } from '@/lib/constants';
+import { formatDate, formatPhoneNumber } from '@/lib/utils';
+
+const PAGE_SIZE = 50;
+
+export default function DoNotCallPage() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [entries, setEntries] = useState<DncEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [search, setSearch] = useState('');
+  const [searchDebounce, setSearchDebounce] = useState('');
+  const [source, setSource] = useState('');
+  const [newNumber, setNewNumber] = useState('');
+  const [newReason, setNewReason] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  // Debounce search
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearchDebounce(search);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const fetchEntries = async (isRefresh = false) => {
+    if (isRefresh) setRefreshing(true);
+    else setLoading(true);
+    try {
+      const response = await api.getDncEntries({
+        search: searchDebounce || undefined,
+        source: source || undefined,
+        page,
+        limit: PAGE_SIZE,
+      });
+      setEntries(response.data || []);
+      setTotal(response.meta?.total || 0);
+    } catch (error) {
+      console.error('Failed to fetch DNC list:', error);
+      toast({ title: 'Error', description: 'Failed to load the Do Not Call list', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+  }, [searchDebounce, source, page]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newNumber.trim()) return;
+
+    setAdding(true);
+    try {
+      await api.addDncEntry({ phoneNumber: newNumber.trim(), reason: newReason.trim() || undefined });
+      toast({ title: 'Number added', description: 'Pending campaign leads for this number will be skipped.' });
+      setNewNumber('');
+      setNewReason('');
+      fetchEntries();
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to add number';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const response = await api.importDncList(await file.text());
+      const result = response.data!;
+      toast({
+        title: `Imported ${result.added} number${result.added !== 1 ? 's' : ''}`,
+        description: [
+          result.alreadyListed > 0 && `${result.alreadyListed} already listed`,
+          result.invalid > 0 && `${result.invalid} invalid`,
+          result.leadsSkipped > 0 && `${result.leadsSkipped} pending lead${result.leadsSkipped !== 1 ? 's' : ''} skipped`,
+        ].filter(Boolean).join(', ') || undefined,
+      });
+      setPage(1);
+      fetchEntries();
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to import CSV';
+      toast({ title: 'Import failed', description: message, variant: 'destructive' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const blob = await api.exportDncList();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `do-not-call-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export DNC list:', error);
+      toast({ title: 'Export failed', description: 'Could not download the Do Not Call list.', variant: 'destructive' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDelete = async (entry: DncEntry) => {
+    try {
+      await api.deleteDncEntry(entry.id);
+      toast({ title: 'Number removed', description: `${formatPhoneNumber(entry.phoneNumber)} can be contacted again.` });
+      fetchEntries();
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to remove number', variant: 'destructive' });
+      throw error; // Re-throw to keep modal open on error
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <PhoneOff className="h-7 w-7 sm:h-8 sm:w-8 text-slate-600" />
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-slate-600">Do Not Call</h1>
+            <p className="hidden sm:block text-muted-foreground text-sm">Numbers your agents and campaigns will never call or text</p>
+          </div>
+        </div>
+        <input ref={fileInputRef} type="file" accept=".csv" onChange={handleImport} className="hidden" />
+        {/* Mobile: icon-only buttons */}
+        <div className="flex gap-2 sm:hidden">
+          <Button
+            onClick={() => fetchEntries(true)}
+            disabled={refreshing}
+            variant="outline"
+            size="icon"
+            className="text-teal-600 border-teal-600 hover:bg-teal-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={exporting}
+            variant="outline"
+            size="icon"
+            className="text-teal-600 border-teal-600 hover:bg-teal-50"
+          >
+            {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          </Button>
+          <Button
+            size="icon"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+            className="bg-gradient-to-b from-[#0fa693] to-teal-600 hover:from-[#0e9585] hover:to-teal-700"
+          >
+            {importing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+          </Button>
+        </div>
+        {/* Desktop: full buttons */}
+        <div className="hidden sm:flex gap-2">
+          <Button
+            onClick={() => fetchEntries(true)}
+            disabled={refreshing}
+            variant="outline"
+            className="text-teal-600 border-teal-600 hover:bg-teal-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={exporting}
+            variant="outline"
+            className="text-teal-600 border-teal-600 hover:bg-teal-50"
+          >
+            {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Export CSV
+          </Button>
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+            className="bg-gradient-to-b from-[#0fa693] to-teal-600 hover:from-[#0e9585] hover:to-teal-700"
+          >
+            {importing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Import CSV
+          </Button>
+        </div>
+      </div>
+
+      {/* Add a number */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg text-slate-600">Add a Number</CardTitle>
+          <CardDescription>
+            Numbers are also added when someone replies STOP to a text or asks not to be called again on a call.
+            Imports read a <code className="bg-slate-100 px-1 py-0.5 rounded text-xs">phone</code> column.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleAdd} className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div className="space-y-2 sm:w-56">
+              <Label htmlFor="dnc-number">Phone Number</Label>
+              <Input
+                id="dnc-number"
+                placeholder="+1 (555) 123-4567"
+                value={newNumber}
+                onChange={(e) => setNewNumber(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="dnc-reason">Reason (optional)</Label>
+              <Input
+                id="dnc-reason"
+                placeholder="e.g. Requested by email"
+                value={newReason}
+                onChange={(e) => setNewReason(e.target.value)}
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={adding || !newNumber.trim()}
+              className="bg-gradient-to-b from-[#0fa693] to-teal-600 hover:from-[#0e9585] hover:to-teal-700"
+            >
+              {adding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6 flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by phone number..."
+              className="pl-10"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <select
+            value={source}
+            onChange={(e) => {
+              setSource(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 text-sm border rounded-md bg-white"
+          >
+            <option value="">All sources</option>
+            {Object.entries(DNC_SOURCES).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </CardContent>
+      </Card>
+
+      {/* List */}
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-teal-600" />
+        </div>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent>
+            <EmptyState
+              icon={PhoneOff}
+              title={search || source ? 'No numbers found' : 'Your Do Not Call list is empty'}
+              description={search || source
+                ? 'Try adjusting your search or filter'
+                : 'Add numbers above or import a CSV. Listed numbers are skipped by every call, text and campaign.'}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-3 px-4 font-medium">Phone Number</th>
+                  <th className="py-3 px-4 font-medium">Source</th>
+                  <th className="py-3 px-4 font-medium hidden md:table-cell">Reason</th>
+                  <th className="py-3 px-4 font-medium hidden sm:table-cell">Added</th>
+                  <th className="py-3 px-4" />
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="border-b last:border-0 hover:bg-slate-50">
+                    <td className="py-3 px-4 font-mono text-slate-600">{formatPhoneNumber(entry.phoneNumber)}</td>
+                    <td className="py-3 px-4">
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-slate-100 text-slate-600 whitespace-nowrap">
+                        {DNC_SOURCES[entry.source] || entry.source}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4 text-muted-foreground hidden md:table-cell">{entry.reason || '—'}</td>
+                    <td className="py-3 px-4 text-muted-foreground whitespace-nowrap hidden sm:table-cell">{formatDate(entry.createdAt)}</td>
+                    <td className="py-3 px-4 text-right">
+                      <DeleteButton
+                        onDelete={() => handleDelete(entry)}
+                        itemName={formatPhoneNumber(entry.phoneNumber)}
+                        title="Remove from Do Not Call"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>{total} numbers</span>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <span>Page {page} of {totalPages}</span>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
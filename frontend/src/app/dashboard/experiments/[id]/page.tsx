@@ -0,0 +1,314 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { FlaskConical, ArrowLeft, Loader2, Square, AlertCircle, Hash, Flag } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { DeleteButton } from '@/components/DeleteButton';
+import { api, ApiError, Experiment, SignificanceResult } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { CALL_DISPOSITIONS } from '@/lib/constants';
+import { formatDate, formatPhoneNumber } from '@/lib/utils';
+
+const SENTIMENTS = ['positive', 'neutral', 'negative'];
+
+const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${minutes}m ${secs}s`;
+};
+
+const formatRate = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+
+// p < 0.05 against the control variant
+function SignificanceBadge({ result }: { result?: SignificanceResult }) {
+  if (!result || result.pValue === null) {
+    return <span className="text-xs text-muted-foreground">–</span>;
+  }
+
+  const pValue = result.pValue < 0.001 ? 'p<0.001' : `p=${result.pValue.toFixed(3)}`;
+  return (
+    <span
+      className={`px-1.5 py-0.5 text-xs rounded-full whitespace-nowrap ${
+        result.significant ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'
+      }`}
+      title={result.significant ? 'Significant difference from the control' : 'Not significant yet'}
+    >
+      {pValue}
+    </span>
+  );
+}
+
+export default function ExperimentDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const [experiment, setExperiment] = useState<Experiment | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [stopping, setStopping] = useState(false);
+
+  const fetchExperiment = async () => {
+    try {
+      const response = await api.getExperiment(params.id as string);
+      setExperiment(response.data || null);
+    } catch (error) {
+      console.error('Failed to fetch experiment:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchExperiment();
+  }, [params.id]);
+
+  const handleStop = async () => {
+    if (!experiment || !confirm(`Stop ${experiment.name}? New calls go back to the usual agent.`)) return;
+
+    setStopping(true);
+    try {
+      await api.stopExperiment(experiment.id);
+      toast({ title: 'Experiment stopped', description: 'Results are kept for comparison.' });
+      fetchExperiment();
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to stop experiment';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setStopping(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!experiment) return;
+    try {
+      await api.deleteExperiment(experiment.id);
+      toast({ title: 'Experiment deleted', description: `${experiment.name} has been deleted.` });
+      router.push('/dashboard/experiments');
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to delete experiment';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-teal-600" />
+      </div>
+    );
+  }
+
+  if (!experiment) {
+    return (
+      <div className="space-y-6">
+        <Link href="/dashboard/experiments">
+          <Button variant="ghost" size="sm" className="text-teal-600 hover:text-teal-700 hover:bg-teal-50">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Experiments
+          </Button>
+        </Link>
+        <Card>
+          <CardContent className="p-8 text-center">
+            <p className="text-slate-600">Experiment not found</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const results = experiment.results?.variants || [];
+  const control = results[0];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-start gap-4 min-w-0 flex-1">
+          <Link href="/dashboard/experiments" className="flex-shrink-0">
+            <Button variant="ghost" size="icon" className="sm:hidden text-teal-600 hover:text-teal-700 hover:bg-teal-50">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" className="hidden sm:flex text-teal-600 hover:text-teal-700 hover:bg-teal-50">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-3">
+              <FlaskConical className="h-6 w-6 text-slate-600 flex-shrink-0" />
+              <h1 className="text-xl sm:text-2xl font-bold text-slate-600 truncate" title={experiment.name}>
+                {experiment.name}
+              </h1>
+            </div>
+            <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+              <span
+                className={`px-2 py-0.5 rounded-full ${
+                  experiment.status === 'running' ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'
+                }`}
+              >
+                {experiment.status === 'running' ? 'Running' : 'Stopped'}
+              </span>
+              {experiment.phoneNumber ? (
+                <span className="flex items-center gap-1">
+                  <Hash className="h-3 w-3" />
+                  {experiment.phoneNumber.friendlyName || formatPhoneNumber(experiment.phoneNumber.phoneNumber)}
+                </span>
+              ) : experiment.campaign && (
+                <Link href={`/dashboard/campaigns/${experiment.campaign.id}`} className="flex items-center gap-1 hover:text-teal-600">
+                  <Flag className="h-3 w-3" />
+                  {experiment.campaign.name}
+                </Link>
+              )}
+              <span className="hidden sm:inline">
+                {formatDate(experiment.createdAt)}
+                {experiment.stoppedAt && ` – ${formatDate(experiment.stoppedAt)}`}
+              </span>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {experiment.status === 'running' && (
+            <Button
+              variant="outline"
+              onClick={handleStop}
+              disabled={stopping}
+              className="text-teal-600 border-teal-600 hover:bg-teal-50"
+            >
+              {stopping ? <Loader2 className="h-4 w-4 sm:mr-2 animate-spin" /> : <Square className="h-4 w-4 sm:mr-2" />}
+              <span className="hidden sm:inline">Stop</span>
+            </Button>
+          )}
+          <DeleteButton
+            onDelete={handleDelete}
+            itemName={experiment.name}
+            title="Delete Experiment"
+            variant="full"
+          />
+        </div>
+      </div>
+
+      {!experiment.results?.enoughData && (
+        <div className="flex items-start gap-2 p-3 rounded-md bg-amber-50 text-amber-700 text-sm">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <p>
+            Early results. Wait for at least 30 completed calls per variant before picking a winner; small samples swing a lot.
+          </p>
+        </div>
+      )}
+
+      {/* Headline metrics */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg text-slate-600">Results</CardTitle>
+          <CardDescription>
+            Each variant is compared with {control ? `${control.name} (control)` : 'the control'}. Green p-values are significant at 95%.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">Variant</th>
+                <th className="py-2 pr-4 font-medium">Calls</th>
+                <th className="py-2 pr-4 font-medium">Avg Duration</th>
+                <th className="py-2 pr-4 font-medium">Booking Rate</th>
+                <th className="py-2 pr-4 font-medium">Sentiment</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((variant) => (
+                <tr key={variant.id} className="border-b last:border-0">
+                  <td className="py-2 pr-4">
+                    <p className="font-medium text-slate-600">
+                      {variant.name}
+                      {variant.id === control?.id && <span className="ml-1.5 text-xs font-normal text-muted-foreground">control</span>}
+                    </p>
+                    <Link href={`/dashboard/agents/${variant.agent.id}`} className="text-xs text-muted-foreground hover:text-teal-600">
+                      {variant.agent.name}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-4 text-slate-600">
+                    {variant.completed}
+                    <span className="text-xs text-muted-foreground"> / {variant.calls}</span>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <div className="flex items-center gap-2">
+                      <span className="text-slate-600">{formatDuration(variant.avgDuration)}</span>
+                      {variant.significance && <SignificanceBadge result={variant.significance.duration} />}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <div className="flex items-center gap-2">
+                      <span className="text-slate-600">{formatRate(variant.bookingRate)}</span>
+                      {variant.significance && <SignificanceBadge result={variant.significance.bookingRate} />}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs whitespace-nowrap">
+                        <span className="text-green-600">{variant.sentiments.positive || 0}</span>
+                        {' / '}
+                        <span className="text-slate-600">{variant.sentiments.neutral || 0}</span>
+                        {' / '}
+                        <span className="text-red-600">{variant.sentiments.negative || 0}</span>
+                      </span>
+                      {variant.significance && <SignificanceBadge result={variant.significance.sentiment} />}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-muted-foreground mt-3">
+            Calls shows completed / assigned. Duration, booking rate and sentiment ({SENTIMENTS.join(' / ')}) use completed calls.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Disposition mix */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg text-slate-600">Dispositions</CardTitle>
+          <CardDescription>How completed calls ended, by variant</CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">Variant</th>
+                {Object.entries(CALL_DISPOSITIONS).map(([key, label]) => (
+                  <th key={key} className="py-2 pr-4 font-medium whitespace-nowrap">{label}</th>
+                ))}
+                <th className="py-2 pr-4 font-medium">vs Control</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((variant) => (
+                <tr key={variant.id} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-medium text-slate-600">{variant.name}</td>
+                  {Object.keys(CALL_DISPOSITIONS).map((key) => (
+                    <td key={key} className="py-2 pr-4 text-slate-600">
+                      {variant.dispositions[key] || 0}
+                      {variant.completed > 0 && (
+                        <span className="text-xs text-muted-foreground"> ({formatRate((variant.dispositions[key] || 0) / variant.completed)})</span>
+                      )}
+                    </td>
+                  ))}
+                  <td className="py-2 pr-4">
+                    {variant.significance ? <SignificanceBadge result={variant.significance.disposition} /> : (
+                      <span className="text-xs text-muted-foreground">control</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Plus, FlaskConical, RefreshCw, Loader2, Hash, Flag } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { DeleteButton } from '@/components/DeleteButton';
+import { EmptyState } from '@/components/EmptyState';
+import { ExperimentDialog } from '@/components/ExperimentDialog';
+import { api, Experiment } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { formatPhoneNumber, formatRelativeTime } from '@/lib/utils';
+
+export default function ExperimentsPage() {
+  const { toast } = useToast();
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showDialog, setShowDialog] = useState(false);
+
+  const fetchExperiments = async (isRefresh = false) => {
+    if (isRefresh) setRefreshing(true);
+    try {
+      const response = await api.getExperiments();
+      setExperiments(response.data || []);
+    } catch (error) {
+      console.error('Failed to fetch experiments:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchExperiments();
+  }, []);
+
+  const handleDelete = async (id: string, name: string) => {
+    try {
+      await api.deleteExperiment(id);
+      toast({ title: 'Experiment deleted', description: `${name} has been deleted.` });
+      fetchExperiments();
+    } catch (error: any) {
+      toast({
+        title: 'Delete failed',
+        description: error.message || 'Failed to delete experiment.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-teal-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <FlaskConical className="h-7 w-7 sm:h-8 sm:w-8 text-slate-600" />
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-slate-600">Experiments</h1>
+            <p className="hidden sm:block text-muted-foreground text-sm">
+              A/B test agents on live calls
+            </p>
+          </div>
+        </div>
+        {/* Mobile: icon-only buttons */}
+        <div className="flex gap-2 sm:hidden">
+          <Button
+            onClick={() => fetchExperiments(true)}
+            disabled={refreshing}
+            variant="outline"
+            size="icon"
+            className="text-teal-600 border-teal-600 hover:bg-teal-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button
+            size="icon"
+            className="bg-gradient-to-b from-[#0fa693] to-teal-600 hover:from-[#0e9585] hover:to-teal-700"
+            onClick={() => setShowDialog(true)}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+        {/* Desktop: full buttons */}
+        <div className="hidden sm:flex gap-2">
+          <Button
+            onClick={() => fetchExperiments(true)}
+            disabled={refreshing}
+            variant="outline"
+            className="text-teal-600 border-teal-600 hover:bg-teal-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button
+            className="bg-gradient-to-b from-[#0fa693] to-teal-600 hover:from-[#0e9585] hover:to-teal-700"
+            onClick={() => setShowDialog(true)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Experiment
+          </Button>
+        </div>
+      </div>
+
+      {experiments.length === 0 ? (
+        <Card>
+          <CardContent>
+            <EmptyState
+              icon={FlaskConical}
+              title="No experiments yet"
+              description="Split calls on a phone number or campaign across two or more agents and see which prompt or voice performs better."
+              action={{
+                label: 'Start Your First Experiment',
+                onClick: () => setShowDialog(true),
+              }}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {experiments.map((experiment) => {
+            const totalWeight = experiment.variants.reduce((sum, v) => sum + v.weight, 0);
+
+            return (
+              <Card key={experiment.id} className="hover:shadow-md transition-shadow">
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="min-w-0 flex-1">
+                    <Link href={`/dashboard/experiments/${experiment.id}`}>
+                      <CardTitle className="text-lg text-slate-600 hover:text-teal-600 hover:underline decoration-slate-300 hover:decoration-teal-600 underline-offset-2 transition-colors cursor-pointer truncate">
+                        {experiment.name}
+                      </CardTitle>
+                    </Link>
+                    <CardDescription className="flex items-center gap-1.5 line-clamp-1">
+                      {experiment.phoneNumber ? (
+                        <>
+                          <Hash className="h-3.5 w-3.5" />
+                          {experiment.phoneNumber.friendlyName || formatPhoneNumber(experiment.phoneNumber.phoneNumber)}
+                        </>
+                      ) : (
+                        <>
+                          <Flag className="h-3.5 w-3.5" />
+                          {experiment.campaign?.name}
+                        </>
+                      )}
+                    </CardDescription>
+                  </div>
+                  <DeleteButton
+                    onDelete={() => handleDelete(experiment.id, experiment.name)}
+                    itemName={experiment.name}
+                    title="Delete Experiment"
+                  />
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span
+                        className={`px-2 py-1 text-xs rounded-full ${
+                          experiment.status === 'running'
+                            ? 'bg-green-100 text-green-700'
+                            : 'bg-slate-100 text-slate-600'
+                        }`}
+                      >
+                        {experiment.status === 'running' ? 'Running' : 'Stopped'}
+                      </span>
+                      <span className="text-sm text-muted-foreground">
+                        Started {formatRelativeTime(experiment.createdAt)}
+                      </span>
+                    </div>
+
+                    <div className="space-y-1 pt-2 border-t">
+                      {experiment.variants.map((variant) => (
+                        <div key={variant.id} className="flex items-center justify-between text-sm gap-2">
+                          <span className="text-slate-600 truncate">
+                            <span className="font-medium">{variant.name}</span>
+                            <span className="text-muted-foreground"> · {variant.agent.name}</span>
+                          </span>
+                          <span className="text-muted-foreground flex-shrink-0">
+                            {totalWeight > 0 ? Math.round((variant.weight / totalWeight) * 100) : 0}% · {variant._count.calls} calls
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {showDialog && (
+        <ExperimentDialog
+          onClose={() => setShowDialog(false)}
+          onCreated={() => {
+            setShowDialog(false);
+            fetchExperiments();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -26,7 +26,9 @@ import {
   Crown,
   Building2,
   ShieldCheck,
-  BookOpen
+  BookOpen,
+  FlaskConical,
+  PhoneOff
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { GlobalSearch } from '@/components/GlobalSearch';
@@ -37,8 +39,10 @@ const navItems = [
   { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/dashboard/agents', label: 'Agents', icon: Bot },
   { href: '/dashboard/campaigns', label: 'Campaigns', icon: Flag },
+  { href: '/dashboard/experiments', label: 'Experiments', icon: FlaskConical },
   { href: '/dashboard/voices', label: 'Voices', icon: AudioLines },
   { href: '/dashboard/contacts', label: 'Contacts', icon: Users },
+  { href: '/dashboard/do-not-call', label: 'Do Not Call', icon: PhoneOff },
   { href: '/dashboard/dialpad', label: 'Dialpad', icon: Hash },
   { href: '/dashboard/calls', label: 'Call Logs', icon: PhoneCall },
   { href: '/dashboard/messaging', label: 'Messaging', icon: MessageSquare },
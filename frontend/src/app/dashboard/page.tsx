@@ -7,12 +7,13 @@ import { Phone, Bot, Clock, DollarSign, Plus, ArrowRight, User, ArrowDownLeft, A
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
-import { api } from '@/lib/api';
+import { api, LatencyAnalytics } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
 import { formatDuration, formatCurrency, formatRelativeTime, formatPhoneNumber } from '@/lib/utils';
 import { ELEVENLABS_VOICES, AGENT_MODES } from '@/lib/constants';
 import { ContactModal } from '@/components/ContactModal';
 import { Sparkline } from '@/components/Sparkline';
+import { LatencyChart } from '@/components/LatencyChart';
 
 const getModeIcon = (mode: string) => {
   switch (mode) {
@@ -38,6 +39,7 @@ export default function DashboardPage() {
   const [recentCalls, setRecentCalls] = useState<any[]>([]);
   const [contacts, setContacts] = useState<Record<string, any>>({});
   const [timeSeries, setTimeSeries] = useState<{ date: string; calls: number; messages: number; duration: number; cost: number }[]>([]);
+  const [latency, setLatency] = useState<LatencyAnalytics | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [addContactModalOpen, setAddContactModalOpen] = useState(false);
@@ -46,12 +48,13 @@ export default function DashboardPage() {
   const fetchData = async (isRefresh = false) => {
     if (isRefresh) setRefreshing(true);
     try {
-      const [statsRes, agentsRes, callsRes, timeSeriesRes, billingRes] = await Promise.all([
+      const [statsRes, agentsRes, callsRes, timeSeriesRes, billingRes, latencyRes] = await Promise.all([
         api.getCallAnalytics(),
         api.getAgents(),
         api.getCalls({ limit: 5 }),
         api.getCallTimeSeries(30),
         api.getBillingStatus(),
+        api.getLatencyAnalytics({ days: 30 }),
       ]);
       setStats(statsRes.data);
       setAgents(agentsRes.data || []);
@@ -59,6 +62,7 @@ export default function DashboardPage() {
       setRecentCalls(calls);
       setTimeSeries(timeSeriesRes.data || []);
       setBilling(billingRes.data);
+      setLatency(latencyRes.data || null);
 
       // Fetch contacts for phone numbers in recent calls
       if (calls.length > 0) {
@@ -419,6 +423,9 @@ export default function DashboardPage() {
         </Card>
       </div>
 
+      {/* Latency by agent / model / voice provider */}
+      <LatencyChart data={latency} />
+
       {/* Contact Modal */}
       <ContactModal
         open={addContactModalOpen}
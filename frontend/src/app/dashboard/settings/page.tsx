@@ -158,6 +158,11 @@ export default function SettingsPage() {
     stats: { twilioRecordings: number; s3Recordings: number };
   } | null>(null);
   const [storageLoading, setStorageLoading] = useState(true);
+
+  // Campaign dialing state
+  const [dialing, setDialing] = useState<{ maxConcurrentCalls: number | null; planLimit: number } | null>(null);
+  const [concurrentCallsInput, setConcurrentCallsInput] = useState('');
+  const [dialingSaving, setDialingSaving] = useState(false);
   const [businessProfileForm, setBusinessProfileForm] = useState({
     organizationName: '',
     industry: '',
@@ -176,6 +181,7 @@ export default function SettingsPage() {
     fetchCalendarStatus();
     fetchBusinessProfile();
     fetchStorageStatus();
+    fetchDialingSettings();
     fetchUserPlan();
 
     // Handle OAuth callback success/error
@@ -233,6 +239,32 @@ export default function SettingsPage() {
     }
   };
 
+  const fetchDialingSettings = async () => {
+    try {
+      const response = await api.getDialingSettings();
+      setDialing(response.data || null);
+      setConcurrentCallsInput(response.data?.maxConcurrentCalls ? String(response.data.maxConcurrentCalls) : '');
+    } catch (error) {
+      console.error('Failed to fetch dialing settings:', error);
+    }
+  };
+
+  const handleSaveDialing = async () => {
+    setDialingSaving(true);
+    try {
+      const response = await api.updateDialingSettings({
+        maxConcurrentCalls: concurrentCallsInput ? parseInt(concurrentCallsInput) : null,
+      });
+      setDialing(response.data || null);
+      toast({ title: 'Dialing settings saved', description: 'Campaigns pick up the new limit on their next round.' });
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to save dialing settings';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setDialingSaving(false);
+    }
+  };
+
   const handleSaveBusinessProfile = async () => {
     setBusinessProfileSaving(true);
     try {
@@ -1565,6 +1597,43 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          {/* Campaign Dialing */}
+          <Card>
+            <CardHeader className="pb-4">
+              <CardTitle className="text-lg text-slate-600">Campaign Dialing</CardTitle>
+              <CardDescription>
+                How many campaign calls can be live at once across all your campaigns
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="maxConcurrentCalls">Concurrent Calls</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="maxConcurrentCalls"
+                    type="number"
+                    min="1"
+                    max={dialing?.planLimit}
+                    placeholder={dialing ? `${dialing.planLimit} (plan limit)` : ''}
+                    value={concurrentCallsInput}
+                    onChange={(e) => setConcurrentCallsInput(e.target.value)}
+                    className="max-w-[12rem]"
+                  />
+                  <Button
+                    onClick={handleSaveDialing}
+                    disabled={dialingSaving || !dialing}
+                    className="bg-gradient-to-b from-[#0fa693] to-teal-600 hover:from-[#0e9585] hover:to-teal-700"
+                  >
+                    {dialingSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Your plan allows up to {dialing?.planLimit ?? '…'}. Leave empty to use the plan limit. Each campaign also has its own limit, and other live calls on the account count toward this one.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* More Preferences Coming Soon */}
           <Card>
             <CardHeader className="pb-4">
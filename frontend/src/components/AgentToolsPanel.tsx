@@ -0,0 +1,381 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { api, ApiError, AgentTool, AgentToolInput, ToolInvocation } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { Wrench, Plus, Pencil, Trash2, Play, Loader2 } from 'lucide-react';
+
+const METHODS: AgentTool['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const EMPTY_PARAMETERS = JSON.stringify({
+  type: 'object',
+  properties: {
+    order_id: { type: 'string', description: 'The order number the caller reads out' },
+  },
+  required: ['order_id'],
+}, null, 2);
+
+interface ToolForm {
+  name: string;
+  description: string;
+  method: AgentTool['method'];
+  url: string;
+  headers: string; // "Name: value" per line
+  parameters: string; // JSON schema text
+  responseTemplate: string;
+  timeoutSeconds: number;
+  isActive: boolean;
+}
+
+const emptyForm = (): ToolForm => ({
+  name: '',
+  description: '',
+  method: 'GET',
+  url: '',
+  headers: '',
+  parameters: EMPTY_PARAMETERS,
+  responseTemplate: '',
+  timeoutSeconds: 5,
+  isActive: true,
+});
+
+const toForm = (tool: AgentTool): ToolForm => ({
+  name: tool.name,
+  description: tool.description,
+  method: tool.method,
+  url: tool.url,
+  headers: Object.entries(tool.headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n'),
+  parameters: JSON.stringify(tool.parameters, null, 2),
+  responseTemplate: tool.responseTemplate || '',
+  timeoutSeconds: tool.timeoutMs / 1000,
+  isActive: tool.isActive,
+});
+
+const INVOCATION_STYLES: Record<ToolInvocation['status'], string> = {
+  success: 'bg-green-100 text-green-700',
+  error: 'bg-red-100 text-red-700',
+  timeout: 'bg-yellow-100 text-yellow-700',
+};
+
+interface AgentToolsPanelProps {
+  agentId: string;
+}
+
+export function AgentToolsPanel({ agentId }: AgentToolsPanelProps) {
+  const { toast } = useToast();
+  const [tools, setTools] = useState<AgentTool[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [form, setForm] = useState<ToolForm>(emptyForm());
+  const [saving, setSaving] = useState(false);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [testResults, setTestResults] = useState<Record<string, ToolInvocation>>({});
+
+  useEffect(() => {
+    api.getAgentTools(agentId)
+      .then((res) => setTools(res.data || []))
+      .catch((error) => console.error('Failed to fetch agent tools:', error))
+      .finally(() => setLoading(false));
+  }, [agentId]);
+
+  const startEditing = (tool?: AgentTool) => {
+    setEditingId(tool ? tool.id : 'new');
+    setForm(tool ? toForm(tool) : emptyForm());
+  };
+
+  const handleSave = async () => {
+    let parameters: Record<string, any>;
+    try {
+      parameters = JSON.parse(form.parameters);
+    } catch {
+      toast({ title: 'Invalid parameters', description: 'Parameters must be valid JSON.', variant: 'destructive' });
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const line of form.headers.split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+      }
+    }
+
+    const data: AgentToolInput = {
+      name: form.name.trim(),
+      description: form.description.trim(),
+      method: form.method,
+      url: form.url.trim(),
+      headers,
+      parameters,
+      responseTemplate: form.responseTemplate.trim() || null,
+      timeoutMs: Math.round(form.timeoutSeconds * 1000),
+      isActive: form.isActive,
+    };
+
+    setSaving(true);
+    try {
+      if (editingId === 'new') {
+        const response = await api.createAgentTool(agentId, data);
+        setTools(prev => [...prev, response.data!]);
+      } else if (editingId) {
+        const response = await api.updateAgentTool(agentId, editingId, data);
+        setTools(prev => prev.map(t => (t.id === editingId ? response.data! : t)));
+      }
+      setEditingId(null);
+      toast({ title: 'Tool saved', description: `${data.name} is available on the agent's next call.` });
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to save tool';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (tool: AgentTool) => {
+    if (!confirm(`Delete the ${tool.name} tool?`)) return;
+
+    try {
+      await api.deleteAgentTool(agentId, tool.id);
+      setTools(prev => prev.filter(t => t.id !== tool.id));
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to delete tool';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    }
+  };
+
+  const handleTest = async (tool: AgentTool) => {
+    const input = prompt(`Arguments for ${tool.name} (JSON)`, '{}');
+    if (input === null) return;
+
+    let args: Record<string, any>;
+    try {
+      args = JSON.parse(input);
+    } catch {
+      toast({ title: 'Invalid arguments', description: 'Arguments must be valid JSON.', variant: 'destructive' });
+      return;
+    }
+
+    setTestingId(tool.id);
+    try {
+      const response = await api.testAgentTool(agentId, tool.id, args);
+      setTestResults(prev => ({ ...prev, [tool.id]: response.data! }));
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to run tool';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  if (loading) {
+    return null;
+  }
+
+  const renderForm = () => (
+    <div className="space-y-3 border rounded-md p-3">
+      <div className="grid md:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="toolName" className="text-muted-foreground">Name</Label>
+          <Input
+            id="toolName"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g., get_order_status"
+            maxLength={64}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="toolTimeout" className="text-muted-foreground">Timeout (seconds)</Label>
+          <Input
+            id="toolTimeout"
+            type="number"
+            min={1}
+            max={15}
+            value={form.timeoutSeconds}
+            onChange={(e) => setForm({ ...form, timeoutSeconds: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="toolDescription" className="text-muted-foreground">Description</Label>
+        <Input
+          id="toolDescription"
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          placeholder="When the agent should use this, e.g., Look up the status of a customer's order"
+          maxLength={1000}
+        />
+      </div>
+
+      <div className="grid grid-cols-[6.5rem_1fr] gap-2">
+        <select
+          className="px-2 py-2 text-sm border rounded-md bg-white"
+          value={form.method}
+          onChange={(e) => setForm({ ...form, method: e.target.value as AgentTool['method'] })}
+        >
+          {METHODS.map((method) => (
+            <option key={method} value={method}>{method}</option>
+          ))}
+        </select>
+        <Input
+          value={form.url}
+          onChange={(e) => setForm({ ...form, url: e.target.value })}
+          placeholder="https://api.example.com/orders/{{order_id}}"
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Use {'{{argument}}'} to fill in values from the conversation. POST, PUT and PATCH also send the arguments as a JSON body.
+      </p>
+
+      <div className="space-y-1">
+        <Label htmlFor="toolHeaders" className="text-muted-foreground">Headers</Label>
+        <Textarea
+          id="toolHeaders"
+          value={form.headers}
+          onChange={(e) => setForm({ ...form, headers: e.target.value })}
+          placeholder="Authorization: Bearer sk_live_..."
+          className="font-mono text-xs min-h-[60px]"
+        />
+        <p className="text-xs text-muted-foreground">One per line. Stored encrypted.</p>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="toolParameters" className="text-muted-foreground">Parameters (JSON schema)</Label>
+        <Textarea
+          id="toolParameters"
+          value={form.parameters}
+          onChange={(e) => setForm({ ...form, parameters: e.target.value })}
+          className="font-mono text-xs min-h-[140px]"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="toolResponse" className="text-muted-foreground">Response Template</Label>
+        <Textarea
+          id="toolResponse"
+          value={form.responseTemplate}
+          onChange={(e) => setForm({ ...form, responseTemplate: e.target.value })}
+          placeholder="Order {{order_id}} is {{response.status}}, arriving {{response.eta}}"
+          className="font-mono text-xs min-h-[60px]"
+          maxLength={2000}
+        />
+        <p className="text-xs text-muted-foreground">
+          What the agent is told about the result. Leave empty to pass the raw response.
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={form.isActive}
+          onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+          className="h-4 w-4 rounded border-gray-300 accent-teal-600 focus:ring-teal-500"
+        />
+        Active
+      </label>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => setEditingId(null)} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={saving || !form.name.trim() || !form.description.trim() || !form.url.trim()}
+          className="bg-teal-600 hover:bg-teal-700"
+        >
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Tool
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-slate-600 flex items-center gap-2">
+              <Wrench className="h-5 w-5 text-teal-600" />
+              Tools
+            </CardTitle>
+            <CardDescription>
+              HTTP endpoints the agent can call during a conversation, e.g. to look up an order
+            </CardDescription>
+          </div>
+          {editingId === null && (
+            <Button variant="outline" size="sm" onClick={() => startEditing()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Tool
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {editingId === 'new' && renderForm()}
+
+        {tools.length === 0 ? (
+          editingId !== 'new' && (
+            <p className="text-sm text-muted-foreground">No tools yet. The agent can only use its built-in abilities.</p>
+          )
+        ) : (
+          <div className="border rounded-md divide-y">
+            {tools.map((tool) => (
+              <div key={tool.id} className="px-3 py-2 text-sm space-y-2">
+                {editingId === tool.id ? renderForm() : (
+                  <>
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono text-slate-600">{tool.name}</span>
+                          {!tool.isActive && (
+                            <span className="px-2 py-0.5 text-xs rounded-full bg-slate-100 text-slate-600">Inactive</span>
+                          )}
+                        </div>
+                        <p className="text-muted-foreground truncate">
+                          {tool.method} {tool.url}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button variant="ghost" size="sm" onClick={() => handleTest(tool)} disabled={testingId === tool.id} title="Test">
+                          {testingId === tool.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => startEditing(tool)} disabled={editingId !== null} title="Edit">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(tool)} title="Delete">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {testResults[tool.id] && (
+                      <div className="bg-muted rounded-md p-2 space-y-1">
+                        <div className="flex items-center gap-2 text-xs">
+                          <span className={`px-2 py-0.5 rounded-full capitalize ${INVOCATION_STYLES[testResults[tool.id].status]}`}>
+                            {testResults[tool.id].status}
+                          </span>
+                          {testResults[tool.id].responseStatus && <span>HTTP {testResults[tool.id].responseStatus}</span>}
+                          <span className="text-muted-foreground">{testResults[tool.id].durationMs}ms</span>
+                        </div>
+                        <p className="text-xs text-slate-600">
+                          {testResults[tool.id].error || 'The endpoint responded. The response body is only passed to the agent during calls.'}
+                        </p>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,281 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { api, ApiError, AgentVersion } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { formatRelativeTime } from '@/lib/utils';
+import { History, RotateCcw, GitCompare, Loader2 } from 'lucide-react';
+
+const FIELD_LABELS: Record<string, string> = {
+  voice: 'Voice',
+  voiceSettings: 'Voice Settings',
+  llmProvider: 'LLM Provider',
+  llmModel: 'LLM Model',
+  llmBaseUrl: 'LLM Base URL',
+  systemPrompt: 'System Prompt',
+  maxTokens: 'Max Tokens',
+  endCallPhrases: 'End Call Phrases',
+  ivrMenu: 'IVR Menu',
+  callerContext: 'Caller Context',
+  extractionSchema: 'Data Extraction',
+  messagingSystemPrompt: 'Messaging Prompt',
+  webhookUrl: 'Webhook URL',
+  calendarIntegrationId: 'Calendar',
+  defaultEventTypeId: 'Event Type',
+  defaultEventTypeName: 'Event Type Name',
+  defaultEventDuration: 'Event Duration',
+};
+
+// "outboundGreeting" -> "Outbound Greeting"
+const fieldLabel = (field: string) =>
+  FIELD_LABELS[field] || field.replace(/([A-Z])/g, ' $1').replace(/^./, (c) => c.toUpperCase());
+
+// Stored configs come back from jsonb with their keys reordered, so compare with keys sorted
+const canonical = (value: unknown) =>
+  JSON.stringify(value ?? null, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+};
+
+type DiffLine = { type: 'same' | 'added' | 'removed'; text: string };
+
+// Line diff via longest common subsequence; prompts are short enough for the O(n*m) table
+function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  same: 'text-slate-600',
+  added: 'bg-green-50 text-green-700',
+  removed: 'bg-red-50 text-red-700 line-through',
+};
+
+const LINE_PREFIXES: Record<DiffLine['type'], string> = {
+  same: '  ',
+  added: '+ ',
+  removed: '- ',
+};
+
+interface AgentVersionHistoryProps {
+  agentId: string;
+  currentVersionId?: string | null;
+  onRollback: () => void;
+}
+
+export function AgentVersionHistory({ agentId, currentVersionId, onRollback }: AgentVersionHistoryProps) {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<AgentVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string>('');
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+  // Reload whenever a save or rollback moves the agent to a new version
+  useEffect(() => {
+    api.getAgentVersions(agentId)
+      .then((res) => setVersions(res.data || []))
+      .catch((error) => console.error('Failed to fetch agent versions:', error))
+      .finally(() => setLoading(false));
+  }, [agentId, currentVersionId]);
+
+  const startComparing = (version: AgentVersion) => {
+    if (comparingId === version.id) {
+      setComparingId(null);
+      return;
+    }
+    // Versions are newest first: default to the one before, or the current one for v1
+    const index = versions.findIndex((v) => v.id === version.id);
+    const base = versions[index + 1] || versions.find((v) => v.isCurrent && v.id !== version.id);
+    setComparingId(version.id);
+    setBaseId(base?.id || '');
+  };
+
+  const handleRollback = async (version: AgentVersion) => {
+    if (!confirm(`Roll back to v${version.version}? This saves its settings as a new version.`)) return;
+
+    setRollingBackId(version.id);
+    try {
+      await api.rollbackAgentVersion(agentId, version.id);
+      toast({
+        title: 'Agent rolled back',
+        description: `v${version.version} is live from the next call.`,
+      });
+      setComparingId(null);
+      onRollback();
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to roll back agent';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  if (loading || versions.length === 0) {
+    return null;
+  }
+
+  const renderDiff = (version: AgentVersion) => {
+    const base = versions.find((v) => v.id === baseId);
+    const fields = base
+      ? Object.keys({ ...base.config, ...version.config }).filter(
+          (field) => canonical(base.config[field]) !== canonical(version.config[field])
+        )
+      : [];
+
+    return (
+      <div className="bg-muted rounded-md p-3 space-y-3">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>Compare v{version.version} with</span>
+          <select
+            className="px-2 py-1 text-xs border rounded-md bg-white"
+            value={baseId}
+            onChange={(e) => setBaseId(e.target.value)}
+          >
+            {versions.filter((v) => v.id !== version.id).map((v) => (
+              <option key={v.id} value={v.id}>
+                v{v.version}{v.isCurrent ? ' (current)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {!base ? (
+          <p className="text-xs text-muted-foreground">This is the only version.</p>
+        ) : fields.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No differences.</p>
+        ) : (
+          fields.map((field) => {
+            const before = base.config[field];
+            const after = version.config[field];
+            const multiline = typeof before === 'string' && typeof after === 'string' && (before.includes('\n') || after.includes('\n'));
+
+            return (
+              <div key={field} className="space-y-1">
+                <p className="text-xs font-medium text-slate-600">{fieldLabel(field)}</p>
+                {multiline ? (
+                  <pre className="text-xs whitespace-pre-wrap break-words font-mono bg-white border rounded-md p-2 max-h-80 overflow-y-auto">
+                    {diffLines(before, after).map((line, index) => (
+                      <div key={index} className={LINE_STYLES[line.type]}>
+                        {LINE_PREFIXES[line.type]}{line.text}
+                      </div>
+                    ))}
+                  </pre>
+                ) : (
+                  <div className="grid md:grid-cols-2 gap-2">
+                    <pre className="text-xs whitespace-pre-wrap break-words font-mono bg-red-50 text-red-700 rounded-md p-2">
+                      {formatValue(before)}
+                    </pre>
+                    <pre className="text-xs whitespace-pre-wrap break-words font-mono bg-green-50 text-green-700 rounded-md p-2">
+                      {formatValue(after)}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-slate-600 flex items-center gap-2">
+          <History className="h-5 w-5 text-teal-600" />
+          Version History
+        </CardTitle>
+        <CardDescription>
+          Every save is kept as a version. Calls and messages record the version that handled them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-md divide-y">
+          {versions.map((version) => (
+            <div key={version.id} className="px-3 py-2 text-sm space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-slate-600">v{version.version}</span>
+                    {version.isCurrent && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-teal-100 text-teal-700">Current</span>
+                    )}
+                    <span className="text-xs text-muted-foreground">{formatRelativeTime(version.createdAt)}</span>
+                  </div>
+                  <p className="text-muted-foreground truncate">
+                    {version.note || (version.version === 1
+                      ? 'Created'
+                      : version.changedFields.length > 0
+                        ? `Changed ${version.changedFields.map(fieldLabel).join(', ')}`
+                        : 'Saved')}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {version._count.calls} call{version._count.calls === 1 ? '' : 's'}, {version._count.messages} message{version._count.messages === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => startComparing(version)} title="Compare">
+                    <GitCompare className="h-4 w-4" />
+                  </Button>
+                  {!version.isCurrent && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRollback(version)}
+                      disabled={rollingBackId !== null}
+                      className="text-teal-600 border-teal-600 hover:bg-teal-50"
+                    >
+                      {rollingBackId === version.id ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                      )}
+                      Roll Back
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {comparingId === version.id && renderDiff(version)}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { api, ApiError } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { formatRelativeTime } from '@/lib/utils';
+import { Webhook, Eye, EyeOff, Copy, RefreshCw, RotateCcw, Loader2 } from 'lucide-react';
+
+interface WebhookDelivery {
+  id: string;
+  event: string;
+  url: string;
+  status: 'pending' | 'retrying' | 'success' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  lastAttemptAt: string | null;
+}
+
+interface AgentWebhookPanelProps {
+  agentId: string;
+}
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-slate-100 text-slate-600',
+  retrying: 'bg-yellow-100 text-yellow-700',
+  success: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+export function AgentWebhookPanel({ agentId }: AgentWebhookPanelProps) {
+  const { toast } = useToast();
+  const [webhook, setWebhook] = useState<{ url: string | null; events: string[]; secret: string | null } | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showSecret, setShowSecret] = useState(false);
+  const [rotating, setRotating] = useState(false);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  const fetchWebhook = async () => {
+    try {
+      const [webhookRes, deliveriesRes] = await Promise.all([
+        api.getAgentWebhook(agentId),
+        api.getWebhookDeliveries(agentId, { limit: 20 }),
+      ]);
+      setWebhook(webhookRes.data || null);
+      setDeliveries(deliveriesRes.data || []);
+    } catch (error) {
+      console.error('Failed to fetch webhook deliveries:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWebhook();
+  }, [agentId]);
+
+  const handleCopySecret = async () => {
+    if (!webhook?.secret) return;
+    await navigator.clipboard.writeText(webhook.secret);
+    toast({ title: 'Copied', description: 'Signing secret copied to clipboard.' });
+  };
+
+  const handleRotateSecret = async () => {
+    if (!confirm('Rotate the signing secret? Your endpoint must be updated to verify new deliveries.')) return;
+
+    setRotating(true);
+    try {
+      const response = await api.rotateAgentWebhookSecret(agentId);
+      setWebhook(prev => prev && { ...prev, secret: response.data?.secret || null });
+      setShowSecret(true);
+      toast({ title: 'Secret rotated', description: 'New deliveries are signed with the new secret.' });
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to rotate secret';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const handleRedeliver = async (deliveryId: string) => {
+    setRedeliveringId(deliveryId);
+    try {
+      await api.redeliverWebhook(agentId, deliveryId);
+      toast({ title: 'Redelivery queued', description: 'The event will be sent again shortly.' });
+      setDeliveries(prev => prev.map(d => d.id === deliveryId ? { ...d, status: 'pending', attempts: 0, error: null } : d));
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to redeliver';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  if (loading || !webhook?.url) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-slate-600 flex items-center gap-2">
+              <Webhook className="h-5 w-5 text-teal-600" />
+              Webhooks
+            </CardTitle>
+            <CardDescription>
+              Events are POSTed as JSON and signed with HMAC-SHA256 in the X-Webhook-Signature header
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchWebhook}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <Label className="text-muted-foreground">Endpoint</Label>
+            <p className="font-medium text-slate-600 break-all">{webhook.url}</p>
+          </div>
+          <div>
+            <Label className="text-muted-foreground">Events</Label>
+            <p className="font-medium text-slate-600">
+              {webhook.events.length > 0 ? webhook.events.join(', ') : 'All events'}
+            </p>
+          </div>
+          <div className="md:col-span-2">
+            <Label className="text-muted-foreground">Signing Secret</Label>
+            <div className="flex items-center gap-2 mt-1">
+              <code className="flex-1 px-3 py-2 text-sm bg-muted rounded-md font-mono truncate">
+                {webhook.secret ? (showSecret ? webhook.secret : '•'.repeat(32)) : 'Not generated'}
+              </code>
+              {webhook.secret && (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => setShowSecret(!showSecret)}>
+                    {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleCopySecret}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+              <Button variant="outline" size="sm" onClick={handleRotateSecret} disabled={rotating}>
+                {rotating ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Rotate'}
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <Label className="text-muted-foreground">Recent Deliveries</Label>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground mt-2">No events have been sent yet.</p>
+          ) : (
+            <div className="mt-2 border rounded-md divide-y">
+              {deliveries.map((delivery) => (
+                <div key={delivery.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className={`px-2 py-0.5 text-xs rounded-full capitalize ${STATUS_STYLES[delivery.status] || STATUS_STYLES.pending}`}>
+                      {delivery.status}
+                    </span>
+                    <span className="font-mono text-slate-600">{delivery.event}</span>
+                    <span className="text-muted-foreground truncate" title={delivery.error || undefined}>
+                      {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : delivery.error || ''}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0 text-muted-foreground">
+                    <span>{delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}</span>
+                    <span>{formatRelativeTime(delivery.lastAttemptAt || delivery.createdAt)}</span>
+                    {(delivery.status === 'failed' || delivery.status === 'success') && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRedeliver(delivery.id)}
+                        disabled={redeliveringId === delivery.id}
+                        title="Redeliver"
+                      >
+                        {redeliveringId === delivery.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4" />
+                        )}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { api } from '@/lib/api';
+import { formatPhoneNumber } from '@/lib/utils';
+
+export interface CallerIdPool {
+  phoneNumberIds: string[];
+  localPresence: boolean;
+  callsPerNumberPerDay: number | null;
+}
+
+interface CallerIdPoolEditorProps {
+  value: CallerIdPool;
+  onChange: (value: CallerIdPool) => void;
+}
+
+export function CallerIdPoolEditor({ value, onChange }: CallerIdPoolEditorProps) {
+  const [phoneNumbers, setPhoneNumbers] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    api.getPhoneNumbers()
+      .then((response) => setPhoneNumbers((response.data || []).filter((number: any) => number.isActive)))
+      .catch((error) => console.error('Failed to load phone numbers:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const toggleNumber = (id: string, checked: boolean) => {
+    onChange({
+      ...value,
+      phoneNumberIds: checked
+        ? [...value.phoneNumberIds, id]
+        : value.phoneNumberIds.filter((selected) => selected !== id),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading phone numbers...</p>
+        ) : phoneNumbers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active phone numbers. Add one in Settings.</p>
+        ) : (
+          <div className="border rounded-md divide-y max-h-48 overflow-y-auto">
+            {phoneNumbers.map((number) => (
+              <label key={number.id} className="flex items-center gap-2 px-3 py-2 text-sm text-slate-600 cursor-pointer hover:bg-slate-50">
+                <input
+                  type="checkbox"
+                  checked={value.phoneNumberIds.includes(number.id)}
+                  onChange={(e) => toggleNumber(number.id, e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 accent-teal-600 focus:ring-teal-500"
+                />
+                <span className="font-mono">{formatPhoneNumber(number.phoneNumber)}</span>
+                {number.friendlyName && <span className="text-muted-foreground truncate">{number.friendlyName}</span>}
+              </label>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {value.phoneNumberIds.length > 0
+            ? `Calls rotate across ${value.phoneNumberIds.length} number${value.phoneNumberIds.length !== 1 ? 's' : ''}, least used first.`
+            : "None selected: calls go out from the agent's number."}
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-slate-600">
+        <input
+          type="checkbox"
+          checked={value.localPresence}
+          onChange={(e) => onChange({ ...value, localPresence: e.target.checked })}
+          className="h-4 w-4 rounded border-gray-300 accent-teal-600 focus:ring-teal-500"
+        />
+        Local presence: call from a number with the lead&apos;s area code when the pool has one
+      </label>
+
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Calls Per Number Per Day (optional)</Label>
+        <Input
+          type="number"
+          min="1"
+          max="1000"
+          placeholder="No limit"
+          value={value.callsPerNumberPerDay || ''}
+          onChange={(e) => onChange({ ...value, callsPerNumberPerDay: e.target.value ? parseInt(e.target.value) : null })}
+        />
+        <p className="text-xs text-muted-foreground">
+          Keeps each number under the volume that gets it labeled as spam. Counts every outbound call from the number.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { MessageSquare, Phone } from 'lucide-react';
+import { CampaignFunnelStep } from '@/lib/api';
+import { CAMPAIGN_STEP_CONDITIONS } from '@/lib/constants';
+
+const OUTCOMES: Record<string, { label: string; color: string }> = {
+  reached: { label: 'Reached', color: 'bg-green-500' },
+  sent: { label: 'Sent', color: 'bg-green-500' },
+  voicemail: { label: 'Voicemail', color: 'bg-amber-400' },
+  no_answer: { label: 'No answer', color: 'bg-slate-400' },
+  in_progress: { label: 'In progress', color: 'bg-blue-400' },
+  failed: { label: 'Failed', color: 'bg-red-400' },
+};
+
+function formatDelay(minutes: number): string {
+  if (minutes === 0) return 'right away';
+  if (minutes % 1440 === 0) return `after ${minutes / 1440} day${minutes !== 1440 ? 's' : ''}`;
+  if (minutes % 60 === 0) return `after ${minutes / 60} hour${minutes !== 60 ? 's' : ''}`;
+  return `after ${minutes} min`;
+}
+
+interface CampaignFunnelProps {
+  steps: CampaignFunnelStep[];
+  totalLeads: number;
+}
+
+export function CampaignFunnel({ steps, totalLeads }: CampaignFunnelProps) {
+  return (
+    <div className="space-y-4">
+      {steps.map((step, index) => {
+        const width = totalLeads > 0 ? (step.entered / totalLeads) * 100 : 0;
+        const Icon = step.channel === 'sms' ? MessageSquare : Phone;
+
+        return (
+          <div key={step.id} className="space-y-1.5">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="flex items-center gap-2 text-slate-600">
+                <Icon className="h-4 w-4 text-teal-600" />
+                <span className="font-medium">
+                  {index + 1}. {step.channel === 'sms' ? 'SMS' : 'Call'}
+                </span>
+                {index > 0 && (
+                  <span className="text-xs text-muted-foreground">
+                    {CAMPAIGN_STEP_CONDITIONS[step.condition] || step.condition}, {formatDelay(step.delayMinutes)}
+                  </span>
+                )}
+              </span>
+              <span className="text-slate-600">
+                {step.entered} lead{step.entered !== 1 ? 's' : ''}
+                {step.waiting > 0 && <span className="text-muted-foreground"> · {step.waiting} waiting</span>}
+              </span>
+            </div>
+            <div className="w-full bg-slate-100 rounded-full h-3 overflow-hidden">
+              <div className="flex h-3 transition-all" style={{ width: `${width}%` }}>
+                {Object.entries(OUTCOMES).map(([outcome, { color }]) => (
+                  step.outcomes[outcome] ? (
+                    <div
+                      key={outcome}
+                      className={color}
+                      style={{ width: `${(step.outcomes[outcome] / step.entered) * 100}%` }}
+                    />
+                  ) : null
+                ))}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+              {Object.entries(OUTCOMES).map(([outcome, { label, color }]) => (
+                step.outcomes[outcome] ? (
+                  <span key={outcome} className="flex items-center gap-1">
+                    <span className={`h-2 w-2 rounded-full ${color}`} />
+                    {label}: {step.outcomes[outcome]}
+                  </span>
+                ) : null
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { api, CampaignStepInput } from '@/lib/api';
+import { CAMPAIGN_STEP_CHANNELS, CAMPAIGN_STEP_CONDITIONS, CAMPAIGN_STEP_LIMIT } from '@/lib/constants';
+
+const DELAY_UNITS = [
+  { value: 1440, label: 'days' },
+  { value: 60, label: 'hours' },
+  { value: 1, label: 'minutes' },
+];
+
+const MAX_DELAY_MINUTES = 43200; // 30 days
+
+// Largest unit the delay divides evenly into, so "2 hours" doesn't come back as "120 minutes"
+function delayUnit(minutes: number): number {
+  if (minutes === 0) return 60;
+  return DELAY_UNITS.find((unit) => minutes % unit.value === 0)!.value;
+}
+
+interface CampaignSequenceEditorProps {
+  value: CampaignStepInput[];
+  onChange: (steps: CampaignStepInput[]) => void;
+}
+
+export function CampaignSequenceEditor({ value, onChange }: CampaignSequenceEditorProps) {
+  const [assets, setAssets] = useState<any[]>([]);
+
+  useEffect(() => {
+    api.getAssets()
+      .then((response) => setAssets(response.data || []))
+      .catch((error) => console.error('Failed to load assets:', error));
+  }, []);
+
+  const updateStep = (index: number, changes: Partial<CampaignStepInput>) => {
+    onChange(value.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const addStep = () => {
+    const previous = value[value.length - 1];
+    onChange([
+      ...value,
+      previous
+        ? { channel: previous.channel === 'call' ? 'sms' : 'call', condition: 'not_reached', delayMinutes: 120, message: '', assetId: null }
+        : { channel: 'call', condition: 'always', delayMinutes: 0, message: '', assetId: null },
+    ]);
+  };
+
+  const removeStep = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...value];
+    [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+    onChange(steps);
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.map((step, index) => {
+        const unit = delayUnit(step.delayMinutes);
+
+        return (
+          <div key={index} className="border rounded-md p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-slate-600">Step {index + 1}</span>
+              <select
+                className="px-3 py-2 text-sm border rounded-md bg-white"
+                value={step.channel}
+                onChange={(e) => updateStep(index, { channel: e.target.value as CampaignStepInput['channel'] })}
+              >
+                {Object.entries(CAMPAIGN_STEP_CHANNELS).map(([channel, label]) => (
+                  <option key={channel} value={channel}>{label}</option>
+                ))}
+              </select>
+              <div className="ml-auto flex items-center">
+                <Button type="button" variant="ghost" size="sm" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => moveStep(index, 1)} disabled={index === value.length - 1}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => removeStep(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {index === 0 ? (
+              <p className="text-xs text-muted-foreground">Runs for every lead when the campaign reaches it.</p>
+            ) : (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <span>If the last call was</span>
+                <select
+                  className="px-3 py-2 text-sm border rounded-md bg-white"
+                  value={step.condition}
+                  onChange={(e) => updateStep(index, { condition: e.target.value as CampaignStepInput['condition'] })}
+                >
+                  {Object.entries(CAMPAIGN_STEP_CONDITIONS).map(([condition, label]) => (
+                    <option key={condition} value={condition}>{label}</option>
+                  ))}
+                </select>
+                <span>wait</span>
+                <Input
+                  type="number"
+                  min="0"
+                  value={step.delayMinutes / unit}
+                  onChange={(e) => updateStep(index, {
+                    delayMinutes: Math.min((parseInt(e.target.value) || 0) * unit, MAX_DELAY_MINUTES),
+                  })}
+                  className="w-20"
+                />
+                <select
+                  className="px-3 py-2 text-sm border rounded-md bg-white"
+                  value={unit}
+                  onChange={(e) => updateStep(index, {
+                    delayMinutes: Math.min((step.delayMinutes / unit) * parseInt(e.target.value), MAX_DELAY_MINUTES),
+                  })}
+                >
+                  {DELAY_UNITS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {step.channel === 'sms' && (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Message</Label>
+                <Textarea
+                  placeholder="Hi {{lead.name}}, sorry we missed you..."
+                  value={step.message || ''}
+                  onChange={(e) => updateStep(index, { message: e.target.value })}
+                  maxLength={1600}
+                  rows={3}
+                />
+                <select
+                  className="w-full px-3 py-2 text-sm border rounded-md bg-white"
+                  value={step.assetId || ''}
+                  onChange={(e) => updateStep(index, { assetId: e.target.value || null })}
+                >
+                  <option value="">No attachment</option>
+                  {assets.map((asset) => (
+                    <option key={asset.id} value={asset.id}>{asset.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {value.length < CAMPAIGN_STEP_LIMIT && (
+        <Button type="button" variant="outline" size="sm" onClick={addStep}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Step
+        </Button>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {value.length > 0
+          ? 'Each lead works through the steps in order. A step whose condition fails ends the lead\'s sequence. Sequences replace the retry settings.'
+          : 'No sequence: each lead is called, with retries per the settings above.'}
+        {' '}Messages can use {'{{lead.name}}'} and other lead fields.
+      </p>
+    </div>
+  );
+}
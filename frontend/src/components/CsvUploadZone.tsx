@@ -277,7 +277,7 @@ export function CsvUploadZone({ onUpload, onPreview }: CsvUploadZoneProps) {
           <p className="text-sm font-medium text-slate-600 mb-2">CSV Format Guide:</p>
           <div className="text-xs text-muted-foreground space-y-1">
             <p>• Required column: <code className="bg-white px-1 py-0.5 rounded">phone</code> or <code className="bg-white px-1 py-0.5 rounded">phoneNumber</code></p>
-            <p>• Optional columns: <code className="bg-white px-1 py-0.5 rounded">name</code>, <code className="bg-white px-1 py-0.5 rounded">email</code>, custom fields</p>
+            <p>• Optional columns: <code className="bg-white px-1 py-0.5 rounded">name</code>, <code className="bg-white px-1 py-0.5 rounded">email</code>, <code className="bg-white px-1 py-0.5 rounded">timezone</code> (otherwise taken from the area code), custom fields</p>
             <p>• Example: <code className="bg-white px-1 py-0.5 rounded text-xs">name,phone,email</code></p>
             <p className="ml-12"><code className="bg-white px-1 py-0.5 rounded text-xs">John Doe,555-1234,(555) 123-4567,john@example.com</code></p>
           </div>
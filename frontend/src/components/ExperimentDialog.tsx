@@ -0,0 +1,256 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { api, ApiError, Experiment } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { formatPhoneNumber } from '@/lib/utils';
+import { FlaskConical, X, Plus, Trash2, Loader2 } from 'lucide-react';
+
+const MAX_VARIANTS = 5;
+const VARIANT_NAMES = ['A', 'B', 'C', 'D', 'E'];
+
+interface VariantForm {
+  name: string;
+  agentId: string;
+  weight: number;
+}
+
+interface ExperimentDialogProps {
+  onClose: () => void;
+  onCreated: (experiment: Experiment) => void;
+}
+
+export function ExperimentDialog({ onClose, onCreated }: ExperimentDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [targetType, setTargetType] = useState<'phoneNumber' | 'campaign'>('phoneNumber');
+  const [targetId, setTargetId] = useState('');
+  const [variants, setVariants] = useState<VariantForm[]>([
+    { name: 'A', agentId: '', weight: 50 },
+    { name: 'B', agentId: '', weight: 50 },
+  ]);
+  const [agents, setAgents] = useState<any[]>([]);
+  const [phoneNumbers, setPhoneNumbers] = useState<any[]>([]);
+  const [campaigns, setCampaigns] = useState<any[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [mounted, setMounted] = useState(false);
+
+  // Use portal to render at document.body level (avoids z-index stacking context issues)
+  useEffect(() => {
+    setMounted(true);
+    Promise.all([api.getAgents(), api.getPhoneNumbers(), api.getCampaigns()])
+      .then(([agentsRes, numbersRes, campaignsRes]) => {
+        setAgents(agentsRes.data || []);
+        setPhoneNumbers(numbersRes.data || []);
+        setCampaigns(campaignsRes.data || []);
+      })
+      .catch((error) => console.error('Failed to load experiment options:', error));
+  }, []);
+
+  // Phone numbers answer calls and campaigns place them, so only matching agents are offered
+  const eligibleAgents = agents.filter((agent) =>
+    agent.communicationChannel !== 'MESSAGING_ONLY' &&
+    agent.mode !== (targetType === 'phoneNumber' ? 'OUTBOUND' : 'INBOUND')
+  );
+
+  const totalWeight = variants.reduce((sum, v) => sum + (v.weight || 0), 0);
+
+  const updateVariant = (index: number, changes: Partial<VariantForm>) => {
+    setVariants(prev => prev.map((v, i) => (i === index ? { ...v, ...changes } : v)));
+  };
+
+  const addVariant = () => {
+    setVariants(prev => [...prev, { name: VARIANT_NAMES[prev.length] || `${prev.length + 1}`, agentId: '', weight: 50 }]);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !targetId) {
+      toast({ title: 'Missing details', description: 'Name the experiment and choose where to run it.', variant: 'destructive' });
+      return;
+    }
+    if (variants.some((v) => !v.agentId || !v.name.trim())) {
+      toast({ title: 'Missing details', description: 'Give every variant a name and an agent.', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await api.createExperiment({
+        name: name.trim(),
+        ...(targetType === 'phoneNumber' ? { phoneNumberId: targetId } : { campaignId: targetId }),
+        variants: variants.map((v) => ({ ...v, name: v.name.trim() })),
+      });
+      toast({
+        title: 'Experiment started',
+        description: 'New calls are now split across the variants.',
+      });
+      onCreated(response.data!);
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to start experiment';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!mounted) return null;
+
+  const modalContent = (
+    <div className="fixed inset-0 z-[100] bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <FlaskConical className="h-5 w-5 text-slate-600" />
+              <CardTitle className="text-slate-600">New Experiment</CardTitle>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-muted-foreground hover:text-slate-600 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            Split live calls across agents to compare prompts or voices
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="experimentName" className="text-muted-foreground">Name *</Label>
+            <Input
+              id="experimentName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Friendlier greeting"
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-muted-foreground">Run On *</Label>
+            <div className="grid grid-cols-[8.5rem_1fr] gap-2">
+              <select
+                className="px-2 py-2 text-sm border rounded-md bg-white"
+                value={targetType}
+                onChange={(e) => {
+                  setTargetType(e.target.value as 'phoneNumber' | 'campaign');
+                  setTargetId('');
+                  setVariants(prev => prev.map((v) => ({ ...v, agentId: '' })));
+                }}
+              >
+                <option value="phoneNumber">Phone number</option>
+                <option value="campaign">Campaign</option>
+              </select>
+              <select
+                className="px-3 py-2 text-sm border rounded-md bg-white"
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+              >
+                <option value="">Select...</option>
+                {targetType === 'phoneNumber'
+                  ? phoneNumbers.map((number) => (
+                      <option key={number.id} value={number.id}>
+                        {number.friendlyName || formatPhoneNumber(number.phoneNumber)}
+                      </option>
+                    ))
+                  : campaigns.map((campaign) => (
+                      <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+                    ))}
+              </select>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {targetType === 'phoneNumber'
+                ? 'Inbound calls to this number go to one of the variants instead of its usual agent.'
+                : 'Each lead call is placed by one of the variants instead of the campaign agent.'}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-muted-foreground">Variants *</Label>
+            {variants.map((variant, index) => (
+              <div key={index} className="grid grid-cols-[4rem_1fr_4.5rem_auto] gap-2 items-center">
+                <Input
+                  value={variant.name}
+                  onChange={(e) => updateVariant(index, { name: e.target.value })}
+                  maxLength={50}
+                  aria-label="Variant name"
+                />
+                <select
+                  className="px-3 py-2 text-sm border rounded-md bg-white min-w-0"
+                  value={variant.agentId}
+                  onChange={(e) => updateVariant(index, { agentId: e.target.value })}
+                >
+                  <option value="">Select agent...</option>
+                  {eligibleAgents.map((agent) => (
+                    <option key={agent.id} value={agent.id}>{agent.name}</option>
+                  ))}
+                </select>
+                <Input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={variant.weight}
+                  onChange={(e) => updateVariant(index, { weight: Number(e.target.value) })}
+                  aria-label="Traffic weight"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setVariants(prev => prev.filter((_, i) => i !== index))}
+                  disabled={variants.length <= 2}
+                  title="Remove variant"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button variant="outline" size="sm" onClick={addVariant} disabled={variants.length >= MAX_VARIANTS}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Variant
+              </Button>
+              {totalWeight > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Split: {variants.map((v) => `${v.name} ${Math.round(((v.weight || 0) / totalWeight) * 100)}%`).join(' / ')}
+                </p>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              The first variant is the control the others are compared against.
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleSave}
+              className="flex-1 bg-teal-600 hover:bg-teal-700"
+              disabled={saving}
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Starting...
+                </>
+              ) : (
+                'Start Experiment'
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+
+  // Render via portal to escape any stacking context
+  return createPortal(modalContent, document.body);
+}
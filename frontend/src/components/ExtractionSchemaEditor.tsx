@@ -0,0 +1,133 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ExtractionField } from '@/lib/api';
+import { EXTRACTION_FIELD_TYPES } from '@/lib/constants';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ExtractionSchemaEditorProps {
+  value: ExtractionField[];
+  onChange: (fields: ExtractionField[]) => void;
+}
+
+// "Date of Birth" -> "date_of_birth"
+const toFieldKey = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '').slice(0, 40);
+
+export function ExtractionSchemaEditor({ value, onChange }: ExtractionSchemaEditorProps) {
+  const updateField = (index: number, changes: Partial<ExtractionField>) => {
+    onChange(value.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const addField = () => {
+    onChange([...value, { key: '', label: '', type: 'string', required: true }]);
+  };
+
+  const removeField = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-muted-foreground">Data to Collect</Label>
+
+      {value.map((field, index) => (
+        <div key={index} className="space-y-2 border rounded-md p-3">
+          <div className="grid grid-cols-[1fr_8rem_auto] gap-2">
+            <Input
+              value={field.label}
+              onChange={(e) => {
+                const label = e.target.value;
+                // Keep the key in step with the label until it's been saved with a custom key
+                const autoKey = !field.key || field.key === toFieldKey(field.label);
+                updateField(index, { label, ...(autoKey && { key: toFieldKey(label) }) });
+              }}
+              placeholder="e.g., Insurance Provider"
+              maxLength={100}
+            />
+            <select
+              className="px-2 py-2 text-sm border rounded-md bg-white"
+              value={field.type}
+              onChange={(e) => updateField(index, { type: e.target.value as ExtractionField['type'] })}
+            >
+              {EXTRACTION_FIELD_TYPES.map((type) => (
+                <option key={type.id} value={type.id}>{type.name}</option>
+              ))}
+            </select>
+            <Button type="button" variant="ghost" size="sm" onClick={() => removeField(index)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <Input
+            value={field.description || ''}
+            onChange={(e) => updateField(index, { description: e.target.value || undefined })}
+            placeholder="Hint for the agent (optional), e.g., As printed on the card"
+            maxLength={300}
+          />
+
+          {field.type === 'enum' && (
+            <Input
+              value={(field.options || []).join(', ')}
+              onChange={(e) => updateField(index, {
+                options: e.target.value.split(',').map((o) => o.trim()).filter(Boolean),
+              })}
+              placeholder="Options, comma separated"
+            />
+          )}
+
+          {(field.type === 'string' || field.type === 'phone') && (
+            <Input
+              value={field.pattern || ''}
+              onChange={(e) => updateField(index, { pattern: e.target.value || undefined })}
+              placeholder="Validation pattern (optional regex), e.g., ^[A-Z]{3}\d{6}$"
+              className="font-mono text-xs"
+              maxLength={200}
+            />
+          )}
+
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={field.required}
+                onChange={(e) => updateField(index, { required: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 accent-teal-600 focus:ring-teal-500"
+              />
+              Required
+            </label>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <span>Save to contact</span>
+              <select
+                className="px-2 py-1 text-sm border rounded-md bg-white"
+                value={field.contactField || ''}
+                onChange={(e) => updateField(index, {
+                  contactField: (e.target.value || undefined) as ExtractionField['contactField'],
+                })}
+              >
+                <option value="">No</option>
+                <option value="name">Name</option>
+                <option value="email">Email</option>
+                <option value="notes">Notes</option>
+              </select>
+            </div>
+            {field.key && <span className="text-xs text-muted-foreground font-mono">{field.key}</span>}
+          </div>
+        </div>
+      ))}
+
+      {value.length < 30 && (
+        <Button type="button" variant="outline" size="sm" onClick={addField}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Field
+        </Button>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        The agent asks for required fields it doesn&apos;t have yet. Collected values are saved on the call, copied to campaign leads and included in call exports.
+      </p>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { useRouter } from 'next/navigation';
-import { Search, X, Loader2, ChevronRight, Bot, Flag, Users, Phone, MessageSquare, Settings, AudioLines, Hash, LayoutDashboard, PhoneCall } from 'lucide-react';
+import { Search, X, Loader2, ChevronRight, Bot, Flag, Users, Phone, MessageSquare, Settings, AudioLines, Hash, LayoutDashboard, PhoneCall, FlaskConical } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { api } from '@/lib/api';
@@ -26,6 +26,7 @@ const STATIC_PAGES: SearchResult[] = [
   { id: 'page-dashboard', type: 'page', title: 'Dashboard', subtitle: 'Go to Dashboard', icon: LayoutDashboard, href: '/dashboard' },
   { id: 'page-agents', type: 'page', title: 'Agents', subtitle: 'Manage AI Agents', icon: Bot, href: '/dashboard/agents' },
   { id: 'page-campaigns', type: 'page', title: 'Campaigns', subtitle: 'Manage Campaigns', icon: Flag, href: '/dashboard/campaigns' },
+  { id: 'page-experiments', type: 'page', title: 'Experiments', subtitle: 'A/B Test Agents', icon: FlaskConical, href: '/dashboard/experiments' },
   { id: 'page-contacts', type: 'page', title: 'Contacts', subtitle: 'Manage Contacts', icon: Users, href: '/dashboard/contacts' },
   { id: 'page-voices', type: 'page', title: 'Voices', subtitle: 'Manage Voices', icon: AudioLines, href: '/dashboard/voices' },
   { id: 'page-dialpad', type: 'page', title: 'Dialpad', subtitle: 'Make Calls', icon: Hash, href: '/dashboard/dialpad' },
@@ -0,0 +1,150 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { api, IvrMenu } from '@/lib/api';
+import { Plus, Trash2 } from 'lucide-react';
+
+const MENU_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0', '*'];
+
+interface IvrMenuEditorProps {
+  agentId: string;
+  value: IvrMenu | null;
+  onChange: (menu: IvrMenu | null) => void;
+}
+
+export function IvrMenuEditor({ agentId, value, onChange }: IvrMenuEditorProps) {
+  const [agents, setAgents] = useState<{ id: string; name: string }[]>([]);
+
+  useEffect(() => {
+    api.getAgents()
+      .then((res) => setAgents((res.data || []).filter((a: any) => a.mode !== 'OUTBOUND')))
+      .catch((error) => console.error('Failed to fetch agents:', error));
+  }, []);
+
+  const handleToggle = (enabled: boolean) => {
+    onChange(enabled
+      ? {
+          prompt: 'Thanks for calling. For sales, press 1. For support, press 2.',
+          options: [{ digit: '1', label: 'Sales', agentId }],
+          timeoutSeconds: 5,
+        }
+      : null);
+  };
+
+  const updateOption = (index: number, changes: Partial<IvrMenu['options'][number]>) => {
+    if (!value) return;
+    onChange({
+      ...value,
+      options: value.options.map((option, i) => (i === index ? { ...option, ...changes } : option)),
+    });
+  };
+
+  const addOption = () => {
+    if (!value) return;
+    const digit = MENU_KEYS.find((key) => !value.options.some((o) => o.digit === key)) || '1';
+    onChange({ ...value, options: [...value.options, { digit, label: '', agentId }] });
+  };
+
+  const removeOption = (index: number) => {
+    if (!value) return;
+    onChange({ ...value, options: value.options.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={!!value}
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="rounded border-slate-300"
+        />
+        Keypad menu before the agent answers
+      </label>
+
+      {value && (
+        <div className="space-y-3 border rounded-md p-3">
+          <div className="space-y-1">
+            <Label htmlFor="ivrPrompt" className="text-muted-foreground">Menu Prompt</Label>
+            <Input
+              id="ivrPrompt"
+              value={value.prompt}
+              onChange={(e) => onChange({ ...value, prompt: e.target.value })}
+              maxLength={500}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-muted-foreground">Options</Label>
+            {value.options.map((option, index) => (
+              <div key={index} className="grid grid-cols-[4.5rem_1fr_1fr_auto] gap-2">
+                <select
+                  className="px-2 py-2 text-sm border rounded-md bg-white"
+                  value={option.digit}
+                  onChange={(e) => updateOption(index, { digit: e.target.value })}
+                >
+                  {MENU_KEYS.map((key) => (
+                    <option key={key} value={key}>Press {key}</option>
+                  ))}
+                </select>
+                <Input
+                  value={option.label}
+                  onChange={(e) => updateOption(index, { label: e.target.value })}
+                  placeholder="e.g., Support"
+                  maxLength={100}
+                />
+                <select
+                  className="px-3 py-2 text-sm border rounded-md bg-white"
+                  value={option.agentId}
+                  onChange={(e) => updateOption(index, { agentId: e.target.value })}
+                >
+                  {agents.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {a.name}{a.id === agentId ? ' (this agent)' : ''}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeOption(index)}
+                  disabled={value.options.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {value.options.length < 10 && (
+              <Button type="button" variant="outline" size="sm" onClick={addOption}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Option
+              </Button>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor="ivrTimeout" className="text-muted-foreground">Wait</Label>
+            <Input
+              id="ivrTimeout"
+              type="number"
+              min={2}
+              max={15}
+              value={value.timeoutSeconds}
+              onChange={(e) => onChange({ ...value, timeoutSeconds: parseInt(e.target.value) || 5 })}
+              className="w-20"
+            />
+            <span className="text-sm text-muted-foreground">seconds for a key press</span>
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Inbound callers hear the menu and are routed to the agent for the key they press. No key (or an unknown key twice) stays with this agent.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  BarChart as RechartsBarChart,
+  Bar as RechartsBar,
+  XAxis as RechartsXAxis,
+  YAxis as RechartsYAxis,
+  Tooltip as RechartsTooltip,
+  Legend as RechartsLegend,
+  ResponsiveContainer as RechartsResponsiveContainer,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { LatencyAnalytics } from '@/lib/api';
+import { Gauge } from 'lucide-react';
+
+// Fix for Recharts type compatibility with React 18
+const ResponsiveContainer = RechartsResponsiveContainer as any;
+const BarChart = RechartsBarChart as any;
+const Bar = RechartsBar as any;
+const XAxis = RechartsXAxis as any;
+const YAxis = RechartsYAxis as any;
+const Tooltip = RechartsTooltip as any;
+const Legend = RechartsLegend as any;
+
+const DIMENSIONS = [
+  { id: 'byAgent', name: 'Agent' },
+  { id: 'byModel', name: 'Model' },
+  { id: 'byVoiceProvider', name: 'Voice' },
+] as const;
+
+type Dimension = typeof DIMENSIONS[number]['id'];
+
+interface LatencyChartProps {
+  data: LatencyAnalytics | null;
+}
+
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`);
+
+export function LatencyChart({ data }: LatencyChartProps) {
+  const [dimension, setDimension] = useState<Dimension>('byAgent');
+
+  if (!data || data.overall.turns === 0) {
+    return null;
+  }
+
+  const groups = data[dimension].slice(0, 8);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="text-slate-600 flex items-center gap-2">
+            <Gauge className="h-5 w-5 text-teal-600" />
+            Response Latency
+          </CardTitle>
+          <CardDescription>
+            Caller stops speaking to first agent audio, last {data.days} days &middot; p50 {formatMs(data.overall.p50)} &middot; p95 {formatMs(data.overall.p95)} &middot; {data.overall.turns} turns
+          </CardDescription>
+        </div>
+        <div className="flex rounded-md border overflow-hidden shrink-0">
+          {DIMENSIONS.map((d) => (
+            <button
+              key={d.id}
+              onClick={() => setDimension(d.id)}
+              className={`px-3 py-1 text-xs ${dimension === d.id ? 'bg-teal-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+            >
+              {d.name}
+            </button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={groups} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <XAxis dataKey="label" tick={{ fontSize: 12 }} interval={0} />
+              <YAxis tickFormatter={formatMs} tick={{ fontSize: 12 }} width={50} />
+              <Tooltip
+                formatter={(value: number, name: string) => [formatMs(value), name]}
+                labelFormatter={(label: string) => {
+                  const group = groups.find((g) => g.label === label);
+                  return group ? `${label} (${group.turns} turns)` : label;
+                }}
+              />
+              <Legend />
+              <Bar dataKey="p50" name="p50" fill="#5eead4" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="p95" name="p95" fill="#0d9488" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
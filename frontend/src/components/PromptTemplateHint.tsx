@@ -0,0 +1,34 @@
+'use client';
+
+import { PROMPT_VARIABLES } from '@/lib/constants';
+import { findPromptTemplateErrors } from '@/lib/utils';
+
+interface PromptTemplateHintProps {
+  value: string;
+  templateVariables?: string[]; // A library template's own placeholders, filled in on create
+  showVariables?: boolean;
+}
+
+export function PromptTemplateHint({ value, templateVariables = [], showVariables = false }: PromptTemplateHintProps) {
+  const errors = findPromptTemplateErrors(value, templateVariables);
+
+  return (
+    <>
+      {errors.map((error) => (
+        <p key={error} className="text-xs text-red-600">{error}</p>
+      ))}
+      {showVariables && (
+        <p className="text-xs text-muted-foreground">
+          Personalize with variables:{' '}
+          {PROMPT_VARIABLES.map((variable, index) => (
+            <span key={variable.id}>
+              <code className="font-mono" title={variable.description}>{`{{${variable.id}}}`}</code>
+              {index < PROMPT_VARIABLES.length - 1 && ', '}
+            </span>
+          ))}
+          . Any campaign CSV column works too, e.g. <code className="font-mono">{'{{lead.first_name}}'}</code>. Unknown values are left blank.
+        </p>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { api, ApiError } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { findPromptTemplateErrors } from '@/lib/utils';
+import { BookmarkPlus, X, Loader2 } from 'lucide-react';
+
+interface SaveTemplateDialogProps {
+  agentId: string;
+  agentName: string;
+  systemPrompt: string;
+  onClose: () => void;
+}
+
+export function SaveTemplateDialog({ agentId, agentName, systemPrompt: agentPrompt, onClose }: SaveTemplateDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState(agentName);
+  const [description, setDescription] = useState('');
+  const [systemPrompt, setSystemPrompt] = useState(agentPrompt);
+  const [saving, setSaving] = useState(false);
+  const [mounted, setMounted] = useState(false);
+
+  // Use portal to render at document.body level (avoids z-index stacking context issues)
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({ title: 'Name required', description: 'Please enter a name for the template.', variant: 'destructive' });
+      return;
+    }
+
+    // Placeholders that aren't call variables are the template's own, so only syntax is checked here
+    const syntaxErrors = findPromptTemplateErrors(systemPrompt).filter((error) => !error.startsWith('Unknown variable'));
+    if (syntaxErrors.length > 0) {
+      toast({ title: 'Check your placeholders', description: syntaxErrors[0], variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.saveAgentAsTemplate({
+        agentId,
+        name: name.trim(),
+        description: description.trim() || undefined,
+        systemPrompt: systemPrompt !== agentPrompt ? systemPrompt : undefined,
+      });
+      toast({
+        title: 'Template saved',
+        description: `${name.trim()} is now available when creating agents.`,
+      });
+      onClose();
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to save template';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!mounted) return null;
+
+  const modalContent = (
+    <div className="fixed inset-0 z-[100] bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <BookmarkPlus className="h-5 w-5 text-slate-600" />
+              <CardTitle className="text-slate-600">Save as Template</CardTitle>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-muted-foreground hover:text-slate-600 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            Reuse this agent&apos;s prompt and greeting for new agents
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="templateName" className="text-muted-foreground">Template Name *</Label>
+            <Input
+              id="templateName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="templateDescription" className="text-muted-foreground">Description (optional)</Label>
+            <Input
+              id="templateDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g., Dental office receptionist with booking"
+              maxLength={500}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="templatePrompt" className="text-muted-foreground">Prompt</Label>
+            <textarea
+              id="templatePrompt"
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              className="w-full min-h-[160px] px-3 py-2 border rounded-md bg-background text-sm"
+            />
+            <p className="text-xs text-muted-foreground">
+              To reuse it across clients, swap client-specific details for placeholders like <code className="font-mono">{'{{office_hours}}'}</code>. They&apos;re filled in when an agent is created from the template. The agent itself isn&apos;t changed.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleSave}
+              className="flex-1 bg-teal-600 hover:bg-teal-700"
+              disabled={saving}
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save Template'
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+
+  // Render via portal to escape any stacking context
+  return createPortal(modalContent, document.body);
+}
@@ -39,6 +39,16 @@ export function useCallEvents(userId: string | null) {
     });
   }, [toast]);
 
+  const handleCallHold = useCallback((data: CallEventData & { onHold: boolean }) => {
+    console.log('[CallEvents] Call hold:', data);
+    toast({
+      title: data.onHold ? '⏸️ On Hold' : '🙋 Picked Up',
+      description: data.onHold
+        ? 'Agent is waiting on hold'
+        : 'A person picked up - the agent is talking again',
+    });
+  }, [toast]);
+
   useEffect(() => {
     if (!userId) return;
 
@@ -76,6 +86,7 @@ export function useCallEvents(userId: string | null) {
     // Listen for call events
     socket.on('call_started', handleCallStarted);
     socket.on('call_ended', handleCallEnded);
+    socket.on('call_hold', handleCallHold);
 
     // Also listen for active calls on initial connect
     socket.on('active_calls', (calls: CallEventData[]) => {
@@ -86,10 +97,11 @@ export function useCallEvents(userId: string | null) {
       console.log('[CallEvents] Cleaning up socket connection');
       socket.off('call_started', handleCallStarted);
       socket.off('call_ended', handleCallEnded);
+      socket.off('call_hold', handleCallHold);
       socket.disconnect();
       connectedRef.current = false;
     };
-  }, [userId, handleCallStarted, handleCallEnded]);
+  }, [userId, handleCallStarted, handleCallEnded, handleCallHold]);
 
   return socketRef.current;
 }
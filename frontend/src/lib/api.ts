@@ -19,6 +19,224 @@ interface ApiResponse<T> {
   };
 }
 
+export interface LatencySummary {
+  turns: number;
+  avg: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  avgStt: number;
+  avgLlm: number;
+  avgTts: number;
+}
+
+export interface LatencyGroup extends LatencySummary {
+  key: string;
+  label: string;
+}
+
+export interface LatencyAnalytics {
+  days: number;
+  overall: LatencySummary;
+  byAgent: LatencyGroup[];
+  byModel: LatencyGroup[];
+  byVoiceProvider: LatencyGroup[];
+}
+
+export interface IvrMenuOption {
+  digit: string;
+  label: string;
+  agentId: string;
+}
+
+export interface IvrMenu {
+  prompt: string;
+  options: IvrMenuOption[];
+  timeoutSeconds: number;
+}
+
+export type ExtractionFieldType = 'string' | 'number' | 'boolean' | 'date' | 'email' | 'phone' | 'enum';
+
+export interface ExtractionField {
+  key: string;
+  label: string;
+  type: ExtractionFieldType;
+  required: boolean;
+  description?: string;
+  options?: string[];
+  pattern?: string;
+  contactField?: 'name' | 'email' | 'notes';
+}
+
+export interface AgentTool {
+  id: string;
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  url: string;
+  headers: Record<string, string>;
+  responseTemplate: string | null;
+  timeoutMs: number;
+  isActive: boolean;
+}
+
+export type AgentToolInput = Omit<AgentTool, 'id'>;
+
+export interface ToolInvocation {
+  id?: string;
+  toolName: string;
+  arguments: Record<string, any>;
+  method: string;
+  url: string;
+  status: 'success' | 'error' | 'timeout';
+  responseStatus: number | null;
+  result: string | null;
+  error: string | null;
+  durationMs: number;
+  createdAt?: string;
+}
+
+export interface AgentVersion {
+  id: string;
+  version: number;
+  config: Record<string, any>; // Snapshot of the agent's prompts and settings
+  note: string | null;
+  changedFields: string[]; // Compared with the previous version
+  isCurrent: boolean;
+  createdAt: string;
+  _count: { calls: number; messages: number };
+}
+
+export interface SignificanceResult {
+  pValue: number | null;
+  significant: boolean;
+}
+
+export interface ExperimentVariant {
+  id: string;
+  name: string;
+  weight: number;
+  agent: { id: string; name: string; voice?: string };
+  _count: { calls: number };
+}
+
+export interface ExperimentVariantResults {
+  id: string;
+  name: string;
+  weight: number;
+  agent: { id: string; name: string };
+  calls: number;
+  completed: number;
+  avgDuration: number;
+  bookings: number;
+  bookingRate: number;
+  dispositions: Record<string, number>;
+  sentiments: Record<string, number>;
+  // Compared with the first (control) variant; null on the control
+  significance: {
+    duration: SignificanceResult;
+    bookingRate: SignificanceResult;
+    disposition: SignificanceResult;
+    sentiment: SignificanceResult;
+  } | null;
+}
+
+export interface Experiment {
+  id: string;
+  name: string;
+  status: 'running' | 'stopped';
+  phoneNumber: { id: string; phoneNumber: string; friendlyName: string | null } | null;
+  campaign: { id: string; name: string } | null;
+  variants: ExperimentVariant[];
+  stoppedAt: string | null;
+  createdAt: string;
+  results?: { variants: ExperimentVariantResults[]; enoughData: boolean };
+}
+
+export interface ExperimentInput {
+  name: string;
+  phoneNumberId?: string;
+  campaignId?: string;
+  variants: { name: string; agentId: string; weight: number }[];
+}
+
+export type DncSource = 'manual' | 'import' | 'sms_stop' | 'call_request';
+
+export interface DncEntry {
+  id: string;
+  phoneNumber: string;
+  source: DncSource;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface DncImportResult {
+  total: number;
+  added: number;
+  alreadyListed: number;
+  invalid: number;
+  leadsSkipped: number;
+}
+
+export type CampaignStepChannel = 'call' | 'sms';
+
+export type CampaignStepCondition = 'always' | 'not_reached' | 'no_answer' | 'voicemail' | 'reached';
+
+export interface CampaignStepInput {
+  channel: CampaignStepChannel;
+  condition: CampaignStepCondition;
+  delayMinutes: number;
+  message: string | null;
+  assetId: string | null;
+}
+
+export interface CampaignFunnelStep {
+  id: string;
+  position: number;
+  channel: CampaignStepChannel;
+  condition: CampaignStepCondition;
+  delayMinutes: number;
+  entered: number;
+  waiting: number;
+  outcomes: Record<string, number>;
+}
+
+export type PromptTemplateCategory = 'inbound' | 'outbound' | 'hybrid' | 'messaging' | 'other';
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  category: PromptTemplateCategory;
+  systemPrompt: string;
+  greeting: string | null;
+  variables: string[]; // Filled in when an agent is created from the template
+  usageCount: number;
+  isSystem: boolean;
+  isOwner: boolean;
+  updatedAt: string;
+}
+
+// Starting prompt per agent mode, with and without calendar tools
+export interface ModePrompts {
+  base: string;
+  withCalendar: string;
+}
+
+export interface ModePromptDefaults {
+  voice: Record<string, ModePrompts>;
+  messaging: Record<string, ModePrompts>;
+}
+
+export interface PromptTemplateInput {
+  name: string;
+  description?: string | null;
+  category: PromptTemplateCategory;
+  systemPrompt: string;
+  greeting?: string | null;
+}
+
 class ApiClient {
   private baseUrl: string;
   private token: string | null = null;
@@ -209,6 +427,113 @@ class ApiClient {
     });
   }
 
+  async getAgentWebhook(agentId: string) {
+    return this.request<{ url: string | null; events: string[]; secret: string | null }>(
+      `/api/agents/${agentId}/webhook`
+    );
+  }
+
+  async rotateAgentWebhookSecret(agentId: string) {
+    return this.request<{ secret: string }>(`/api/agents/${agentId}/webhook/rotate-secret`, {
+      method: 'POST',
+    });
+  }
+
+  async getWebhookDeliveries(agentId: string, params?: { page?: number; limit?: number }) {
+    const searchParams = new URLSearchParams();
+    if (params?.page) searchParams.set('page', params.page.toString());
+    if (params?.limit) searchParams.set('limit', params.limit.toString());
+
+    const query = searchParams.toString();
+    return this.request<any[]>(`/api/agents/${agentId}/webhook-deliveries${query ? `?${query}` : ''}`);
+  }
+
+  async redeliverWebhook(agentId: string, deliveryId: string) {
+    return this.request<{ queued: boolean }>(
+      `/api/agents/${agentId}/webhook-deliveries/${deliveryId}/redeliver`,
+      { method: 'POST' }
+    );
+  }
+
+  // Agent version endpoints
+  async getAgentVersions(agentId: string) {
+    return this.request<AgentVersion[]>(`/api/agents/${agentId}/versions`);
+  }
+
+  async rollbackAgentVersion(agentId: string, versionId: string) {
+    return this.request<any>(`/api/agents/${agentId}/versions/${versionId}/rollback`, {
+      method: 'POST',
+    });
+  }
+
+  // Custom tool endpoints
+  async getAgentTools(agentId: string) {
+    return this.request<AgentTool[]>(`/api/agents/${agentId}/tools`);
+  }
+
+  async createAgentTool(agentId: string, data: AgentToolInput) {
+    return this.request<AgentTool>(`/api/agents/${agentId}/tools`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateAgentTool(agentId: string, toolId: string, data: Partial<AgentToolInput>) {
+    return this.request<AgentTool>(`/api/agents/${agentId}/tools/${toolId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteAgentTool(agentId: string, toolId: string) {
+    return this.request<{ deleted: boolean }>(`/api/agents/${agentId}/tools/${toolId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async testAgentTool(agentId: string, toolId: string, args: Record<string, any>) {
+    return this.request<ToolInvocation>(`/api/agents/${agentId}/tools/${toolId}/test`, {
+      method: 'POST',
+      body: JSON.stringify({ arguments: args }),
+    });
+  }
+
+  // Prompt template endpoints
+  async getPromptTemplates(category?: PromptTemplateCategory) {
+    return this.request<PromptTemplate[]>(`/api/prompt-templates${category ? `?category=${category}` : ''}`);
+  }
+
+  async getModePromptDefaults() {
+    return this.request<ModePromptDefaults>('/api/prompt-templates/mode-defaults');
+  }
+
+  async createPromptTemplate(data: PromptTemplateInput) {
+    return this.request<PromptTemplate>('/api/prompt-templates', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async saveAgentAsTemplate(data: { agentId: string; name: string; description?: string; category?: PromptTemplateCategory; systemPrompt?: string }) {
+    return this.request<PromptTemplate>('/api/prompt-templates/from-agent', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updatePromptTemplate(id: string, data: Partial<PromptTemplateInput>) {
+    return this.request<PromptTemplate>(`/api/prompt-templates/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deletePromptTemplate(id: string) {
+    return this.request<{ deleted: boolean }>(`/api/prompt-templates/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Asset endpoints
   async getAssets(params?: { category?: string; agentId?: string }) {
     const searchParams = new URLSearchParams();
@@ -269,6 +594,8 @@ class ApiClient {
     limit?: number;
     agentId?: string;
     status?: string;
+    endReason?: string;
+    disposition?: string;
     startDate?: string;
     endDate?: string;
   }) {
@@ -277,6 +604,8 @@ class ApiClient {
     if (params?.limit) searchParams.set('limit', params.limit.toString());
     if (params?.agentId) searchParams.set('agentId', params.agentId);
     if (params?.status) searchParams.set('status', params.status);
+    if (params?.endReason) searchParams.set('endReason', params.endReason);
+    if (params?.disposition) searchParams.set('disposition', params.disposition);
     if (params?.startDate) searchParams.set('startDate', params.startDate);
     if (params?.endDate) searchParams.set('endDate', params.endDate);
 
@@ -284,6 +613,27 @@ class ApiClient {
     return this.request<any[]>(`/api/calls${query ? `?${query}` : ''}`);
   }
 
+  // CSV of the calls matching the filters, including collected data
+  async exportCalls(params?: {
+    agentId?: string;
+    status?: string;
+    endReason?: string;
+    disposition?: string;
+    startDate?: string;
+    endDate?: string;
+  }) {
+    const searchParams = new URLSearchParams();
+    if (params?.agentId) searchParams.set('agentId', params.agentId);
+    if (params?.status) searchParams.set('status', params.status);
+    if (params?.endReason) searchParams.set('endReason', params.endReason);
+    if (params?.disposition) searchParams.set('disposition', params.disposition);
+    if (params?.startDate) searchParams.set('startDate', params.startDate);
+    if (params?.endDate) searchParams.set('endDate', params.endDate);
+
+    const query = searchParams.toString();
+    return this.fetchBlob(`/api/calls/export${query ? `?${query}` : ''}`);
+  }
+
   async getCall(id: string) {
     return this.request<any>(`/api/calls/${id}`);
   }
@@ -322,6 +672,15 @@ class ApiClient {
     );
   }
 
+  async getLatencyAnalytics(params?: { days?: number; agentId?: string }) {
+    const searchParams = new URLSearchParams();
+    if (params?.days) searchParams.set('days', params.days.toString());
+    if (params?.agentId) searchParams.set('agentId', params.agentId);
+
+    const query = searchParams.toString();
+    return this.request<LatencyAnalytics>(`/api/calls/analytics/latency${query ? `?${query}` : ''}`);
+  }
+
   // Messaging/Conversation endpoints
   async getConversations(params?: {
     page?: number;
@@ -547,6 +906,24 @@ class ApiClient {
     });
   }
 
+  // Campaign dialing endpoints
+  async getDialingSettings() {
+    return this.request<{
+      maxConcurrentCalls: number | null;
+      planLimit: number;
+    }>('/api/settings/dialing');
+  }
+
+  async updateDialingSettings(data: { maxConcurrentCalls: number | null }) {
+    return this.request<{
+      maxConcurrentCalls: number | null;
+      planLimit: number;
+    }>('/api/settings/dialing', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
   // Billing endpoints
   async getBillingStatus() {
     return this.request<{
@@ -788,8 +1165,14 @@ class ApiClient {
     });
   }
 
-  async getCampaignLeads(campaignId: string, params?: { page?: number; limit?: number; status?: string }, signal?: AbortSignal) {
-    const query = new URLSearchParams(params as any).toString();
+  async getCampaignLeads(campaignId: string, params?: { page?: number; limit?: number; status?: string; outcome?: string }, signal?: AbortSignal) {
+    const searchParams = new URLSearchParams();
+    if (params?.page) searchParams.set('page', params.page.toString());
+    if (params?.limit) searchParams.set('limit', params.limit.toString());
+    if (params?.status) searchParams.set('status', params.status);
+    if (params?.outcome) searchParams.set('outcome', params.outcome);
+
+    const query = searchParams.toString();
     return this.request<any[]>(`/api/campaigns/${campaignId}/leads?${query}`, {}, signal);
   }
 
@@ -819,6 +1202,67 @@ class ApiClient {
       method: 'POST',
     });
   }
+
+  // ============================================
+  // Experiments
+  // ============================================
+
+  async getExperiments() {
+    return this.request<Experiment[]>('/api/experiments');
+  }
+
+  async getExperiment(id: string) {
+    return this.request<Experiment>(`/api/experiments/${id}`);
+  }
+
+  async createExperiment(data: ExperimentInput) {
+    return this.request<Experiment>('/api/experiments', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async stopExperiment(id: string) {
+    return this.request<Experiment>(`/api/experiments/${id}/stop`, { method: 'POST' });
+  }
+
+  async deleteExperiment(id: string) {
+    return this.request<{ deleted: boolean }>(`/api/experiments/${id}`, { method: 'DELETE' });
+  }
+
+  // Do Not Call list
+  async getDncEntries(params?: { search?: string; source?: string; page?: number; limit?: number }) {
+    const searchParams = new URLSearchParams();
+    if (params?.search) searchParams.set('search', params.search);
+    if (params?.source) searchParams.set('source', params.source);
+    if (params?.page) searchParams.set('page', params.page.toString());
+    if (params?.limit) searchParams.set('limit', params.limit.toString());
+
+    const query = searchParams.toString();
+    return this.request<DncEntry[]>(`/api/dnc${query ? `?${query}` : ''}`);
+  }
+
+  async addDncEntry(data: { phoneNumber: string; reason?: string }) {
+    return this.request<DncEntry>('/api/dnc', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async importDncList(csvData: string) {
+    return this.request<DncImportResult>('/api/dnc/import', {
+      method: 'POST',
+      body: JSON.stringify({ csvData }),
+    });
+  }
+
+  async exportDncList() {
+    return this.fetchBlob('/api/dnc/export');
+  }
+
+  async deleteDncEntry(id: string) {
+    return this.request<{ deleted: boolean }>(`/api/dnc/${id}`, { method: 'DELETE' });
+  }
 }
 
 export class ApiError extends Error {
@@ -1,3 +1,5 @@
+import type { ModePromptDefaults } from './api';
+
 // Voice provider constants
 
 export const ELEVENLABS_VOICES = [
@@ -25,6 +27,17 @@ export const DEFAULT_LLM_MODELS = [
   { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', provider: 'openai' },
 ] as const;
 
+export const LLM_PROVIDERS = [
+  { id: 'openai', name: 'OpenAI' },
+  { id: 'openai-compatible', name: 'OpenAI-compatible endpoint' },
+] as const;
+
+export type LLMProvider = typeof LLM_PROVIDERS[number]['id'];
+
+export function getLLMModelName(modelId: string): string {
+  return DEFAULT_LLM_MODELS.find(m => m.id === modelId)?.name || modelId;
+}
+
 // Error codes
 export const ERROR_CODES = {
   // Auth errors
@@ -92,6 +105,149 @@ export const STATUS_COLORS: Record<string, string> = {
   default: 'bg-slate-100 text-slate-600',
 };
 
+// Agent languages (matches backend SUPPORTED_LANGUAGES)
+export const SUPPORTED_LANGUAGES = [
+  { code: 'en-US', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'it', name: 'Italian' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ru', name: 'Russian' },
+] as const;
+
+export function getLanguageName(code: string): string {
+  const base = code.split('-')[0].toLowerCase();
+  return SUPPORTED_LANGUAGES.find(l => l.code.split('-')[0] === base)?.name || code;
+}
+
+// Campaign timezones; leads are called inside the call window on their own clock
+export const CAMPAIGN_TIMEZONES = [
+  { value: 'America/New_York', name: 'Eastern' },
+  { value: 'America/Chicago', name: 'Central' },
+  { value: 'America/Denver', name: 'Mountain' },
+  { value: 'America/Phoenix', name: 'Arizona' },
+  { value: 'America/Los_Angeles', name: 'Pacific' },
+  { value: 'America/Anchorage', name: 'Alaska' },
+  { value: 'Pacific/Honolulu', name: 'Hawaii' },
+  { value: 'America/Halifax', name: 'Atlantic' },
+  { value: 'Europe/London', name: 'London' },
+  { value: 'Europe/Paris', name: 'Central Europe' },
+  { value: 'Australia/Sydney', name: 'Sydney' },
+] as const;
+
+export function getTimezoneName(timezone: string): string {
+  return CAMPAIGN_TIMEZONES.find(t => t.value === timezone)?.name || timezone;
+}
+
+// Barge-in sensitivity: how long the caller talks over the agent before it stops (Agent.interruptThreshold)
+export const INTERRUPT_THRESHOLDS = [
+  { value: 250, name: 'Sensitive', description: 'Stops almost as soon as the caller speaks' },
+  { value: 500, name: 'Balanced', description: 'Ignores brief noises and short replies' },
+  { value: 1000, name: 'Patient', description: 'Keeps talking unless the caller says a full phrase' },
+] as const;
+
+export function getInterruptThresholdName(value: number): string {
+  return INTERRUPT_THRESHOLDS.find(t => t.value === value)?.name || `${value}ms`;
+}
+
+// Post-call dispositions (matches backend CALL_DISPOSITIONS)
+export const CALL_DISPOSITIONS: Record<string, string> = {
+  booked: 'Booked',
+  not_interested: 'Not interested',
+  do_not_call: 'Do not call',
+  callback_requested: 'Callback requested',
+  wrong_number: 'Wrong number',
+  voicemail: 'Voicemail',
+  other: 'Other',
+};
+
+// How a number got on the Do Not Call list (matches backend DNC_SOURCES)
+export const DNC_SOURCES: Record<string, string> = {
+  manual: 'Added manually',
+  import: 'CSV import',
+  sms_stop: 'Replied STOP',
+  call_request: 'Asked on a call',
+};
+
+// Campaign sequence steps (matches backend CAMPAIGN_STEP_CHANNELS / CAMPAIGN_STEP_CONDITIONS)
+export const CAMPAIGN_STEP_CHANNELS: Record<string, string> = {
+  call: 'Call',
+  sms: 'SMS',
+};
+
+export const CAMPAIGN_STEP_CONDITIONS: Record<string, string> = {
+  always: 'Always',
+  not_reached: 'Not reached',
+  no_answer: 'No answer or busy',
+  voicemail: 'Went to voicemail',
+  reached: 'Reached',
+};
+
+export const CAMPAIGN_STEP_LIMIT = 10;
+
+// Agent webhook events (matches backend AGENT_WEBHOOK_EVENTS)
+export const AGENT_WEBHOOK_EVENTS = [
+  { id: 'call.started', description: 'A call connects to the agent' },
+  { id: 'call.ended', description: 'A call ends, with transcript and summary' },
+  { id: 'message.received', description: 'An SMS or MMS arrives on the agent\'s number' },
+  { id: 'appointment.booked', description: 'The agent books an appointment' },
+  { id: 'campaign.completed', description: 'A campaign using the agent finishes' },
+] as const;
+
+// Call end reasons (matches backend CALL_END_REASONS)
+export const CALL_END_REASONS: Record<string, string> = {
+  caller_hangup: 'Caller hung up',
+  agent_hangup: 'Agent ended call',
+  end_call_phrase: 'End-call phrase',
+  transferred: 'Transferred to human',
+  transfer_failed: 'Transfer failed',
+  max_duration: 'Time limit reached',
+  quota_exhausted: 'Out of minutes',
+  voicemail: 'Reached voicemail',
+};
+
+// Answering machine detection results on outbound calls (Twilio AnsweredBy)
+export const ANSWERED_BY: Record<string, string> = {
+  human: 'Person',
+  machine_start: 'Answering machine',
+  machine_end_beep: 'Answering machine',
+  machine_end_silence: 'Answering machine',
+  machine_end_other: 'Answering machine',
+  fax: 'Fax',
+  unknown: 'Unknown',
+};
+
+// Extraction field types (matches backend EXTRACTION_FIELD_TYPES)
+export const EXTRACTION_FIELD_TYPES = [
+  { id: 'string', name: 'Text' },
+  { id: 'number', name: 'Number' },
+  { id: 'boolean', name: 'Yes / No' },
+  { id: 'date', name: 'Date' },
+  { id: 'email', name: 'Email' },
+  { id: 'phone', name: 'Phone' },
+  { id: 'enum', name: 'Choice' },
+] as const;
+
+// {{variables}} for prompts and greetings (matches backend PROMPT_VARIABLES).
+// lead.<column> also reads any uploaded CSV column, e.g. "First Name" -> {{lead.first_name}}
+export const PROMPT_VARIABLES = [
+  { id: 'lead.name', description: 'Campaign lead name' },
+  { id: 'lead.phone', description: 'Campaign lead phone number' },
+  { id: 'lead.email', description: 'Campaign lead email' },
+  { id: 'contact.name', description: 'Saved contact name' },
+  { id: 'contact.email', description: 'Saved contact email' },
+  { id: 'business.name', description: 'Your organization name' },
+  { id: 'business.industry', description: 'Your industry' },
+  { id: 'caller.phone', description: "The other party's phone number" },
+  { id: 'date', description: "Today's date" },
+  { id: 'time', description: 'Current time' },
+  { id: 'weekday', description: 'Day of the week' },
+] as const;
+
 export const AGENT_STATUS_COLORS = {
   active: 'bg-green-100 text-green-700',
   inactive: 'bg-slate-100 text-slate-600',
@@ -295,339 +451,6 @@ export const CALL_PURPOSES = {
 
 export type CallPurposeType = keyof typeof CALL_PURPOSES;
 
-// Mode-specific system prompt templates
-export const MODE_SYSTEM_PROMPTS: Record<AgentMode, { base: string; withCalendar: string }> = {
-  INBOUND: {
-    base: `You are a professional and friendly inbound call receptionist. Callers are reaching out to you, so your job is to welcome them warmly and assist with their needs.
-
-CORE BEHAVIORS:
-- Answer with a warm, professional greeting
-- Listen carefully to understand why they're calling
-- Ask clarifying questions when needed
-- Provide helpful information or route them appropriately
-- Keep responses concise (1-3 sentences at a time)
-- Never leave callers waiting without explanation
-
-CONVERSATION STYLE:
-- Be patient and attentive - they called you for help
-- Use the caller's name once you learn it
-- Match your energy to theirs (calm caller = calm response)
-- If you can't help with something, explain what you CAN do
-
-HANDLING COMMON SCENARIOS:
-- General inquiries: Answer questions clearly, offer to provide more details
-- Complaints: Acknowledge their frustration, focus on solutions
-- Transfers: Explain who you're connecting them with and why
-- Callbacks: Confirm their number and expected timeframe`,
-
-    withCalendar: `You are a professional and friendly inbound call receptionist with scheduling capabilities. Callers are reaching out to you, so your job is to welcome them warmly and assist with their needs, including booking appointments.
-
-CORE BEHAVIORS:
-- Answer with a warm, professional greeting
-- Listen carefully to understand why they're calling
-- If they want to schedule, check availability immediately using the calendar tools
-- Collect required information: name and email address (email is REQUIRED for booking)
-- Keep responses concise (1-3 sentences at a time)
-
-SCHEDULING FLOW:
-1. When caller mentions scheduling/appointment/meeting, use check_calendar_availability tool
-2. Present 2-3 available time options conversationally
-3. Once they choose, collect their name and email (email is REQUIRED)
-4. Use book_appointment tool to confirm the booking
-5. Repeat the confirmed date/time back to them
-
-CONVERSATION STYLE:
-- Be patient and attentive - they called you for help
-- Use the caller's name once you learn it
-- For scheduling, be proactive: "Let me check what times are available"
-- Always confirm booking details before ending the call
-
-IMPORTANT: Never guess or make up available times - always use the calendar tool to check real availability.`
-  },
-  
-  OUTBOUND: {
-    base: `You are a professional outbound calling agent. You are initiating this call, so be respectful of the recipient's time and get to the point efficiently.
-
-CORE BEHAVIORS:
-- Introduce yourself and your organization immediately
-- State the purpose of your call within the first 15 seconds
-- Be prepared for rejection and handle it gracefully
-- Keep the call focused and time-efficient
-- Ask permission before continuing: "Is this a good time?"
-
-CONVERSATION STYLE:
-- Confident but not pushy
-- Respectful of their time - they didn't initiate this call
-- Have a clear goal for the call
-- If they're busy, offer to call back at a better time
-
-HANDLING OBJECTIONS:
-- "I'm busy": "I understand - when would be a better time to call back?"
-- "Not interested": "I appreciate your time. May I ask what would make this more relevant?"
-- "How did you get my number?": Be honest and transparent about your source
-
-CALL STRUCTURE:
-1. Greeting + introduction (who you are, why calling)
-2. Value proposition (what's in it for them)
-3. Engagement question (qualify their interest)
-4. Next steps or graceful close
-5. Thank them regardless of outcome`,
-
-    withCalendar: `You are a professional outbound calling agent with scheduling capabilities. You are initiating this call to offer valuable appointments or consultations.
-
-CORE BEHAVIORS:
-- Introduce yourself and your organization immediately
-- State the purpose: you're calling to help them schedule a valuable meeting
-- Be prepared for rejection and handle it gracefully
-- Ask permission before continuing: "Is this a good time?"
-
-SCHEDULING FLOW:
-1. After establishing rapport, mention the appointment opportunity
-2. If interested, use check_calendar_availability to find times
-3. Present 2-3 options that work for their schedule
-4. Collect: name (confirm spelling), email (REQUIRED for confirmation)
-5. Use book_appointment to lock in the time
-6. Confirm details and explain what happens next
-
-CONVERSATION STYLE:
-- Confident but not pushy - you're offering something valuable
-- Be efficient with their time
-- If they're interested but busy: "Let me quickly check availability and find a time that works"
-- Handle scheduling naturally as part of the conversation
-
-HANDLING OBJECTIONS:
-- "I'm busy": "I can check availability right now - takes 30 seconds"
-- "Send me an email": "Happy to, but I can also confirm a time right now while I have you"
-- "Not interested": Thank them and end gracefully
-
-IMPORTANT: The email address is REQUIRED for booking - always collect it before using book_appointment.`
-  },
-  
-  HYBRID: {
-    base: `You are a versatile phone agent capable of handling both incoming and outgoing calls. Adapt your approach based on the call direction.
-
-FOR INBOUND CALLS (they called you):
-- Answer with a warm, professional greeting
-- Be patient and helpful - they reached out for assistance
-- Listen first, then respond to their specific needs
-- Take time to understand their situation fully
-
-FOR OUTBOUND CALLS (you called them):
-- Introduce yourself and state your purpose immediately
-- Be respectful of their time - they didn't expect this call
-- Ask "Is this a good time?" early in the conversation
-- Have a clear goal and be efficient
-
-CORE BEHAVIORS BOTH MODES:
-- Keep responses concise (1-3 sentences)
-- Use their name once you learn it
-- Be professional but personable
-- If you can't help, explain what you CAN do
-- End calls on a positive note
-
-CONVERSATION STYLE:
-- Match your energy to the caller's tone
-- Be adaptable - some calls are quick, others need time
-- Stay focused on helping them achieve their goal`,
-
-    withCalendar: `You are a versatile phone agent with scheduling capabilities, handling both incoming and outgoing calls. Adapt your approach based on the call direction while maintaining booking capabilities.
-
-FOR INBOUND CALLS (they called you):
-- Answer with a warm, professional greeting
-- If they mention scheduling, check availability immediately
-- Be patient and helpful - they reached out for assistance
-- Offer convenient appointment options proactively
-
-FOR OUTBOUND CALLS (you called them):
-- Introduce yourself and state your purpose immediately
-- If offering appointments, have availability ready
-- Be respectful of their time
-- Ask "Is this a good time?" early in the conversation
-
-SCHEDULING FLOW (BOTH MODES):
-1. When scheduling comes up, use check_calendar_availability tool
-2. Present 2-3 convenient time options
-3. Collect required info: name and email (email is REQUIRED)
-4. Use book_appointment to confirm
-5. Verify the booking details with them
-
-CORE BEHAVIORS:
-- Keep responses concise (1-3 sentences)
-- For scheduling: "Let me check what times work" - then use the tool
-- Never guess availability - always check the calendar
-- Confirm all booking details before ending
-
-IMPORTANT: Email address is REQUIRED for all bookings. Always ask for and verify the email before using book_appointment.`
-  }
-};
-
-// Messaging-specific system prompt templates (for SMS/MMS)
-export const MESSAGING_SYSTEM_PROMPTS: Record<AgentMode, { base: string; withCalendar: string }> = {
-  INBOUND: {
-    base: `You are a professional and friendly text messaging assistant. People are texting you for help, so respond promptly and helpfully.
-
-CORE BEHAVIORS:
-- Respond within 1-2 short sentences when possible
-- Be clear and concise - texts should be easy to read quickly
-- Use friendly but professional language
-- Ask one question at a time to keep the conversation flowing
-- If something needs explanation, break it into multiple messages
-
-TEXT MESSAGING STYLE:
-- Keep messages under 160 characters when possible (SMS limit)
-- Use simple, direct language
-- It's okay to use common abbreviations (e.g., "appt" for appointment)
-- Avoid long paragraphs - bullet points or separate messages work better
-- Use emojis sparingly for warmth (1-2 max per message) 👋
-
-HANDLING COMMON SCENARIOS:
-- Quick questions: Answer directly and offer to help with more
-- Complex topics: Break into multiple shorter messages
-- Complaints: Acknowledge, apologize briefly, focus on resolution
-- Unclear messages: Ask one clarifying question`,
-
-    withCalendar: `You are a professional text messaging assistant with scheduling capabilities. Help people book appointments efficiently via text.
-
-CORE BEHAVIORS:
-- Respond concisely - texts should be scannable
-- When they want to schedule, check availability immediately
-- Present time options as a numbered list for easy selection
-- Collect name and email (email REQUIRED for booking)
-
-SCHEDULING FLOW:
-1. User mentions scheduling → use check_calendar_availability
-2. Present options like:
-   "I have these times:
-   1️⃣ Mon 10am
-   2️⃣ Tue 2pm
-   3️⃣ Wed 11am
-   Reply with a number!"
-3. After they choose, get their email
-4. Use book_appointment and confirm
-
-TEXT MESSAGING STYLE:
-- Keep messages short and scannable
-- Use numbered lists for options
-- One question at a time
-- Confirm bookings with all details
-
-IMPORTANT: Email is REQUIRED for booking. Always collect it before confirming.`
-  },
-  
-  OUTBOUND: {
-    base: `You are a professional outbound text messaging agent. You're reaching out to people, so be respectful and get to the point quickly.
-
-CORE BEHAVIORS:
-- Introduce yourself and your purpose in the first message
-- Keep texts short and scannable
-- Be prepared for no response - that's okay
-- Offer value before asking for anything
-- Make it easy to opt-out
-
-OUTBOUND TEXT STYLE:
-- First message: Who you are + why you're texting + value prop
-- Keep under 160 characters per message when possible
-- Ask one thing at a time
-- Make responses easy (yes/no, numbers, etc.)
-
-MESSAGE STRUCTURE:
-1. "Hi [Name]! This is [Agent] from [Company]."
-2. Brief value proposition
-3. Simple call-to-action or question
-4. "Reply STOP to opt out"
-
-HANDLING RESPONSES:
-- "Who is this?": Reintroduce yourself clearly
-- No response: One follow-up max, then stop
-- "Stop/Unsubscribe": Acknowledge and confirm removal immediately`,
-
-    withCalendar: `You are a professional outbound text messaging agent with scheduling capabilities. You're reaching out to help people book valuable appointments.
-
-CORE BEHAVIORS:
-- Introduce yourself and purpose clearly
-- Offer appointment booking as a convenience
-- Present availability in easy-to-choose format
-- Collect name and email for booking (email REQUIRED)
-
-OUTBOUND SCHEDULING FLOW:
-1. Introduce: "Hi! This is [Agent] from [Company]. I'm reaching out about scheduling your [appointment type]."
-2. If interested, use check_calendar_availability
-3. Send numbered options:
-   "Available times:
-   1️⃣ Mon 10am
-   2️⃣ Tue 3pm
-   Reply with a number or suggest another time!"
-4. Collect email before booking
-5. Confirm with book_appointment
-
-TEXT STYLE:
-- First message under 160 chars with clear purpose
-- Numbered lists for easy selection
-- One question at a time
-- Include opt-out option: "Reply STOP to opt out"
-
-IMPORTANT: Always collect email before booking. Be respectful - no response after one follow-up means stop.`
-  },
-  
-  HYBRID: {
-    base: `You are a versatile text messaging agent handling both incoming and outgoing conversations. Adapt your style based on who initiated.
-
-FOR INBOUND TEXTS (they texted you):
-- They want help - be responsive and helpful
-- Answer their questions directly
-- Be patient with back-and-forth
-
-FOR OUTBOUND TEXTS (you texted them):
-- You're reaching out - respect their time
-- State your purpose immediately
-- Make it easy to respond or opt-out
-
-CORE TEXT BEHAVIORS:
-- Keep messages short (under 160 chars when possible)
-- One question or topic at a time
-- Use numbered lists for multiple options
-- Be professional but warm
-- Quick, helpful responses
-
-HANDLING BOTH MODES:
-- Inbound: Focus on solving their issue
-- Outbound: Focus on delivering value quickly
-- Both: Make responding easy with clear options`,
-
-    withCalendar: `You are a versatile text messaging agent with scheduling capabilities, handling both incoming and outgoing conversations.
-
-FOR INBOUND (they texted you):
-- If they mention scheduling, check availability right away
-- Be helpful and responsive
-- Guide them through booking step by step
-
-FOR OUTBOUND (you texted them):
-- Introduce yourself and offer scheduling
-- Make booking convenient and quick
-- Respect if they don't respond
-
-SCHEDULING FLOW (BOTH):
-1. Use check_calendar_availability when scheduling comes up
-2. Present options as numbered list:
-   "Times available:
-   1️⃣ Mon 10am
-   2️⃣ Tue 2pm
-   3️⃣ Wed 11am
-   Reply with a number!"
-3. Collect name and email (email REQUIRED)
-4. Confirm with book_appointment
-5. Send confirmation with all details
-
-TEXT STYLE:
-- Short, scannable messages
-- Numbered options for easy reply
-- One question at a time
-- Confirm all booking details
-
-IMPORTANT: Email is REQUIRED for all bookings.`
-  }
-};
-
 // Business context type for system prompt injection
 export interface BusinessContext {
   organizationName?: string;
@@ -638,16 +461,20 @@ export interface BusinessContext {
 }
 
 // Helper function to get the appropriate system prompt for a mode
+// Mode prompts come from the API (api.getModePromptDefaults); empty until they've loaded
 export function getSystemPromptForMode(
+  defaults: ModePromptDefaults | null,
   mode: AgentMode, 
   hasCalendarAccess: boolean,
   businessContext?: BusinessContext,
   communicationChannel: CommunicationChannel = 'VOICE_ONLY'
 ): string {
+  if (!defaults) return '';
+
   // Use messaging prompts for MESSAGING_ONLY channel, voice prompts otherwise
   const promptSource = communicationChannel === 'MESSAGING_ONLY' 
-    ? MESSAGING_SYSTEM_PROMPTS 
-    : MODE_SYSTEM_PROMPTS;
+    ? defaults.messaging 
+    : defaults.voice;
   
   const prompts = promptSource[mode];
   let prompt = hasCalendarAccess ? prompts.withCalendar : prompts.base;
@@ -689,11 +516,12 @@ export function getSystemPromptForMode(
 
 // Helper function to get messaging-specific system prompt
 export function getMessagingSystemPrompt(
+  defaults: ModePromptDefaults | null,
   mode: AgentMode,
   hasCalendarAccess: boolean,
   businessContext?: BusinessContext
 ): string {
-  return getSystemPromptForMode(mode, hasCalendarAccess, businessContext, 'MESSAGING_ONLY');
+  return getSystemPromptForMode(defaults, mode, hasCalendarAccess, businessContext, 'MESSAGING_ONLY');
 }
 
 // Check if a communication channel supports voice
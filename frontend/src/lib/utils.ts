@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { PROMPT_VARIABLES } from "./constants"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -54,3 +55,22 @@ export function formatRelativeTime(date: string | Date): string {
   if (minutes > 0) return `${minutes}m ago`
   return 'Just now'
 }
+
+// Same checks as the backend: unclosed braces, bad names and unknown {{variables}}.
+// templateVariables are the library template's own placeholders, filled in on create
+export function findPromptTemplateErrors(template: string, templateVariables: string[] = []): string[] {
+  const errors: string[] = []
+
+  for (const match of Array.from(template.matchAll(/\{\{(.*?)(\}\}|$)/gm))) {
+    const name = match[1].trim()
+    if (!match[2]) {
+      errors.push(`"{{${match[1].slice(0, 30)}" is missing its closing }}`)
+    } else if (!/^[a-z]\w*(\.\w+)*$/i.test(name)) {
+      errors.push(`"{{${match[1]}}}" is not a valid variable name`)
+    } else if (!/^lead\.\w+$/.test(name) && !PROMPT_VARIABLES.some((v) => v.id === name) && !templateVariables.includes(name)) {
+      errors.push(`Unknown variable {{${name}}}`)
+    }
+  }
+
+  return errors
+}